@@ -1,31 +1,31 @@
 import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
+import { NavigationEnd, Router, RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { CommonModule } from '@angular/common';
-import { DashboardComponent } from './components/dashboard/dashboard.component';
-import { LoginComponent } from './components/login/login.component';
-import { ConnectionsComponent } from './components/connections/connections.component';
-import { JournalComponent } from './components/journal/journal.component';
-import { GoalsComponent } from './components/goals/goals.component';
-import { TasksComponent } from './components/tasks/tasks.component';
-import { IssuesComponent } from './components/issues/issues.component';
-import { SettingsComponent } from './components/settings/settings.component';
-import { OpenArenaChatComponent } from './components/dashboard/open-arena-chat/open-arena-chat.component';
-import { GitHubAIService, RateLimitInfo } from './services/github-ai.service';
+import { AiService, RateLimitInfo } from './services/ai.service';
 import { AuthService } from './services/auth.service';
 import { NavigationService, AppView } from './services/navigation.service';
 import { ToastService } from './services/toast.service';
 import { MsGraphConnectService } from './services/ms-graph-connect.service';
+import { LinearIssueWatcherService } from './services/linear-issue-watcher.service';
+import { DailyBriefingService } from './services/daily-briefing.service';
+import { TaskLinkService } from './services/task-link.service';
+import { MeetingTimeService } from './services/meeting-time.service';
+import { CommandPaletteService } from './services/command-palette.service';
 import { ToastComponent } from './components/toast/toast.component';
 import { MsGraphConnectModalComponent } from './components/ms-graph-connect-modal/ms-graph-connect-modal.component';
+import { VaultUnlockComponent } from './components/vault-unlock/vault-unlock.component';
+import { CommandPaletteComponent } from './components/command-palette/command-palette.component';
+import { FocusBarComponent } from './components/focus-bar/focus-bar.component';
 import { TouchTooltipDirective } from './directives/touch-tooltip.directive';
 import { DropdownAlignDirective } from './directives/dropdown-align.directive';
 import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
 import { User } from '@angular/fire/auth';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, DashboardComponent, LoginComponent, ConnectionsComponent, JournalComponent, GoalsComponent, TasksComponent, IssuesComponent, SettingsComponent, OpenArenaChatComponent, CommonModule, ToastComponent, MsGraphConnectModalComponent, TouchTooltipDirective, DropdownAlignDirective],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, CommonModule, ToastComponent, MsGraphConnectModalComponent, VaultUnlockComponent, CommandPaletteComponent, FocusBarComponent, TouchTooltipDirective, DropdownAlignDirective],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
@@ -36,16 +36,27 @@ export class AppComponent implements OnInit, OnDestroy {
   showSetupPrompt = false;
   currentUser: User | null = null;
   authLoaded = false;
-  currentView: 'dashboard' | 'connections' | 'journal' | 'goals' | 'tasks' | 'open-arena-chat' | 'issues' | 'settings' = 'dashboard';
+  currentView: AppView = 'dashboard';
+  isLoginPage = false;
   showUserMenu = false;
   private subscriptions = new Subscription();
 
   constructor(
-    public githubAIService: GitHubAIService,
+    public aiService: AiService,
     private authService: AuthService,
     private navigationService: NavigationService,
     private toastService: ToastService,
-    private msGraphConnectService: MsGraphConnectService
+    private msGraphConnectService: MsGraphConnectService,
+    private router: Router,
+    private commandPalette: CommandPaletteService,
+    // Injected so the watcher starts diffing Linear issues as soon as the app boots
+    private linearIssueWatcher: LinearIssueWatcherService,
+    // Injected so today's briefing is generated on schedule whichever page is open
+    private dailyBriefing: DailyBriefingService,
+    // Injected so tasks complete with their linked items whichever page is open
+    private taskLinks: TaskLinkService,
+    // Injected so finished meetings are logged as time entries whichever page is open
+    private meetingTime: MeetingTimeService
   ) {}
 
   ngOnInit() {
@@ -55,21 +66,35 @@ export class AppComponent implements OnInit, OnDestroy {
     // Track auth state
     this.subscriptions.add(
       this.authService.user$.subscribe(user => {
+        // Signed out (here or in another tab) — send the user back to the login page
+        if (!user && this.currentUser) {
+          this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+        }
         this.currentUser = user;
         this.authLoaded = true;
       })
     );
 
-    // Handle navigation requests from child components
+    // The login page renders outside the app shell
     this.subscriptions.add(
-      this.navigationService.navigate$.subscribe(view => this.navigateTo(view))
+      this.router.events
+        .pipe(filter((e): e is NavigationEnd => e instanceof NavigationEnd))
+        .subscribe(e => {
+          this.isLoginPage = e.urlAfterRedirects.startsWith('/login');
+          this.showSetupPrompt = false;
+        })
+    );
+
+    // Keep the side navigation in sync with the URL
+    this.subscriptions.add(
+      this.navigationService.currentView$.subscribe(view => (this.currentView = view))
     );
 
     // Show a reconnect toast whenever any MS Graph service loses its token
     this.subscriptions.add(
       this.msGraphConnectService.tokenExpired$.subscribe(() => {
         const id = this.toastService.show(
-          'Your Microsoft token has expired.',
+          'Your Microsoft sign-in has expired.',
           'warning',
           'Microsoft Disconnected',
           0, // persistent until dismissed
@@ -79,12 +104,7 @@ export class AppComponent implements OnInit, OnDestroy {
               style: 'primary',
               handler: (toastId) => {
                 this.toastService.dismiss(toastId);
-                window.open(
-                  'https://developer.microsoft.com/en-us/graph/graph-explorer',
-                  '_blank',
-                  'noopener,noreferrer'
-                );
-                this.msGraphConnectService.openModal();
+                this.msGraphConnectService.reconnect();
               }
             },
             {
@@ -98,14 +118,15 @@ export class AppComponent implements OnInit, OnDestroy {
     );
 
     // Subscribe to AI service configuration status
-    this.isAIConnected = this.githubAIService.isConfigured();
+    this.isAIConnected = this.aiService.isProviderReady('github-models');
     
     // Subscribe to error status to detect token issues
     this.subscriptions.add(
-      this.githubAIService.error$.subscribe(error => {
+      this.aiService.error$.subscribe(error => {
         // Check if the error is token-related
         this.hasTokenError = !!(error && (
-          error.includes('Invalid or expired GitHub Personal Access Token') || 
+          error.includes('Invalid or expired GitHub Personal Access Token') ||
+          error.includes('Invalid or expired API key') ||
           error.includes('Access denied. Check your token permissions') ||
           error.includes('GitHub AI service not configured')
         ));
@@ -114,7 +135,7 @@ export class AppComponent implements OnInit, OnDestroy {
     
     // Subscribe to rate limit updates
     this.subscriptions.add(
-      this.githubAIService.rateLimit$.subscribe(rateLimit => {
+      this.aiService.rateLimit$('github-models').subscribe(rateLimit => {
         this.rateLimit = rateLimit;
         console.log('App Component - Rate Limit Update:', {
           callsUsed: rateLimit.callsUsed,
@@ -147,7 +168,15 @@ export class AppComponent implements OnInit, OnDestroy {
 
   resetCallCount(event: Event) {
     event.stopPropagation(); // Prevent toggleSetupPrompt from firing
-    this.githubAIService.resetRateLimitInfo();
+    this.aiService.resetRateLimitInfo('github-models');
+  }
+
+  openCommandPalette(): void {
+    this.commandPalette.open();
+  }
+
+  get isMac(): boolean {
+    return /Mac|iPhone|iPad/.test(navigator.platform);
   }
 
   logout() {
@@ -165,12 +194,6 @@ export class AppComponent implements OnInit, OnDestroy {
     this.showUserMenu = false;
   }
 
-  navigateTo(view: AppView) {
-    this.currentView = view;
-    this.showSetupPrompt = false;
-    window.scrollTo({ top: 0, behavior: 'instant' });
-  }
-
   get isRateLimitExceeded(): boolean {
     if (!this.rateLimit) {
       return false;
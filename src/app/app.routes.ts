@@ -1,3 +1,79 @@
 import { Routes } from '@angular/router';
+import { authGuard, guestGuard } from './guards/auth.guard';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  {
+    path: 'login',
+    canActivate: [guestGuard],
+    loadComponent: () => import('./components/login/login.component').then(m => m.LoginComponent),
+    title: 'Gavel · Sign in'
+  },
+  {
+    path: '',
+    canActivateChild: [authGuard],
+    children: [
+      {
+        path: '',
+        pathMatch: 'full',
+        loadComponent: () => import('./components/dashboard/dashboard.component').then(m => m.DashboardComponent),
+        title: 'Gavel'
+      },
+      {
+        path: 'connections',
+        loadComponent: () => import('./components/connections/connections.component').then(m => m.ConnectionsComponent),
+        title: 'Gavel · Connections'
+      },
+      {
+        path: 'journal',
+        loadComponent: () => import('./components/journal/journal.component').then(m => m.JournalComponent),
+        title: 'Gavel · Journal'
+      },
+      {
+        path: 'journal/:entryId',
+        loadComponent: () => import('./components/journal/journal.component').then(m => m.JournalComponent),
+        title: 'Gavel · Journal'
+      },
+      {
+        path: 'goals',
+        loadComponent: () => import('./components/goals/goals.component').then(m => m.GoalsComponent),
+        title: 'Gavel · Yearly Goals'
+      },
+      {
+        path: 'tasks',
+        loadComponent: () => import('./components/tasks/tasks.component').then(m => m.TasksComponent),
+        title: 'Gavel · Notes'
+      },
+      {
+        path: 'tasks/:taskId',
+        loadComponent: () => import('./components/tasks/tasks.component').then(m => m.TasksComponent),
+        title: 'Gavel · Notes'
+      },
+      {
+        path: 'issues',
+        loadComponent: () => import('./components/issues/issues.component').then(m => m.IssuesComponent),
+        title: 'Gavel · Issues'
+      },
+      {
+        path: 'issues/:identifier',
+        loadComponent: () => import('./components/issues/issues.component').then(m => m.IssuesComponent),
+        title: 'Gavel · Issues'
+      },
+      {
+        path: 'reports',
+        loadComponent: () => import('./components/reports/reports.component').then(m => m.ReportsComponent),
+        title: 'Gavel · Reports'
+      },
+      {
+        path: 'settings',
+        loadComponent: () => import('./components/settings/settings.component').then(m => m.SettingsComponent),
+        title: 'Gavel · Settings'
+      },
+      {
+        path: 'open-arena-chat',
+        loadComponent: () => import('./components/dashboard/open-arena-chat/open-arena-chat.component').then(m => m.OpenArenaChatComponent),
+        title: 'Gavel · Open Arena Chat'
+      }
+    ]
+  },
+  { path: '**', redirectTo: '' }
+];
@@ -0,0 +1,103 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { BehaviorSubject, Subject, combineLatest } from 'rxjs';
+import { debounceTime, startWith, takeUntil } from 'rxjs/operators';
+import {
+  Conversation, ConversationMatch, ConversationService, ConversationSurface, searchConversations
+} from '../../services/conversation.service';
+
+/**
+ * Saved threads for one AI surface: search, pin, rename, delete, and pick one to resume.
+ * The host decides where the panel sits and loads the thread it is handed.
+ */
+@Component({
+  selector: 'app-ai-conversation-history',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './ai-conversation-history.component.html',
+  styleUrl: './ai-conversation-history.component.scss'
+})
+export class AiConversationHistoryComponent implements OnInit, OnDestroy {
+  @Input({ required: true }) surface!: ConversationSurface;
+  /** The thread currently open in the host, highlighted in the list. */
+  @Input() activeId: string | null = null;
+
+  @Output() resume = new EventEmitter<Conversation>();
+  @Output() startNew = new EventEmitter<void>();
+  @Output() closed = new EventEmitter<void>();
+  /** Emitted after a thread is deleted, so the host can clear it if it was open. */
+  @Output() deleted = new EventEmitter<string>();
+
+  matches: ConversationMatch[] = [];
+  searchText = '';
+  renamingId: string | null = null;
+  renameText = '';
+
+  private search$ = new BehaviorSubject<string>('');
+  private destroy$ = new Subject<void>();
+
+  constructor(private conversationService: ConversationService) {}
+
+  ngOnInit(): void {
+    combineLatest([
+      this.conversationService.conversationsFor$(this.surface),
+      this.search$.pipe(debounceTime(150), startWith(''))
+    ])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([conversations, text]) => (this.matches = searchConversations(conversations, text)));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onSearch(text: string): void {
+    this.search$.next(text);
+  }
+
+  open(conversation: Conversation): void {
+    if (this.renamingId) return;
+    this.resume.emit(conversation);
+  }
+
+  togglePin(conversation: Conversation, event: Event): void {
+    event.stopPropagation();
+    this.conversationService.setPinned(conversation.id, !conversation.pinned)
+      .catch(e => console.error('Failed to pin conversation:', e));
+  }
+
+  startRename(conversation: Conversation, event: Event): void {
+    event.stopPropagation();
+    this.renamingId = conversation.id;
+    this.renameText = conversation.title;
+  }
+
+  saveRename(): void {
+    const id = this.renamingId;
+    this.renamingId = null;
+    if (!id || !this.renameText.trim()) return;
+    this.conversationService.rename(id, this.renameText)
+      .catch(e => console.error('Failed to rename conversation:', e));
+  }
+
+  cancelRename(): void {
+    this.renamingId = null;
+  }
+
+  remove(conversation: Conversation, event: Event): void {
+    event.stopPropagation();
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    this.conversationService.deleteConversation(conversation.id)
+      .then(() => this.deleted.emit(conversation.id))
+      .catch(e => console.error('Failed to delete conversation:', e));
+  }
+
+  formatUpdated(date: Date): string {
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay
+      ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+}
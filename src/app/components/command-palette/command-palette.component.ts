@@ -0,0 +1,394 @@
+import { Component, OnInit, OnDestroy, HostListener, ViewChild, ElementRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  CommandPaletteService, PaletteCommand, PaletteCommandSource, PaletteMatch
+} from '../../services/command-palette.service';
+import { NavigationService, AppView } from '../../services/navigation.service';
+import { TaskService, Task } from '../../services/task.service';
+import { JournalService, JournalEntry } from '../../services/journal.service';
+import { GoalsService, Goal } from '../../services/goals.service';
+import { WorkItemService, WorkItem, WORK_ITEM_SOURCE_LABELS } from '../../services/work-item.service';
+import { ToastService } from '../../services/toast.service';
+import { AI_SKILLS, fromCustomSkill } from '../dashboard/ai-ask-widget/ai-ask-widget.component';
+import { AiSkillsService } from '../../services/ai-skills.service';
+
+interface ResultGroup {
+  name: string;
+  items: { command: PaletteCommand; index: number }[];
+}
+
+const NAV_TARGETS: { view: AppView; label: string; icon: string; keywords: string[] }[] = [
+  { view: 'dashboard',       label: 'Dashboard',       icon: 'fas fa-house',         keywords: ['home'] },
+  { view: 'connections',     label: 'Connections',     icon: 'fas fa-plug',          keywords: ['integrations', 'tokens'] },
+  { view: 'journal',         label: 'Journal',         icon: 'fas fa-book-open',     keywords: ['entries', 'log'] },
+  { view: 'goals',           label: 'Yearly Goals',    icon: 'fas fa-bullseye',      keywords: ['objectives'] },
+  { view: 'tasks',           label: 'Notes',           icon: 'fas fa-sticky-note',   keywords: ['tasks', 'todo'] },
+  { view: 'issues',          label: 'Issues',          icon: 'fas fa-list-check',    keywords: ['linear'] },
+  { view: 'reports',         label: 'Reports',         icon: 'fas fa-file-lines',    keywords: ['status', 'weekly', 'sprint', 'export'] },
+  { view: 'open-arena-chat', label: 'Open Arena Chat', icon: 'fas fa-robot',         keywords: ['ai', 'chat'] },
+  { view: 'settings',        label: 'Settings',        icon: 'fas fa-gear',          keywords: ['preferences', 'profile'] },
+];
+
+const WORK_ITEM_ICONS: Record<WorkItem['source'], string> = {
+  ado: 'fab fa-microsoft',
+  linear: 'fas fa-list-check',
+  github: 'fas fa-code-pull-request'
+};
+
+@Component({
+  selector: 'app-command-palette',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './command-palette.component.html',
+  styleUrl: './command-palette.component.scss'
+})
+export class CommandPaletteComponent implements OnInit, OnDestroy {
+  @ViewChild('searchInput') private searchInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('resultsList') private resultsList?: ElementRef<HTMLElement>;
+
+  isOpen = false;
+  query = '';
+  /** Commands whose nested lists the user has drilled into; the last one is showing. */
+  stack: PaletteCommand[] = [];
+  results: PaletteMatch[] = [];
+  groups: ResultGroup[] = [];
+  activeIndex = 0;
+
+  private tasks: Task[] = [];
+  private entries: JournalEntry[] = [];
+  private goals: Goal[] = [];
+  private workItems: WorkItem[] = [];
+  private unregisterSources: (() => void)[] = [];
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private commandPalette: CommandPaletteService,
+    private navigationService: NavigationService,
+    private taskService: TaskService,
+    private journalService: JournalService,
+    private goalsService: GoalsService,
+    private workItemService: WorkItemService,
+    private toastService: ToastService,
+    private aiSkills: AiSkillsService
+  ) {}
+
+  ngOnInit(): void {
+    this.taskService.tasks$.pipe(takeUntil(this.destroy$)).subscribe(tasks => (this.tasks = tasks));
+    this.journalService.entries$.pipe(takeUntil(this.destroy$)).subscribe(entries => (this.entries = entries));
+    this.goalsService.goals$.pipe(takeUntil(this.destroy$)).subscribe(goals => (this.goals = goals));
+    this.workItemService.workItems$.pipe(takeUntil(this.destroy$)).subscribe(items => (this.workItems = items));
+
+    this.commandPalette.isOpen$.pipe(takeUntil(this.destroy$)).subscribe(open => {
+      this.isOpen = open;
+      if (open) this.reset();
+    });
+
+    this.unregisterSources = [
+      this.navigationSource(),
+      this.actionSource(),
+      this.taskSource(),
+      this.journalSource(),
+      this.goalSource(),
+      this.workItemSource()
+    ].map(source => this.commandPalette.register(source));
+  }
+
+  ngOnDestroy(): void {
+    this.unregisterSources.forEach(unregister => unregister());
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onGlobalKeydown(event: KeyboardEvent): void {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.commandPalette.toggle();
+    }
+  }
+
+  close(): void {
+    this.commandPalette.close();
+  }
+
+  onQueryChange(): void {
+    this.activeIndex = 0;
+    this.refresh();
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.moveActive(1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.moveActive(-1);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (this.results[this.activeIndex]) this.execute(this.results[this.activeIndex].command);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        if (this.stack.length) this.back();
+        else this.close();
+        break;
+      case 'Backspace':
+        if (!this.query && this.stack.length) {
+          event.preventDefault();
+          this.back();
+        }
+        break;
+    }
+  }
+
+  execute(command: PaletteCommand): void {
+    if (command.children) {
+      this.stack = [...this.stack, command];
+      this.query = '';
+      this.activeIndex = 0;
+      this.refresh();
+      this.focusInput();
+      return;
+    }
+    this.close();
+    command.run?.();
+  }
+
+  back(): void {
+    this.stack = this.stack.slice(0, -1);
+    this.query = '';
+    this.activeIndex = 0;
+    this.refresh();
+  }
+
+  get placeholder(): string {
+    const parent = this.stack[this.stack.length - 1];
+    return parent ? `${parent.label.replace(/…$/, '')}…` : 'Search tasks, journal, issues, PRs or type a command…';
+  }
+
+  private reset(): void {
+    this.query = '';
+    this.stack = [];
+    this.activeIndex = 0;
+    this.refresh();
+    this.focusInput();
+  }
+
+  private refresh(): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent?.children) {
+      const children = parent.children();
+      this.results = this.query.trim()
+        ? this.commandPalette.search(this.query, children)
+        : children.slice(0, 50).map(command => ({ command, score: 0 }));
+    } else {
+      this.results = this.commandPalette.search(this.query);
+    }
+
+    // Group in order of each group's best-ranked result; the flat list is re-ordered to match
+    // what is rendered so arrow keys move down the screen
+    const byName = new Map<string, PaletteMatch[]>();
+    for (const match of this.results) {
+      byName.set(match.command.group, [...(byName.get(match.command.group) ?? []), match]);
+    }
+    this.results = [...byName.values()].flat();
+    let index = 0;
+    this.groups = [...byName.entries()].map(([name, matches]) => ({
+      name,
+      items: matches.map(m => ({ command: m.command, index: index++ }))
+    }));
+  }
+
+  private moveActive(delta: number): void {
+    if (!this.results.length) return;
+    this.activeIndex = (this.activeIndex + delta + this.results.length) % this.results.length;
+    setTimeout(() => {
+      this.resultsList?.nativeElement
+        .querySelector(`[data-index="${this.activeIndex}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  private focusInput(): void {
+    setTimeout(() => this.searchInput?.nativeElement.focus(), 0);
+  }
+
+  // ── Built-in sources ──────────────────────────────────────────
+
+  private navigationSource(): PaletteCommandSource {
+    return {
+      id: 'navigation',
+      commands: () => NAV_TARGETS.map(target => ({
+        id: `nav:${target.view}`,
+        label: `Go to ${target.label}`,
+        group: 'Navigation',
+        icon: target.icon,
+        keywords: target.keywords,
+        pinned: true,
+        run: () => this.navigationService.navigateTo(target.view)
+      }))
+    };
+  }
+
+  private actionSource(): PaletteCommandSource {
+    return {
+      id: 'actions',
+      commands: () => {
+        const running = this.tasks.find(t => t.isTimeRunning);
+        const commands: PaletteCommand[] = [
+          {
+            id: 'action:new-task',
+            label: 'New task',
+            group: 'Actions',
+            icon: 'fas fa-plus',
+            keywords: ['add', 'create', 'note'],
+            pinned: true,
+            run: () => this.navigationService.navigateToNewTask()
+          },
+          {
+            id: 'action:new-journal-entry',
+            label: 'New journal entry',
+            group: 'Actions',
+            icon: 'fas fa-pen',
+            keywords: ['write', 'log'],
+            pinned: true,
+            run: () => this.navigationService.navigateToNewJournalEntry()
+          },
+          {
+            id: 'action:start-timer',
+            label: 'Start timer on…',
+            group: 'Actions',
+            icon: 'fas fa-stopwatch',
+            keywords: ['time', 'track'],
+            pinned: true,
+            children: () => this.tasks
+              .filter(t => !t.completed && !t.isTimeRunning)
+              .map(task => ({
+                id: `timer:${task.id}`,
+                label: task.title,
+                hint: this.trackedHint(task.id),
+                group: 'Open tasks',
+                icon: 'fas fa-play',
+                run: () => {
+                  this.taskService.startTimeTracking(task.id);
+                  this.toastService.success(`Timer started on "${task.title}"`);
+                }
+              }))
+          },
+          {
+            id: 'action:run-skill',
+            label: 'Run AI skill…',
+            group: 'Actions',
+            icon: 'fas fa-wand-sparkles',
+            pinned: true,
+            children: () => [...AI_SKILLS, ...this.aiSkills.getSkills().map(fromCustomSkill)].map(skill => ({
+              id: `skill:${skill.id}`,
+              label: skill.label,
+              hint: skill.description,
+              group: 'AI Skills',
+              icon: skill.icon,
+              run: () => this.navigationService.navigateToSkill(skill.id)
+            }))
+          }
+        ];
+        if (running) {
+          commands.push({
+            id: 'action:stop-timer',
+            label: `Stop timer on "${running.title}"`,
+            group: 'Actions',
+            icon: 'fas fa-stop',
+            keywords: ['time', 'track'],
+            pinned: true,
+            run: () => {
+              this.taskService.stopTimeTracking(running.id);
+              this.toastService.info(`Timer stopped on "${running.title}"`);
+            }
+          });
+        }
+        return commands;
+      }
+    };
+  }
+
+  private trackedHint(taskId: string): string | undefined {
+    const seconds = this.taskService.getTotalTrackedTime(taskId);
+    return seconds ? `${Math.round(seconds / 60)} min tracked` : undefined;
+  }
+
+  private taskSource(): PaletteCommandSource {
+    return {
+      id: 'tasks',
+      commands: () => this.tasks.map(task => ({
+        id: `task:${task.id}`,
+        label: task.title,
+        hint: task.completed ? 'Completed'
+          : task.dueDate ? `Due ${new Date(task.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+          : undefined,
+        keywords: task.tags,
+        group: 'Tasks',
+        icon: task.completed ? 'fas fa-circle-check' : 'far fa-circle',
+        run: () => this.navigationService.navigateToTask(task.id)
+      }))
+    };
+  }
+
+  private journalSource(): PaletteCommandSource {
+    return {
+      id: 'journal',
+      commands: () => this.entries.map(entry => {
+        const firstLine = entry.text.split('\n')[0];
+        return {
+          id: `journal:${entry.id}`,
+          label: firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine,
+          hint: entry.timestamp.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+          // Match on the whole entry, not just the line that is displayed
+          keywords: entry.text.length > firstLine.length ? [entry.text] : undefined,
+          group: 'Journal',
+          icon: 'fas fa-book-open',
+          run: () => this.navigationService.navigateToJournalEntry(entry.id)
+        };
+      })
+    };
+  }
+
+  private goalSource(): PaletteCommandSource {
+    return {
+      id: 'goals',
+      commands: () => this.goals.map(goal => ({
+        id: `goal:${goal.id}`,
+        label: goal.title,
+        hint: String(goal.year),
+        group: 'Goals',
+        icon: 'fas fa-bullseye',
+        run: () => this.navigationService.navigateTo('goals')
+      }))
+    };
+  }
+
+  private workItemSource(): PaletteCommandSource {
+    return {
+      id: 'work-items',
+      commands: () => this.workItems.map(item => ({
+        id: `work-item:${item.id}`,
+        label: item.title,
+        hint: `${item.key} · ${item.state}`,
+        keywords: [item.key, ...(item.container ? [item.container] : [])],
+        group: WORK_ITEM_SOURCE_LABELS[item.source],
+        icon: WORK_ITEM_ICONS[item.source],
+        run: () => {
+          if (item.source === 'linear') {
+            this.navigationService.navigateToIssue(item.key);
+          } else if (item.url) {
+            window.open(item.url, '_blank', 'noopener,noreferrer');
+          }
+        }
+      }))
+    };
+  }
+}
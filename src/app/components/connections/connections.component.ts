@@ -3,13 +3,19 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
-import { GitHubAIService } from '../../services/github-ai.service';
+import { AiService, AiFeature, AI_FEATURE_LABELS } from '../../services/ai.service';
+import { AI_PROVIDERS, AI_PROVIDER_KINDS, AiProviderKind } from '../../services/ai-providers';
+import { AiAuditEntry, AiToolsService } from '../../services/ai-tools.service';
 import { GitHubPrService, DiagnosticInfo } from '../../services/github-pr.service';
 import { MicrosoftCalendarService } from '../../services/microsoft-calendar.service';
 import { MicrosoftMailService } from '../../services/microsoft-mail.service';
 import { MicrosoftTeamsService } from '../../services/microsoft-teams.service';
 import { LinearService } from '../../services/linear.service';
 import { SlackService } from '../../services/slack.service';
+import { DashboardLayoutService, DashboardWidgetId } from '../../services/dashboard-layout.service';
+import { CredentialVaultService, CredentialMetadata, VaultStatus } from '../../services/credential-vault.service';
+import { MicrosoftAuthService, GRAPH_SCOPES, GraphIntegration } from '../../services/microsoft-auth.service';
+import { AccountInfo } from '@azure/msal-browser';
 
 @Component({
   selector: 'app-connections',
@@ -19,6 +25,19 @@ import { SlackService } from '../../services/slack.service';
   styleUrl: './connections.component.scss'
 })
 export class ConnectionsComponent implements OnInit, OnDestroy {
+  // Credential vault
+  vaultStatus: VaultStatus = 'none';
+  vaultCredentials: CredentialMetadata[] = [];
+  vaultSyncEnabled = false;
+  newPassphrase = '';
+  newPassphraseConfirm = '';
+  passphraseChanged = false;
+
+  // Microsoft account (MSAL); pasted Graph tokens are only offered when it's unavailable
+  msalAvailable = true;
+  msAccount: AccountInfo | null = null;
+  msConnecting: GraphIntegration | 'account' | null = null;
+
   // GitHub AI
   githubToken = '';
   githubModel = 'gpt-4o';
@@ -27,6 +46,35 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
   githubSaved = false;
   githubCallsUsed = 0;
 
+  // OpenAI-compatible server (Ollama, llama.cpp, LM Studio…)
+  openaiEndpoint = '';
+  openaiModel = '';
+  openaiKey = '';
+  openaiModels: string[] = [];
+  openaiLoadingModels = false;
+  openaiConnected = false;
+  openaiSaved = false;
+  openaiCallsUsed = 0;
+
+  // Azure OpenAI
+  azureEndpoint = '';
+  azureDeployment = '';
+  azureApiVersion = '';
+  azureKey = '';
+  azureConnected = false;
+  azureSaved = false;
+  azureCallsUsed = 0;
+
+  // Which provider each AI feature uses
+  readonly aiFeatures = Object.keys(AI_FEATURE_LABELS) as AiFeature[];
+  readonly aiFeatureLabels = AI_FEATURE_LABELS;
+  readonly aiProviderKinds = AI_PROVIDER_KINDS;
+  readonly aiProviders = AI_PROVIDERS;
+  aiFeatureProviders = {} as Record<AiFeature, AiProviderKind>;
+  aiProviderReady = {} as Record<AiProviderKind, boolean>;
+  // Changes the assistant has made (or was refused), newest first
+  aiAudit: AiAuditEntry[] = [];
+
   // Outlook Calendar
   calendarToken = '';
   calendarConnected = false;
@@ -90,13 +138,17 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
   }
 
   constructor(
-    private aiService: GitHubAIService,
+    private aiService: AiService,
+    private aiTools: AiToolsService,
     private githubPrService: GitHubPrService,
     private calendarService: MicrosoftCalendarService,
     private mailService: MicrosoftMailService,
     private teamsService: MicrosoftTeamsService,
     private linearService: LinearService,
-    private slackService: SlackService
+    private slackService: SlackService,
+    private layoutService: DashboardLayoutService,
+    private vault: CredentialVaultService,
+    private msAuth: MicrosoftAuthService
   ) {}
 
   ngOnInit(): void {
@@ -109,34 +161,58 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
   }
 
   private loadStatuses(): void {
-    // GitHub AI
-    this.githubToken = localStorage.getItem('github-ai-token') || '';
-    this.githubModel = localStorage.getItem('github-ai-model') || 'gpt-4o';
-    this.githubConnected = !!this.githubToken;
-    this.githubModels = this.aiService.getAvailableModels();
-    this.aiService.rateLimit$.subscribe(info => (this.githubCallsUsed = info.callsUsed));
-
-    // Outlook Calendar
-    this.calendarToken = localStorage.getItem('outlook-calendar-token') || '';
-    this.calendarConnected = !!this.calendarToken;
+    // Credential vault — token fields are refilled whenever it locks or unlocks
+    this.vault.status$.pipe(takeUntil(this.destroy$)).subscribe(status => {
+      this.vaultStatus = status;
+      this.loadTokens();
+    });
+    this.vault.metadata$.pipe(takeUntil(this.destroy$)).subscribe(m => (this.vaultCredentials = m));
+    this.vault.syncEnabled$.pipe(takeUntil(this.destroy$)).subscribe(on => (this.vaultSyncEnabled = on));
+
+    // Microsoft account
+    this.msAuth.available$.pipe(takeUntil(this.destroy$)).subscribe(a => (this.msalAvailable = a));
+    this.msAuth.account$.pipe(takeUntil(this.destroy$)).subscribe(a => (this.msAccount = a));
+
+    // AI providers
+    this.aiService.settings$.pipe(takeUntil(this.destroy$)).subscribe(settings => {
+      const { providers } = settings;
+      this.githubModel = providers['github-models'].model;
+      this.openaiEndpoint = providers['openai-compatible'].endpoint;
+      this.openaiModel = providers['openai-compatible'].model;
+      this.azureEndpoint = providers['azure-openai'].endpoint;
+      this.azureDeployment = providers['azure-openai'].model;
+      this.azureApiVersion = providers['azure-openai'].apiVersion;
+      this.aiFeatureProviders = { ...settings.features };
+    });
+    for (const kind of AI_PROVIDER_KINDS) {
+      this.aiService.isProviderReady$(kind).pipe(takeUntil(this.destroy$)).subscribe(ready => {
+        this.aiProviderReady = { ...this.aiProviderReady, [kind]: ready };
+      });
+    }
+    this.aiTools.audit$.pipe(takeUntil(this.destroy$)).subscribe(entries => (this.aiAudit = entries.slice(0, 10)));
+    this.aiService.getAvailableModels('github-models').subscribe(models => (this.githubModels = models));
+    this.aiService.rateLimit$('github-models').pipe(takeUntil(this.destroy$)).subscribe(info => (this.githubCallsUsed = info.callsUsed));
+    this.aiService.rateLimit$('openai-compatible').pipe(takeUntil(this.destroy$)).subscribe(info => (this.openaiCallsUsed = info.callsUsed));
+    this.aiService.rateLimit$('azure-openai').pipe(takeUntil(this.destroy$)).subscribe(info => (this.azureCallsUsed = info.callsUsed));
+    this.aiService.isProviderReady$('openai-compatible').pipe(takeUntil(this.destroy$)).subscribe(c => (this.openaiConnected = c));
+    this.aiService.isProviderReady$('azure-openai').pipe(takeUntil(this.destroy$)).subscribe(c => (this.azureConnected = c));
+
+    // Outlook Calendar — connected through MSAL or a pasted token
+    this.calendarService.isConfigured$.pipe(takeUntil(this.destroy$)).subscribe(c => (this.calendarConnected = c));
     this.calendarService.tokenExpiry$.pipe(takeUntil(this.destroy$)).subscribe(exp => {
       this.calendarTokenExpiry = exp;
     });
 
     // Outlook Mail
-    this.mailToken = localStorage.getItem('outlook-mail-token') || '';
-    this.mailConnected = !!this.mailToken;
+    this.mailService.isConfigured$.pipe(takeUntil(this.destroy$)).subscribe(c => (this.mailConnected = c));
     this.mailService.tokenExpiry$.pipe(takeUntil(this.destroy$)).subscribe(exp => {
       this.mailTokenExpiry = exp;
     });
 
     // Microsoft Teams
-    this.teamsToken = localStorage.getItem('ms-teams-token') || '';
-    this.teamsConnected = !!this.teamsToken;
+    this.teamsService.isAuthenticated$.pipe(takeUntil(this.destroy$)).subscribe(c => (this.teamsConnected = c));
 
     // GitHub Pull Requests
-    this.githubPrToken = localStorage.getItem('github-pr-token') || '';
-    this.githubPrConnected = this.githubPrService.isConfigured();
     this.githubPrService.verifiedUsername$.pipe(takeUntil(this.destroy$)).subscribe(u => {
       this.githubPrVerifiedUsername = u;
     });
@@ -159,19 +235,17 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
     } catch {
       this.adoProjects = [];
     }
-    this.adoWidgetVisible = localStorage.getItem('ado-widget-visible') !== 'false';
-    this.linearWidgetVisible = localStorage.getItem('linear-widget-visible') !== 'false';
-    this.mailWidgetVisible = localStorage.getItem('mail-widget-visible') !== 'false';
-    this.teamsWidgetVisible = localStorage.getItem('teams-widget-visible') !== 'false';
-    this.slackWidgetVisible = localStorage.getItem('slack-widget-visible') !== 'false';
-
-    // Slack
-    this.slackToken = localStorage.getItem('slack-token') || '';
-    this.slackConnected = !!this.slackToken;
+    // Widget toggles reflect (and edit) the dashboard layout currently in use
+    this.layoutService.activeLayout$.pipe(takeUntil(this.destroy$)).subscribe(layout => {
+      const visible = (id: DashboardWidgetId) => layout.widgets.some(w => w.widgetId === id);
+      this.adoWidgetVisible = visible('ado');
+      this.linearWidgetVisible = visible('linear');
+      this.mailWidgetVisible = visible('mail');
+      this.teamsWidgetVisible = visible('teams');
+      this.slackWidgetVisible = visible('slack');
+    });
 
     // Linear
-    this.linearApiKey = localStorage.getItem('linear-api-key') || '';
-    this.linearConnected = this.linearService.isConfigured();
     this.linearService.viewer$.pipe(takeUntil(this.destroy$)).subscribe(v => {
       this.linearViewerName = v?.name ?? null;
     });
@@ -180,6 +254,75 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
     }
   }
 
+  private loadTokens(): void {
+    this.githubToken = this.vault.get('github-ai') || '';
+    this.githubConnected = !!this.githubToken;
+    this.openaiKey = this.vault.get('openai-compatible') || '';
+    this.azureKey = this.vault.get('azure-openai') || '';
+    this.calendarToken = this.vault.get('outlook-calendar') || '';
+    this.mailToken = this.vault.get('outlook-mail') || '';
+    this.teamsToken = this.vault.get('ms-teams') || '';
+    this.githubPrToken = this.vault.get('github-pr') || '';
+    this.githubPrConnected = this.githubPrService.isConfigured();
+    this.slackToken = this.vault.get('slack') || '';
+    this.slackConnected = !!this.slackToken;
+    this.linearApiKey = this.vault.get('linear') || '';
+    this.linearConnected = this.linearService.isConfigured();
+  }
+
+  // Microsoft account
+  async signInMicrosoft(): Promise<void> {
+    this.msConnecting = 'account';
+    try {
+      await this.msAuth.signIn();
+    } catch (e) {
+      console.warn('Microsoft sign-in was not completed:', e);
+    } finally {
+      this.msConnecting = null;
+    }
+  }
+
+  signOutMicrosoft(): void {
+    if (confirm('Sign out of Microsoft? Outlook Calendar, Outlook Mail and Teams will disconnect.')) {
+      this.msAuth.signOut();
+    }
+  }
+
+  /** Incremental consent: only the scopes this integration needs. */
+  async connectMicrosoft(integration: GraphIntegration): Promise<void> {
+    this.msConnecting = integration;
+    await this.msAuth.connect(GRAPH_SCOPES[integration]);
+    this.msConnecting = null;
+  }
+
+  // Credential vault
+  unlockVault(): void {
+    this.vault.requestUnlock();
+  }
+
+  lockVault(): void {
+    this.vault.lock();
+  }
+
+  toggleVaultSync(): void {
+    this.vault.setSyncEnabled(!this.vaultSyncEnabled);
+  }
+
+  async changePassphrase(): Promise<void> {
+    if (!this.newPassphrase || this.newPassphrase !== this.newPassphraseConfirm) return;
+    await this.vault.changePassphrase(this.newPassphrase);
+    this.newPassphrase = '';
+    this.newPassphraseConfirm = '';
+    this.passphraseChanged = true;
+    setTimeout(() => (this.passphraseChanged = false), 3000);
+  }
+
+  resetVault(): void {
+    if (confirm('Delete the credential vault and every token in it? You will need to reconnect each integration.')) {
+      this.vault.reset();
+    }
+  }
+
   // GitHub AI
   saveGitHub(): void {
     const token = this.githubToken.trim();
@@ -191,17 +334,81 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
   }
 
   disconnectGitHub(): void {
-    this.aiService.clearConfiguration();
+    this.aiService.clearConfiguration('github-models');
     this.githubToken = '';
     this.githubConnected = false;
   }
 
   resetApiCounter(): void {
     if (confirm('Reset GitHub AI call counter to 0?')) {
-      this.aiService.resetRateLimitInfo();
+      this.aiService.resetRateLimitInfo('github-models');
+    }
+  }
+
+  // OpenAI-compatible
+  saveOpenAi(): void {
+    if (!this.openaiEndpoint.trim() || !this.openaiModel.trim()) return;
+    // The key is optional; an empty field removes a previously saved one
+    this.aiService.configureProvider('openai-compatible', {
+      endpoint: this.openaiEndpoint.trim(),
+      model: this.openaiModel.trim()
+    }, this.openaiKey.trim() || null);
+    this.openaiSaved = true;
+    setTimeout(() => (this.openaiSaved = false), 3000);
+  }
+
+  /** Asks the server which models it has, so local models can be picked instead of typed. */
+  loadOpenAiModels(): void {
+    if (!this.openaiEndpoint.trim()) return;
+    this.aiService.configureProvider('openai-compatible', { endpoint: this.openaiEndpoint.trim() }, this.openaiKey.trim() || undefined);
+    this.openaiLoadingModels = true;
+    this.aiService.getAvailableModels('openai-compatible').subscribe(models => {
+      this.openaiModels = models;
+      this.openaiLoadingModels = false;
+    });
+  }
+
+  disconnectOpenAi(): void {
+    this.aiService.clearConfiguration('openai-compatible');
+    this.openaiKey = '';
+    this.openaiModels = [];
+  }
+
+  resetOpenAiCounter(): void {
+    if (confirm('Reset OpenAI-compatible call counter to 0?')) {
+      this.aiService.resetRateLimitInfo('openai-compatible');
+    }
+  }
+
+  // Azure OpenAI
+  saveAzure(): void {
+    const key = this.azureKey.trim();
+    if (!key || !this.azureEndpoint.trim() || !this.azureDeployment.trim()) return;
+    this.aiService.configureProvider('azure-openai', {
+      endpoint: this.azureEndpoint.trim(),
+      model: this.azureDeployment.trim(),
+      apiVersion: this.azureApiVersion.trim() || AI_PROVIDERS['azure-openai'].defaults.apiVersion
+    }, key);
+    this.azureSaved = true;
+    setTimeout(() => (this.azureSaved = false), 3000);
+  }
+
+  disconnectAzure(): void {
+    this.aiService.clearConfiguration('azure-openai');
+    this.azureKey = '';
+  }
+
+  resetAzureCounter(): void {
+    if (confirm('Reset Azure OpenAI call counter to 0?')) {
+      this.aiService.resetRateLimitInfo('azure-openai');
     }
   }
 
+  // AI features
+  setFeatureProvider(feature: AiFeature, kind: AiProviderKind): void {
+    this.aiService.setFeatureProvider(feature, kind);
+  }
+
   // Token expiry helpers used by the template
   now(): number { return Date.now(); }
   minutesUntil(expiry: Date): number { return Math.max(0, Math.round((expiry.getTime() - Date.now()) / 60000)); }
@@ -309,27 +516,27 @@ export class ConnectionsComponent implements OnInit, OnDestroy {
   // Widget visibility toggles
   toggleAdoWidget(): void {
     this.adoWidgetVisible = !this.adoWidgetVisible;
-    localStorage.setItem('ado-widget-visible', String(this.adoWidgetVisible));
+    this.layoutService.setWidgetVisible('ado', this.adoWidgetVisible);
   }
 
   toggleLinearWidget(): void {
     this.linearWidgetVisible = !this.linearWidgetVisible;
-    localStorage.setItem('linear-widget-visible', String(this.linearWidgetVisible));
+    this.layoutService.setWidgetVisible('linear', this.linearWidgetVisible);
   }
 
   toggleMailWidget(): void {
     this.mailWidgetVisible = !this.mailWidgetVisible;
-    localStorage.setItem('mail-widget-visible', String(this.mailWidgetVisible));
+    this.layoutService.setWidgetVisible('mail', this.mailWidgetVisible);
   }
 
   toggleTeamsWidget(): void {
     this.teamsWidgetVisible = !this.teamsWidgetVisible;
-    localStorage.setItem('teams-widget-visible', String(this.teamsWidgetVisible));
+    this.layoutService.setWidgetVisible('teams', this.teamsWidgetVisible);
   }
 
   toggleSlackWidget(): void {
     this.slackWidgetVisible = !this.slackWidgetVisible;
-    localStorage.setItem('slack-widget-visible', String(this.slackWidgetVisible));
+    this.layoutService.setWidgetVisible('slack', this.slackWidgetVisible);
   }
 
   // Linear
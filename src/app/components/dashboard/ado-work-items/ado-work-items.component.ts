@@ -5,8 +5,11 @@ import { AdoService, AdoWorkItem } from '../../../services/ado.service';
 import { MockAdoService } from '../../../services/mock-ado.service';
 import { GitHubPrService, GitHubPullRequest, PrReviewState } from '../../../services/github-pr.service';
 import { SafePipe } from '../../../pipes/safe.pipe';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { CredentialVaultService, ADO_LEGACY_CONFIG_PAT, adoPatId } from '../../../services/credential-vault.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 import { Subject } from 'rxjs';
-import { takeUntil, catchError, finalize } from 'rxjs/operators';
+import { takeUntil, catchError, finalize, filter, skip } from 'rxjs/operators';
 import { of, forkJoin } from 'rxjs';
 
 interface ProjectConfig {
@@ -29,7 +32,7 @@ interface SprintInfo {
 @Component({
   selector: 'app-ado-work-items',
   standalone: true,
-  imports: [CommonModule, FormsModule, SafePipe],
+  imports: [CommonModule, FormsModule, SafePipe, LastSyncedBadgeComponent],
   templateUrl: './ado-work-items.component.html',
   styleUrl: './ado-work-items.component.scss'
 })
@@ -37,6 +40,9 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
   workItems: AdoWorkItem[] = [];
   loading = false;
   error: string | null = null;
+  syncState: SyncState = NOT_SYNCED;
+  // Fresh results accumulate here so cached items stay visible until the first project responds
+  private loadedWorkItems: AdoWorkItem[] = [];
   
   // Configuration
   organization = '';
@@ -102,6 +108,7 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
     private adoService: AdoService,
     private mockAdoService: MockAdoService,
     private gitHubPrService: GitHubPrService,
+    private vault: CredentialVaultService,
     private injector: Injector
   ) {}
 
@@ -127,6 +134,17 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(error => this.error = error);
 
+    // Show the cached list from the last successful load while the first fetch is in flight
+    this.adoService.syncState$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => {
+        this.syncState = state;
+        if (state.fromCache && this.isConfigured && this.workItems.length === 0) {
+          this.workItems = this.adoService.getWorkItems();
+          this.applyFilters();
+        }
+      });
+
     this.gitHubPrService.prs$
       .pipe(takeUntil(this.destroy$))
       .subscribe(prs => {
@@ -142,6 +160,14 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(statuses => this.linkedPrStatuses = statuses);
 
+    // PATs come from the credential vault; reload once it is unlocked
+    this.vault.status$
+      .pipe(skip(1), filter(status => status === 'unlocked'), takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.loadConfiguration();
+        this.loadWorkItems();
+      });
+
     // Load projects first, then data
     // (Projects are loaded as part of loadConfiguration)
     
@@ -162,7 +188,10 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
     const projectConfigs = localStorage.getItem('ado-projects');
     if (projectConfigs) {
       try {
-        this.projects = JSON.parse(projectConfigs);
+        this.projects = (JSON.parse(projectConfigs) as ProjectConfig[]).map(p => ({
+          ...p,
+          personalAccessToken: this.vault.get(adoPatId(p.id)) ?? p.personalAccessToken ?? ''
+        }));
         this.isConfigured = this.projects.some(p => p.enabled);
         console.log('✅ Loaded project configurations:', this.projects.map(p => ({ id: p.id, name: p.name, enabled: p.enabled })));
       } catch (e) {
@@ -178,7 +207,7 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
         const config = JSON.parse(saved);
         this.organization = config.organization || '';
         this.project = config.project || '';
-        this.personalAccessToken = config.pat || '';
+        this.personalAccessToken = this.vault.get(ADO_LEGACY_CONFIG_PAT) ?? config.pat ?? '';
         this.isConfigured = !!(this.organization && this.project && this.personalAccessToken);
         
         // Convert legacy config to new format
@@ -192,6 +221,7 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
             enabled: true
           }];
           this.saveProjectConfigs();
+          this.vault.remove(ADO_LEGACY_CONFIG_PAT);
           console.log('✅ Converted legacy config to multi-project format');
         }
       } catch (e) {
@@ -222,10 +252,10 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
 
   saveConfiguration() {
     if (this.organization && this.project && this.personalAccessToken) {
+      // The PAT itself is stored with the project in the credential vault
       const config = {
         organization: this.organization,
-        project: this.project,
-        pat: this.personalAccessToken
+        project: this.project
       };
       
       localStorage.setItem('ado-config', JSON.stringify(config));
@@ -267,11 +297,13 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
 
   clearConfiguration() {
     localStorage.removeItem('ado-config');
+    this.vault.remove(ADO_LEGACY_CONFIG_PAT);
     this.organization = '';
     this.project = '';
     this.personalAccessToken = '';
     this.isConfigured = false;
     this.workItems = [];
+    this.adoService.clearCachedWorkItems();
   }
 
   saveDisplayOptions() {
@@ -362,18 +394,25 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
 
     this.loading = true;
     this.error = null;
-    this.workItems = []; // Always clear existing items
+    this.loadedWorkItems = [];
     
     // Get enabled projects
     const enabledProjects = this.projects.filter(p => p.enabled);
     
     if (enabledProjects.length === 0) {
       this.workItems = [];
+      this.adoService.clearCachedWorkItems();
       this.applyFilters();
       this.loading = false;
       return;
     }
 
+    // Without the PATs every request would 401; keep the cached list until the vault is unlocked
+    if (this.vault.status === 'locked' && enabledProjects.some(p => !p.personalAccessToken)) {
+      this.loading = false;
+      return;
+    }
+
     // Load projects sequentially to avoid service instance conflicts
     this.loadProjectsSequentially(enabledProjects, 0);
   }
@@ -538,8 +577,15 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
     return 'proj_' + Math.random().toString(36).substr(2, 9);
   }
 
+  /** Project settings go to localStorage; each PAT goes to the credential vault under the project's id. */
   saveProjectConfigs() {
-    localStorage.setItem('ado-projects', JSON.stringify(this.projects));
+    for (const p of this.projects) {
+      if (p.personalAccessToken && this.vault.get(adoPatId(p.id)) !== p.personalAccessToken) {
+        this.vault.set(adoPatId(p.id), p.personalAccessToken)
+          .catch(e => console.error(`Failed to save the PAT for ${p.name}:`, e));
+      }
+    }
+    localStorage.setItem('ado-projects', JSON.stringify(this.projects.map(p => ({ ...p, personalAccessToken: '' }))));
   }
 
   addProject(): void {
@@ -605,8 +651,9 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
 
   deleteProject(index: number) {
     if (confirm('Are you sure you want to remove this project?')) {
-      const projectName = this.projects[index].name;
+      const { name: projectName, id } = this.projects[index];
       this.projects.splice(index, 1);
+      this.vault.remove(adoPatId(id));
       this.saveProjectConfigs();
       this.isConfigured = this.projects.some(p => p.enabled);
       console.log(`🗑️ Project "${projectName}" deleted, reloading work items`);
@@ -644,6 +691,9 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
   private loadProjectsSequentially(projects: ProjectConfig[], currentIndex: number): void {
     if (currentIndex >= projects.length) {
       // All projects loaded, finish up
+      if (!this.error) {
+        this.workItems = this.loadedWorkItems;
+      }
       
       // Check for duplicates before finishing
       const duplicateCheck = new Map<number, number>();
@@ -659,6 +709,10 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
       
       this.applyFilters();
       this.loading = false;
+      // Only a complete result replaces the cache; a partial one would drop the failed project's items
+      if (!this.error) {
+        this.adoService.cacheWorkItems();
+      }
       console.log(`✅ Successfully loaded work items from ${projects.length} projects:`, {
         totalItems: this.workItems.length,
         uniqueItems: duplicateCheck.size,
@@ -686,7 +740,7 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
         const projectWorkItems = result.workItems;
         const projectSprints = result.sprints;
         
-        const beforeCount = this.workItems.length;
+        const beforeCount = this.loadedWorkItems.length;
         console.log(`✅ Loaded ${projectWorkItems.length} items and ${projectSprints.length} sprints from "${project.name}"`);
         
         // Add project info to work items and append to main list
@@ -700,7 +754,8 @@ export class AdoWorkItemsComponent implements OnInit, OnDestroy {
           }
         }));
         
-        this.workItems = this.workItems.concat(workItemsWithProject);
+        this.loadedWorkItems = this.loadedWorkItems.concat(workItemsWithProject);
+        this.workItems = this.loadedWorkItems;
         const afterCount = this.workItems.length;
         console.log(`📊 Total items: ${beforeCount} → ${afterCount} (+${afterCount - beforeCount})`);
         
@@ -2,17 +2,47 @@ import { Component, OnInit, OnDestroy, ViewChild, ElementRef, AfterViewChecked,
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Auth } from '@angular/fire/auth';
-import { GitHubAIService, ChatMessage } from '../../../services/github-ai.service';
+import { AiService, ChatMessage } from '../../../services/ai.service';
+import { AiToolConfirmation, AiToolsService } from '../../../services/ai-tools.service';
+import { Conversation, ConversationService } from '../../../services/conversation.service';
+import { AiSkillsService, CustomSkill } from '../../../services/ai-skills.service';
 import { JournalService, JournalEntry } from '../../../services/journal.service';
 import { TaskService, Task } from '../../../services/task.service';
-import { GoalsService, Goal } from '../../../services/goals.service';
-import { AdoService } from '../../../services/ado.service';
-import { CoworkerService } from '../../../services/coworker.service';
 import { MicrosoftCalendarService, CalendarEvent } from '../../../services/microsoft-calendar.service';
 import { LinearService, LinearIssue, LinearCustomView } from '../../../services/linear.service';
-import { Subject, combineLatest } from 'rxjs';
-import { takeUntil, debounceTime } from 'rxjs/operators';
+import { formatWorkItemForPrompt, fromLinearIssue } from '../../../services/work-item.service';
+import { Subject, Subscription, combineLatest } from 'rxjs';
+import { takeUntil, debounceTime, finalize } from 'rxjs/operators';
 import { TouchTooltipDirective } from '../../../directives/touch-tooltip.directive';
+import { CommandPaletteService } from '../../../services/command-palette.service';
+import { NavigationService } from '../../../services/navigation.service';
+import { AiConversationHistoryComponent } from '../../ai-conversation-history/ai-conversation-history.component';
+import {
+  AssembledContext, ContextSection, SectionUsage, assembleContext, estimateTokens, fitHistory
+} from '../../../services/prompt-assembly';
+import { DashboardContextService } from '../../../services/dashboard-context.service';
+import { DAILY_SUMMARY_PROMPT, SCRUM_UPDATE_PROMPT } from '../../../services/daily-briefing.service';
+
+/** Thread the widget had open, restored on the next visit. */
+const ACTIVE_CONVERSATION_KEY = 'ai-ask-conversation-id';
+/** Where the widget kept its single conversation before threads were saved per user. */
+const LEGACY_HISTORY_KEY = 'ai-ask-chat-history';
+
+/** What the next message would send, shown in the "context used" panel. */
+export interface ContextUsage {
+  model: string;
+  /** Most tokens a request may send. */
+  limit: number;
+  /** Per-section breakdown; null once the thread has its context saved. */
+  sections: SectionUsage[] | null;
+  contextTokens: number;
+  historyTokens: number;
+  historyMessages: number;
+  /** Older messages left out because they no longer fit. */
+  historyDropped: number;
+  questionTokens: number;
+  total: number;
+}
 
 export interface Skill {
   id: string;
@@ -22,10 +52,26 @@ export interface Skill {
   loading: boolean;
 }
 
+/** Built-in skills; the command palette's "Run AI skill…" action lists these too. */
+export const AI_SKILLS: Omit<Skill, 'loading'>[] = [
+  { id: 'daily-summary', label: 'Daily Summary',  icon: 'fas fa-wand-sparkles',        description: 'Motivational overview + top priorities for today' },
+  { id: 'scrum-update',  label: 'Scrum Update',   icon: 'fas fa-users',                description: 'Standup update drafted from journal entries' },
+  { id: 'sprint-retro',  label: 'Sprint Retro',   icon: 'fas fa-chart-bar',            description: 'Retro board suggestions based on your sprint activity' },
+  { id: 'branch-name',   label: 'Branch & PR Setup', icon: 'fas fa-code-branch',       description: 'Generate branch name, PR title, PR body, and Slack announcement from a Linear issue' },
+  { id: 'view-triage',   label: 'Issue Suggestions', icon: 'fas fa-magnifying-glass-chart', description: 'Recommend issues from a Linear view that fit your engineering profile' },
+];
+
+const CUSTOM_SKILL_PREFIX = 'custom:';
+
+/** A user-defined skill as listed next to the built-ins. */
+export function fromCustomSkill(skill: CustomSkill): Omit<Skill, 'loading'> {
+  return { id: `${CUSTOM_SKILL_PREFIX}${skill.id}`, label: skill.name, icon: skill.icon, description: skill.description };
+}
+
 @Component({
   selector: 'app-ai-ask-widget',
   standalone: true,
-  imports: [CommonModule, FormsModule, TouchTooltipDirective],
+  imports: [CommonModule, FormsModule, TouchTooltipDirective, AiConversationHistoryComponent],
   templateUrl: './ai-ask-widget.component.html',
   styleUrls: ['./ai-ask-widget.component.scss']
 })
@@ -53,26 +99,49 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   showSkillsDropdown = false;
   skillsDropdownUp = false;
 
-  // Tracks assistant messages currently playing the reveal animation
-  animatingMessages = new Set<ChatMessage>();
+  // Saved thread the conversation belongs to; null until its first message is stored
+  conversationId: string | null = null;
+  // Context the thread started with, sent again on every turn so a resumed thread keeps it
+  private threadSystemPrompt: string | null = null;
+  showHistory = false;
 
-  replayAnimation(msg: ChatMessage): void {
-    this.animatingMessages.delete(msg);
-    // Allow Angular to remove the class first, then re-add on next frame
-    requestAnimationFrame(() => {
-      this.animatingMessages.add(msg);
-      setTimeout(() => this.animatingMessages.delete(msg), 750);
+  showContextUsage = false;
+  contextUsage: ContextUsage | null = null;
+  private questionChange$ = new Subject<void>();
+
+  // Assistant message currently receiving streamed text
+  streamingMessage: ChatMessage | null = null;
+  // In-flight reply; unsubscribing aborts the request
+  private replySubscription: Subscription | null = null;
+
+  get generating(): boolean {
+    return !!this.replySubscription && !this.replySubscription.closed;
+  }
+
+  stopGenerating(): void {
+    // Unsubscribe first: the card on screen and any calls after it are then recorded as stopped
+    this.replySubscription?.unsubscribe();
+    this.resolveToolCall(false);
+  }
+
+  // A change the assistant wants to make, shown as a card until the user applies or cancels it
+  pendingToolCall: (AiToolConfirmation & { resolve: (approved: boolean) => void }) | null = null;
+
+  private confirmToolCall = (request: AiToolConfirmation): Promise<boolean> =>
+    new Promise(resolve => {
+      this.pendingToolCall = { ...request, resolve };
+      this.shouldScroll = true;
     });
+
+  resolveToolCall(approved: boolean): void {
+    const pending = this.pendingToolCall;
+    this.pendingToolCall = null;
+    pending?.resolve(approved);
   }
 
-  // Skills
-  skills: Skill[] = [
-    { id: 'daily-summary', label: 'Daily Summary',  icon: 'fas fa-wand-sparkles',        description: 'Motivational overview + top priorities for today', loading: false },
-    { id: 'scrum-update',  label: 'Scrum Update',   icon: 'fas fa-users',                description: 'Standup update drafted from journal entries',   loading: false },
-    { id: 'sprint-retro',  label: 'Sprint Retro',   icon: 'fas fa-chart-bar',            description: 'Retro board suggestions based on your sprint activity', loading: false },
-    { id: 'branch-name',   label: 'Branch & PR Setup', icon: 'fas fa-code-branch',       description: 'Generate branch name, PR title, PR body, and Slack announcement from a Linear issue', loading: false },
-    { id: 'view-triage',   label: 'Issue Suggestions', icon: 'fas fa-magnifying-glass-chart', description: 'Recommend issues from a Linear view that fit your engineering profile', loading: false },
-  ];
+  // Skills: the built-ins followed by the user's own
+  skills: Skill[] = AI_SKILLS.map(s => ({ ...s, loading: false }));
+  private customSkills: CustomSkill[] = [];
 
   // Branch name skill state
   showBranchPicker = false;
@@ -92,21 +161,24 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   // Live data
   private journalEntries: JournalEntry[] = [];
   private tasks: Task[] = [];
-  private goals: Goal[] = [];
   private calendarEvents: CalendarEvent[] = [];
   private destroy$ = new Subject<void>();
+  private unregisterCommands?: () => void;
 
   constructor(
     private elRef: ElementRef,
-    private aiService: GitHubAIService,
+    private aiService: AiService,
+    private aiTools: AiToolsService,
+    private conversationService: ConversationService,
+    private aiSkills: AiSkillsService,
     private auth: Auth,
     private journalService: JournalService,
     private taskService: TaskService,
-    private goalsService: GoalsService,
     private calendarService: MicrosoftCalendarService,
-    private adoService: AdoService,
-    private coworkerService: CoworkerService,
-    private linearService: LinearService
+    private dashboardContext: DashboardContextService,
+    private linearService: LinearService,
+    private commandPalette: CommandPaletteService,
+    private navigationService: NavigationService
   ) {}
 
   get greeting(): string {
@@ -122,8 +194,8 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   }
 
   ngOnInit(): void {
-    this.isConfigured = this.aiService.isConfigured();
-    this.loadChatHistory();
+    this.isConfigured = this.aiService.isConfigured('ask');
+    this.restoreConversation();
 
     this.journalService.entries$
       .pipe(takeUntil(this.destroy$))
@@ -133,15 +205,11 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
       .pipe(debounceTime(200), takeUntil(this.destroy$))
       .subscribe(([tasks]) => (this.tasks = tasks));
 
-    this.goalsService.goals$
-      .pipe(takeUntil(this.destroy$))
-      .subscribe(goals => (this.goals = goals));
-
     this.calendarService.weekEvents$
       .pipe(takeUntil(this.destroy$))
       .subscribe(events => (this.calendarEvents = events));
 
-    // Fetch a 2-week window (past 7 days + next 7 days) for AI context
+    // Fetch the calendar window the AI context covers
     this.calendarService.isConfigured$
       .pipe(takeUntil(this.destroy$))
       .subscribe(configured => {
@@ -154,9 +222,60 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
         this.linearIssues = issues;
       });
 
-    this.aiService.error$
+    this.questionChange$
+      .pipe(debounceTime(300), takeUntil(this.destroy$))
+      .subscribe(() => this.refreshContextUsage());
+
+    this.aiService.isConfigured$('ask')
       .pipe(takeUntil(this.destroy$))
-      .subscribe(() => (this.isConfigured = this.aiService.isConfigured()));
+      .subscribe(configured => (this.isConfigured = configured));
+
+    this.aiSkills.skills$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(custom => {
+        this.customSkills = custom;
+        // Reuse existing entries so a skill that is running keeps its loading state
+        const builtIns = this.skills.filter(s => !s.id.startsWith(CUSTOM_SKILL_PREFIX));
+        const current = new Map(this.skills.map(s => [s.id, s]));
+        this.skills = [
+          ...builtIns,
+          ...custom.map(c => {
+            const entry = fromCustomSkill(c);
+            return Object.assign(current.get(entry.id) ?? { loading: false }, entry);
+          })
+        ];
+      });
+
+    // While mounted, run skills in place instead of the palette's navigate-to-dashboard default
+    this.unregisterCommands = this.commandPalette.register({
+      id: 'ai-ask-widget',
+      priority: 1,
+      commands: () => [{
+        id: 'action:run-skill',
+        label: 'Run AI skill…',
+        group: 'Actions',
+        icon: 'fas fa-wand-sparkles',
+        pinned: true,
+        children: () => this.skills.map(skill => ({
+          id: `skill:${skill.id}`,
+          label: skill.label,
+          hint: skill.description,
+          group: 'AI Skills',
+          icon: skill.icon,
+          run: () => {
+            this.elRef.nativeElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            this.runSkill(skill.id);
+          }
+        }))
+      }]
+    });
+
+    const pendingSkillId = this.navigationService.pendingSkillId;
+    if (pendingSkillId) {
+      this.navigationService.pendingSkillId = null;
+      // Give the debounced task subscription time to deliver before the prompt is built
+      setTimeout(() => this.runSkill(pendingSkillId), 300);
+    }
   }
 
   toggleConversationExpanded(): void {
@@ -182,6 +301,7 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   }
 
   ngOnDestroy(): void {
+    this.unregisterCommands?.();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -193,12 +313,34 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
     }
   }
 
+  /** Start a fresh thread; the current one stays in the history. */
   clearConversation(): void {
+    this.stopGenerating();
     this.conversationHistory = [];
+    this.conversationId = null;
+    this.threadSystemPrompt = null;
     this.error = null;
     this.question = '';
     this.confirmClear = false;
-    this.saveChatHistory();
+    localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    if (this.showContextUsage) this.refreshContextUsage();
+  }
+
+  resumeConversation(conversation: Conversation): void {
+    this.stopGenerating();
+    this.conversationHistory = conversation.messages;
+    this.conversationId = conversation.id;
+    this.threadSystemPrompt = conversation.systemPrompt || null;
+    this.error = null;
+    this.confirmClear = false;
+    this.showHistory = false;
+    this.shouldScroll = true;
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversation.id);
+    if (this.showContextUsage) this.refreshContextUsage();
+  }
+
+  onConversationDeleted(id: string): void {
+    if (id === this.conversationId) this.clearConversation();
   }
 
   copiedMsgIndex: number | null = null;
@@ -242,6 +384,11 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
     const skill = this.skills.find(s => s.id === skillId);
     if (!skill) return;
 
+    if (skillId.startsWith(CUSTOM_SKILL_PREFIX)) {
+      this.runCustomSkill(skill);
+      return;
+    }
+
     let prompt: string;
     if (skillId === 'daily-summary') {
       prompt = this.buildDailySummaryPrompt();
@@ -258,6 +405,20 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
     this.sendMessage(prompt, skill);
   }
 
+  /** Fill in the skill's placeholders from live data, then send it like a built-in skill. */
+  private runCustomSkill(skill: Skill): void {
+    const custom = this.customSkills.find(c => `${CUSTOM_SKILL_PREFIX}${c.id}` === skill.id);
+    if (!custom) return;
+    skill.loading = true;
+    this.error = null;
+    this.aiSkills.buildPrompt(custom)
+      .then(prompt => this.sendMessage(prompt, skill))
+      .catch(err => {
+        skill.loading = false;
+        this.error = err?.message || `Failed to prepare "${skill.label}".`;
+      });
+  }
+
   toggleSkillsDropdown(): void {
     if (this.showSkillsDropdown) {
       this.showSkillsDropdown = false;
@@ -287,7 +448,7 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
 
     const systemMsg: ChatMessage = {
       role: 'system',
-      content: options?.systemPrompt ?? this.buildSystemContext(),
+      content: options?.systemPrompt ?? this.threadSystemContext(userText),
       timestamp: new Date()
     };
 
@@ -298,174 +459,104 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
       ...(skill ? { skillLabel: skill.label, skillDescription: skill.description, skillPrompt: userText } : {})
     };
     const priorHistory = options?.skipHistory ? [] : this.conversationHistory;
-    const historyForApi = [systemMsg, ...priorHistory, userMsg];
+    // Long threads drop their oldest turns so the request stays within the model's limit
+    const { model, inputTokens } = this.aiService.getPromptBudget('ask');
+    const room = inputTokens - estimateTokens(systemMsg.content, model) - estimateTokens(userText, model);
+    const historyForApi = [systemMsg, ...fitHistory(priorHistory, room, model).messages, userMsg];
 
     // Show user turn immediately
     this.conversationHistory = [...this.conversationHistory, userMsg];
     this.shouldScroll = true;
 
-    this.aiService.sendMessage(userText, historyForApi)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (response) => {
-          const assistantMsg: ChatMessage = { role: 'assistant', content: response, timestamp: new Date() };
-          this.conversationHistory = [...this.conversationHistory, assistantMsg];
+    const assistantMsg: ChatMessage = { role: 'assistant', content: '', timestamp: new Date() };
+    this.replySubscription = this.aiTools.run('ask', userText, historyForApi, this.confirmToolCall)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.resolveToolCall(false);
           this.loading = false;
           if (skill) skill.loading = false;
-          this.shouldScroll = true;
-          this.saveChatHistory();
-          // Trigger reveal animation, then clear after it completes
-          this.animatingMessages.add(assistantMsg);
-          setTimeout(() => this.animatingMessages.delete(assistantMsg), 750);
-        },
+          this.streamingMessage = null;
+          // Keep partial replies, e.g. when stopped part-way
+          if (assistantMsg.content) this.saveChatHistory();
+          if (this.showContextUsage) this.refreshContextUsage();
+        })
+      )
+      .subscribe({
+        next: (delta) => this.appendDelta(assistantMsg, delta),
         error: (err) => {
-          // Remove the optimistically-added user message
-          this.conversationHistory = this.conversationHistory.slice(0, -1);
+          // Remove the optimistically-added user message if nothing came back
+          if (!assistantMsg.content) {
+            this.conversationHistory = this.conversationHistory.slice(0, -1);
+          }
           this.error = err.message || 'Failed to get a response. Please try again.';
-          this.loading = false;
-          if (skill) skill.loading = false;
         }
       });
   }
 
+  /** Adds the reply to the conversation on its first delta, then grows it in place. */
+  private appendDelta(assistantMsg: ChatMessage, delta: string): void {
+    if (this.streamingMessage !== assistantMsg) {
+      this.conversationHistory = [...this.conversationHistory, assistantMsg];
+      this.streamingMessage = assistantMsg;
+    }
+    assistantMsg.content += delta;
+    this.shouldScroll = true;
+  }
+
   private fetchCalendarRange(): void {
-    const start = new Date();
-    start.setDate(start.getDate() - 14);
-    start.setHours(0, 0, 0, 0);
-    const end = new Date();
-    end.setDate(end.getDate() + 14);
-    end.setHours(23, 59, 59, 999);
-    this.calendarService.getEventsForRange(start, end)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe();
+    this.dashboardContext.refreshCalendar()
+      .catch(e => console.error('Failed to load calendar for AI context:', e));
+  }
+
+  // ── Context used ──────────────────────────────────────────────
+
+  toggleContextUsage(): void {
+    this.showContextUsage = !this.showContextUsage;
+    if (this.showContextUsage) this.refreshContextUsage();
+  }
+
+  onQuestionChange(): void {
+    if (this.showContextUsage) this.questionChange$.next();
+  }
+
+  /** Works out what sending the current question would include, the same way sendMessage does. */
+  refreshContextUsage(): void {
+    const { model, inputTokens } = this.aiService.getPromptBudget('ask');
+    const question = this.question.trim();
+    const context = this.threadSystemPrompt === null ? this.buildSystemContext(question) : null;
+    const contextTokens = context ? context.tokens : estimateTokens(this.threadSystemPrompt!, model);
+    const questionTokens = estimateTokens(question, model);
+    const history = fitHistory(this.conversationHistory, inputTokens - contextTokens - questionTokens, model);
+    this.contextUsage = {
+      model,
+      limit: inputTokens,
+      sections: context ? context.sections : null,
+      contextTokens,
+      historyTokens: history.tokens,
+      historyMessages: history.messages.length,
+      historyDropped: history.dropped,
+      questionTokens,
+      total: contextTokens + history.tokens + questionTokens
+    };
   }
 
   // ── Context builders ──────────────────────────────────────────
 
-  private buildSystemContext(): string {
+  /** The thread's system context, captured from the live dashboard data on its first turn. */
+  private threadSystemContext(query = ''): string {
+    return this.threadSystemPrompt ??= this.buildSystemContext(query).text;
+  }
+
+  private buildSystemContext(query = ''): AssembledContext {
     const now = new Date();
-    const lines: string[] = [
+    return this.dashboardContext.build([
       `You are a helpful AI assistant integrated into a personal work dashboard.`,
       `Today is ${now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.`,
-      `Answer questions about the user's tasks, journal entries, and ADO work items concisely. Use light markdown where helpful.`,
-      ``
-    ];
-
-    // Journal
-    if (this.journalEntries.length > 0) {
-      lines.push(`## Journal Entries (${this.journalEntries.length} total, most recent first)`);
-      this.journalEntries.slice(0, 15).forEach(e => {
-        const d = new Date(e.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-        const t = new Date(e.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        lines.push(`- [${d} ${t}] ${e.text}`);
-      });
-      lines.push('');
-    }
-
-    // Tasks
-    const pending = this.tasks.filter(t => !t.completed);
-    const completed = this.tasks.filter(t => t.completed);
-    if (this.tasks.length > 0) {
-      lines.push(`## Tasks (${pending.length} pending, ${completed.length} done)`);
-      pending.slice(0, 15).forEach(t => {
-        let line = `- [PENDING] ${t.title}`;
-        if (t.priority) line += ` [${t.priority}]`;
-        if (t.dueDate) {
-          const due = new Date(t.dueDate);
-          line += due < now ? ` (OVERDUE: ${due.toLocaleDateString()})` : ` (due ${due.toLocaleDateString()})`;
-        }
-        lines.push(line);
-      });
-      completed.slice(0, 5).forEach(t => lines.push(`- [DONE] ${t.title}`));
-      lines.push('');
-    }
-
-    // Calendar events
-    if (this.calendarEvents.length > 0) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const past = this.calendarEvents.filter(e => new Date(e.start.dateTime) < today);
-      const upcoming = this.calendarEvents.filter(e => new Date(e.start.dateTime) >= today);
-
-      const formatEvent = (e: CalendarEvent): string => {
-        const start = new Date(e.start.dateTime);
-        const end   = new Date(e.end.dateTime);
-        const dateStr = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
-        const timeStr = start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
-                      + '–' + end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-        let line = `- ${dateStr} ${timeStr}: ${e.subject}`;
-        if (e.location?.displayName) line += ` @ ${e.location.displayName}`;
-        if (e.isOnlineMeeting) line += ' [Online]';
-        if (e.showAs === 'free') line += ' [Free]';
-        return line;
-      };
-
-      lines.push(`## Outlook Calendar (past 7 days + next 7 days, ${this.calendarEvents.length} event${this.calendarEvents.length !== 1 ? 's' : ''})`);
-      if (past.length > 0) {
-        lines.push(`### Past`);
-        past.forEach(e => lines.push(formatEvent(e)));
-      }
-      if (upcoming.length > 0) {
-        lines.push(`### Upcoming`);
-        upcoming.forEach(e => lines.push(formatEvent(e)));
-      }
-      lines.push('');
-    }
-
-    // Yearly goals
-    if (this.goals.length > 0) {
-      const currentYear = now.getFullYear();
-      const byYear: Record<number, Goal[]> = {};
-      this.goals.forEach(g => {
-        if (!byYear[g.year]) byYear[g.year] = [];
-        byYear[g.year].push(g);
-      });
-      const years = Object.keys(byYear).map(Number).sort((a, b) => b - a);
-      lines.push(`## Yearly Goals`);
-      years.forEach(yr => {
-        lines.push(`### ${yr}${yr === currentYear ? ' (current year)' : ''}`);
-        byYear[yr].forEach((g, i) => {
-          lines.push(`${i + 1}. ${g.title}${g.description ? ` — ${g.description}` : ''}`);
-        });
-      });
-      lines.push('');
-    }
-
-    // ADO work items
-    const adoItems: any[] = (this.adoService as any)['workItemsSubject']?.value ?? [];
-    if (adoItems.length > 0) {
-      const org = this.adoService.getOrganization();
-      const proj = this.adoService.getProject();
-      lines.push(`## Azure DevOps Work Items (${adoItems.length} total)`);
-      adoItems.slice(0, 15).forEach((item: any) => {
-        const id = item.fields['System.Id'] || item.id;
-        const title = item.fields['System.Title'];
-        const state = item.fields['System.State'];
-        const type = item.fields['System.WorkItemType'];
-        const priority = item.fields['Microsoft.VSTS.Common.Priority'];
-        const pi = (item as any).projectInfo ?? (org && proj ? { organization: org, project: proj } : null);
-        if (pi) {
-          const url = `https://dev.azure.com/${pi.organization}/${encodeURIComponent(pi.project)}/_workitems/edit/${id}`;
-          lines.push(`- [${type} ${id}: ${title}](${url}) [${state}]${priority ? ` P${priority}` : ''}`);
-        } else {
-          lines.push(`- ${type} ${id}: ${title} [${state}]${priority ? ` P${priority}` : ''}`);
-        }
-      });
-      lines.push('');
-    }
-
-    // Coworkers
-    const coworkers: any[] = (this.coworkerService as any)['coworkersSubject']?.value ?? [];
-    if (coworkers.length > 0) {
-      const inHours = coworkers.filter(c => {
-        if (!c.timezone) return false;
-        const h = new Date(new Date().toLocaleString('en-US', { timeZone: c.timezone })).getHours();
-        return h >= 9 && h < 17;
-      }).length;
-      lines.push(`## Team: ${inHours}/${coworkers.length} coworkers currently in office hours`);
-    }
-
-    return lines.join('\n');
+      `Answer questions about the user's tasks, journal entries, and work items (Azure DevOps, Linear, GitHub PRs) concisely. Use light markdown where helpful.`,
+      `When the user asks you to do something, use the tools to create or update tasks, add journal entries or goals; they confirm each change before it is made. Look up task ids with list_tasks rather than guessing.`,
+      `Lists below may be cut short to fit; say so if an answer could depend on what was left out.`
+    ], query);
   }
 
   pickBranchIssue(issue: LinearIssue): void {
@@ -488,7 +579,7 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
 
     const issueCtx = this.buildIssueContext(issue);
     const steps = this.buildBranchSetupSteps(issue, issueCtx);
-    const systemMsg: ChatMessage = { role: 'system', content: this.buildSystemContext(), timestamp: new Date() };
+    const systemMsg: ChatMessage = { role: 'system', content: this.threadSystemContext(), timestamp: new Date() };
     this.sendNextBranchStep(steps, 0, systemMsg, skill);
   }
 
@@ -547,20 +638,28 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
     }
     const step = steps[index];
     const stepUserMsg: ChatMessage = { role: 'user', content: step.prompt, timestamp: new Date() };
-    this.aiService.sendMessage(step.prompt, [systemMsg, stepUserMsg])
-      .pipe(takeUntil(this.destroy$))
+    const assistantMsg: ChatMessage = { role: 'assistant', content: '', timestamp: new Date() };
+    let finished = false;
+    this.replySubscription = this.aiService.streamMessage('ask', step.prompt, [systemMsg, stepUserMsg])
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.streamingMessage = null;
+          // Stopped or failed: end the chain with what has been generated so far
+          if (!finished) {
+            skill.loading = false;
+            this.saveChatHistory();
+          }
+        })
+      )
       .subscribe({
-        next: (response) => {
-          const assistantMsg: ChatMessage = { role: 'assistant', content: response, timestamp: new Date() };
-          this.conversationHistory = [...this.conversationHistory, assistantMsg];
-          this.shouldScroll = true;
-          this.animatingMessages.add(assistantMsg);
-          setTimeout(() => this.animatingMessages.delete(assistantMsg), 750);
+        next: (delta) => this.appendDelta(assistantMsg, delta),
+        complete: () => {
+          finished = true;
           this.sendNextBranchStep(steps, index + 1, systemMsg, skill);
         },
         error: (err) => {
           this.error = err.message || 'Failed to generate PR setup. Please try again.';
-          skill.loading = false;
         }
       });
   }
@@ -635,42 +734,37 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   private buildViewTriagePrompt(): string {
     const viewName = this.selectedView?.name ?? 'Selected View';
     const viewIssues = this.viewBrowserIssues;
-    const MAX_VIEW_ISSUES = 50;
     const MAX_PROFILE_ISSUES = 10;
-    const truncated = viewIssues.length > MAX_VIEW_ISSUES;
-    const displayIssues = truncated ? viewIssues.slice(0, MAX_VIEW_ISSUES) : viewIssues;
-    const priorities = ['', 'Urgent', 'High', 'Medium', 'Low'];
-
-    const lines: string[] = [
-      `Recommend 3–5 issues from the Linear view "${viewName}" that best match my engineering profile.`
-    ];
+    const { model, contextTokens } = this.aiService.getPromptBudget('ask');
+
+    const sections: ContextSection[] = [{
+      id: 'profile',
+      label: 'My profile',
+      heading: `## My Profile (current assignments)`,
+      items: this.linearIssues.slice(0, MAX_PROFILE_ISSUES).map(i => {
+        const { key, title, container, labels } = fromLinearIssue(i);
+        const tags = [container, ...labels].filter(Boolean).join(', ');
+        return `- ${key}: ${title}${tags ? ` [${tags}]` : ''}`;
+      }),
+      priority: 2,
+      maxShare: 0.2
+    }, {
+      id: 'view',
+      label: viewName,
+      heading: `## View: "${viewName}" (${viewIssues.length} issues)`,
+      items: viewIssues.map(i => formatWorkItemForPrompt(fromLinearIssue(i))),
+      priority: 1,
+      maxShare: 0.8
+    }];
+    const lists = assembleContext(sections.filter(section => section.items.length > 0), contextTokens, model);
 
-    if (this.linearIssues.length > 0) {
-      lines.push(`\n## My Profile (current assignments)`);
-      this.linearIssues.slice(0, MAX_PROFILE_ISSUES).forEach(i => {
-        const tags = [
-          i.project?.name,
-          ...i.labels.nodes.map(l => l.name)
-        ].filter(Boolean).join(', ');
-        lines.push(`- ${i.identifier}: ${i.title}${tags ? ` [${tags}]` : ''}`);
-      });
-    }
-
-    lines.push(`\n## View: "${viewName}" (${viewIssues.length} issues${truncated ? `, showing first ${MAX_VIEW_ISSUES}` : ''})`);
-    displayIssues.forEach(i => {
-      const tags = [
-        i.project?.name,
-        ...i.labels.nodes.map(l => l.name)
-      ].filter(Boolean).join(', ');
-      const prio = i.priority > 0 && i.priority < priorities.length ? priorities[i.priority] : '';
-      const est = i.estimate != null ? `${i.estimate}pt` : '';
-      const meta = [prio, est, i.state.name].filter(Boolean).join(' | ');
-      lines.push(`- [${i.identifier}](${i.url}): ${i.title}${tags ? ` [${tags}]` : ''}${meta ? ` (${meta})` : ''}`);
-    });
-
-    lines.push(`\nRespond with a numbered list. For each of your 3–5 picks: link the issue identifier (e.g. [LIN-123](url)), give a 1-sentence skill-match reason, and note any complexity or risk. Order best-fit first.`);
-
-    return lines.join('\n');
+    return [
+      `Recommend 3–5 issues from the Linear view "${viewName}" that best match my engineering profile.`,
+      '',
+      lists.text,
+      '',
+      `Respond with a numbered list. For each of your 3–5 picks: link the issue identifier (e.g. [LIN-123](url)), give a 1-sentence skill-match reason, and note any complexity or risk. Order best-fit first.`
+    ].join('\n');
   }
 
   private buildSprintRetroPrompt(): string {
@@ -702,12 +796,7 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   }
 
   private buildDailySummaryPrompt(): string {
-    return `Give me a motivational daily briefing based on my dashboard data. Start with a casual, energizing greeting (use some bro-speak). Then provide:
-      1. A 1-2 sentence overview of my day
-      2. My top 3-5 priorities to focus on
-      3. A one-line callout if any of today's tasks connect to my yearly goals
-
-      When referencing ADO work items, make them clickable markdown links. Keep it concise and actionable. Respond in plain markdown (no JSON).`;
+    return DAILY_SUMMARY_PROMPT;
   }
 
   private buildScrumPrompt(): string {
@@ -715,7 +804,7 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
       this.error = 'No journal entries found — add some first!';
       return '';
     }
-    return `Based on my recent journal entries, write a brief scrum standup update (3-5 sentences, flowing prose, no bullet points) covering what I've been working on, any progress, and any blockers. Make it natural and ready to read aloud. Just the update text, nothing else.`;
+    return SCRUM_UPDATE_PROMPT;
   }
 
   // ── Rendering ─────────────────────────────────────────────────
@@ -752,15 +841,27 @@ export class AiAskWidgetComponent implements OnInit, OnDestroy, AfterViewChecked
   // ── Persistence ───────────────────────────────────────────────
 
   private saveChatHistory(): void {
-    try {
-      localStorage.setItem('ai-ask-chat-history', JSON.stringify(this.conversationHistory.slice(-40)));
-    } catch { /* storage full */ }
+    const id = this.conversationService.save('ask', this.conversationId, this.threadSystemContext(), this.conversationHistory);
+    if (id) {
+      this.conversationId = id;
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    }
   }
 
-  private loadChatHistory(): void {
-    try {
-      const saved = localStorage.getItem('ai-ask-chat-history');
-      if (saved) this.conversationHistory = JSON.parse(saved);
-    } catch { this.conversationHistory = []; }
+  /** Reopen the thread from the last visit, or the chat this browser kept before threads were saved. */
+  private restoreConversation(): void {
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    const opened = activeId
+      ? Promise.resolve(activeId)
+      : this.conversationService.adoptLocalHistory('ask', LEGACY_HISTORY_KEY);
+    opened.then(id => {
+      if (!id) return;
+      this.conversationService.whenLoaded(id)
+        .pipe(takeUntil(this.destroy$))
+        // Leave a thread the user has already started alone
+        .subscribe(conversation => {
+          if (this.conversationHistory.length === 0) this.resumeConversation(conversation);
+        });
+    });
   }
 }
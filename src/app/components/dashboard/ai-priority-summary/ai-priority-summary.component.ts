@@ -1,13 +1,39 @@
 import { Component, OnInit, OnDestroy, ElementRef, ViewChild, AfterViewChecked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { GitHubAIService, ChatMessage, RateLimitInfo } from '../../../services/github-ai.service';
+import { AiService, ChatMessage, RateLimitInfo } from '../../../services/ai.service';
 import { TaskService } from '../../../services/task.service';
+import { actionableTasks } from '../../../services/task-graph';
 import { AdoService } from '../../../services/ado.service';
 import { CoworkerService } from '../../../services/coworker.service';
 import { JournalService, JournalEntry } from '../../../services/journal.service';
-import { Subject, combineLatest, timer } from 'rxjs';
-import { takeUntil, filter, take, debounceTime } from 'rxjs/operators';
+import { Conversation, ConversationService } from '../../../services/conversation.service';
+import {
+  WorkItem, WorkItemService, WorkItemSource, WORK_ITEM_SOURCE_LABELS, formatWorkItemForPrompt, isOpenWorkItem
+} from '../../../services/work-item.service';
+import { Subject, Subscription, combineLatest, timer } from 'rxjs';
+import { takeUntil, filter, take, debounceTime, finalize } from 'rxjs/operators';
+import { AiConversationHistoryComponent } from '../../ai-conversation-history/ai-conversation-history.component';
+
+/** Clippy thread the widget had open, restored on the next visit. */
+const ACTIVE_CONVERSATION_KEY = 'ai-priority-conversation-id';
+/** Where the chat was kept before threads were saved per user. */
+const LEGACY_HISTORY_KEY = 'ai-priority-chat-history';
+
+/**
+ * The `overview` string of a JSON reply that may still be arriving, or '' before it starts.
+ * A trailing partial escape sequence is dropped until the rest of it streams in.
+ */
+function readPartialOverview(json: string): string {
+  const match = json.match(/"overview"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return '';
+  const raw = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
 
 interface PrioritySummary {
   topPriorities: string[];
@@ -19,7 +45,7 @@ interface PrioritySummary {
 @Component({
   selector: 'app-ai-priority-summary',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, AiConversationHistoryComponent],
   templateUrl: './ai-priority-summary.component.html',
   styleUrls: ['./ai-priority-summary.component.scss']
 })
@@ -32,8 +58,9 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
   isExpanded = true;
   waitingForData = true;
   dataReady = false;
-  animatedOverview = '';
-  isAnimating = false;
+  // Overview decoded from the JSON reply while it streams in
+  streamingOverview = '';
+  isStreaming = false;
 
   // Rate limit tracking
   rateLimitInfo: RateLimitInfo = {
@@ -45,6 +72,10 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
 
   private destroy$ = new Subject<void>();
   private dataReady$ = new Subject<void>();
+  // In-flight requests; unsubscribing aborts them
+  private summarySubscription: Subscription | null = null;
+  private scrumSubscription: Subscription | null = null;
+  private chatSubscription: Subscription | null = null;
 
   @ViewChild('chatContainer') private chatContainer!: ElementRef;
 
@@ -53,8 +84,13 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
   currentChatMessage = '';
   isChatting = false;
   chatLoading = false;
+  chatStreaming = false;
   showChat = false;
   isClippyVisible = true;
+  showChatHistory = false;
+  // Saved thread the chat belongs to, and the context it started with
+  chatConversationId: string | null = null;
+  private chatSystemPrompt: string | null = null;
   private shouldScrollChat = false;
 
   // Scrum update
@@ -65,15 +101,17 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
   private journalEntries: JournalEntry[] = [];
 
   constructor(
-    private githubAI: GitHubAIService,
+    private aiService: AiService,
     private taskService: TaskService,
     private adoService: AdoService,
     private coworkerService: CoworkerService,
-    private journalService: JournalService
+    private journalService: JournalService,
+    private workItemService: WorkItemService,
+    private conversationService: ConversationService
   ) {}
 
   ngOnInit(): void {
-    this.isConfigured = this.githubAI.isConfigured();
+    this.isConfigured = this.aiService.isConfigured('priority-summary');
     
     // Load Clippy visibility preference from localStorage
     const savedClippyVisibility = localStorage.getItem('clippy-visible');
@@ -81,25 +119,30 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
       this.isClippyVisible = savedClippyVisibility === 'true';
     }
     
-    if (this.isConfigured) {
-      // Subscribe to rate limit info
-      this.githubAI.rateLimit$
-        .pipe(takeUntil(this.destroy$))
-        .subscribe(info => this.rateLimitInfo = info);
-
-      // Keep journal entries in sync
-      this.journalService.entries$
-        .pipe(takeUntil(this.destroy$))
-        .subscribe(entries => this.journalEntries = entries);
-
-      // Load chat history
-      this.loadChatHistory();
+    // The provider can become ready after init, e.g. once the credential vault is unlocked
+    this.aiService.isConfigured$('priority-summary')
+      .pipe(filter(Boolean), take(1), takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.isConfigured = true;
+
+        // Subscribe to rate limit info
+        this.aiService.rateLimitFor$('priority-summary')
+          .pipe(takeUntil(this.destroy$))
+          .subscribe(info => this.rateLimitInfo = info);
+
+        // Keep journal entries in sync
+        this.journalService.entries$
+          .pipe(takeUntil(this.destroy$))
+          .subscribe(entries => this.journalEntries = entries);
+
+        // Reopen the thread from the last visit
+        this.loadChatHistory();
       
-      // Wait for all data sources to be ready
-      this.waitForDataSources();
+        // Wait for all data sources to be ready
+        this.waitForDataSources();
       
-      // No auto-refresh - only load on page reload
-    }
+        // No auto-refresh - only load on page reload
+    });
   }
 
   toggleChat(): void {
@@ -112,7 +155,6 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
         content: 'Hi there! 👋 I\'m Clippy, your AI assistant. What would you like to do today? I can help you with your priorities, tasks, work items, or answer questions about your work.',
         timestamp: new Date()
       });
-      this.saveChatHistory();
     }
   }
 
@@ -133,7 +175,7 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
 
   resetRateLimit(): void {
     if (confirm('Reset API call counter?')) {
-      this.githubAI.resetRateLimitInfo();
+      this.aiService.resetRateLimitInfo(this.aiService.providerFor('priority-summary').kind);
     }
   }
 
@@ -260,7 +302,7 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
   }
 
   generateSummary(): void {
-    if (!this.githubAI.isConfigured()) {
+    if (!this.aiService.isConfigured('priority-summary')) {
       this.error = 'GitHub AI not configured. Please set up your token in the GitHub AI Chat widget.';
       this.loading = false;
       return;
@@ -273,35 +315,19 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
     const tasks = this.taskService.getTasks();
     const taskStats = this.taskService.getStatistics();
     
-    // NOTE: AdoService.workItems$ only contains the last loaded project
-    // We need to get work items from all projects, but there's no direct way
-    // For now, use what's available from the service
-    const adoWorkItems = this.adoService['workItemsSubject'].value || [];
+    const workItems = this.workItemService.getWorkItems();
     const coworkers = this.coworkerService['coworkersSubject']?.value || [];
-    
-    console.log('⚠️ Note: Work items from AdoService may not include all projects');
-    console.log('Available work items:', adoWorkItems.map(wi => ({
-      id: wi.fields['System.Id'] || wi.id,
-      hasProjectInfo: !!(wi as any).projectInfo,
-      projectInfo: (wi as any).projectInfo
-    })));
-
-    // Get ADO configuration for building URLs - use getter methods
-    const organization = this.adoService.getOrganization();
-    const project = this.adoService.getProject();
 
     console.log('🤖 Generating AI summary with data:', {
       tasks: tasks.length,
       tasksPending: taskStats.pending,
       tasksOverdue: taskStats.overdue,
-      adoWorkItems: adoWorkItems.length,
-      coworkers: coworkers.length,
-      organization,
-      project
+      workItems: workItems.length,
+      coworkers: coworkers.length
     });
 
     // Build context for AI
-    const context = this.buildDashboardContext(tasks, taskStats, adoWorkItems, coworkers, organization, project);
+    const context = this.buildDashboardContext(tasks, taskStats, workItems, coworkers);
 
     // Create prompt for AI
     const prompt = `You are an AI assistant analyzing a developer's dashboard. 
@@ -311,7 +337,7 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
                     in the style of a cool casual assistant that might use plenty of bro
                     speak. 
                     
-                    When referencing ADO work items, embed HTML anchor tags that open in a 
+                    When referencing work items, embed HTML anchor tags that open in a 
                     new tab with succinct link text. These bullet point can contain non-link
                     text as well, but any references to work items must be clickable links.
 
@@ -329,46 +355,61 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
 
     Keep it concise and actionable. Focus on what matters most today.`;
 
-    this.githubAI.sendMessage(prompt)
-      .pipe(takeUntil(this.destroy$))
+    let response = '';
+    this.streamingOverview = '';
+    this.summarySubscription = this.aiService.streamMessage('priority-summary', prompt)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.loading = false;
+          this.isStreaming = false;
+        })
+      )
       .subscribe({
-        next: (response) => {
+        next: (delta) => {
+          response += delta;
+          const overview = readPartialOverview(response);
+          if (overview) {
+            this.streamingOverview = overview;
+            this.isStreaming = true;
+          }
+        },
+        complete: () => {
           try {
             // Extract JSON from response (in case AI adds extra text)
             const jsonMatch = response.match(/\{[\s\S]*\}/);
             if (jsonMatch) {
               this.summary = JSON.parse(jsonMatch[0]);
               this.lastUpdated = new Date();
-              this.loading = false;
               console.log('✅ AI summary generated successfully');
-              
-              // Animate the overview text
-              if (this.summary && this.summary.overview) {
-                this.animateText(this.summary.overview, 30);
-              }
             } else {
               throw new Error('Invalid response format');
             }
           } catch (parseError) {
             console.error('Failed to parse AI response:', parseError);
             this.error = 'Failed to parse AI response. Please try again.';
-            this.loading = false;
           }
         },
         error: (err) => {
           console.error('AI summary generation failed:', err);
           this.error = err.message || 'Failed to generate summary';
-          this.loading = false;
         }
       });
   }
 
-  private buildDashboardContext(tasks: any[], taskStats: any, adoWorkItems: any[], coworkers: any[], organization: string, project: string): string {
+  /** Aborts the summary, keeping the part of the overview that has arrived. */
+  stopSummary(): void {
+    this.summarySubscription?.unsubscribe();
+    if (this.streamingOverview) {
+      this.summary = { overview: this.streamingOverview, topPriorities: [], urgentItems: [], suggestions: [] };
+      this.lastUpdated = new Date();
+    }
+  }
+
+  private buildDashboardContext(tasks: any[], taskStats: any, workItems: WorkItem[], coworkers: any[]): string {
     const now = new Date();
     const context: string[] = [];
 
-    console.log('🔗 Building ADO URLs with:', { organization, project, workItemsCount: adoWorkItems.length });
-
     // Task information
     context.push(`## Tasks`);
     context.push(`- Total: ${taskStats.total}`);
@@ -376,9 +417,12 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
     context.push(`- Completed: ${taskStats.completed}`);
     context.push(`- Overdue: ${taskStats.overdue}`);
     context.push(`- Due today: ${taskStats.dueToday}`);
+    const actionable = actionableTasks(tasks);
+    const blockedCount = tasks.filter(t => !t.completed).length - actionable.length;
+    if (blockedCount > 0) context.push(`- Blocked by other tasks (not listed): ${blockedCount}`);
 
     if (tasks.length > 0) {
-      const pendingTasks = tasks.filter(t => !t.completed).slice(0, 10);
+      const pendingTasks = actionable.slice(0, 10);
       if (pendingTasks.length > 0) {
         context.push(`\nPending tasks:`);
         pendingTasks.forEach(task => {
@@ -401,89 +445,22 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
       }
     }
 
-    // ADO Work Items with URLs
-    if (adoWorkItems.length > 0) {
-      context.push(`\n## Azure DevOps Work Items (${adoWorkItems.length} total)`);
-      const activeItems = adoWorkItems.filter(wi => 
-        wi.fields['System.State']?.toLowerCase() === 'active' || 
-        wi.fields['System.State']?.toLowerCase() === 'in progress'
-      ).slice(0, 10);
-      
+    // Active work items across ADO, Linear and GitHub, with URLs
+    const activeItems = workItems.filter(w => w.stateCategory === 'in-progress' || w.stateCategory === 'in-review');
+    if (workItems.length > 0) {
+      context.push(`\n## Work Items (${workItems.length} total, ${workItems.filter(isOpenWorkItem).length} open)`);
       if (activeItems.length > 0) {
         context.push(`Active work items (with clickable URLs):`);
-        activeItems.forEach(item => {
-          // Try both id locations
-          const id = item.fields['System.Id'] || item.id;
-          const title = item.fields['System.Title'];
-          const type = item.fields['System.WorkItemType'];
-          const priority = item.fields['Microsoft.VSTS.Common.Priority'];
-          
-          if (!id) {
-            console.warn('⚠️ Work item missing ID:', item);
-            return;
-          }
-          
-          // Get project info from the work item (set by ADO widget)
-          let projectInfo = (item as any).projectInfo;
-          
-          // Fallback: if projectInfo is missing, try to use service defaults
-          // This happens when using single-project legacy mode
-          if (!projectInfo && organization && project) {
-            console.log(`ℹ️ Work item ${id} missing projectInfo, using service defaults`);
-            projectInfo = {
-              organization: organization,
-              project: project
-            };
-          }
-          
-          if (!projectInfo) {
-            console.warn(`⚠️ Work item ${id} missing projectInfo and no service defaults available`);
-            // Add item without URL
-            let line = `- ${type} ${id}: ${title}`;
-            if (priority) {
-              line += ` (Priority ${priority})`;
-            }
-            context.push(line);
-            return;
-          }
-          
-          const itemOrg = projectInfo.organization;
-          const itemProj = projectInfo.project;
-          
-          if (!itemOrg || !itemProj) {
-            console.warn(`⚠️ Work item ${id} has incomplete projectInfo:`, projectInfo);
-            let line = `- ${type} ${id}: ${title}`;
-            if (priority) {
-              line += ` (Priority ${priority})`;
-            }
-            context.push(line);
-            return;
-          }
-          
-          const url = `https://dev.azure.com/${itemOrg}/${encodeURIComponent(itemProj)}/_workitems/edit/${id}`;
-          
-          console.log(`🔗 Generated ADO URL for item ${id}:`, {
-            url,
-            organization: itemOrg,
-            project: itemProj,
-            hadProjectInfo: !!(item as any).projectInfo,
-            usedFallback: !(item as any).projectInfo
-          });
-          
-          let line = `- [${type} ${id}: ${title}](${url})`;
-          if (priority) {
-            line += ` (Priority ${priority})`;
-          }
-          context.push(line);
+        (Object.keys(WORK_ITEM_SOURCE_LABELS) as WorkItemSource[]).forEach(source => {
+          activeItems
+            .filter(w => w.source === source)
+            .slice(0, 10)
+            .forEach(w => context.push(`${formatWorkItemForPrompt(w)} — ${WORK_ITEM_SOURCE_LABELS[source]}`));
         });
       }
     } else {
-      context.push(`\n## Azure DevOps Work Items`);
-      if (!organization || !project) {
-        context.push(`ADO service not initialized (organization: ${organization || 'missing'}, project: ${project || 'missing'})`);
-      } else {
-        context.push(`No work items loaded yet.`);
-      }
+      context.push(`\n## Work Items`);
+      context.push(`No work items loaded yet.`);
     }
 
     // Coworker timezone info
@@ -508,7 +485,7 @@ export class AiPrioritySummaryComponent implements OnInit, OnDestroy, AfterViewC
   }
 
   generateScrumUpdate(): void {
-    if (!this.githubAI.isConfigured()) {
+    if (!this.aiService.isConfigured('priority-summary')) {
       this.scrumError = 'GitHub AI not configured.';
       return;
     }
@@ -544,22 +521,31 @@ ${entryLines}
 
 Respond with just the standup update text, nothing else.`;
 
-    this.githubAI.sendMessage(prompt)
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (response) => {
-          this.scrumUpdate = response.trim();
+    this.scrumSubscription = this.aiService.streamMessage('priority-summary', prompt)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
           this.scrumLoading = false;
+          this.scrumUpdate = this.scrumUpdate?.trim() || null;
+        })
+      )
+      .subscribe({
+        next: (delta) => {
+          this.scrumUpdate = (this.scrumUpdate ?? '') + delta;
         },
         error: (err) => {
           console.error('Scrum update generation failed:', err);
           this.scrumError = err.message || 'Failed to generate scrum update.';
-          this.scrumLoading = false;
         }
       });
   }
 
+  stopScrumUpdate(): void {
+    this.scrumSubscription?.unsubscribe();
+  }
+
   dismissScrumUpdate(): void {
+    this.stopScrumUpdate();
     this.showScrumUpdate = false;
     this.scrumUpdate = null;
     this.scrumError = null;
@@ -584,7 +570,7 @@ Respond with just the standup update text, nothing else.`;
       return;
     }
 
-    if (!this.githubAI.isConfigured()) {
+    if (!this.aiService.isConfigured('priority-summary')) {
       this.error = 'GitHub AI not configured';
       return;
     }
@@ -601,35 +587,51 @@ Respond with just the standup update text, nothing else.`;
     this.chatLoading = true;
     this.shouldScrollChat = true;
 
-    // Build context with dashboard data and chat history
-    const contextPrompt = this.buildChatContext(message);
-
-    // Send to AI with conversation history
-    this.githubAI.sendMessage(contextPrompt, this.chatMessages.slice(0, -1))
-      .pipe(takeUntil(this.destroy$))
-      .subscribe({
-        next: (response) => {
-          const aiMessage: ChatMessage = {
-            role: 'assistant',
-            content: response,
-            timestamp: new Date()
-          };
-          
-          this.chatMessages.push(aiMessage);
+    // The thread keeps the dashboard context it started with, so resumed chats read the same
+    this.chatSystemPrompt ??= this.buildChatContext();
+    const history: ChatMessage[] = [
+      { role: 'system', content: this.chatSystemPrompt, timestamp: new Date() },
+      ...this.chatMessages.slice(0, -1)
+    ];
+
+    // Send to AI with conversation history; the reply is added once it starts arriving
+    const aiMessage: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: new Date()
+    };
+    this.chatSubscription = this.aiService.streamMessage('priority-summary', message, history)
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
           this.chatLoading = false;
+          this.chatStreaming = false;
+          // Keep partial replies, e.g. when stopped part-way
+          if (aiMessage.content) this.saveChatHistory();
+        })
+      )
+      .subscribe({
+        next: (delta) => {
+          if (!this.chatStreaming) {
+            this.chatMessages.push(aiMessage);
+            this.chatStreaming = true;
+          }
+          aiMessage.content += delta;
           this.shouldScrollChat = true;
-          this.saveChatHistory();
         },
         error: (err) => {
           console.error('Chat message failed:', err);
-          this.chatLoading = false;
           // Remove user message on error
-          this.chatMessages.pop();
+          if (!aiMessage.content) this.chatMessages.pop();
         }
       });
   }
 
-  private buildChatContext(userMessage: string): string {
+  stopChat(): void {
+    this.chatSubscription?.unsubscribe();
+  }
+
+  private buildChatContext(): string {
     // Include the current dashboard summary as context
     let context = `You are an AI assistant helping a developer understand their daily priorities and dashboard.\n\n`;
     
@@ -649,13 +651,15 @@ Respond with just the standup update text, nothing else.`;
     // Add current dashboard data
     const tasks = this.taskService.getTasks();
     const taskStats = this.taskService.getStatistics();
-    const adoWorkItems = this.adoService['workItemsSubject'].value || [];
+    const openItems = this.workItemService.getWorkItems().filter(isOpenWorkItem);
+    const bySource = (Object.keys(WORK_ITEM_SOURCE_LABELS) as WorkItemSource[])
+      .map(source => `${openItems.filter(w => w.source === source).length} ${WORK_ITEM_SOURCE_LABELS[source]}`)
+      .join(', ');
     
     context += `Current Dashboard Stats:\n`;
     context += `- Tasks: ${taskStats.total} total, ${taskStats.pending} pending, ${taskStats.overdue} overdue\n`;
-    context += `- ADO Work Items: ${adoWorkItems.length} items\n\n`;
+    context += `- Open Work Items: ${openItems.length} (${bySource})\n\n`;
     
-    context += `User Question: ${userMessage}\n\n`;
     context += `Please provide a helpful, concise response in a casual, friendly tone. If referencing specific work items or tasks, include relevant details.`;
 
     return context;
@@ -668,11 +672,28 @@ Respond with just the standup update text, nothing else.`;
     }
   }
 
+  /** Start a fresh thread; the current one stays in the history. */
   clearChat(): void {
-    if (confirm('Clear chat conversation?')) {
-      this.chatMessages = [];
-      this.clearChatHistory();
-    }
+    this.stopChat();
+    this.chatMessages = [];
+    this.chatConversationId = null;
+    this.chatSystemPrompt = null;
+    this.showChatHistory = false;
+    localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  }
+
+  resumeChat(conversation: Conversation): void {
+    this.stopChat();
+    this.chatMessages = conversation.messages;
+    this.chatConversationId = conversation.id;
+    this.chatSystemPrompt = conversation.systemPrompt || null;
+    this.showChatHistory = false;
+    this.shouldScrollChat = true;
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversation.id);
+  }
+
+  onChatDeleted(id: string): void {
+    if (id === this.chatConversationId) this.clearChat();
   }
 
   private scrollChatToBottom(): void {
@@ -687,22 +708,28 @@ Respond with just the standup update text, nothing else.`;
   }
 
   private saveChatHistory(): void {
-    localStorage.setItem('ai-priority-chat-history', JSON.stringify(this.chatMessages));
-  }
-
-  private loadChatHistory(): void {
-    const saved = localStorage.getItem('ai-priority-chat-history');
-    if (saved) {
-      try {
-        this.chatMessages = JSON.parse(saved);
-      } catch (e) {
-        console.error('Failed to load chat history:', e);
-      }
+    const id = this.conversationService.save(
+      'priority-summary', this.chatConversationId, this.chatSystemPrompt ?? this.buildChatContext(), this.chatMessages
+    );
+    if (id) {
+      this.chatConversationId = id;
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
     }
   }
 
-  private clearChatHistory(): void {
-    localStorage.removeItem('ai-priority-chat-history');
+  private loadChatHistory(): void {
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    const opened = activeId
+      ? Promise.resolve(activeId)
+      : this.conversationService.adoptLocalHistory('priority-summary', LEGACY_HISTORY_KEY);
+    opened.then(id => {
+      if (!id) return;
+      this.conversationService.whenLoaded(id)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe(conversation => {
+          if (this.chatMessages.length === 0) this.resumeChat(conversation);
+        });
+    });
   }
 
   formatChatTimestamp(date: Date): string {
@@ -719,76 +746,4 @@ Respond with just the standup update text, nothing else.`;
     // Convert [text](url) to <a href="url" target="_blank">text</a>
     return text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>');
   }
-
-  // Animate text with typewriter effect
-  private animateText(text: string, speed: number = 20): void {
-    this.isAnimating = true;
-    this.animatedOverview = '';
-    
-    // Convert markdown links to HTML first
-    const htmlText = this.convertMarkdownLinks(text);
-    
-    // Split by HTML tags to preserve them
-    const parts: Array<{isTag: boolean, content: string}> = [];
-    let currentPos = 0;
-    const tagRegex = /<[^>]+>/g;
-    let match;
-    
-    while ((match = tagRegex.exec(htmlText)) !== null) {
-      // Add text before tag
-      if (match.index > currentPos) {
-        parts.push({
-          isTag: false,
-          content: htmlText.substring(currentPos, match.index)
-        });
-      }
-      // Add tag
-      parts.push({
-        isTag: true,
-        content: match[0]
-      });
-      currentPos = match.index + match[0].length;
-    }
-    
-    // Add remaining text
-    if (currentPos < htmlText.length) {
-      parts.push({
-        isTag: false,
-        content: htmlText.substring(currentPos)
-      });
-    }
-    
-    let currentPartIndex = 0;
-    let currentCharIndex = 0;
-    
-    const animate = () => {
-      if (currentPartIndex >= parts.length) {
-        this.isAnimating = false;
-        return;
-      }
-      
-      const currentPart = parts[currentPartIndex];
-      
-      if (currentPart.isTag) {
-        // Add entire tag at once
-        this.animatedOverview += currentPart.content;
-        currentPartIndex++;
-        currentCharIndex = 0;
-        setTimeout(animate, 0);
-      } else {
-        // Add character by character
-        if (currentCharIndex < currentPart.content.length) {
-          this.animatedOverview += currentPart.content[currentCharIndex];
-          currentCharIndex++;
-          setTimeout(animate, speed);
-        } else {
-          currentPartIndex++;
-          currentCharIndex = 0;
-          setTimeout(animate, 0);
-        }
-      }
-    };
-    
-    animate();
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, combineLatest } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { AiService } from '../../../services/ai.service';
+import { BriefingSchedule, DailyBriefing, DailyBriefingService } from '../../../services/daily-briefing.service';
+import { dayKey } from '../../../services/local-date';
+
+type BriefingTab = 'summary' | 'scrum';
+
+/**
+ * Shows the stored daily briefing for today, with an archive to step back through earlier
+ * days. Never calls the model on load; generating is left to the schedule or the user.
+ */
+@Component({
+  selector: 'app-daily-briefing',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './daily-briefing.component.html',
+  styleUrl: './daily-briefing.component.scss'
+})
+export class DailyBriefingComponent implements OnInit, OnDestroy {
+  briefings: DailyBriefing[] = [];
+  schedule: BriefingSchedule | null = null;
+  /** Day being viewed, `YYYY-MM-DD`. */
+  selectedDate = dayKey(new Date());
+  tab: BriefingTab = 'summary';
+  isConfigured = false;
+  copied = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private briefingService: DailyBriefingService, private aiService: AiService) {}
+
+  ngOnInit(): void {
+    combineLatest([this.briefingService.briefings$, this.briefingService.schedule$])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([briefings, schedule]) => {
+        this.briefings = briefings;
+        this.schedule = schedule;
+      });
+
+    this.aiService.isConfigured$('ask')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(configured => (this.isConfigured = configured));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get today(): string {
+    return dayKey(new Date());
+  }
+
+  get briefing(): DailyBriefing | null {
+    return this.briefings.find(b => b.date === this.selectedDate) ?? null;
+  }
+
+  /** Stored days, oldest to newest, plus today even when it has no briefing yet. */
+  private get days(): string[] {
+    const dates = new Set(this.briefings.map(b => b.date));
+    dates.add(this.today);
+    return [...dates].sort();
+  }
+
+  get hasOlder(): boolean {
+    return this.days.indexOf(this.selectedDate) > 0;
+  }
+
+  get hasNewer(): boolean {
+    const days = this.days;
+    return days.indexOf(this.selectedDate) < days.length - 1;
+  }
+
+  step(offset: number): void {
+    const days = this.days;
+    const next = days[days.indexOf(this.selectedDate) + offset];
+    if (next) this.selectDate(next);
+  }
+
+  selectDate(date: string): void {
+    this.selectedDate = date;
+    this.copied = false;
+  }
+
+  /** When today's briefing is due, for the empty state; null if today is not scheduled. */
+  get dueLabel(): string | null {
+    const due = this.briefingService.scheduledTimeToday();
+    if (!due || due <= new Date()) return null;
+    return due.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+
+  formatDay(date: string): string {
+    if (date === this.today) return 'Today';
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+
+  generate(): void {
+    const existing = this.briefings.find(b => b.date === this.today);
+    if (existing?.status === 'ready' && !confirm('Replace today\'s briefing with a new one?')) return;
+    this.selectDate(this.today);
+    this.briefingService.generateNow()
+      .catch(e => console.error('Failed to generate the daily briefing:', e));
+  }
+
+  copyScrum(): void {
+    const text = this.briefing?.scrum;
+    if (!text) return;
+    navigator.clipboard.writeText(text).then(() => {
+      this.copied = true;
+      setTimeout(() => (this.copied = false), 1500);
+    });
+  }
+
+  formatMarkdown(text: string): string {
+    // Markdown links → HTML <a>
+    let out = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>');
+    out = out.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+    out = out.replace(/^#{1,3} (.+)$/gm, '<h4>$1</h4>');
+    out = out.replace(/((?:^\s*(?:[-*]|\d+\.) .+\n?)+)/gm, block => {
+      const items = block.trim().split('\n').map(l => `<li>${l.replace(/^\s*(?:[-*]|\d+\.) /, '')}</li>`).join('');
+      return `<ul>${items}</ul>`;
+    });
+    out = out.replace(/\n{2,}/g, '</p><p>');
+    out = out.replace(/\n/g, '<br>');
+    return `<p>${out}</p>`;
+  }
+}
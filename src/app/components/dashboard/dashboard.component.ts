@@ -1,5 +1,8 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, ElementRef, HostListener, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
 import { SprintCalendarComponent } from './sprint-calendar/sprint-calendar.component';
 import { NewsTickerWidgetComponent } from './news-ticker-widget/news-ticker-widget.component';
 import { AdoWorkItemsComponent } from './ado-work-items/ado-work-items.component';
@@ -13,13 +16,31 @@ import { GithubPrWidgetComponent } from './github-pr-widget/github-pr-widget.com
 import { AiAskWidgetComponent } from './ai-ask-widget/ai-ask-widget.component';
 import { LinearWorkItemsComponent } from './linear-work-items/linear-work-items.component';
 import { SlackWidgetComponent } from './slack-widget/slack-widget.component';
+import { AiPrioritySummaryComponent } from './ai-priority-summary/ai-priority-summary.component';
+import { JournalWidgetComponent } from './journal-widget/journal-widget.component';
+import { DailyBriefingComponent } from './daily-briefing/daily-briefing.component';
 import { NavigationService } from '../../services/navigation.service';
+import {
+  DashboardLayoutService, DashboardLayout, DashboardWidgetPlacement, DashboardWidgetDefinition,
+  DASHBOARD_WIDGETS, GRID_COLUMNS, GRID_ROW_HEIGHT, MIN_GRID_ROWS, createPlacement, defaultPlacements,
+  getWidgetDefinition
+} from '../../services/dashboard-layout.service';
+
+interface ResizeState {
+  index: number;
+  startX: number;
+  startY: number;
+  startCols: number;
+  startHeight: number;
+  columnWidth: number;
+}
 
 @Component({
   selector: 'app-dashboard',
   standalone: true,
   imports: [
     CommonModule,
+    FormsModule,
     SprintCalendarComponent,
     NewsTickerWidgetComponent,
     AdoWorkItemsComponent,
@@ -29,30 +50,58 @@ import { NavigationService } from '../../services/navigation.service';
     OutlookMailComponent,
     TeamsChatWidgetComponent,
     TimekeepingComponent,
+    GithubPrWidgetComponent,
     AiAskWidgetComponent,
     LinearWorkItemsComponent,
-    SlackWidgetComponent
+    SlackWidgetComponent,
+    AiPrioritySummaryComponent,
+    JournalWidgetComponent,
+    DailyBriefingComponent
   ],
   templateUrl: './dashboard.component.html',
   styleUrl: './dashboard.component.scss'
 })
 export class DashboardComponent implements OnInit, OnDestroy {
+  @ViewChild('grid') gridRef?: ElementRef<HTMLElement>;
+
   currentTime = new Date();
-  showAdoWidget = true;
-  showLinearWidget = true;
-  showMailWidget = true;
-  showTeamsWidget = true;
-  showSlackWidget = true;
+  layouts: DashboardLayout[] = [];
+  layout: DashboardLayout | null = null;
+  /** Working copy of the active layout's widgets; edited live during drags and saved on drop. */
+  widgets: DashboardWidgetPlacement[] = [];
+
+  editing = false;
+  showCatalog = false;
+  nameMode: 'new' | 'rename' | null = null;
+  nameDraft = '';
+
+  dragIndex: number | null = null;
+  dropIndex: number | null = null;
+  private resize: ResizeState | null = null;
+
   private timeInterval?: number;
+  private destroy$ = new Subject<void>();
 
-  constructor(private navigationService: NavigationService) {}
+  constructor(
+    private navigationService: NavigationService,
+    private layoutService: DashboardLayoutService
+  ) {}
 
   ngOnInit() {
-    this.showAdoWidget = localStorage.getItem('ado-widget-visible') !== 'false';
-    this.showLinearWidget = localStorage.getItem('linear-widget-visible') !== 'false';
-    this.showMailWidget = localStorage.getItem('mail-widget-visible') !== 'false';
-    this.showTeamsWidget = localStorage.getItem('teams-widget-visible') !== 'false';
-    this.showSlackWidget = localStorage.getItem('slack-widget-visible') !== 'false';
+    this.layoutService.layouts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(layouts => this.layouts = layouts);
+
+    this.layoutService.activeLayout$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(layout => {
+        this.layout = layout;
+        // Don't yank the grid out from under an in-progress drag or resize
+        if (this.dragIndex === null && !this.resize) {
+          this.widgets = layout.widgets.map(w => ({ ...w }));
+        }
+      });
+
     this.timeInterval = window.setInterval(() => {
       this.currentTime = new Date();
     }, 1000);
@@ -62,6 +111,8 @@ export class DashboardComponent implements OnInit, OnDestroy {
     if (this.timeInterval) {
       clearInterval(this.timeInterval);
     }
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   openJournalEntry(): void {
@@ -71,4 +122,183 @@ export class DashboardComponent implements OnInit, OnDestroy {
   openTasks(): void {
     this.navigationService.navigateTo('tasks');
   }
-}
\ No newline at end of file
+
+  // ── Layouts ────────────────────────────────────────────────────
+
+  get canSaveLayouts(): boolean {
+    return !!this.layout?.id;
+  }
+
+  switchLayout(id: string): void {
+    this.nameMode = null;
+    this.layoutService.setActiveLayout(id);
+  }
+
+  startEditing(): void {
+    this.editing = true;
+  }
+
+  stopEditing(): void {
+    this.editing = false;
+    this.showCatalog = false;
+    this.nameMode = null;
+  }
+
+  startNaming(mode: 'new' | 'rename'): void {
+    this.nameMode = mode;
+    this.nameDraft = mode === 'rename' ? this.layout?.name ?? '' : '';
+  }
+
+  async submitName(): Promise<void> {
+    const name = this.nameDraft.trim();
+    if (!name) return;
+    if (this.nameMode === 'new') {
+      await this.layoutService.createLayout(name, this.widgets.map(w => ({ ...w })));
+    } else if (this.nameMode === 'rename' && this.layout) {
+      await this.layoutService.renameLayout(this.layout.id, name);
+    }
+    this.nameMode = null;
+  }
+
+  deleteLayout(): void {
+    if (!this.layout || this.layouts.length <= 1) return;
+    if (confirm(`Delete the "${this.layout.name}" layout?`)) {
+      this.layoutService.deleteLayout(this.layout.id);
+    }
+  }
+
+  resetLayout(): void {
+    if (confirm('Reset this layout to the default widgets?')) {
+      this.commit(defaultPlacements());
+    }
+  }
+
+  // ── Widgets ────────────────────────────────────────────────────
+
+  get availableWidgets(): DashboardWidgetDefinition[] {
+    return DASHBOARD_WIDGETS.filter(d => !this.widgets.some(w => w.widgetId === d.id));
+  }
+
+  definitionFor(widget: DashboardWidgetPlacement): DashboardWidgetDefinition | undefined {
+    return getWidgetDefinition(widget.widgetId);
+  }
+
+  trackByWidget(_: number, widget: DashboardWidgetPlacement): string {
+    return widget.widgetId;
+  }
+
+  addWidget(definition: DashboardWidgetDefinition): void {
+    this.commit([...this.widgets, createPlacement(definition.id)]);
+    if (this.availableWidgets.length === 0) this.showCatalog = false;
+  }
+
+  removeWidget(index: number): void {
+    this.commit(this.widgets.filter((_, i) => i !== index));
+  }
+
+  toggleCollapsed(index: number): void {
+    this.commit(this.widgets.map((w, i) => i === index ? { ...w, collapsed: !w.collapsed } : w));
+  }
+
+  moveWidget(from: number, to: number): void {
+    if (to < 0 || to >= this.widgets.length || from === to) return;
+    const widgets = [...this.widgets];
+    const [moved] = widgets.splice(from, 1);
+    widgets.splice(to, 0, moved);
+    this.commit(widgets);
+  }
+
+  cellHeight(widget: DashboardWidgetPlacement): number | null {
+    return widget.rows && !widget.collapsed ? widget.rows * GRID_ROW_HEIGHT : null;
+  }
+
+  private commit(widgets: DashboardWidgetPlacement[]): void {
+    this.widgets = widgets;
+    this.layoutService.saveWidgets(widgets.map(w => ({ ...w })));
+  }
+
+  // ── Drag to reorder ────────────────────────────────────────────
+
+  onDragStart(event: DragEvent, index: number): void {
+    if (!this.editing) return;
+    this.dragIndex = index;
+    event.dataTransfer?.setData('text/plain', this.widgets[index].widgetId);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+  }
+
+  onDragOver(event: DragEvent, index: number): void {
+    if (this.dragIndex === null) return;
+    event.preventDefault();
+    this.dropIndex = index;
+  }
+
+  onDrop(event: DragEvent, index: number): void {
+    event.preventDefault();
+    const from = this.dragIndex;
+    this.onDragEnd();
+    if (from !== null) this.moveWidget(from, index);
+  }
+
+  onDragEnd(): void {
+    this.dragIndex = null;
+    this.dropIndex = null;
+  }
+
+  // ── Resize ─────────────────────────────────────────────────────
+
+  onResizeStart(event: PointerEvent, index: number): void {
+    const grid = this.gridRef?.nativeElement;
+    const cell = (event.target as HTMLElement).closest('.grid-cell') as HTMLElement | null;
+    if (!grid || !cell) return;
+    event.preventDefault();
+    event.stopPropagation();
+    const gap = parseFloat(getComputedStyle(grid).columnGap) || 0;
+    this.resize = {
+      index,
+      startX: event.clientX,
+      startY: event.clientY,
+      startCols: this.widgets[index].cols,
+      startHeight: cell.getBoundingClientRect().height,
+      columnWidth: (grid.clientWidth - gap * (GRID_COLUMNS - 1)) / GRID_COLUMNS + gap
+    };
+  }
+
+  @HostListener('document:pointermove', ['$event'])
+  onResizeMove(event: PointerEvent): void {
+    if (!this.resize) return;
+    const r = this.resize;
+    const min = this.definitionFor(this.widgets[r.index])?.minCols ?? 1;
+    const cols = Math.min(GRID_COLUMNS, Math.max(min, r.startCols + Math.round((event.clientX - r.startX) / r.columnWidth)));
+    const rows = Math.max(MIN_GRID_ROWS, Math.round((r.startHeight + event.clientY - r.startY) / GRID_ROW_HEIGHT));
+    this.widgets = this.widgets.map((w, i) => i === r.index ? { ...w, cols, rows } : w);
+  }
+
+  @HostListener('document:pointerup')
+  onResizeEnd(): void {
+    if (!this.resize) return;
+    this.resize = null;
+    this.commit(this.widgets);
+  }
+
+  /** Arrow keys on the resize handle: left/right change width, up/down change height. */
+  onResizeKey(event: KeyboardEvent, index: number): void {
+    const widget = this.widgets[index];
+    const min = this.definitionFor(widget)?.minCols ?? 1;
+    const rows = widget.rows ?? MIN_GRID_ROWS;
+    let next: DashboardWidgetPlacement | null = null;
+    switch (event.key) {
+      case 'ArrowLeft':  next = { ...widget, cols: Math.max(min, widget.cols - 1) }; break;
+      case 'ArrowRight': next = { ...widget, cols: Math.min(GRID_COLUMNS, widget.cols + 1) }; break;
+      case 'ArrowUp':    next = { ...widget, rows: Math.max(MIN_GRID_ROWS, rows - 1) }; break;
+      case 'ArrowDown':  next = { ...widget, rows: rows + 1 }; break;
+    }
+    if (!next) return;
+    event.preventDefault();
+    this.commit(this.widgets.map((w, i) => i === index ? next! : w));
+  }
+
+  /** Double-clicking the handle drops the fixed height so the widget fits its content again. */
+  resetHeight(index: number): void {
+    this.commit(this.widgets.map((w, i) => i === index ? { ...w, rows: null } : w));
+  }
+}
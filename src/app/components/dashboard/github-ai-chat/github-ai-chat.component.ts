@@ -1,9 +1,10 @@
 import { Component, OnInit, OnDestroy, ElementRef, ViewChild, AfterViewChecked } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { GitHubAIService, ChatMessage, RateLimitInfo } from '../../../services/github-ai.service';
-import { Subject } from 'rxjs';
-import { takeUntil } from 'rxjs/operators';
+import { AiService, ChatMessage, RateLimitInfo } from '../../../services/ai.service';
+import { CredentialVaultService } from '../../../services/credential-vault.service';
+import { Subject, Subscription } from 'rxjs';
+import { finalize, takeUntil } from 'rxjs/operators';
 
 @Component({
   selector: 'app-github-ai-chat',
@@ -25,7 +26,8 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
   // Chat state
   messages: ChatMessage[] = [];
   currentMessage = '';
-  loading = false;
+  streaming = false;
+  waitingForReply = false;
   error: string | null = null;
   tokenError = false;
   testingConnection = false;
@@ -48,6 +50,8 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
   // Lifecycle
   private destroy$ = new Subject<void>();
   private shouldScrollToBottom = false;
+  // The reply being streamed; unsubscribing aborts the request
+  private replySubscription: Subscription | null = null;
 
   // Suggested prompts
   suggestedPrompts = [
@@ -57,17 +61,15 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
     'Help me debug an issue'
   ];
 
-  constructor(private aiService: GitHubAIService) {}
+  constructor(private aiService: AiService, private vault: CredentialVaultService) {}
 
   ngOnInit(): void {
     this.loadConfiguration();
-    this.availableModels = this.aiService.getAvailableModels();
-    
-    // Subscribe to service observables
-    this.aiService.loading$
+    this.aiService.getAvailableModels('github-models')
       .pipe(takeUntil(this.destroy$))
-      .subscribe(loading => this.loading = loading);
+      .subscribe(models => this.availableModels = models);
     
+    // Subscribe to service observables
     this.aiService.error$
       .pipe(takeUntil(this.destroy$))
       .subscribe(error => {
@@ -75,7 +77,8 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
         
         // Check if the error is token-related and set tokenError flag
         if (error && (
-            error.includes('Invalid or expired GitHub Personal Access Token') || 
+            error.includes('Invalid or expired GitHub Personal Access Token') ||
+            error.includes('Invalid or expired API key') ||
             error.includes('Access denied. Check your token permissions') ||
             error.includes('GitHub AI service not configured')
           )) {
@@ -86,7 +89,7 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
       });
 
     // Subscribe to rate limit info
-    this.aiService.rateLimit$
+    this.aiService.rateLimitFor$('chat')
       .pipe(takeUntil(this.destroy$))
       .subscribe(info => this.rateLimitInfo = info);
 
@@ -107,23 +110,22 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
   }
 
   loadConfiguration(): void {
-    const token = localStorage.getItem('github-ai-token');
-    const model = localStorage.getItem('github-ai-model');
-    
-    if (token) {
-      this.personalAccessToken = token;
-      this.isConfigured = true;
-    }
-    
-    if (model) {
-      this.selectedModel = model;
-    }
+    this.selectedModel = this.aiService.getSettings().providers['github-models'].model;
+
+    // The token may only become available once the credential vault is unlocked
+    this.vault.secret$('github-ai')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(token => this.personalAccessToken = token ?? '');
+
+    // Chat may be pointed at another provider in Connections
+    this.aiService.isConfigured$('chat')
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(configured => this.isConfigured = configured);
   }
 
   saveConfiguration(): void {
     if (this.personalAccessToken && this.personalAccessToken.trim()) {
       this.aiService.initialize(this.personalAccessToken, this.selectedModel);
-      this.isConfigured = true;
       this.showConfig = false;
       this.error = null;
       this.tokenError = false;
@@ -137,10 +139,9 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
 
   clearConfiguration(): void {
     if (confirm('Are you sure you want to clear your GitHub AI configuration?')) {
-      this.aiService.clearConfiguration();
+      this.aiService.clearConfiguration('github-models');
       this.personalAccessToken = '';
-      this.selectedModel = 'gpt-4o';
-      this.isConfigured = false;
+      this.selectedModel = this.aiService.getSettings().providers['github-models'].model;
       this.messages = [];
       this.clearConversationHistory();
     }
@@ -148,7 +149,7 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
 
   resetRateLimit(): void {
     if (confirm('Reset API call counter?')) {
-      this.aiService.resetRateLimitInfo();
+      this.aiService.resetRateLimitInfo(this.aiService.providerFor('chat').kind);
     }
   }
 
@@ -164,7 +165,7 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
     // Temporarily initialize with the token
     this.aiService.initialize(this.personalAccessToken, this.selectedModel);
     
-    this.aiService.testConnection().subscribe({
+    this.aiService.testConnection('github-models').subscribe({
       next: () => {
         this.testingConnection = false;
         this.connectionTestResult = '✅ Connection successful! Token is valid.';
@@ -179,7 +180,7 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
   sendMessage(messageText?: string): void {
     const textToSend = messageText || this.currentMessage.trim();
     
-    if (!textToSend || this.loading) {
+    if (!textToSend || this.streaming) {
       return;
     }
 
@@ -202,25 +203,49 @@ export class GitHubAiChatComponent implements OnInit, OnDestroy, AfterViewChecke
     this.tokenError = false;
     this.shouldScrollToBottom = true;
 
-    // Send to AI service
-    this.aiService.sendMessage(textToSend, this.messages.slice(0, -1)).subscribe({
-      next: (response: string) => {
-        const aiMessage: ChatMessage = {
-          role: 'assistant',
-          content: response,
-          timestamp: new Date()
-        };
-        
-        this.messages.push(aiMessage);
-        this.shouldScrollToBottom = true;
-        this.saveConversationHistory();
-      },
-      error: (error: Error) => {
-        this.error = error.message;
-        // Remove the user message if the request failed
-        this.messages.pop();
-      }
-    });
+    // Stream the reply into a message that is added once the first words arrive
+    const aiMessage: ChatMessage = {
+      role: 'assistant',
+      content: '',
+      timestamp: new Date()
+    };
+    this.streaming = true;
+    this.waitingForReply = true;
+
+    this.replySubscription = this.aiService.streamMessage('chat', textToSend, this.messages.slice(0, -1))
+      .pipe(
+        takeUntil(this.destroy$),
+        finalize(() => {
+          this.streaming = false;
+          this.waitingForReply = false;
+          this.replySubscription = null;
+          // Keep whatever arrived, including a reply cut short by Stop
+          if (aiMessage.content) {
+            this.saveConversationHistory();
+          }
+        })
+      )
+      .subscribe({
+        next: (delta: string) => {
+          if (this.waitingForReply) {
+            this.messages.push(aiMessage);
+            this.waitingForReply = false;
+          }
+          aiMessage.content += delta;
+          this.shouldScrollToBottom = true;
+        },
+        error: (error: Error) => {
+          this.error = error.message;
+          // Remove the user message if the request failed before any reply
+          if (!aiMessage.content) {
+            this.messages.pop();
+          }
+        }
+      });
+  }
+
+  stopGenerating(): void {
+    this.replySubscription?.unsubscribe();
   }
 
   useSuggestedPrompt(prompt: string): void {
@@ -4,17 +4,20 @@ import { FormsModule } from '@angular/forms';
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import { GitHubPrService, GitHubPullRequest, PrFilter, DiagnosticInfo } from '../../../services/github-pr.service';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 
 @Component({
   selector: 'app-github-pr-widget',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, LastSyncedBadgeComponent],
   templateUrl: './github-pr-widget.component.html',
   styleUrl: './github-pr-widget.component.scss'
 })
 export class GithubPrWidgetComponent implements OnInit, OnDestroy {
   prs: GitHubPullRequest[] = [];
   loading = false;
+  syncState: SyncState = NOT_SYNCED;
   error: string | null = null;
   connected = false;
 
@@ -44,6 +47,7 @@ export class GithubPrWidgetComponent implements OnInit, OnDestroy {
 
     this.prService.prs$.pipe(takeUntil(this.destroy$)).subscribe(prs => (this.prs = prs));
     this.prService.loading$.pipe(takeUntil(this.destroy$)).subscribe(l => (this.loading = l));
+    this.prService.syncState$.pipe(takeUntil(this.destroy$)).subscribe(state => (this.syncState = state));
     this.prService.error$.pipe(takeUntil(this.destroy$)).subscribe(e => (this.error = e));
     this.prService.diagnostic$.pipe(takeUntil(this.destroy$)).subscribe(d => (this.diagnostic = d));
 
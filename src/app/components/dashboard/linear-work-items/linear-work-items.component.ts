@@ -3,6 +3,8 @@ import { CommonModule } from '@angular/common';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { marked } from 'marked';
 import { LinearService, LinearIssue } from '../../../services/linear.service';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 import { NavigationService } from '../../../services/navigation.service';
 import { TouchTooltipDirective } from '../../../directives/touch-tooltip.directive';
 import { Subject, interval } from 'rxjs';
@@ -11,13 +13,14 @@ import { takeUntil } from 'rxjs/operators';
 @Component({
   selector: 'app-linear-work-items',
   standalone: true,
-  imports: [CommonModule, TouchTooltipDirective],
+  imports: [CommonModule, TouchTooltipDirective, LastSyncedBadgeComponent],
   templateUrl: './linear-work-items.component.html',
   styleUrl: './linear-work-items.component.scss'
 })
 export class LinearWorkItemsComponent implements OnInit, OnDestroy {
   issues: LinearIssue[] = [];
   loading = false;
+  syncState: SyncState = NOT_SYNCED;
   error: string | null = null;
   isConfigured = false;
   viewerName: string | null = null;
@@ -52,6 +55,13 @@ export class LinearWorkItemsComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(loading => (this.loading = loading));
 
+
+    this.linearService.syncState$
+
+      .pipe(takeUntil(this.destroy$))
+
+      .subscribe(state => this.syncState = state);
+
     this.linearService.error$
       .pipe(takeUntil(this.destroy$))
       .subscribe(error => (this.error = error));
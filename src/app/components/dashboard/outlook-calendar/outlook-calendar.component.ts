@@ -2,13 +2,15 @@ import { Component, OnInit, OnDestroy, ElementRef, HostListener } from '@angular
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { MicrosoftCalendarService, CalendarEvent } from '../../../services/microsoft-calendar.service';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 import { NavigationService } from '../../../services/navigation.service';
 import { Subject, takeUntil, interval } from 'rxjs';
 
 @Component({
   selector: 'app-outlook-calendar',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, LastSyncedBadgeComponent],
   templateUrl: './outlook-calendar.component.html',
   styleUrl: './outlook-calendar.component.scss'
 })
@@ -16,6 +18,7 @@ export class OutlookCalendarComponent implements OnInit, OnDestroy {
   events: CalendarEvent[] = [];
   todayTimedEvents: CalendarEvent[] = [];
   loading = false;
+  syncState: SyncState = NOT_SYNCED;
   error: string | null = null;
   isConfigured = false;
   showConfig = false;
@@ -76,6 +79,10 @@ export class OutlookCalendarComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(error => this.error = error);
 
+    this.calendarService.syncState$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => this.syncState = state);
+
     // Update current time every minute for time indicators
     interval(60 * 1000)
       .pipe(takeUntil(this.destroy$))
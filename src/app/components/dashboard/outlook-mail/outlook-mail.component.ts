@@ -3,6 +3,8 @@ import { SecurityContext } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { MicrosoftMailService, MailMessage } from '../../../services/microsoft-mail.service';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 import { NavigationService } from '../../../services/navigation.service';
 import { TouchTooltipDirective } from '../../../directives/touch-tooltip.directive';
 import { Subject, interval } from 'rxjs';
@@ -11,7 +13,7 @@ import { takeUntil } from 'rxjs/operators';
 @Component({
   selector: 'app-outlook-mail',
   standalone: true,
-  imports: [CommonModule, TouchTooltipDirective],
+  imports: [CommonModule, TouchTooltipDirective, LastSyncedBadgeComponent],
   templateUrl: './outlook-mail.component.html',
   styleUrl: './outlook-mail.component.scss'
 })
@@ -19,6 +21,7 @@ export class OutlookMailComponent implements OnInit, OnDestroy {
   messages: MailMessage[] = [];
   filteredMessages: MailMessage[] = [];
   loading = false;
+  syncState: SyncState = NOT_SYNCED;
   error: string | null = null;
   isConfigured = false;
 
@@ -60,6 +63,13 @@ export class OutlookMailComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(loading => this.loading = loading);
 
+
+    this.mailService.syncState$
+
+      .pipe(takeUntil(this.destroy$))
+
+      .subscribe(state => this.syncState = state);
+
     this.mailService.error$
       .pipe(takeUntil(this.destroy$))
       .subscribe(error => this.error = error);
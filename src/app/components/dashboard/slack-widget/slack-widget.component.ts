@@ -3,6 +3,8 @@ import { SecurityContext } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { SlackService, SlackChannel, SlackMessage } from '../../../services/slack.service';
+import { SyncState, NOT_SYNCED } from '../../../services/offline-cache.service';
+import { LastSyncedBadgeComponent } from '../../last-synced-badge/last-synced-badge.component';
 import { NavigationService } from '../../../services/navigation.service';
 import { TouchTooltipDirective } from '../../../directives/touch-tooltip.directive';
 import { Subject, interval } from 'rxjs';
@@ -11,13 +13,14 @@ import { takeUntil } from 'rxjs/operators';
 @Component({
   selector: 'app-slack-widget',
   standalone: true,
-  imports: [CommonModule, TouchTooltipDirective],
+  imports: [CommonModule, TouchTooltipDirective, LastSyncedBadgeComponent],
   templateUrl: './slack-widget.component.html',
   styleUrl: './slack-widget.component.scss',
 })
 export class SlackWidgetComponent implements OnInit, OnDestroy {
   channels: SlackChannel[] = [];
   loading = false;
+  syncState: SyncState = NOT_SYNCED;
   error: string | null = null;
   isConfigured = false;
   itemsHidden = false;
@@ -69,6 +72,13 @@ export class SlackWidgetComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(l => this.loading = l);
 
+
+    this.slackService.syncState$
+
+      .pipe(takeUntil(this.destroy$))
+
+      .subscribe(state => this.syncState = state);
+
     this.slackService.error$
       .pipe(takeUntil(this.destroy$))
       .subscribe(e => this.error = e);
@@ -1,7 +1,25 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { TaskService, Task } from '../../../services/task.service';
+import { TaskService, Task, TaskLink } from '../../../services/task.service';
+import {
+  TASK_LINK_SOURCES, TaskLinkService, TaskLinkStatus, taskLinkFromUrl, taskLinkFromWorkItem, taskLinkKey
+} from '../../../services/task-link.service';
+import { WorkItem, WorkItemService, WorkItemSource, isOpenWorkItem } from '../../../services/work-item.service';
+import { NavigationService } from '../../../services/navigation.service';
+import { FocusService } from '../../../services/focus.service';
+import { CommandPaletteService } from '../../../services/command-palette.service';
+import {
+  MATRIX_QUADRANTS, MatrixQuadrant, canMoveToQuadrant, daysUntilDue, fieldsForQuadrant, isEscalated, quadrantFor, taskScore
+} from '../../../services/task-matrix';
+import {
+  RECURRENCE_PRESETS, RecurrenceStats, describeRule, formatRRule, parseRRule, upcomingOccurrences
+} from '../../../services/recurrence';
+import { dayKey, parseDayKey } from '../../../services/local-date';
+import {
+  ChecklistItem, TaskProgress, openBlockers, parseChecklist, stripChecklist, subtasksOf, taskProgress,
+  toggleChecklistItem, wouldCreateDependencyCycle, wouldCreateParentCycle
+} from '../../../services/task-graph';
 import { Subject, takeUntil } from 'rxjs';
 
 @Component({
@@ -14,10 +32,60 @@ import { Subject, takeUntil } from 'rxjs';
 export class TaskTrackerComponent implements OnInit, OnDestroy {
   tasks: Task[] = [];
   private destroy$ = new Subject<void>();
+  private unregisterCommands?: () => void;
+
+  /** Task to highlight and scroll to, e.g. from the `/tasks/:taskId` route. */
+  @Input() set focusTaskId(id: string | null | undefined) {
+    this.linkedTaskId = id ?? null;
+    this.revealedTaskId = null;
+    this.revealLinkedTask();
+  }
+  linkedTaskId: string | null = null;
+  /** Revealed once, so later snapshots don't reset filters or scroll while the user works. */
+  private revealedTaskId: string | null = null;
 
   selectedFilter: 'all' | 'completed' | 'pending' = 'all';
   selectedPriority: 'all' | 'low' | 'medium' | 'high' = 'all';
 
+  viewMode: 'list' | 'matrix' = localStorage.getItem('task-tracker-view') === 'matrix' ? 'matrix' : 'list';
+  readonly quadrants = MATRIX_QUADRANTS;
+  /** Open tasks per quadrant, most pressing first; rebuilt whenever the tasks change. */
+  matrix: Record<MatrixQuadrant, Task[]> = { do: [], schedule: [], delegate: [], eliminate: [] };
+  draggingTaskId: string | null = null;
+  dropQuadrant: MatrixQuadrant | null = null;
+  /** Quadrant the dragged task is over but can't go to, with why. */
+  refusedDrop: { quadrant: MatrixQuadrant; reason: string } | null = null;
+
+  // Recurrence
+  readonly recurrencePresets = RECURRENCE_PRESETS;
+  readonly snoozeOptions = [
+    { days: 1, label: 'Tomorrow' },
+    { days: 3, label: 'In 3 days' },
+    { days: 7, label: 'Next week' }
+  ];
+  private previewCache: { key: string; preview: { description: string; next: string[]; error: string | null } } | null = null;
+  private statsCache = new WeakMap<Task, RecurrenceStats | null>();
+  icsMessage: string | null = null;
+  icsError: string | null = null;
+
+  // Subtasks and dependencies, looked up per snapshot
+  private progressCache = new Map<string, TaskProgress | null>();
+  private blockersCache = new Map<string, Task[]>();
+  newSubtaskTitles: Partial<Record<string, string>> = {};
+  /** Why the last subtask or blocker change on a task was refused. */
+  linkErrors: Record<string, string> = {};
+
+  // Links to Linear, ADO and GitHub
+  readonly linkSources = TASK_LINK_SOURCES;
+  private linkStatuses = new Map<string, TaskLinkStatus>();
+  /** Task the running focus session is on, if any. */
+  focusingTaskId: string | null = null;
+  linkPickerTaskId: string | null = null;
+  linkSource: WorkItemSource = 'linear';
+  linkQuery = '';
+  linkUrl = '';
+  linkUrlError: string | null = null;
+
   // New Task Form
   showNewTaskForm = false;
   newTask = {
@@ -28,8 +96,9 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
     dueDate: '',
     tags: '',
     recurring: false,
-    recurringType: 'weekday' as 'weekday' | 'monthday' | 'interval',
-    recurringValue: 1
+    recurringType: 'weekday' as 'weekday' | 'monthday' | 'interval' | 'rrule',
+    recurringValue: 1,
+    rrule: ''
   };
 
   // Edit Task
@@ -42,44 +111,335 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
     dueDate: '',
     tags: '',
     recurring: false,
-    recurringType: 'weekday' as 'weekday' | 'monthday' | 'interval',
-    recurringValue: 1
+    recurringType: 'weekday' as 'weekday' | 'monthday' | 'interval' | 'rrule',
+    recurringValue: 1,
+    rrule: '',
+    parentId: ''
   };
 
-  constructor(private taskService: TaskService) {}
+  constructor(
+    private taskService: TaskService,
+    private taskLinkService: TaskLinkService,
+    private workItemService: WorkItemService,
+    private navigationService: NavigationService,
+    private commandPalette: CommandPaletteService,
+    private focusService: FocusService
+  ) {}
 
   ngOnInit() {
     this.taskService.tasks$
       .pipe(takeUntil(this.destroy$))
       .subscribe(tasks => {
         this.tasks = tasks;
+        this.progressCache.clear();
+        this.blockersCache.clear();
+        this.buildMatrix();
+        this.revealLinkedTask();
       });
+
+    this.taskLinkService.statuses$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(statuses => (this.linkStatuses = statuses));
+
+    this.focusService.state$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(state => (this.focusingTaskId = state?.taskId ?? null));
+
+    // Already on this page, so "New task" can open the form directly
+    this.unregisterCommands = this.commandPalette.register({
+      id: 'task-tracker',
+      priority: 1,
+      commands: () => [{
+        id: 'action:new-task',
+        label: 'New task',
+        group: 'Actions',
+        icon: 'fas fa-plus',
+        keywords: ['add', 'create', 'note'],
+        pinned: true,
+        run: () => this.openNewTaskForm()
+      }]
+    });
+
+    if (this.navigationService.pendingNewTask) {
+      this.navigationService.pendingNewTask = false;
+      this.openNewTaskForm();
+    }
+  }
+
+  private openNewTaskForm(): void {
+    this.showNewTaskForm = true;
+    setTimeout(() => document.querySelector<HTMLInputElement>('.new-task-form input')?.focus(), 50);
+  }
+
+  private revealLinkedTask(): void {
+    if (!this.linkedTaskId || this.linkedTaskId === this.revealedTaskId) return;
+    if (!this.tasks.some(t => t.id === this.linkedTaskId)) return;
+    this.revealedTaskId = this.linkedTaskId;
+    this.selectedFilter = 'all';
+    this.selectedPriority = 'all';
+    this.viewMode = 'list';
+    const id = this.linkedTaskId;
+    setTimeout(() => document.getElementById(`task-card-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
   }
 
   ngOnDestroy() {
+    this.unregisterCommands?.();
     this.destroy$.next();
     this.destroy$.complete();
   }
 
+  /**
+   * Matching tasks, blocked ones after those that can be started. A subtask is listed on its
+   * own only when none of its ancestors match, or while it's being edited; otherwise it shows
+   * in the ancestor's card.
+   */
   get filteredTasks(): Task[] {
+    const matches = (task: Task) => {
+      const statusMatch = this.selectedFilter === 'all' ||
+                         (this.selectedFilter === 'completed' && task.completed) ||
+                         (this.selectedFilter === 'pending' && !task.completed);
+      const priorityMatch = this.selectedPriority === 'all' || task.priority === this.selectedPriority;
+      return statusMatch && priorityMatch;
+    };
     return this.tasks
-      .filter(task => {
-        const statusMatch = this.selectedFilter === 'all' ||
-                           (this.selectedFilter === 'completed' && task.completed) ||
-                           (this.selectedFilter === 'pending' && !task.completed);
-        const priorityMatch = this.selectedPriority === 'all' || task.priority === this.selectedPriority;
-        return statusMatch && priorityMatch;
-      })
+      .filter(task => task.id === this.editingTaskId || (matches(task) && !this.ancestorsOf(task).some(matches)))
       .sort((a, b) => {
         if (a.completed !== b.completed) return a.completed ? 1 : -1;
-        return this.taskSortScore(a) - this.taskSortScore(b);
+        if (this.isBlocked(a) !== this.isBlocked(b)) return this.isBlocked(a) ? 1 : -1;
+        return taskScore(b) - taskScore(a);
       });
   }
 
-  private taskSortScore(task: Task): number {
-    const uRank: Record<string, number> = { 'time-sensitive': 0, 'medium': 1, 'low': 2 };
-    const iRank: Record<string, number> = { 'high': 0, 'medium': 1, 'low': 2 };
-    return (uRank[task.urgency ?? 'medium'] ?? 1) * 3 + (iRank[task.importance ?? 'medium'] ?? 1);
+  setViewMode(mode: 'list' | 'matrix'): void {
+    this.viewMode = mode;
+    localStorage.setItem('task-tracker-view', mode);
+    if (mode === 'matrix') this.buildMatrix();
+  }
+
+  private buildMatrix(): void {
+    const now = new Date();
+    const matrix: Record<MatrixQuadrant, Task[]> = { do: [], schedule: [], delegate: [], eliminate: [] };
+    for (const task of this.tasks.filter(t => !t.completed)) matrix[quadrantFor(task, now)].push(task);
+    for (const tasks of Object.values(matrix)) tasks.sort((a, b) => taskScore(b, now) - taskScore(a, now));
+    this.matrix = matrix;
+  }
+
+  /**
+   * Re-file a task under another quadrant by rewriting its urgency and importance. Overdue and
+   * due-today tasks stay in an urgent quadrant until they are rescheduled or done, so moving
+   * them to a non-urgent one is refused rather than quietly rewriting their urgency.
+   */
+  moveToQuadrant(task: Task, quadrant: MatrixQuadrant): void {
+    if (!canMoveToQuadrant(task, quadrant)) return;
+    const fields = fieldsForQuadrant(task, quadrant);
+    if (fields.urgency === task.urgency && fields.importance === task.importance) return;
+    this.taskService.updateTask(task.id, fields);
+  }
+
+  onTaskDragStart(event: DragEvent, task: Task): void {
+    this.draggingTaskId = task.id;
+    event.dataTransfer?.setData('text/plain', task.id);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+  }
+
+  onQuadrantDragOver(event: DragEvent, quadrant: MatrixQuadrant): void {
+    const task = this.tasks.find(t => t.id === this.draggingTaskId);
+    if (!task) return;
+    if (!canMoveToQuadrant(task, quadrant)) {
+      // Not calling preventDefault() leaves the quadrant refusing the drop
+      this.dropQuadrant = null;
+      this.refusedDrop = { quadrant, reason: `${this.escalationLabel(task)}: change the due date to make it less urgent` };
+      return;
+    }
+    event.preventDefault();
+    this.dropQuadrant = quadrant;
+    this.refusedDrop = null;
+  }
+
+  onQuadrantDragLeave(): void {
+    this.dropQuadrant = null;
+    this.refusedDrop = null;
+  }
+
+  canMoveTo(task: Task, quadrant: MatrixQuadrant): boolean {
+    return canMoveToQuadrant(task, quadrant);
+  }
+
+  onQuadrantDrop(event: DragEvent, quadrant: MatrixQuadrant): void {
+    event.preventDefault();
+    const task = this.tasks.find(t => t.id === this.draggingTaskId);
+    this.onTaskDragEnd();
+    if (task) this.moveToQuadrant(task, quadrant);
+  }
+
+  onTaskDragEnd(): void {
+    this.draggingTaskId = null;
+    this.dropQuadrant = null;
+    this.refusedDrop = null;
+  }
+
+  /** Edit from the matrix or a subtask row: the form lives on the task's own card in the list. */
+  openEditor(task: Task): void {
+    this.setViewMode('list');
+    this.startEditTask(task);
+    setTimeout(() => document.getElementById(`task-card-${task.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
+  }
+
+  isEscalated(task: Task): boolean {
+    return isEscalated(task);
+  }
+
+  escalationLabel(task: Task): string {
+    return (daysUntilDue(task) ?? 0) < 0 ? 'Overdue' : 'Due today';
+  }
+
+  getScore(task: Task): number {
+    return taskScore(task);
+  }
+
+  // ── Subtasks, checklists and dependencies ──────────────────────
+
+  private ancestorsOf(task: Task): Task[] {
+    const ancestors: Task[] = [];
+    for (let parent = this.getParent(task); parent && !ancestors.includes(parent); parent = this.getParent(parent)) {
+      ancestors.push(parent);
+    }
+    return ancestors;
+  }
+
+  getParent(task: Task): Task | undefined {
+    return task.parentId ? this.tasks.find(t => t.id === task.parentId) : undefined;
+  }
+
+  getSubtasks(task: Task): Task[] {
+    return subtasksOf(this.tasks, task.id);
+  }
+
+  getProgress(task: Task): TaskProgress | null {
+    if (!this.progressCache.has(task.id)) this.progressCache.set(task.id, taskProgress(task, this.tasks));
+    return this.progressCache.get(task.id)!;
+  }
+
+  getChecklist(task: Task): ChecklistItem[] {
+    return parseChecklist(task.description);
+  }
+
+  /** The description without checklist lines, which are shown as checkboxes instead. */
+  getDescriptionText(task: Task): string {
+    return stripChecklist(task.description);
+  }
+
+  toggleChecklistItem(task: Task, item: ChecklistItem): void {
+    this.taskService.updateTask(task.id, { description: toggleChecklistItem(task.description ?? '', item.line) });
+  }
+
+  addSubtask(task: Task): void {
+    const title = this.newSubtaskTitles[task.id]?.trim();
+    if (!title) return;
+    this.taskService.addSubtask(task.id, title);
+    this.newSubtaskTitles[task.id] = '';
+  }
+
+  getBlockers(task: Task): Task[] {
+    if (!this.blockersCache.has(task.id)) this.blockersCache.set(task.id, openBlockers(task, this.tasks));
+    return this.blockersCache.get(task.id)!;
+  }
+
+  isBlocked(task: Task): boolean {
+    return !task.completed && this.getBlockers(task).length > 0;
+  }
+
+  blockedLabel(task: Task): string {
+    return `Waiting on ${this.getBlockers(task).map(b => b.title).join(', ')}`;
+  }
+
+  /** Every task this one is linked to as blocked by, done or not. */
+  getDependencies(task: Task): Task[] {
+    return this.tasks.filter(t => task.blockedBy?.includes(t.id));
+  }
+
+  /** Open tasks that could block this one without making tasks wait on each other. */
+  blockerCandidates(task: Task): Task[] {
+    return this.tasks.filter(t =>
+      !t.completed && !task.blockedBy?.includes(t.id) && !wouldCreateDependencyCycle(this.tasks, task.id, t.id)
+    );
+  }
+
+  /** Tasks this one could be moved under. */
+  parentCandidates(task: Task): Task[] {
+    return this.tasks.filter(t => !wouldCreateParentCycle(this.tasks, task.id, t.id));
+  }
+
+  addBlocker(task: Task, blockerId: string): void {
+    delete this.linkErrors[task.id];
+    try {
+      this.taskService.addBlocker(task.id, blockerId);
+    } catch (e: any) {
+      this.linkErrors[task.id] = e?.message ?? 'Could not add the dependency.';
+    }
+  }
+
+  removeBlocker(task: Task, blocker: Task): void {
+    delete this.linkErrors[task.id];
+    this.taskService.removeBlocker(task.id, blocker.id);
+  }
+
+  startFocus(task: Task): void {
+    this.focusService.start(task);
+  }
+
+  // ── Links to other trackers ───────────────────────────────────
+
+  getLinkStatus(link: TaskLink): TaskLinkStatus | null {
+    return this.linkStatuses.get(taskLinkKey(link)) ?? null;
+  }
+
+  linkIcon(link: TaskLink): string {
+    return this.linkSources.find(s => s.id === link.source)?.icon ?? 'fas fa-link';
+  }
+
+  toggleLinkPicker(task: Task): void {
+    this.linkPickerTaskId = this.linkPickerTaskId === task.id ? null : task.id;
+    this.linkQuery = '';
+    this.linkUrl = '';
+    this.linkUrlError = null;
+  }
+
+  /** Open items the widgets have loaded from the chosen tracker, best matches for the search first. */
+  linkCandidates(task: Task): WorkItem[] {
+    const query = this.linkQuery.trim().toLowerCase();
+    const linked = new Set((task.links ?? []).map(taskLinkKey));
+    return this.workItemService.getBySource(this.linkSource)
+      .filter(item => isOpenWorkItem(item) && !linked.has(taskLinkKey(taskLinkFromWorkItem(item))))
+      .filter(item => !query || `${item.key} ${item.title}`.toLowerCase().includes(query))
+      .slice(0, 8);
+  }
+
+  linkWorkItem(task: Task, item: WorkItem): void {
+    this.taskService.addLink(task.id, taskLinkFromWorkItem(item));
+    this.linkPickerTaskId = null;
+  }
+
+  linkFromUrl(task: Task): void {
+    const link = taskLinkFromUrl(this.linkUrl);
+    if (!link) {
+      this.linkUrlError = 'Paste a Linear issue, Azure DevOps work item or GitHub pull request URL.';
+      return;
+    }
+    this.taskService.addLink(task.id, link);
+    this.linkPickerTaskId = null;
+  }
+
+  unlink(task: Task, link: TaskLink): void {
+    this.taskService.removeLink(task.id, link);
+  }
+
+  setCompleteWithLinks(task: Task, enabled: boolean): void {
+    this.taskService.updateTask(task.id, { completeWithLinks: enabled });
+  }
+
+  refreshLinks(): void {
+    this.taskLinkService.refresh();
   }
 
   get tasksByStatus() {
@@ -108,12 +468,13 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
       tags: '',
       recurring: false,
       recurringType: 'weekday',
-      recurringValue: 1
+      recurringValue: 1,
+      rrule: ''
     };
   }
 
   addTask() {
-    if (!this.newTask.title.trim()) {
+    if (!this.newTask.title.trim() || this.rulePreview(this.newTask)?.error) {
       return;
     }
 
@@ -127,22 +488,109 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
       description: this.newTask.description?.trim(),
       urgency: this.newTask.urgency,
       importance: this.newTask.importance,
-      dueDate: this.newTask.dueDate ? new Date(this.newTask.dueDate) : undefined,
+      dueDate: this.newTask.dueDate ? parseDayKey(this.newTask.dueDate) : undefined,
       tags: tagsArray,
       recurring: this.newTask.recurring,
       recurringType: this.newTask.recurring ? this.newTask.recurringType : undefined,
-      recurringValue: this.newTask.recurring ? this.newTask.recurringValue : undefined
+      recurringValue: this.newTask.recurring ? this.newTask.recurringValue : undefined,
+      rrule: this.ruleToSave(this.newTask)
     });
 
     this.toggleNewTaskForm();
   }
 
-  toggleTaskCompletion(task: Task) {
+  toggleTaskCompletion(task: Task, event?: Event) {
+    // A recurring task moves on to its next occurrence and stays open, so the box unticks
+    if (!task.completed && task.recurring && event) (event.target as HTMLInputElement).checked = false;
     this.taskService.toggleTaskCompletion(task.id);
   }
 
+  // ── Recurrence ─────────────────────────────────────────────────
+
+  /** The RRULE for a form using a custom rule; legacy types are stored as they are. */
+  private ruleToSave(form: { recurring: boolean; recurringType: string; rrule: string }): string | undefined {
+    if (!form.recurring || form.recurringType !== 'rrule') return undefined;
+    return formatRRule(parseRRule(form.rrule));
+  }
+
+  /** Description and next dates for a custom rule as it's typed, or why it can't be used. */
+  rulePreview(form: { recurring: boolean; recurringType: string; rrule: string; dueDate: string }) {
+    if (!form.recurring || form.recurringType !== 'rrule') return null;
+    const key = `${form.rrule}|${form.dueDate}`;
+    if (this.previewCache?.key === key) return this.previewCache.preview;
+    let preview: { description: string; next: string[]; error: string | null };
+    try {
+      const rule = parseRRule(form.rrule);
+      const start = form.dueDate ? parseDayKey(form.dueDate) : new Date();
+      preview = {
+        description: describeRule(rule),
+        next: upcomingOccurrences(rule, start, start, 3).map(d => this.formatDate(d)),
+        error: null
+      };
+    } catch (e: any) {
+      preview = { description: '', next: [], error: e?.message ?? 'Invalid rule' };
+    }
+    this.previewCache = { key, preview };
+    return preview;
+  }
+
+  applyPreset(form: { rrule: string }, rrule: string): void {
+    form.rrule = rrule;
+  }
+
+  skipOccurrence(task: Task): void {
+    this.taskService.skipOccurrence(task.id);
+  }
+
+  snoozeOccurrence(task: Task, days: number): void {
+    const until = new Date();
+    until.setHours(0, 0, 0, 0);
+    until.setDate(until.getDate() + days);
+    this.taskService.snoozeOccurrence(task.id, until);
+  }
+
+  /** Streaks for a recurring task; cached per snapshot since it walks the whole series. */
+  getRecurrenceStats(task: Task): RecurrenceStats | null {
+    if (!this.statsCache.has(task)) this.statsCache.set(task, this.taskService.getRecurrenceStats(task));
+    return this.statsCache.get(task)!;
+  }
+
+  isSnoozed(task: Task): boolean {
+    return !!task.occurrenceDate && !!task.dueDate && new Date(task.dueDate).getTime() !== new Date(task.occurrenceDate).getTime();
+  }
+
+  exportIcs(): void {
+    const blob = new Blob([this.taskService.exportRecurringToIcs()], { type: 'text/calendar' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `recurring-tasks-${new Date().toISOString().split('T')[0]}.ics`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  importIcs(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.icsMessage = null;
+    this.icsError = null;
+    file.text()
+      .then(text => this.taskService.importFromIcs(text))
+      .then(({ imported, skipped }) => {
+        this.icsMessage = `Imported ${imported} recurring task${imported === 1 ? '' : 's'}`
+          + (skipped ? `; ${skipped} left out (not recurring, ended, or using a rule tasks can't follow).` : '.');
+      })
+      .catch((e: any) => (this.icsError = e?.message ?? 'Failed to import the calendar file.'));
+  }
+
   deleteTask(taskId: string) {
-    if (confirm('Are you sure you want to delete this task?')) {
+    const hasSubtasks = this.tasks.some(t => t.parentId === taskId);
+    if (confirm(hasSubtasks
+      ? 'Are you sure you want to delete this task? Its subtasks will be kept as top-level tasks.'
+      : 'Are you sure you want to delete this task?')) {
       this.taskService.deleteTask(taskId);
     }
   }
@@ -154,16 +602,18 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
       description: task.description || '',
       urgency: task.urgency || 'medium',
       importance: task.importance || 'medium',
-      dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+      dueDate: task.dueDate ? dayKey(new Date(task.dueDate)) : '',
       tags: task.tags?.join(', ') || '',
       recurring: task.recurring || false,
       recurringType: task.recurringType || 'weekday',
-      recurringValue: task.recurringValue ?? 1
+      recurringValue: task.recurringValue ?? 1,
+      rrule: task.rrule ?? '',
+      parentId: task.parentId ?? ''
     };
   }
 
   saveTaskEdit() {
-    if (!this.editingTaskId || !this.editForm.title.trim()) {
+    if (!this.editingTaskId || !this.editForm.title.trim() || this.rulePreview(this.editForm)?.error) {
       return;
     }
 
@@ -172,16 +622,27 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
       .map(tag => tag.trim())
       .filter(tag => tag.length > 0);
 
+    const task = this.tasks.find(t => t.id === this.editingTaskId);
+    if (task && (task.parentId ?? '') !== this.editForm.parentId) {
+      try {
+        this.taskService.setParent(task.id, this.editForm.parentId || null);
+      } catch (e: any) {
+        this.linkErrors[task.id] = e?.message ?? 'Could not move the task.';
+        return;
+      }
+    }
+
     this.taskService.updateTask(this.editingTaskId, {
       title: this.editForm.title.trim(),
       description: this.editForm.description?.trim(),
       urgency: this.editForm.urgency,
       importance: this.editForm.importance,
-      dueDate: this.editForm.dueDate ? new Date(this.editForm.dueDate) : undefined,
+      dueDate: this.editForm.dueDate ? parseDayKey(this.editForm.dueDate) : undefined,
       tags: tagsArray,
       recurring: this.editForm.recurring,
       recurringType: this.editForm.recurring ? this.editForm.recurringType : undefined,
-      recurringValue: this.editForm.recurring ? this.editForm.recurringValue : undefined
+      recurringValue: this.editForm.recurring ? this.editForm.recurringValue : undefined,
+      rrule: this.ruleToSave(this.editForm)
     });
 
     this.cancelEdit();
@@ -198,7 +659,9 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
       tags: '',
       recurring: false,
       recurringType: 'weekday',
-      recurringValue: 1
+      recurringValue: 1,
+      rrule: '',
+      parentId: ''
     };
   }
 
@@ -230,20 +693,8 @@ export class TaskTrackerComponent implements OnInit, OnDestroy {
   }
 
   getRecurringLabel(task: Task): string {
-    if (!task.recurring || !task.recurringType) return '';
-    const days = ['Sunday','Monday','Tuesday','Wednesday','Thursday','Friday','Saturday'];
-    switch (task.recurringType) {
-      case 'weekday': return `Repeats every ${days[task.recurringValue ?? 0]}`;
-      case 'monthday': return `Repeats on the ${task.recurringValue}${this.ordinal(task.recurringValue ?? 1)} of each month`;
-      case 'interval': return `Repeats every ${task.recurringValue} day${task.recurringValue !== 1 ? 's' : ''}`;
-      default: return '';
-    }
-  }
-
-  private ordinal(n: number): string {
-    const s = ['th','st','nd','rd'];
-    const v = n % 100;
-    return s[(v - 20) % 10] || s[v] || s[0];
+    const description = this.taskService.describeRecurrence(task);
+    return description ? `Repeats: ${description}` : '';
   }
 
   getLastCompletion(task: Task): { date: string; by: string } | null {
@@ -1,12 +1,42 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { BehaviorSubject, Subject, combineLatest, of, switchMap, takeUntil } from 'rxjs';
 import { TaskService, Task } from '../../../services/task.service';
+import { FocusDayStats, FocusService, FocusState, focusStatsByDay } from '../../../services/focus.service';
+import {
+  TIME_ENTRY_SOURCES, TimeEntry, TimeEntryService, entrySeconds, entryTargetKey
+} from '../../../services/time-entry.service';
+import {
+  DayAccounting, TimeSpan, Timesheet, adoCompletedWorkCsv, buildTimesheet, dayAccounting, entriesInWeek,
+  entryTargetTitle, timesheetCsv
+} from '../../../services/timesheet';
+import {
+  DEFAULT_MEETING_TIME_SETTINGS, Meeting, MeetingTimeService, MeetingTimeSettings
+} from '../../../services/meeting-time.service';
+import { MicrosoftCalendarService } from '../../../services/microsoft-calendar.service';
+import { addDays, dayKey, parseDayKey, startOfWeek } from '../../../services/local-date';
 
-interface TimeEntry {
-  id: string;
-  taskName: string;
-  description: string;
+/** A timer running longer than this is probably one that was forgotten. */
+const LONG_RUNNING_SECONDS = 8 * 3600;
+/** Untracked stretches shorter than this aren't listed. */
+const MIN_GAP_SECONDS = 5 * 60;
+
+/** Date and times for the entry form; an end before the start means the next day. */
+interface EntryForm {
+  taskId: string;
+  date: string;
+  start: string;
+  end: string;
+  note: string;
+}
+
+function timeInput(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function fromInputs(date: string, time: string): Date {
+  return new Date(`${date}T${time}`);
 }
 
 @Component({
@@ -25,19 +55,85 @@ export class TimekeepingComponent implements OnInit, OnDestroy {
   editTaskName: string = '';
   editDescription: string = '';
   
+  focusState: FocusState | null = null;
+
+  view: 'timers' | 'timesheet' = 'timers';
+  readonly sources = TIME_ENTRY_SOURCES;
+
+  // Time-entry ledger
+  timeEntries: TimeEntry[] = [];
+  weekStart = startOfWeek(new Date());
+  timesheet: Timesheet = buildTimesheet([], [], this.weekStart);
+  weekDays: { date: Date; entries: TimeEntry[] }[] = [];
+  showEntryForm = false;
+  entryForm: EntryForm = this.emptyEntryForm();
+  /** Entry open in the editor. */
+  editingEntryId: string | null = null;
+  editEntryForm: EntryForm = this.emptyEntryForm();
+  splittingEntryId: string | null = null;
+  splitTime = '';
+  selectedEntryIds = new Set<string>();
+  ledgerError: string | null = null;
+
+  // Unaccounted time for one day of the week
+  accountingDate = new Date();
+  accounting: DayAccounting | null = null;
+  meetingSettings: MeetingTimeSettings = DEFAULT_MEETING_TIME_SETTINGS;
+  private weekMeetings: Meeting[] = [];
+  private weekStart$ = new BehaviorSubject<Date>(this.weekStart);
+  private ticks = 0;
+
+  /** Long-running timers the user chose to keep going. */
+  private keptRunning = new Set<string>();
   private updateInterval: any;
+  private destroy$ = new Subject<void>();
+  private statsTasks: Task[] | null = null;
+  private statsCache: FocusDayStats[] = [];
 
-  constructor(private taskService: TaskService) {}
+  constructor(
+    private taskService: TaskService,
+    private focusService: FocusService,
+    private timeEntryService: TimeEntryService,
+    private meetingTimeService: MeetingTimeService,
+    private calendarService: MicrosoftCalendarService
+  ) {}
 
   ngOnInit(): void {
     this.loadEntries();
     this.startUpdateInterval();
-    
-    // Reset running timers on init (shouldn't persist across page loads)
-    this.entries.forEach(entry => {
-      if (entry.isTimeRunning) {
-        this.taskService.stopTimeTracking(entry.id);
-      }
+
+    // Running timers live on the task, so they carry on across reloads; ones that look
+    // forgotten are flagged instead (see longRunning)
+    this.taskService.tasks$.pipe(takeUntil(this.destroy$)).subscribe(() => {
+      this.loadEntries();
+      this.buildWeek();
+    });
+
+    this.timeEntryService.entries$.pipe(takeUntil(this.destroy$)).subscribe(entries => {
+      this.timeEntries = entries;
+      this.selectedEntryIds.forEach(id => {
+        if (!entries.some(e => e.id === id)) this.selectedEntryIds.delete(id);
+      });
+      this.buildWeek();
+    });
+
+    this.focusService.state$.pipe(takeUntil(this.destroy$)).subscribe(state => {
+      this.focusState = state;
+    });
+
+    this.meetingTimeService.settings$.pipe(takeUntil(this.destroy$)).subscribe(settings => {
+      this.meetingSettings = settings;
+      this.buildAccounting();
+    });
+
+    combineLatest([this.weekStart$, this.calendarService.isConfigured$]).pipe(
+      switchMap(([start, configured]) =>
+        configured ? this.meetingTimeService.meetingsBetween(start, addDays(start, 7)) : of([])
+      ),
+      takeUntil(this.destroy$)
+    ).subscribe(meetings => {
+      this.weekMeetings = meetings;
+      this.buildAccounting();
     });
   }
 
@@ -45,6 +141,8 @@ export class TimekeepingComponent implements OnInit, OnDestroy {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   private startUpdateInterval(): void {
@@ -55,6 +153,10 @@ export class TimekeepingComponent implements OnInit, OnDestroy {
       if (hasRunning) {
         this.entries = [...this.entries];
       }
+      // Today's working day keeps growing until it ends
+      if (++this.ticks % 60 === 0 && dayKey(this.accountingDate) === dayKey(new Date())) {
+        this.buildAccounting();
+      }
     }, 1000);
   }
 
@@ -113,11 +215,313 @@ export class TimekeepingComponent implements OnInit, OnDestroy {
     this.loadEntries();
   }
 
+  /** Starts a Pomodoro focus session on the entry. */
+  startFocus(entry: Task): void {
+    this.focusService.start(entry);
+  }
+
+  isFocusing(id: string): boolean {
+    return this.focusState?.taskId === id;
+  }
+
+  /** Focus totals for the last 7 days, oldest first; recomputed only when the task list changes. */
+  get focusStats(): FocusDayStats[] {
+    const tasks = this.taskService.getTasks();
+    if (tasks !== this.statsTasks) {
+      this.statsTasks = tasks;
+      this.statsCache = focusStatsByDay(tasks, 7);
+    }
+    return this.statsCache;
+  }
+
+  get todayFocus(): FocusDayStats {
+    return this.focusStats[this.focusStats.length - 1];
+  }
+
+  get hasFocusHistory(): boolean {
+    return this.focusStats.some(day => day.sessions > 0);
+  }
+
+  /** Bar height for a day, relative to the busiest day of the week. */
+  focusBarHeight(day: FocusDayStats): number {
+    const max = Math.max(...this.focusStats.map(d => d.seconds));
+    return max > 0 ? Math.round((day.seconds / max) * 100) : 0;
+  }
+
+  formatFocusMinutes(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  }
+
+  dayLabel(date: string): string {
+    return parseDayKey(date).toLocaleDateString(undefined, { weekday: 'narrow' });
+  }
+
   resetTimer(id: string): void {
+    if (!confirm('Reset the tracked time on this task? Its logged time entries will be deleted.')) return;
     this.taskService.resetTimeTracking(id);
     this.loadEntries();
   }
 
+  // ── Forgotten timers ──────────────────────────────────────────
+
+  /** Timers that have been running long enough to have probably been left on. */
+  get longRunning(): Task[] {
+    return this.entries.filter(e =>
+      e.isTimeRunning && !this.keptRunning.has(e.id) && this.getSessionTime(e.id) >= LONG_RUNNING_SECONDS
+    );
+  }
+
+  keepRunning(id: string): void {
+    this.keptRunning.add(id);
+  }
+
+  /** Stops a forgotten timer at the time given on the day it started (or the day after, if earlier). */
+  stopAt(entry: Task, time: string): void {
+    if (!entry.timeStartedAt || !time) return;
+    const started = new Date(entry.timeStartedAt);
+    let end = fromInputs(dayKey(started), time);
+    if (end <= started) end = addDays(end, 1);
+    if (end.getTime() > Date.now()) end = new Date();
+    this.taskService.stopTimeTracking(entry.id, new Date(Math.max(end.getTime(), entry.timeStartedAt + 1000)));
+  }
+
+  startedLabel(entry: Task): string {
+    if (!entry.timeStartedAt) return '';
+    return new Date(entry.timeStartedAt).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  }
+
+  // ── Timesheet ─────────────────────────────────────────────────
+
+  private buildWeek(): void {
+    const tasks = this.taskService.getTasks();
+    this.timesheet = buildTimesheet(this.timeEntries, tasks, this.weekStart);
+    const inWeek = entriesInWeek(this.timeEntries, this.weekStart);
+    this.weekDays = this.timesheet.dates
+      .map(date => ({ date, entries: inWeek.filter(e => dayKey(e.start) === dayKey(date)) }))
+      .filter(day => day.entries.length > 0)
+      .reverse();
+    this.buildAccounting();
+  }
+
+  shiftWeek(weeks: number): void {
+    this.weekStart = weeks === 0 ? startOfWeek(new Date()) : addDays(this.weekStart, weeks * 7);
+    // Today in the current week, else the week's Monday
+    this.accountingDate = this.isCurrentWeek ? new Date() : this.weekStart;
+    this.selectedEntryIds.clear();
+    this.weekMeetings = [];
+    this.weekStart$.next(this.weekStart);
+    this.buildWeek();
+  }
+
+  get isCurrentWeek(): boolean {
+    return this.weekStart.getTime() === startOfWeek(new Date()).getTime();
+  }
+
+  get weekLabel(): string {
+    const end = addDays(this.weekStart, 6);
+    const format = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    return `${format(this.weekStart)} – ${format(end)}`;
+  }
+
+  /** Hours as `h:mm`, blank for none, for the grid. */
+  formatHours(seconds: number): string {
+    if (!seconds) return '';
+    const minutes = Math.round(seconds / 60);
+    return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  entryDuration(entry: TimeEntry): string {
+    return this.formatHours(entrySeconds(entry)) || '0:00';
+  }
+
+  entryRange(entry: TimeEntry): string {
+    return `${timeInput(entry.start)}–${timeInput(entry.end)}`;
+  }
+
+  entryTitle(entry: TimeEntry): string {
+    return entryTargetTitle(entry, new Map(this.entries.map(t => [t.id, t])));
+  }
+
+  // ── Unaccounted time ──────────────────────────────────────────
+
+  private buildAccounting(): void {
+    const now = new Date();
+    const running: TimeSpan[] = this.entries
+      .filter(t => t.isTimeRunning && t.timeStartedAt)
+      .map(t => ({ start: new Date(t.timeStartedAt!), end: now }));
+    this.accounting = dayAccounting(this.accountingDate, this.meetingSettings, [...this.timeEntries, ...running], this.weekMeetings, now);
+  }
+
+  selectAccountingDay(date: string): void {
+    this.accountingDate = this.timesheet.dates.find(d => dayKey(d) === date) ?? this.accountingDate;
+    this.buildAccounting();
+  }
+
+  get accountingDateKey(): string {
+    return dayKey(this.accountingDate);
+  }
+
+  dateKey(date: Date): string {
+    return dayKey(date);
+  }
+
+  /** Stretches of the working day long enough to be worth logging. */
+  get gaps(): TimeSpan[] {
+    return (this.accounting?.gaps ?? []).filter(g => entrySeconds(g) >= MIN_GAP_SECONDS);
+  }
+
+  /** Share of the working day, in percent, for the bar. */
+  share(seconds: number): number {
+    return this.accounting?.working ? (seconds / this.accounting.working) * 100 : 0;
+  }
+
+  gapRange(gap: TimeSpan): string {
+    return `${timeInput(gap.start)}–${timeInput(gap.end)}`;
+  }
+
+  // ── Ledger entries ────────────────────────────────────────────
+
+  private emptyEntryForm(): EntryForm {
+    const now = new Date();
+    const hourAgo = new Date(now.getTime() - 3600_000);
+    return { taskId: '', date: dayKey(hourAgo), start: timeInput(hourAgo), end: timeInput(now), note: '' };
+  }
+
+  private rangeFrom(form: EntryForm): { start: Date; end: Date } {
+    const start = fromInputs(form.date, form.start);
+    let end = fromInputs(form.date, form.end);
+    if (end <= start) end = addDays(end, 1);
+    return { start, end };
+  }
+
+  /** Opens the form for adding time, filled in with `gap` when logging an untracked stretch. */
+  openEntryForm(gap?: TimeSpan): void {
+    this.entryForm = { ...this.emptyEntryForm(), taskId: this.entries[0]?.id ?? '' };
+    if (gap) {
+      this.entryForm = { ...this.entryForm, date: dayKey(gap.start), start: timeInput(gap.start), end: timeInput(gap.end) };
+    }
+    this.ledgerError = null;
+    this.showEntryForm = true;
+  }
+
+  async addManualEntry(): Promise<void> {
+    const task = this.taskService.getTaskById(this.entryForm.taskId);
+    if (!task) return;
+    this.ledgerError = null;
+    try {
+      await this.timeEntryService.addEntry({
+        taskId: task.id,
+        taskTitle: task.title,
+        ...this.rangeFrom(this.entryForm),
+        note: this.entryForm.note,
+        source: 'manual'
+      });
+      this.showEntryForm = false;
+    } catch (e: any) {
+      this.ledgerError = e?.message ?? 'Could not add the entry.';
+    }
+  }
+
+  startEditingEntry(entry: TimeEntry): void {
+    this.splittingEntryId = null;
+    this.editingEntryId = entry.id;
+    this.ledgerError = null;
+    this.editEntryForm = {
+      taskId: entry.taskId,
+      date: dayKey(entry.start),
+      start: timeInput(entry.start),
+      end: timeInput(entry.end),
+      note: entry.note ?? ''
+    };
+  }
+
+  async saveEntry(): Promise<void> {
+    if (!this.editingEntryId) return;
+    const task = this.taskService.getTaskById(this.editEntryForm.taskId);
+    this.ledgerError = null;
+    try {
+      await this.timeEntryService.updateEntry(this.editingEntryId, {
+        ...this.rangeFrom(this.editEntryForm),
+        note: this.editEntryForm.note,
+        ...(task ? { taskId: task.id, taskTitle: task.title, link: null } : {})
+      });
+      this.editingEntryId = null;
+    } catch (e: any) {
+      this.ledgerError = e?.message ?? 'Could not save the entry.';
+    }
+  }
+
+  async deleteTimeEntry(entry: TimeEntry): Promise<void> {
+    if (!confirm(`Delete ${this.entryDuration(entry)} logged on "${this.entryTitle(entry)}"?`)) return;
+    try {
+      await this.timeEntryService.deleteEntry(entry.id);
+      if (entry.eventId) await this.meetingTimeService.ignoreEvent(entry.eventId);
+    } catch (e: any) {
+      this.ledgerError = e?.message ?? 'Could not delete the entry.';
+    }
+  }
+
+  startSplitting(entry: TimeEntry): void {
+    this.editingEntryId = null;
+    this.splittingEntryId = entry.id;
+    this.ledgerError = null;
+    this.splitTime = timeInput(new Date((entry.start.getTime() + entry.end.getTime()) / 2));
+  }
+
+  async splitEntry(entry: TimeEntry): Promise<void> {
+    let at = fromInputs(dayKey(entry.start), this.splitTime);
+    if (at <= entry.start) at = addDays(at, 1);
+    this.ledgerError = null;
+    try {
+      await this.timeEntryService.splitEntry(entry.id, at);
+      this.splittingEntryId = null;
+    } catch (e: any) {
+      this.ledgerError = e?.message ?? 'Could not split the entry.';
+    }
+  }
+
+  toggleSelected(entry: TimeEntry): void {
+    if (this.selectedEntryIds.has(entry.id)) this.selectedEntryIds.delete(entry.id);
+    else this.selectedEntryIds.add(entry.id);
+  }
+
+  /** Two or more entries, all on one task. */
+  get canMerge(): boolean {
+    const selected = this.timeEntries.filter(e => this.selectedEntryIds.has(e.id));
+    return selected.length > 1 && new Set(selected.map(entryTargetKey)).size === 1;
+  }
+
+  async mergeSelected(): Promise<void> {
+    this.ledgerError = null;
+    try {
+      await this.timeEntryService.mergeEntries([...this.selectedEntryIds]);
+      this.selectedEntryIds.clear();
+    } catch (e: any) {
+      this.ledgerError = e?.message ?? 'Could not merge the entries.';
+    }
+  }
+
+  // ── Export ────────────────────────────────────────────────────
+
+  exportCsv(): void {
+    this.download(timesheetCsv(this.timeEntries, this.taskService.getTasks(), this.weekStart), 'timesheet');
+  }
+
+  exportAdoCsv(): void {
+    this.download(adoCompletedWorkCsv(this.timeEntries, this.taskService.getTasks(), this.weekStart), 'ado-completed-work');
+  }
+
+  private download(csv: string, name: string): void {
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}-${dayKey(this.weekStart)}.csv`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
   // Get current session time (time since timer started)
   getSessionTime(id: string): number {
     return this.taskService.getCurrentSessionTime(id);
@@ -0,0 +1,85 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, interval, takeUntil } from 'rxjs';
+import { FocusService, FocusSettings, FocusState } from '../../services/focus.service';
+
+const PHASE_LABELS: Record<FocusState['phase'], string> = {
+  focus: 'Focusing',
+  'short-break': 'Short break',
+  'long-break': 'Long break',
+  ready: 'Break over'
+};
+
+/** Floating bar for the running focus session: countdown, cycle count and controls. */
+@Component({
+  selector: 'app-focus-bar',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './focus-bar.component.html',
+  styleUrl: './focus-bar.component.scss'
+})
+export class FocusBarComponent implements OnInit, OnDestroy {
+  state: FocusState | null = null;
+  settings: FocusSettings | null = null;
+  now = Date.now();
+  showInterruptNote = false;
+  interruptNote = '';
+  private destroy$ = new Subject<void>();
+
+  constructor(private focusService: FocusService) {}
+
+  ngOnInit(): void {
+    this.focusService.state$.pipe(takeUntil(this.destroy$)).subscribe(state => {
+      this.state = state;
+      this.now = Date.now();
+      if (state?.phase !== 'focus') this.showInterruptNote = false;
+    });
+    this.focusService.settings$.pipe(takeUntil(this.destroy$)).subscribe(settings => (this.settings = settings));
+    interval(1000).pipe(takeUntil(this.destroy$)).subscribe(() => (this.now = Date.now()));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get phaseLabel(): string {
+    return this.state ? PHASE_LABELS[this.state.phase] : '';
+  }
+
+  /** Time left in the phase as `m:ss`. */
+  get remaining(): string {
+    if (!this.state?.phaseEndsAt) return '';
+    const seconds = Math.max(0, Math.ceil((this.state.phaseEndsAt - this.now) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  get progress(): number {
+    if (!this.state?.phaseEndsAt) return 1;
+    const length = this.state.phaseEndsAt - this.state.phaseStartedAt;
+    return length > 0 ? Math.min(1, (this.now - this.state.phaseStartedAt) / length) : 1;
+  }
+
+  /** One dot per focus period in the current set, filled for those done. */
+  get cycleDots(): boolean[] {
+    const perSet = this.settings?.cyclesBeforeLongBreak ?? 4;
+    const cycles = this.state?.cycles ?? 0;
+    const done = cycles > 0 && cycles % perSet === 0 && this.state?.phase !== 'focus' ? perSet : cycles % perSet;
+    return Array.from({ length: perSet }, (_, i) => i < done);
+  }
+
+  interrupt(): void {
+    this.focusService.interrupt(this.interruptNote);
+    this.interruptNote = '';
+    this.showInterruptNote = false;
+  }
+
+  resume(): void {
+    this.focusService.resume();
+  }
+
+  stop(): void {
+    this.focusService.stop();
+  }
+}
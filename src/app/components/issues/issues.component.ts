@@ -1,28 +1,28 @@
-import { Component, OnInit, OnDestroy, HostListener, ViewChild, ElementRef, AfterViewChecked } from '@angular/core';
+import { Component, OnInit, OnDestroy, HostListener, ViewChild, ElementRef, AfterViewChecked, Input } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 import { marked } from 'marked';
-import { Subject, combineLatest } from 'rxjs';
-import { takeUntil, debounceTime } from 'rxjs/operators';
+import { Subject, Subscription, combineLatest } from 'rxjs';
+import { takeUntil, debounceTime, finalize } from 'rxjs/operators';
 import { LinearService, LinearIssue, LinearCustomView } from '../../services/linear.service';
-import { GitHubAIService } from '../../services/github-ai.service';
+import { AiService, ChatMessage } from '../../services/ai.service';
+import { Conversation, ConversationService } from '../../services/conversation.service';
+import { formatWorkItemForPrompt, fromLinearIssue } from '../../services/work-item.service';
 import { NavigationService } from '../../services/navigation.service';
 import { UserProfileService } from '../../services/user-profile.service';
 import { TouchTooltipDirective } from '../../directives/touch-tooltip.directive';
+import { AiConversationHistoryComponent } from '../ai-conversation-history/ai-conversation-history.component';
 
 type IssuesTab = 'assigned' | 'view';
 
-export interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
+/** AI thread the page had open, restored on the next visit. */
+const ACTIVE_CONVERSATION_KEY = 'issues-ai-conversation-id';
 
 @Component({
   selector: 'app-issues',
   standalone: true,
-  imports: [CommonModule, FormsModule, TouchTooltipDirective],
+  imports: [CommonModule, FormsModule, TouchTooltipDirective, AiConversationHistoryComponent],
   templateUrl: './issues.component.html',
   styleUrl: './issues.component.scss',
 })
@@ -58,10 +58,28 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
   // AI query
   aiQuery = '';
   aiLoading = false;
+  // True once the reply has started arriving; the typing indicator gives way to the text
+  aiStreaming = false;
+  private aiReplySubscription: Subscription | null = null;
   messages: ChatMessage[] = [];
   aiError: string | null = null;
   isAIConfigured = false;
   conversationExpanded = false;
+  showHistory = false;
+  // Saved thread the messages belong to, and the system prompt it started with
+  conversationId: string | null = null;
+  private threadSystemPrompt: string | null = null;
+
+  /** Bound from the `/issues/:identifier` route parameter (e.g. ENG-123). */
+  @Input() set identifier(value: string | undefined) {
+    const identifier = value?.toUpperCase() ?? null;
+    if (identifier !== this.linkedIdentifier) this.revealedIdentifier = null;
+    this.linkedIdentifier = identifier;
+    this.revealLinkedIssue();
+  }
+  linkedIdentifier: string | null = null;
+  /** Revealed once, so background refreshes don't switch tabs, clear the filter or scroll while the user works. */
+  private revealedIdentifier: string | null = null;
 
   @ViewChild('aiMessagesContainer') private messagesContainer?: ElementRef<HTMLElement>;
   private shouldScrollMessages = false;
@@ -70,7 +88,8 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
 
   constructor(
     private linearService: LinearService,
-    private aiService: GitHubAIService,
+    private aiService: AiService,
+    private conversationService: ConversationService,
     private navigationService: NavigationService,
     private userProfileService: UserProfileService,
     private sanitizer: DomSanitizer,
@@ -85,7 +104,7 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
 
   ngOnInit(): void {
     this.isConfigured = this.linearService.isConfigured();
-    this.isAIConfigured = this.aiService.isConfigured();
+    this.isAIConfigured = this.aiService.isConfigured('issues');
 
     this.linearService.isConfigured$
       .pipe(takeUntil(this.destroy$))
@@ -96,7 +115,10 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
 
     this.linearService.issues$
       .pipe(takeUntil(this.destroy$))
-      .subscribe(issues => (this.assignedIssues = issues));
+      .subscribe(issues => {
+        this.assignedIssues = issues;
+        this.revealLinkedIssue();
+      });
 
     this.linearService.loading$
       .pipe(takeUntil(this.destroy$))
@@ -106,13 +128,22 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
       .pipe(takeUntil(this.destroy$))
       .subscribe(err => (this.assignedError = err));
 
-    this.aiService.error$
+    this.aiService.isConfigured$('issues')
       .pipe(takeUntil(this.destroy$))
-      .subscribe(() => (this.isAIConfigured = this.aiService.isConfigured()));
+      .subscribe(configured => (this.isAIConfigured = configured));
 
     if (this.isConfigured) {
       this.loadAssigned();
     }
+
+    const activeId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+    if (activeId) {
+      this.conversationService.whenLoaded(activeId)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe(conversation => {
+          if (this.messages.length === 0) this.resumeConversation(conversation);
+        });
+    }
   }
 
   ngOnDestroy(): void {
@@ -148,6 +179,18 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
     return this.sortIssues(this.assignedIssues).filter(i => this.matchesFilter(i));
   }
 
+  /** Expands the deep-linked issue and scrolls it into view once it has loaded. */
+  private revealLinkedIssue(): void {
+    if (!this.linkedIdentifier || this.linkedIdentifier === this.revealedIdentifier) return;
+    const issue = this.assignedIssues.find(i => i.identifier.toUpperCase() === this.linkedIdentifier);
+    if (!issue) return;
+    this.revealedIdentifier = this.linkedIdentifier;
+    this.activeTab = 'assigned';
+    this.filterText = '';
+    this.expandedIssues.add(issue.id);
+    setTimeout(() => document.getElementById(`issue-${issue.identifier}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
+  }
+
   // ── Views ──────────────────────────────────────────────────
 
   loadViews(): void {
@@ -349,45 +392,80 @@ export class IssuesComponent implements OnInit, OnDestroy, AfterViewChecked {
     const profileContext = jobDescription
       ? ` The engineer's role and skillset: ${jobDescription}.`
       : '';
-    const systemPrompt = `You are a helpful AI assistant for an engineer's work dashboard. Today is ${now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.${profileContext} Use this context to tailor your recommendations to their skills and focus areas. Answer concisely using markdown. When listing issues, always include the identifier and title as a markdown link to the issue URL.`;
+    this.threadSystemPrompt ??= `You are a helpful AI assistant for an engineer's work dashboard. Today is ${now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.${profileContext} Use this context to tailor your recommendations to their skills and focus areas. Answer concisely using markdown. When listing issues, always include the identifier and title as a markdown link to the issue URL.`;
 
-    const priorities = ['', 'Urgent', 'High', 'Medium', 'Low'];
-    const issueLines = issues.slice(0, 60).map(i => {
-      const tags = [i.project?.name, ...i.labels.nodes.map(l => l.name)].filter(Boolean).join(', ');
-      const prio = i.priority > 0 && i.priority < priorities.length ? priorities[i.priority] : '';
-      const est = i.estimate != null ? `${i.estimate}pt` : '';
-      const meta = [prio, est, i.state.name].filter(Boolean).join(' | ');
-      return `- [${i.identifier}](${i.url}): ${i.title}${tags ? ` [${tags}]` : ''}${meta ? ` (${meta})` : ''}`;
-    }).join('\n');
+    const issueLines = issues.slice(0, 60).map(i => formatWorkItemForPrompt(fromLinearIssue(i))).join('\n');
 
     const sourceName = this.activeTab === 'assigned' ? 'my assigned issues' : `the "${this.selectedView?.name}" view`;
     const userPrompt = `Here are ${sourceName} (${issues.length} total):\n\n${issueLines}\n\nQuestion: ${q}`;
 
-    const apiMsgs = [
-      { role: 'system' as const, content: systemPrompt, timestamp: new Date() },
-      { role: 'user'   as const, content: userPrompt,   timestamp: new Date() },
+    // Earlier turns go along as asked, so follow-ups and resumed threads keep their context
+    const history: ChatMessage[] = [
+      { role: 'system', content: this.threadSystemPrompt, timestamp: new Date() },
+      ...this.messages.slice(0, -1),
     ];
 
-    this.aiService.sendMessage(userPrompt, apiMsgs).pipe(takeUntil(this.destroy$)).subscribe({
-      next: response => {
-        const aiMsg: ChatMessage = { role: 'assistant', content: response, timestamp: new Date() };
-        this.messages = [...this.messages, aiMsg];
+    const aiMsg: ChatMessage = { role: 'assistant', content: '', timestamp: new Date() };
+    this.aiReplySubscription = this.aiService.streamMessage('issues', userPrompt, history).pipe(
+      takeUntil(this.destroy$),
+      finalize(() => {
         this.aiLoading = false;
+        this.aiStreaming = false;
+        if (aiMsg.content) this.saveConversation();
+      })
+    ).subscribe({
+      next: delta => {
+        if (!this.aiStreaming) {
+          this.messages = [...this.messages, aiMsg];
+          this.aiStreaming = true;
+        }
+        aiMsg.content += delta;
         this.shouldScrollMessages = true;
       },
       error: err => {
         this.aiError = err.message ?? 'AI query failed.';
-        this.aiLoading = false;
         this.shouldScrollMessages = true;
       },
     });
   }
 
+  stopAIQuery(): void {
+    this.aiReplySubscription?.unsubscribe();
+  }
+
+  /** Start a fresh thread; the current one stays in the history. */
   clearAI(): void {
+    this.stopAIQuery();
     this.aiQuery = '';
     this.messages = [];
     this.aiError = null;
     this.conversationExpanded = false;
+    this.conversationId = null;
+    this.threadSystemPrompt = null;
+    localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+  }
+
+  resumeConversation(conversation: Conversation): void {
+    this.stopAIQuery();
+    this.messages = conversation.messages;
+    this.conversationId = conversation.id;
+    this.threadSystemPrompt = conversation.systemPrompt || null;
+    this.aiError = null;
+    this.showHistory = false;
+    this.shouldScrollMessages = true;
+    localStorage.setItem(ACTIVE_CONVERSATION_KEY, conversation.id);
+  }
+
+  onConversationDeleted(id: string): void {
+    if (id === this.conversationId) this.clearAI();
+  }
+
+  private saveConversation(): void {
+    const id = this.conversationService.save('issues', this.conversationId, this.threadSystemPrompt ?? '', this.messages);
+    if (id) {
+      this.conversationId = id;
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    }
   }
 
   toggleConversationExpanded(): void {
@@ -1,36 +1,128 @@
-import { Component, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild, ElementRef, Input, SecurityContext } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { JournalService, JournalEntry } from '../../services/journal.service';
+import { RouterLink } from '@angular/router';
+import { DomSanitizer } from '@angular/platform-browser';
+import { marked } from 'marked';
+import {
+  JournalService, JournalEntry, JournalAttachment, MAX_ATTACHMENT_BYTES
+} from '../../services/journal.service';
+import { TagCount, countTags } from '../../services/journal-markdown';
+import {
+  HeatmapDay, OnThisDayGroup, SearchIndex,
+  buildHeatmap, buildSearchIndex, entriesPerDay, highlightHtml, onThisDay, searchEntries
+} from '../../services/journal-search';
+import { addDays, dayKey, parseDayKey, startOfWeek } from '../../services/local-date';
+import { MarkdownToolbarComponent } from '../markdown-toolbar/markdown-toolbar.component';
 import { NavigationService } from '../../services/navigation.service';
+import { CommandPaletteService } from '../../services/command-palette.service';
 import { Subscription } from 'rxjs';
 
+interface RatingOption {
+  value: number;
+  icon: string;
+  label: string;
+}
+
+const MOODS: RatingOption[] = [
+  { value: 1, icon: 'fas fa-face-tired', label: 'Awful' },
+  { value: 2, icon: 'fas fa-face-frown', label: 'Bad' },
+  { value: 3, icon: 'fas fa-face-meh', label: 'Okay' },
+  { value: 4, icon: 'fas fa-face-smile', label: 'Good' },
+  { value: 5, icon: 'fas fa-face-grin-stars', label: 'Great' }
+];
+
+/** Quick date ranges for looking back over a review period; each gives the first day included. */
+const RANGE_PRESETS: { id: string; label: string; from: (today: Date) => Date }[] = [
+  { id: 'week', label: 'This week', from: today => startOfWeek(today) },
+  { id: '30d', label: 'Last 30 days', from: today => addDays(today, -29) },
+  { id: 'quarter', label: 'This quarter', from: today => new Date(today.getFullYear(), today.getMonth() - today.getMonth() % 3, 1) },
+  { id: '6m', label: 'Last 6 months', from: today => new Date(today.getFullYear(), today.getMonth() - 6, today.getDate() + 1) },
+  { id: 'year', label: 'This year', from: today => new Date(today.getFullYear(), 0, 1) }
+];
+
+/** A year of weeks, which fits the page width. */
+const HEATMAP_WEEKS = 53;
+
+const ENERGY_LEVELS: RatingOption[] = [
+  { value: 1, icon: 'fas fa-battery-empty', label: 'Drained' },
+  { value: 2, icon: 'fas fa-battery-quarter', label: 'Low' },
+  { value: 3, icon: 'fas fa-battery-half', label: 'Steady' },
+  { value: 4, icon: 'fas fa-battery-three-quarters', label: 'Good' },
+  { value: 5, icon: 'fas fa-battery-full', label: 'Energised' }
+];
+
 @Component({
   selector: 'app-journal',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, RouterLink, MarkdownToolbarComponent],
   templateUrl: './journal.component.html',
   styleUrl: './journal.component.scss'
 })
 export class JournalComponent implements OnInit, OnDestroy {
   @ViewChild('newEntryTextarea') private newEntryTextarea!: ElementRef<HTMLTextAreaElement>;
+  @ViewChild('newEntryToolbar') private newEntryToolbar?: MarkdownToolbarComponent;
+  @ViewChild('editToolbar') private editToolbar?: MarkdownToolbarComponent;
+
+  /** Bound from the `/journal/:entryId` route parameter. */
+  @Input() set entryId(id: string | undefined) {
+    this.linkedEntryId = id ?? null;
+    this.revealedEntryId = null;
+    this.revealLinkedEntry();
+  }
+  linkedEntryId: string | null = null;
+  /** Revealed once, so later snapshots don't undo filters the user has set since. */
+  private revealedEntryId: string | null = null;
+
+  readonly moods = MOODS;
+  readonly energyLevels = ENERGY_LEVELS;
+  readonly rangePresets = RANGE_PRESETS;
 
   entries: JournalEntry[] = [];
   newEntryText = '';
+  newEntryMood: number | null = null;
+  newEntryEnergy: number | null = null;
+  newEntryFiles: File[] = [];
   isSubmitting = false;
   deletingId: string | null = null;
+  error: string | null = null;
+
+  // Tags
+  tagCloud: TagCount[] = [];
+  activeTag: string | null = null;
+
+  // Search and date range
+  searchQuery = '';
+  /** `YYYY-MM-DD`, inclusive; empty for no limit. */
+  rangeFrom = '';
+  rangeTo = '';
+  rangePreset = '';
+  private searchIndex: SearchIndex = buildSearchIndex([]);
+
+  /** Entries matching the tag, search and date range, newest first. */
+  filteredEntries: JournalEntry[] = [];
+
+  get hasFilters(): boolean {
+    return !!(this.activeTag || this.searchQuery.trim() || this.rangeFrom || this.rangeTo);
+  }
+
+  // Heatmap and "on this day"
+  heatmap: HeatmapDay[][] = [];
+  /** Month names over the heatmap column each month starts in. */
+  heatmapMonths: { column: number; label: string }[] = [];
+  onThisDayGroups: OnThisDayGroup[] = [];
 
   // Pagination
   readonly pageSize = 10;
   currentPage = 1;
 
   get totalPages(): number {
-    return Math.max(1, Math.ceil(this.entries.length / this.pageSize));
+    return Math.max(1, Math.ceil(this.filteredEntries.length / this.pageSize));
   }
 
   get pagedEntries(): JournalEntry[] {
     const start = (this.currentPage - 1) * this.pageSize;
-    return this.entries.slice(start, start + this.pageSize);
+    return this.filteredEntries.slice(start, start + this.pageSize);
   }
 
   goToPage(page: number): void {
@@ -42,11 +134,26 @@ export class JournalComponent implements OnInit, OnDestroy {
   editText = '';
   editDate = '';
   editTime = '';
+  editMood: number | null = null;
+  editEnergy: number | null = null;
+  editAttachments: JournalAttachment[] = [];
+  editFiles: File[] = [];
   isSavingEdit = false;
 
+  /** Rendered Markdown by entry text, rebuilt when the entries change. */
+  private renderedHtml = new Map<string, string>();
+  /** The same with search matches marked, rebuilt when the search changes. */
+  private highlightedHtml = new Map<string, string>();
+
   private sub?: Subscription;
+  private unregisterCommands?: () => void;
 
-  constructor(private journalService: JournalService, private navigationService: NavigationService) {}
+  constructor(
+    private journalService: JournalService,
+    private navigationService: NavigationService,
+    private commandPalette: CommandPaletteService,
+    private sanitizer: DomSanitizer
+  ) {}
 
   focusNewEntry(): void {
     setTimeout(() => this.newEntryTextarea?.nativeElement.focus(), 50);
@@ -57,31 +164,83 @@ export class JournalComponent implements OnInit, OnDestroy {
     this.sub.add(
       this.journalService.entries$.subscribe(entries => {
         this.entries = entries;
+        this.renderedHtml.clear();
+        this.tagCloud = countTags(entries);
+        if (this.activeTag && !this.tagCloud.some(t => t.tag === this.activeTag)) this.activeTag = null;
+        this.searchIndex = buildSearchIndex(entries);
+        this.buildHeatmap();
+        this.onThisDayGroups = onThisDay(entries);
+        this.applyFilters(false);
+        this.revealLinkedEntry();
       })
     );
+    // Already on this page, so "New journal entry" only needs to focus the field
+    this.unregisterCommands = this.commandPalette.register({
+      id: 'journal-page',
+      priority: 1,
+      commands: () => [{
+        id: 'action:new-journal-entry',
+        label: 'New journal entry',
+        group: 'Actions',
+        icon: 'fas fa-pen',
+        keywords: ['write', 'log'],
+        pinned: true,
+        run: () => this.focusNewEntry()
+      }]
+    });
     if (this.navigationService.pendingFocusJournalEntry) {
       this.navigationService.pendingFocusJournalEntry = false;
       this.focusNewEntry();
     }
   }
 
+  /** Jumps to the page holding the deep-linked entry and scrolls it into view. */
+  private revealLinkedEntry(): void {
+    if (!this.linkedEntryId || this.linkedEntryId === this.revealedEntryId) return;
+    if (!this.entries.some(e => e.id === this.linkedEntryId)) return;
+    if (!this.filteredEntries.some(e => e.id === this.linkedEntryId)) this.clearFilters();
+    const index = this.filteredEntries.findIndex(e => e.id === this.linkedEntryId);
+    if (index === -1) return;
+    this.revealedEntryId = this.linkedEntryId;
+    this.currentPage = Math.floor(index / this.pageSize) + 1;
+    const id = this.linkedEntryId;
+    setTimeout(() => document.getElementById(`journal-entry-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 50);
+  }
+
   ngOnDestroy(): void {
+    this.unregisterCommands?.();
     this.sub?.unsubscribe();
   }
 
+  get canSubmit(): boolean {
+    return !!this.newEntryText.trim() || this.newEntryFiles.length > 0;
+  }
+
   async submitEntry(): Promise<void> {
-    if (!this.newEntryText.trim() || this.isSubmitting) return;
+    if (!this.canSubmit || this.isSubmitting) return;
     this.isSubmitting = true;
+    this.error = null;
     try {
-      await this.journalService.addEntry(this.newEntryText);
+      await this.journalService.addEntry(this.newEntryText, {
+        mood: this.newEntryMood,
+        energy: this.newEntryEnergy,
+        files: this.newEntryFiles
+      });
       this.newEntryText = '';
+      this.newEntryMood = null;
+      this.newEntryEnergy = null;
+      this.newEntryFiles = [];
+      if (this.hasFilters) this.clearFilters();
       this.currentPage = 1;
+    } catch (e: any) {
+      this.error = e?.message ?? 'Failed to save the entry.';
     } finally {
       this.isSubmitting = false;
     }
   }
 
   onKeyDown(event: KeyboardEvent): void {
+    if (this.newEntryToolbar?.handleShortcut(event)) return;
     if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
       this.submitEntry();
     }
@@ -92,6 +251,11 @@ export class JournalComponent implements OnInit, OnDestroy {
     this.editText = entry.text;
     this.editDate = this.toDateInput(entry.timestamp);
     this.editTime = this.toTimeInput(entry.timestamp);
+    this.editMood = entry.mood;
+    this.editEnergy = entry.energy;
+    this.editAttachments = [...entry.attachments];
+    this.editFiles = [];
+    this.error = null;
   }
 
   cancelEdit(): void {
@@ -99,21 +263,37 @@ export class JournalComponent implements OnInit, OnDestroy {
     this.editText = '';
     this.editDate = '';
     this.editTime = '';
+    this.editMood = null;
+    this.editEnergy = null;
+    this.editAttachments = [];
+    this.editFiles = [];
+  }
+
+  get canSaveEdit(): boolean {
+    return !!this.editText.trim() || this.editAttachments.length > 0 || this.editFiles.length > 0;
   }
 
   async saveEdit(): Promise<void> {
-    if (!this.editingId || !this.editText.trim() || this.isSavingEdit) return;
+    if (!this.editingId || !this.canSaveEdit || this.isSavingEdit) return;
     this.isSavingEdit = true;
+    this.error = null;
     try {
       const timestamp = new Date(`${this.editDate}T${this.editTime}`);
-      await this.journalService.updateEntry(this.editingId, this.editText, timestamp);
+      await this.journalService.updateEntry(this.editingId, this.editText, timestamp, this.editAttachments, {
+        mood: this.editMood,
+        energy: this.editEnergy,
+        files: this.editFiles
+      });
       this.cancelEdit();
+    } catch (e: any) {
+      this.error = e?.message ?? 'Failed to save the entry.';
     } finally {
       this.isSavingEdit = false;
     }
   }
 
   onEditKeyDown(event: KeyboardEvent): void {
+    if (this.editToolbar?.handleShortcut(event)) return;
     if ((event.ctrlKey || event.metaKey) && event.key === 'Enter') {
       this.saveEdit();
     }
@@ -122,7 +302,165 @@ export class JournalComponent implements OnInit, OnDestroy {
     }
   }
 
-  async deleteEntry(id: string): Promise<void> {
+  removeEditAttachment(attachment: JournalAttachment): void {
+    this.editAttachments = this.editAttachments.filter(a => a.path !== attachment.path);
+  }
+
+  // ── Mood and energy ───────────────────────────────────────────
+
+  // Passed to the rating picker template; picking the current rating again clears it
+  readonly setNewMood = (value: number) => this.newEntryMood = this.newEntryMood === value ? null : value;
+  readonly setNewEnergy = (value: number) => this.newEntryEnergy = this.newEntryEnergy === value ? null : value;
+  readonly setEditMood = (value: number) => this.editMood = this.editMood === value ? null : value;
+  readonly setEditEnergy = (value: number) => this.editEnergy = this.editEnergy === value ? null : value;
+
+  moodOption(value: number | null): RatingOption | undefined {
+    return MOODS.find(m => m.value === value);
+  }
+
+  energyOption(value: number | null): RatingOption | undefined {
+    return ENERGY_LEVELS.find(e => e.value === value);
+  }
+
+  // ── Attachments ───────────────────────────────────────────────
+
+  /** Adds picked files to `files`, leaving out any over the size limit. */
+  addFiles(input: HTMLInputElement, files: File[]): File[] {
+    const picked = Array.from(input.files ?? []);
+    input.value = '';
+    const tooBig = picked.filter(f => f.size > MAX_ATTACHMENT_BYTES);
+    this.error = tooBig.length
+      ? `${tooBig.map(f => `"${f.name}"`).join(', ')} ${tooBig.length === 1 ? 'is' : 'are'} larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`
+      : null;
+    return [...files, ...picked.filter(f => f.size <= MAX_ATTACHMENT_BYTES)];
+  }
+
+  removeFile(files: File[], file: File): File[] {
+    return files.filter(f => f !== file);
+  }
+
+  isImage(attachment: JournalAttachment): boolean {
+    return attachment.contentType.startsWith('image/');
+  }
+
+  formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  // ── Tags and rendering ────────────────────────────────────────
+
+  toggleTag(tag: string): void {
+    this.activeTag = this.activeTag === tag ? null : tag;
+    this.applyFilters();
+  }
+
+  /** Tag cloud font size: the most used tag is largest. */
+  tagSize(count: number): number {
+    const max = this.tagCloud[0]?.count ?? 1;
+    return 0.75 + 0.35 * (max > 1 ? (count - 1) / (max - 1) : 0);
+  }
+
+  renderMarkdown(text: string): string {
+    let html = this.renderedHtml.get(text);
+    if (html === undefined) {
+      html = this.sanitizer.sanitize(SecurityContext.HTML, marked.parse(text, { async: false, breaks: true }) as string) ?? '';
+      this.renderedHtml.set(text, html);
+    }
+    return html;
+  }
+
+  /** The rendered entry, with search matches marked while searching. */
+  entryHtml(text: string): string {
+    if (!this.searchQuery.trim()) return this.renderMarkdown(text);
+    let html = this.highlightedHtml.get(text);
+    if (html === undefined) {
+      html = highlightHtml(this.renderMarkdown(text), this.searchQuery);
+      this.highlightedHtml.set(text, html);
+    }
+    return html;
+  }
+
+  // ── Search and filters ────────────────────────────────────────
+
+  /** Recomputes `filteredEntries`; a changed filter goes back to the first page. */
+  applyFilters(resetPage = true): void {
+    const tag = this.activeTag;
+    const matches = searchEntries(this.searchIndex, this.searchQuery);
+    const from = this.rangeFrom ? parseDayKey(this.rangeFrom) : null;
+    const to = this.rangeTo ? addDays(parseDayKey(this.rangeTo), 1) : null;
+    this.filteredEntries = this.entries.filter(e =>
+      (!tag || e.tags.includes(tag)) &&
+      (!matches || matches.has(e.id)) &&
+      (!from || e.timestamp >= from) &&
+      (!to || e.timestamp < to)
+    );
+    this.highlightedHtml.clear();
+    this.goToPage(resetPage ? 1 : this.currentPage);
+  }
+
+  onRangeChange(): void {
+    this.rangePreset = '';
+    this.applyFilters();
+  }
+
+  applyRangePreset(id: string): void {
+    const preset = RANGE_PRESETS.find(p => p.id === id);
+    this.rangePreset = preset ? id : '';
+    this.rangeFrom = preset ? dayKey(preset.from(new Date())) : '';
+    this.rangeTo = preset ? dayKey(new Date()) : '';
+    this.applyFilters();
+  }
+
+  clearFilters(): void {
+    this.activeTag = null;
+    this.searchQuery = '';
+    this.rangeFrom = '';
+    this.rangeTo = '';
+    this.rangePreset = '';
+    this.applyFilters();
+  }
+
+  // ── Heatmap and "on this day" ─────────────────────────────────
+
+  private buildHeatmap(): void {
+    this.heatmap = buildHeatmap(entriesPerDay(this.entries), new Date(), HEATMAP_WEEKS);
+    this.heatmapMonths = this.heatmap.flatMap((week, column) => {
+      const first = week.find(day => day.date.getDate() === 1);
+      return first && column > 0 ? [{ column, label: first.date.toLocaleString('en-US', { month: 'short' }) }] : [];
+    });
+  }
+
+  /** Shows just that day; clicking the day already shown goes back to everything. */
+  selectDay(day: HeatmapDay): void {
+    if (day.future) return;
+    const selected = this.isSelectedDay(day);
+    this.rangePreset = '';
+    this.rangeFrom = selected ? '' : day.key;
+    this.rangeTo = selected ? '' : day.key;
+    this.applyFilters();
+  }
+
+  isSelectedDay(day: HeatmapDay): boolean {
+    return this.rangeFrom === day.key && this.rangeTo === day.key;
+  }
+
+  heatmapTitle(day: HeatmapDay): string {
+    const date = day.date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    return `${date}: ${day.count || 'no'} ${day.count === 1 ? 'entry' : 'entries'}`;
+  }
+
+  /** The first line of an entry, without Markdown heading and list markers. */
+  excerpt(entry: JournalEntry): string {
+    const line = entry.text.split('\n').find(l => l.trim()) ?? entry.attachments[0]?.name ?? '';
+    const plain = line.replace(/^\s*(#+|[-*>]|\d+\.)\s+(\[[ xX]\]\s+)?/, '').trim();
+    return plain.length > 120 ? `${plain.slice(0, 117)}...` : plain;
+  }
+
+  async deleteEntry(entry: JournalEntry): Promise<void> {
+    if (entry.attachments.length && !confirm(`Delete this entry and its ${entry.attachments.length} attachment${entry.attachments.length === 1 ? '' : 's'}?`)) return;
+    const id = entry.id;
     this.deletingId = id;
     try {
       await this.journalService.deleteEntry(id);
@@ -0,0 +1,46 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SyncState } from '../../services/offline-cache.service';
+
+/**
+ * Small pill shown in a widget header while the widget is rendering cached data,
+ * e.g. "Offline · synced 2h ago". Renders nothing once a fresh response has arrived.
+ */
+@Component({
+  selector: 'app-last-synced-badge',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './last-synced-badge.component.html',
+  styleUrl: './last-synced-badge.component.scss'
+})
+export class LastSyncedBadgeComponent {
+  @Input() state: SyncState | null = null;
+  /** True while a refresh is in flight, so the badge can show it is trying. */
+  @Input() refreshing = false;
+
+  get visible(): boolean {
+    return !!this.state?.fromCache && !!this.state.lastSyncedAt;
+  }
+
+  get label(): string {
+    const prefix = navigator.onLine ? 'Cached' : 'Offline';
+    return `${prefix} · synced ${this.relative(this.state!.lastSyncedAt!)}`;
+  }
+
+  get tooltip(): string {
+    const when = this.state!.lastSyncedAt!.toLocaleString('en-US', {
+      month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit'
+    });
+    return `Showing data from the last successful sync (${when}). It will update when the service is reachable again.`;
+  }
+
+  private relative(date: Date): string {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60_000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ago`;
+    const days = Math.floor(hours / 24);
+    return days === 1 ? '1 day ago' : `${days} days ago`;
+  }
+}
@@ -0,0 +1,52 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MarkdownFormat, applyMarkdownFormat } from '../../services/journal-markdown';
+
+/**
+ * Formatting buttons for a Markdown textarea. The textarea keeps its own binding: the toolbar
+ * emits the new text through `textChange` and then restores the selection.
+ */
+@Component({
+  selector: 'app-markdown-toolbar',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './markdown-toolbar.component.html',
+  styleUrl: './markdown-toolbar.component.scss'
+})
+export class MarkdownToolbarComponent {
+  @Input({ required: true }) textarea!: HTMLTextAreaElement;
+  @Input() disabled = false;
+  @Output() textChange = new EventEmitter<string>();
+
+  readonly buttons: { format: MarkdownFormat; icon: string; label: string }[] = [
+    { format: 'bold', icon: 'fas fa-bold', label: 'Bold (⌘B)' },
+    { format: 'italic', icon: 'fas fa-italic', label: 'Italic (⌘I)' },
+    { format: 'heading', icon: 'fas fa-heading', label: 'Heading' },
+    { format: 'bullet', icon: 'fas fa-list-ul', label: 'Bulleted list' },
+    { format: 'checklist', icon: 'fas fa-list-check', label: 'Checklist' },
+    { format: 'quote', icon: 'fas fa-quote-right', label: 'Quote' },
+    { format: 'code', icon: 'fas fa-code', label: 'Code' },
+    { format: 'link', icon: 'fas fa-link', label: 'Link (⌘K)' }
+  ];
+
+  apply(format: MarkdownFormat): void {
+    const el = this.textarea;
+    const edit = applyMarkdownFormat(el.value, el.selectionStart, el.selectionEnd, format);
+    this.textChange.emit(edit.text);
+    // Wait for ngModel to write the new value before putting the selection back
+    setTimeout(() => {
+      el.focus();
+      el.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  }
+
+  /** ⌘B, ⌘I and ⌘K from the textarea's keydown; returns true when the key was handled. */
+  handleShortcut(event: KeyboardEvent): boolean {
+    if (!(event.ctrlKey || event.metaKey) || this.disabled) return false;
+    const format = ({ b: 'bold', i: 'italic', k: 'link' } as Record<string, MarkdownFormat>)[event.key.toLowerCase()];
+    if (!format) return false;
+    event.preventDefault();
+    this.apply(format);
+    return true;
+  }
+}
@@ -0,0 +1,135 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  REPORT_SECTIONS, ReportPeriod, ReportSectionId, StatusReport, StatusReportService
+} from '../../services/status-report.service';
+import { AiService } from '../../services/ai.service';
+import { markdownToHtml, toEml, toHtmlDocument } from '../../services/report-export';
+
+@Component({
+  selector: 'app-reports',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './reports.component.html',
+  styleUrl: './reports.component.scss'
+})
+export class ReportsComponent implements OnInit, OnDestroy {
+  readonly periods: { id: ReportPeriod; label: string }[] = [
+    { id: 'this-week', label: 'This week' },
+    { id: 'last-week', label: 'Last week' },
+    { id: 'sprint', label: 'Current sprint' }
+  ];
+  readonly sections = REPORT_SECTIONS;
+
+  period: ReportPeriod = 'this-week';
+  selected = new Set<ReportSectionId>(REPORT_SECTIONS.map(s => s.id));
+
+  report: StatusReport | null = null;
+  /** The report as Markdown; edited by hand or replaced by the AI-polished version. */
+  markdown = '';
+  previewHtml = '';
+  polished = false;
+  editing = false;
+  emailTo = '';
+
+  isGenerating = false;
+  isPolishing = false;
+  error: string | null = null;
+  copied = false;
+  aiConfigured = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private reportService: StatusReportService, private aiService: AiService) {}
+
+  ngOnInit(): void {
+    this.aiService.isConfigured$('ask').pipe(takeUntil(this.destroy$)).subscribe(configured => {
+      this.aiConfigured = configured;
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  toggleSection(id: ReportSectionId): void {
+    if (this.selected.has(id)) this.selected.delete(id);
+    else this.selected.add(id);
+  }
+
+  async generate(): Promise<void> {
+    if (this.isGenerating || this.selected.size === 0) return;
+    if (this.polished && !confirm('Replace the polished report with a fresh one?')) return;
+    this.isGenerating = true;
+    this.error = null;
+    try {
+      this.report = await this.reportService.compile(this.period, [...this.selected]);
+      this.polished = false;
+      this.setMarkdown(this.reportService.toMarkdown(this.report));
+    } catch (e: any) {
+      this.error = e?.message || 'Failed to build the report.';
+    } finally {
+      this.isGenerating = false;
+    }
+  }
+
+  async polish(): Promise<void> {
+    if (!this.markdown || this.isPolishing) return;
+    this.isPolishing = true;
+    this.error = null;
+    try {
+      this.setMarkdown(await this.reportService.polish(this.markdown));
+      this.polished = true;
+      this.editing = false;
+    } catch (e: any) {
+      this.error = e?.message || 'Failed to polish the report.';
+    } finally {
+      this.isPolishing = false;
+    }
+  }
+
+  setMarkdown(markdown: string): void {
+    this.markdown = markdown;
+    this.previewHtml = markdownToHtml(markdown);
+  }
+
+  copyMarkdown(): void {
+    navigator.clipboard.writeText(this.markdown).then(() => {
+      this.copied = true;
+      setTimeout(() => (this.copied = false), 1500);
+    });
+  }
+
+  downloadMarkdown(): void {
+    this.download(this.markdown, 'text/markdown', 'md');
+  }
+
+  downloadHtml(): void {
+    this.download(toHtmlDocument(this.report?.title ?? 'Status report', this.markdown), 'text/html', 'html');
+  }
+
+  downloadEmail(): void {
+    const subject = this.report?.title ?? 'Status report';
+    const eml = toEml({
+      subject,
+      to: this.emailTo.trim() || undefined,
+      text: this.markdown,
+      html: toHtmlDocument(subject, this.markdown)
+    });
+    this.download(eml, 'message/rfc822', 'eml');
+  }
+
+  private download(content: string, type: string, extension: string): void {
+    const blob = new Blob([content], { type });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `status-report-${this.period}-${new Date().toISOString().split('T')[0]}.${extension}`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+}
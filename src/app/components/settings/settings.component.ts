@@ -2,8 +2,29 @@ import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { UserProfileService } from '../../services/user-profile.service';
+import { LinearIssueWatcherService, LinearWatchSettings } from '../../services/linear-issue-watcher.service';
+import { BriefingSchedule, DailyBriefingService } from '../../services/daily-briefing.service';
+import { DEFAULT_FOCUS_SETTINGS, FocusService, FocusSettings } from '../../services/focus.service';
+import { GRAPH_SCOPES, MicrosoftAuthService } from '../../services/microsoft-auth.service';
+import {
+  DEFAULT_MEETING_TIME_SETTINGS, MeetingRule, MeetingTimeService, MeetingTimeSettings
+} from '../../services/meeting-time.service';
+import { Task, TaskService } from '../../services/task.service';
+import { WorkItem, WorkItemService } from '../../services/work-item.service';
+import { taskLinkFromWorkItem } from '../../services/task-link.service';
+import {
+  AiSkillsService, CustomSkill, CustomSkillDraft, SkillOutputFormat, SkillPlaceholder, SKILL_OUTPUT_FORMATS
+} from '../../services/ai-skills.service';
 import { Subscription } from 'rxjs';
 
+type FocusLengthKey = 'focusMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'cyclesBeforeLongBreak';
+
+/** A task or work item a meeting rule can book to; `value` is `task:{id}` or `item:{work item id}`. */
+interface RuleTarget {
+  value: string;
+  label: string;
+}
+
 @Component({
   selector: 'app-settings',
   standalone: true,
@@ -17,9 +38,63 @@ export class SettingsComponent implements OnInit, OnDestroy {
   saved = false;
   saveError: string | null = null;
 
+  // Linear → journal watcher
+  linearWatch: LinearWatchSettings = { enabled: false, teams: [], projects: [] };
+  knownTeams: string[] = [];
+  knownProjects: string[] = [];
+  linearWatchError: string | null = null;
+
+  // Scheduled daily briefing
+  briefingSchedule: BriefingSchedule = { enabled: false, time: '08:30', days: [1, 2, 3, 4, 5] };
+  briefingError: string | null = null;
+  readonly weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((label, day) => ({ label, day }));
+
+  // Pomodoro focus mode
+  focusSettings: FocusSettings = DEFAULT_FOCUS_SETTINGS;
+  focusError: string | null = null;
+  readonly focusLengthFields: { key: FocusLengthKey; label: string; min: number; max: number }[] = [
+    { key: 'focusMinutes', label: 'Focus (minutes)', min: 1, max: 180 },
+    { key: 'shortBreakMinutes', label: 'Short break (minutes)', min: 1, max: 60 },
+    { key: 'longBreakMinutes', label: 'Long break (minutes)', min: 1, max: 120 },
+    { key: 'cyclesBeforeLongBreak', label: 'Sessions before a long break', min: 1, max: 12 }
+  ];
+
+  // Meetings → time entries
+  meetingTime: MeetingTimeSettings = DEFAULT_MEETING_TIME_SETTINGS;
+  meetingTimeError: string | null = null;
+  meetingSyncMessage: string | null = null;
+  syncingMeetings = false;
+  ruleDraft = { field: 'subject' as MeetingRule['field'], keyword: '', target: '' };
+  ruleTargetGroups: { label: string; targets: RuleTarget[] }[] = [];
+  private tasks: Task[] = [];
+  private workItems: WorkItem[] = [];
+
+  // Custom AI skills
+  skills: CustomSkill[] = [];
+  placeholders: SkillPlaceholder[] = [];
+  readonly outputFormats = Object.entries(SKILL_OUTPUT_FORMATS) as [SkillOutputFormat, { label: string }][];
+  /** Id of the skill open in the editor, 'new' for one being created, or null when closed. */
+  editingSkillId: string | null = null;
+  skillDraft: CustomSkillDraft = this.emptyDraft();
+  skillPreview: string | null = null;
+  previewing = false;
+  skillsError: string | null = null;
+  skillsMessage: string | null = null;
+  readonly templateHint = 'e.g. Here are my overdue tasks:\n{{tasks.overdue}}\n\nSuggest which to drop, delegate or do today.';
+
   private sub = new Subscription();
 
-  constructor(private userProfileService: UserProfileService) {}
+  constructor(
+    private userProfileService: UserProfileService,
+    private linearWatcher: LinearIssueWatcherService,
+    private dailyBriefing: DailyBriefingService,
+    private focusService: FocusService,
+    private msAuth: MicrosoftAuthService,
+    private meetingTimeService: MeetingTimeService,
+    private taskService: TaskService,
+    private workItemService: WorkItemService,
+    private aiSkills: AiSkillsService
+  ) {}
 
   ngOnInit(): void {
     this.sub.add(
@@ -27,6 +102,42 @@ export class SettingsComponent implements OnInit, OnDestroy {
         this.jobDescription = profile.jobDescription;
       })
     );
+    this.sub.add(
+      this.linearWatcher.settings$.subscribe(settings => {
+        this.linearWatch = settings;
+      })
+    );
+    this.sub.add(
+      this.linearWatcher.snapshots$.subscribe(snapshots => {
+        this.knownTeams = [...new Set(snapshots.map(s => s.teamName).filter(Boolean))].sort();
+        this.knownProjects = [...new Set(snapshots.map(s => s.projectName).filter((p): p is string => !!p))].sort();
+      })
+    );
+    this.sub.add(
+      this.dailyBriefing.schedule$.subscribe(schedule => (this.briefingSchedule = schedule))
+    );
+    this.sub.add(
+      this.focusService.settings$.subscribe(settings => (this.focusSettings = settings))
+    );
+    this.sub.add(
+      this.meetingTimeService.settings$.subscribe(settings => (this.meetingTime = settings))
+    );
+    this.sub.add(
+      this.taskService.tasks$.subscribe(tasks => {
+        this.tasks = tasks;
+        this.buildRuleTargets();
+      })
+    );
+    this.sub.add(
+      this.workItemService.workItems$.subscribe(items => {
+        this.workItems = items;
+        this.buildRuleTargets();
+      })
+    );
+    this.sub.add(
+      this.aiSkills.skills$.subscribe(skills => (this.skills = skills))
+    );
+    this.placeholders = this.aiSkills.getPlaceholders();
   }
 
   ngOnDestroy(): void {
@@ -47,4 +158,284 @@ export class SettingsComponent implements OnInit, OnDestroy {
       this.saving = false;
     }
   }
+
+  toggleLinearWatch(): void {
+    this.saveLinearWatch({ ...this.linearWatch, enabled: !this.linearWatch.enabled });
+  }
+
+  toggleWatchedTeam(team: string): void {
+    const teams = this.toggle(this.linearWatch.teams, team);
+    this.saveLinearWatch({ ...this.linearWatch, teams });
+  }
+
+  toggleWatchedProject(project: string): void {
+    const projects = this.toggle(this.linearWatch.projects, project);
+    this.saveLinearWatch({ ...this.linearWatch, projects });
+  }
+
+  private toggle(list: string[], value: string): string[] {
+    return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  }
+
+  private async saveLinearWatch(settings: LinearWatchSettings): Promise<void> {
+    this.linearWatchError = null;
+    this.linearWatch = settings;
+    try {
+      await this.linearWatcher.saveSettings(settings);
+    } catch (e: any) {
+      this.linearWatchError = e?.message ?? 'Failed to save watcher settings.';
+    }
+  }
+
+  // ── Daily briefing ────────────────────────────────────────────
+
+  toggleBriefing(): void {
+    this.saveBriefingSchedule({ ...this.briefingSchedule, enabled: !this.briefingSchedule.enabled });
+  }
+
+  setBriefingTime(time: string): void {
+    if (!time) return;
+    this.saveBriefingSchedule({ ...this.briefingSchedule, time });
+  }
+
+  toggleBriefingDay(day: number): void {
+    const days = this.briefingSchedule.days.includes(day)
+      ? this.briefingSchedule.days.filter(d => d !== day)
+      : [...this.briefingSchedule.days, day].sort();
+    this.saveBriefingSchedule({ ...this.briefingSchedule, days });
+  }
+
+  private async saveBriefingSchedule(schedule: BriefingSchedule): Promise<void> {
+    this.briefingError = null;
+    this.briefingSchedule = schedule;
+    try {
+      await this.dailyBriefing.saveSchedule(schedule);
+    } catch (e: any) {
+      this.briefingError = e?.message ?? 'Failed to save the briefing schedule.';
+    }
+  }
+
+  // ── Focus mode ────────────────────────────────────────────────
+
+  setFocusLength(key: FocusLengthKey, value: string): void {
+    const field = this.focusLengthFields.find(f => f.key === key)!;
+    const n = Math.round(Number(value));
+    if (!Number.isFinite(n)) return;
+    this.saveFocusSettings({ ...this.focusSettings, [key]: Math.min(field.max, Math.max(field.min, n)) });
+  }
+
+  toggleFocusSetting(key: 'autoStartFocus' | 'slackStatus'): void {
+    this.saveFocusSettings({ ...this.focusSettings, [key]: !this.focusSettings[key] });
+  }
+
+  /** Turning Teams presence on asks for the presence permission here, from the click, so the popup isn't blocked. */
+  async toggleTeamsPresence(): Promise<void> {
+    const teamsPresence = !this.focusSettings.teamsPresence;
+    if (teamsPresence && !(await this.msAuth.connect(GRAPH_SCOPES.presence))) {
+      this.focusSettings = { ...this.focusSettings };
+      this.focusError = 'Microsoft sign-in was not completed, so Teams presence stays off.';
+      return;
+    }
+    await this.saveFocusSettings({ ...this.focusSettings, teamsPresence });
+  }
+
+  private async saveFocusSettings(settings: FocusSettings): Promise<void> {
+    this.focusError = null;
+    this.focusSettings = settings;
+    try {
+      await this.focusService.saveSettings(settings);
+    } catch (e: any) {
+      this.focusError = e?.message ?? 'Failed to save focus settings.';
+    }
+  }
+
+  // ── Meeting time ──────────────────────────────────────────────
+
+  private buildRuleTargets(): void {
+    const items = (source: WorkItem['source']) => this.workItems
+      .filter(i => i.source === source)
+      .map(i => ({ value: `item:${i.id}`, label: `${i.key}: ${i.title}` }));
+    this.ruleTargetGroups = [
+      { label: 'Tasks', targets: this.tasks.filter(t => !t.completed).map(t => ({ value: `task:${t.id}`, label: t.title })) },
+      { label: 'Linear', targets: items('linear') },
+      { label: 'Azure DevOps', targets: items('ado') }
+    ].filter(group => group.targets.length > 0);
+  }
+
+  ruleTargetLabel(rule: MeetingRule): string {
+    if (rule.taskId) return this.tasks.find(t => t.id === rule.taskId)?.title ?? 'Deleted task';
+    return rule.link ? `${rule.link.key}: ${rule.link.title}` : 'Meetings';
+  }
+
+  toggleMeetingSetting(key: 'enabled' | 'logUnmatched'): void {
+    this.saveMeetingTime({ ...this.meetingTime, [key]: !this.meetingTime[key] });
+  }
+
+  addMeetingRule(): void {
+    const keyword = this.ruleDraft.keyword.trim();
+    const [kind, id] = [this.ruleDraft.target.slice(0, 5), this.ruleDraft.target.slice(5)];
+    const item = kind === 'item:' ? this.workItems.find(i => i.id === id) : undefined;
+    if (!keyword || (kind === 'task:' ? !id : !item)) return;
+    const rule: MeetingRule = {
+      id: Math.random().toString(36).slice(2, 11),
+      field: this.ruleDraft.field,
+      keyword,
+      taskId: kind === 'task:' ? id : null,
+      link: item ? taskLinkFromWorkItem(item) : null
+    };
+    this.saveMeetingTime({ ...this.meetingTime, rules: [...this.meetingTime.rules, rule] });
+    this.ruleDraft = { ...this.ruleDraft, keyword: '', target: '' };
+  }
+
+  removeMeetingRule(rule: MeetingRule): void {
+    this.saveMeetingTime({ ...this.meetingTime, rules: this.meetingTime.rules.filter(r => r.id !== rule.id) });
+  }
+
+  setWorkdayTime(key: 'workdayStart' | 'workdayEnd', time: string): void {
+    if (!time) return;
+    this.saveMeetingTime({ ...this.meetingTime, [key]: time });
+  }
+
+  toggleWorkday(day: number): void {
+    const workdays = this.meetingTime.workdays.includes(day)
+      ? this.meetingTime.workdays.filter(d => d !== day)
+      : [...this.meetingTime.workdays, day].sort();
+    this.saveMeetingTime({ ...this.meetingTime, workdays });
+  }
+
+  async syncMeetings(): Promise<void> {
+    this.syncingMeetings = true;
+    this.meetingTimeError = null;
+    this.meetingSyncMessage = null;
+    try {
+      const added = await this.meetingTimeService.syncNow();
+      this.meetingSyncMessage = added ? `Logged ${added} meeting${added === 1 ? '' : 's'}.` : 'Nothing new to log.';
+    } catch (e: any) {
+      this.meetingTimeError = e?.message ?? 'Failed to log meetings.';
+    } finally {
+      this.syncingMeetings = false;
+    }
+  }
+
+  private async saveMeetingTime(settings: MeetingTimeSettings): Promise<void> {
+    this.meetingTimeError = null;
+    this.meetingTime = settings;
+    try {
+      await this.meetingTimeService.saveSettings(settings);
+    } catch (e: any) {
+      this.meetingTimeError = e?.message ?? 'Failed to save meeting time settings.';
+    }
+  }
+
+  // ── Custom AI skills ──────────────────────────────────────────
+
+  get unknownPlaceholders(): string[] {
+    return this.aiSkills.unknownPlaceholders(this.skillDraft.template);
+  }
+
+  placeholderToken(key: string): string {
+    return `{{${key}}}`;
+  }
+
+  newSkill(): void {
+    this.editingSkillId = 'new';
+    this.skillDraft = this.emptyDraft();
+    this.resetSkillFeedback();
+  }
+
+  editSkill(skill: CustomSkill): void {
+    this.editingSkillId = skill.id;
+    const { name, icon, description, template, outputFormat } = skill;
+    this.skillDraft = { name, icon, description, template, outputFormat };
+    this.resetSkillFeedback();
+  }
+
+  cancelSkillEdit(): void {
+    this.editingSkillId = null;
+    this.resetSkillFeedback();
+  }
+
+  async saveSkill(): Promise<void> {
+    if (!this.skillDraft.name.trim() || !this.skillDraft.template.trim()) {
+      this.skillsError = 'A skill needs a name and a prompt template.';
+      return;
+    }
+    this.skillsError = null;
+    try {
+      if (this.editingSkillId === 'new') {
+        await this.aiSkills.addSkill(this.skillDraft);
+      } else if (this.editingSkillId) {
+        await this.aiSkills.updateSkill(this.editingSkillId, this.skillDraft);
+      }
+      this.editingSkillId = null;
+    } catch (e: any) {
+      this.skillsError = e?.message ?? 'Failed to save skill.';
+    }
+  }
+
+  async deleteSkill(skill: CustomSkill): Promise<void> {
+    if (!confirm(`Delete the "${skill.name}" skill?`)) return;
+    try {
+      await this.aiSkills.deleteSkill(skill.id);
+      if (this.editingSkillId === skill.id) this.editingSkillId = null;
+    } catch (e: any) {
+      this.skillsError = e?.message ?? 'Failed to delete skill.';
+    }
+  }
+
+  /** Put `{{key}}` at the cursor in the template box. */
+  insertPlaceholder(key: string, textarea: HTMLTextAreaElement): void {
+    const token = this.placeholderToken(key);
+    const start = textarea.selectionStart ?? this.skillDraft.template.length;
+    const end = textarea.selectionEnd ?? start;
+    const template = this.skillDraft.template;
+    this.skillDraft.template = template.slice(0, start) + token + template.slice(end);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  async previewSkill(): Promise<void> {
+    this.previewing = true;
+    try {
+      this.skillPreview = await this.aiSkills.buildPrompt(this.skillDraft);
+    } finally {
+      this.previewing = false;
+    }
+  }
+
+  exportSkills(): void {
+    const json = this.aiSkills.exportPack();
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ai-skills-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    window.URL.revokeObjectURL(url);
+  }
+
+  importSkills(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.resetSkillFeedback();
+    file.text()
+      .then(json => this.aiSkills.importPack(json))
+      .then(count => (this.skillsMessage = `Imported ${count} skill${count === 1 ? '' : 's'}.`))
+      .catch((e: any) => (this.skillsError = e?.message ?? 'Failed to import skills.'));
+  }
+
+  private resetSkillFeedback(): void {
+    this.skillPreview = null;
+    this.skillsError = null;
+    this.skillsMessage = null;
+  }
+
+  private emptyDraft(): CustomSkillDraft {
+    return { name: '', icon: 'fas fa-bolt', description: '', template: '', outputFormat: 'markdown' };
+  }
 }
@@ -1,4 +1,4 @@
-import { Component } from '@angular/core';
+import { Component, Input } from '@angular/core';
 import { TaskTrackerComponent } from '../dashboard/task-tracker/task-tracker.component';
 
 @Component({
@@ -8,4 +8,7 @@ import { TaskTrackerComponent } from '../dashboard/task-tracker/task-tracker.com
   templateUrl: './tasks.component.html',
   styleUrl: './tasks.component.scss'
 })
-export class TasksComponent {}
+export class TasksComponent {
+  /** Bound from the `/tasks/:taskId` route parameter. */
+  @Input() taskId?: string;
+}
@@ -0,0 +1,108 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { CredentialVaultService, VaultStatus } from '../../services/credential-vault.service';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const DISMISSED_KEY = 'credential-vault-prompt-dismissed';
+
+/**
+ * Prompts for the vault passphrase: to create the vault while tokens are still stored in plain
+ * text, and to unlock it at startup or whenever a service needs a secret it can't read yet.
+ */
+@Component({
+  selector: 'app-vault-unlock',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './vault-unlock.component.html',
+  styleUrl: './vault-unlock.component.scss'
+})
+export class VaultUnlockComponent implements OnInit, OnDestroy {
+  open = false;
+  status: VaultStatus = 'none';
+  passphrase = '';
+  confirmPassphrase = '';
+  remember = true;
+  sync = false;
+  busy = false;
+  error: string | null = null;
+
+  readonly minLength = MIN_PASSPHRASE_LENGTH;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(private vault: CredentialVaultService) {}
+
+  ngOnInit(): void {
+    this.vault.status$.pipe(takeUntil(this.destroy$)).subscribe(status => {
+      this.status = status;
+      if (status === 'unlocked') this.close();
+    });
+    this.vault.syncEnabled$.pipe(takeUntil(this.destroy$)).subscribe(on => (this.sync = on));
+    this.vault.unlockRequested$.pipe(takeUntil(this.destroy$)).subscribe(() => this.show());
+
+    // Prompt once per session on startup, unless a remembered key already opened the vault
+    this.vault.ready.then(() => {
+      if (sessionStorage.getItem(DISMISSED_KEY)) return;
+      if (this.vault.status === 'locked' || this.vault.hasUnprotectedSecrets) this.show();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get creating(): boolean {
+    return this.status === 'none';
+  }
+
+  get canSubmit(): boolean {
+    if (this.busy || !this.passphrase) return false;
+    return !this.creating || (this.passphrase.length >= MIN_PASSPHRASE_LENGTH && this.passphrase === this.confirmPassphrase);
+  }
+
+  async submit(): Promise<void> {
+    if (!this.canSubmit) return;
+    this.busy = true;
+    this.error = null;
+    try {
+      if (this.creating) {
+        await this.vault.create(this.passphrase, { remember: this.remember, sync: this.sync });
+      } else if (!(await this.vault.unlock(this.passphrase, { remember: this.remember }))) {
+        this.error = 'That passphrase does not open the vault.';
+      }
+    } catch (e) {
+      console.error('Credential vault error:', e);
+      this.error = 'Something went wrong. Please try again.';
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  dismiss(): void {
+    sessionStorage.setItem(DISMISSED_KEY, 'true');
+    this.close();
+  }
+
+  reset(): void {
+    if (confirm('Forgot your passphrase? Resetting deletes every stored token, and you will need to reconnect each integration.')) {
+      this.vault.reset();
+      this.close();
+    }
+  }
+
+  private show(): void {
+    if (this.vault.status === 'unlocked') return;
+    this.open = true;
+  }
+
+  private close(): void {
+    this.open = false;
+    this.passphrase = '';
+    this.confirmPassphrase = '';
+    this.error = null;
+  }
+}
@@ -0,0 +1,29 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { map, take } from 'rxjs/operators';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Lets signed-in users through; everyone else is sent to /login with the
+ * requested URL preserved so they land back on it after signing in.
+ */
+export const authGuard: CanActivateFn = (_route, state) => {
+  const router = inject(Router);
+  return inject(AuthService).user$.pipe(
+    take(1),
+    map(user => user
+      ? true
+      : router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } }))
+  );
+};
+
+/** Keeps signed-in users off the login page. */
+export const guestGuard: CanActivateFn = route => {
+  const router = inject(Router);
+  return inject(AuthService).user$.pipe(
+    take(1),
+    map(user => user
+      ? router.parseUrl(route.queryParamMap.get('returnUrl') ?? '/')
+      : true)
+  );
+};
@@ -3,6 +3,7 @@ import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { Observable, BehaviorSubject, of, forkJoin } from 'rxjs';
 import { map, catchError, switchMap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
 
 export interface AdoWorkItem {
   id: number;
@@ -27,6 +28,13 @@ export interface AdoWorkItem {
     'Microsoft.VSTS.Scheduling.FinishDate'?: string;
   };
   _links?: any;
+  /** Set by the ADO widget when items are loaded from multiple projects. */
+  projectInfo?: {
+    id?: string;
+    name?: string;
+    organization: string;
+    project: string;
+  };
   relations?: {
     rel: string;
     url: string;
@@ -64,6 +72,8 @@ export interface AdoSprint {
   path: string;
 }
 
+const CACHE_KEY = 'ado:work-items';
+
 @Injectable({
   providedIn: 'root'
 })
@@ -86,7 +96,43 @@ export class AdoService {
   private sprintsSubject = new BehaviorSubject<AdoSprint[]>([]);
   public sprints$ = this.sprintsSubject.asObservable();
 
-  constructor(private http: HttpClient) {}
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  public syncState$ = this.syncStateSubject.asObservable();
+
+  constructor(private http: HttpClient, private offlineCache: OfflineCacheService) {
+    this.restoreFromCache();
+  }
+
+  /**
+   * Show the last good multi-project result until the widget's first load completes
+   */
+  private async restoreFromCache(): Promise<void> {
+    const cached = await this.offlineCache.read<{ workItems: AdoWorkItem[]; sprints: AdoSprint[] }>(CACHE_KEY);
+    if (!cached || this.syncStateSubject.value.lastSyncedAt) return;
+    this.workItemsSubject.next(cached.data.workItems);
+    this.sprintsSubject.next(cached.data.sprints);
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
+  }
+
+  /**
+   * Persist the current work items and sprints as the last good response.
+   * Called by the multi-project widget once every enabled project has loaded.
+   */
+  cacheWorkItems(): void {
+    this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+    this.offlineCache.write(CACHE_KEY, {
+      workItems: this.workItemsSubject.value,
+      sprints: this.sprintsSubject.value
+    });
+  }
+
+  /**
+   * Forget the cached response (e.g. after the last project is removed)
+   */
+  clearCachedWorkItems(): void {
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(CACHE_KEY);
+  }
 
   /**
    * Initialize the ADO service with your organization and project details
@@ -361,6 +407,10 @@ export class AdoService {
     this.workItemsSubject.next(workItems);
   }
 
+  getWorkItems(): AdoWorkItem[] {
+    return this.workItemsSubject.value;
+  }
+
   /**
    * Helper method to get work item priority color
    */
@@ -0,0 +1,222 @@
+import { HttpHeaders } from '@angular/common/http';
+import { CredentialId } from './credential-vault.service';
+
+export type AiProviderKind = 'github-models' | 'openai-compatible' | 'azure-openai';
+
+/** Non-secret settings for one provider; the API key lives in the credential vault. */
+export interface AiProviderConfig {
+  /** Base URL. OpenAI-compatible: up to and including `/v1`; Azure: the resource endpoint. */
+  endpoint: string;
+  /** Model name, or the deployment name for Azure OpenAI. */
+  model: string;
+  /** Azure OpenAI only. */
+  apiVersion: string;
+}
+
+/** A function call requested by the model; `arguments` is a JSON string. */
+export interface AiToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/** A function the model may call, described by a JSON Schema for its arguments. */
+export interface AiToolSpec {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/** A chat message in the OpenAI wire format every provider accepts. */
+export interface AiWireMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string | null;
+  /** Assistant turns that asked for tools. */
+  tool_calls?: AiToolCall[];
+  /** Tool turns: the call this is the result of. */
+  tool_call_id?: string;
+}
+
+/** Reply length every request reserves; prompt budgets are sized around it. */
+export const DEFAULT_MAX_TOKENS = 4096;
+
+export interface AiRequestOptions {
+  temperature: number;
+  maxTokens: number;
+  /** Ask for server-sent events instead of a single JSON body. */
+  stream: boolean;
+  tools?: AiToolSpec[];
+}
+
+export interface AiRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/** OpenAI-style chat completion response, which all three backends return. */
+export interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: AiToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/** One `data:` event of a streamed chat completion. */
+export interface ChatCompletionChunk {
+  choices: Array<{
+    delta: {
+      role?: string;
+      content?: string | null;
+      /** Streamed piecewise: the first fragment of each `index` carries id and name. */
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+}
+
+export interface RateLimitHeaders {
+  remaining: number | null;
+  limit: number | null;
+  resetTime: Date | null;
+}
+
+/**
+ * One AI backend. Providers are stateless: they turn a config, key and conversation into an
+ * HTTP request and read the response, so `AiService` owns HTTP, errors and rate-limit tracking.
+ */
+export interface AiProvider {
+  kind: AiProviderKind;
+  label: string;
+  /** Vault entry holding the key. */
+  credentialId: CredentialId;
+  /** Local servers such as Ollama usually accept requests without a key. */
+  requiresApiKey: boolean;
+  defaults: AiProviderConfig;
+  /** Suggested models; OpenAI-compatible servers can also be asked via `modelsRequest`. */
+  suggestedModels: string[];
+  isReady(config: AiProviderConfig, apiKey: string | null): boolean;
+  chatRequest(config: AiProviderConfig, apiKey: string | null, messages: AiWireMessage[], options: AiRequestOptions): AiRequest;
+  modelsRequest?(config: AiProviderConfig, apiKey: string | null): AiRequest;
+  readRateLimit(headers: HttpHeaders): RateLimitHeaders;
+}
+
+function toInt(value: string | null): number | null {
+  const n = value === null ? NaN : parseInt(value, 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+function trimSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function bearer(apiKey: string | null): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+function completionBody(messages: AiWireMessage[], options: AiRequestOptions): Record<string, unknown> {
+  return {
+    messages,
+    temperature: options.temperature,
+    max_tokens: options.maxTokens,
+    stream: options.stream,
+    ...(options.tools?.length ? { tools: options.tools } : {})
+  };
+}
+
+const GITHUB_MODELS: AiProvider = {
+  kind: 'github-models',
+  label: 'GitHub Models',
+  credentialId: 'github-ai',
+  requiresApiKey: true,
+  defaults: { endpoint: 'https://models.inference.ai.azure.com', model: 'gpt-4o', apiVersion: '' },
+  suggestedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
+  isReady: (config, apiKey) => !!apiKey && !!config.model,
+  chatRequest: (config, apiKey, messages, options) => ({
+    url: `${trimSlash(config.endpoint)}/chat/completions`,
+    headers: { 'Content-Type': 'application/json', ...bearer(apiKey) },
+    body: { ...completionBody(messages, options), model: config.model }
+  }),
+  readRateLimit: headers => {
+    const reset = toInt(headers.get('x-ratelimit-reset'));
+    return {
+      remaining: toInt(headers.get('x-ratelimit-remaining')),
+      limit: toInt(headers.get('x-ratelimit-limit')),
+      resetTime: reset !== null ? new Date(reset * 1000) : null
+    };
+  }
+};
+
+const OPENAI_COMPATIBLE: AiProvider = {
+  kind: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  credentialId: 'openai-compatible',
+  requiresApiKey: false,
+  defaults: { endpoint: 'http://localhost:11434/v1', model: '', apiVersion: '' },
+  suggestedModels: [],
+  isReady: (config, _apiKey) => !!config.endpoint.trim() && !!config.model.trim(),
+  chatRequest: (config, apiKey, messages, options) => ({
+    url: `${trimSlash(config.endpoint)}/chat/completions`,
+    headers: { 'Content-Type': 'application/json', ...bearer(apiKey) },
+    body: { ...completionBody(messages, options), model: config.model }
+  }),
+  modelsRequest: (config, apiKey) => ({
+    url: `${trimSlash(config.endpoint)}/models`,
+    headers: bearer(apiKey),
+    body: null
+  }),
+  readRateLimit: headers => ({
+    remaining: toInt(headers.get('x-ratelimit-remaining-requests')),
+    limit: toInt(headers.get('x-ratelimit-limit-requests')),
+    resetTime: null
+  })
+};
+
+const AZURE_OPENAI: AiProvider = {
+  kind: 'azure-openai',
+  label: 'Azure OpenAI',
+  credentialId: 'azure-openai',
+  requiresApiKey: true,
+  defaults: { endpoint: '', model: '', apiVersion: '2024-06-01' },
+  suggestedModels: [],
+  isReady: (config, apiKey) => !!apiKey && !!config.endpoint.trim() && !!config.model.trim() && !!config.apiVersion.trim(),
+  // The deployment is part of the URL, so the body carries no model
+  chatRequest: (config, apiKey, messages, options) => ({
+    url: `${trimSlash(config.endpoint)}/openai/deployments/${encodeURIComponent(config.model.trim())}/chat/completions?api-version=${encodeURIComponent(config.apiVersion.trim())}`,
+    headers: { 'Content-Type': 'application/json', 'api-key': apiKey ?? '' },
+    body: completionBody(messages, options)
+  }),
+  readRateLimit: headers => ({
+    remaining: toInt(headers.get('x-ratelimit-remaining-requests')),
+    limit: null,
+    resetTime: null
+  })
+};
+
+export const AI_PROVIDERS: Record<AiProviderKind, AiProvider> = {
+  'github-models': GITHUB_MODELS,
+  'openai-compatible': OPENAI_COMPATIBLE,
+  'azure-openai': AZURE_OPENAI
+};
+
+export const AI_PROVIDER_KINDS = Object.keys(AI_PROVIDERS) as AiProviderKind[];
@@ -0,0 +1,419 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import {
+  Firestore, collection, addDoc, deleteDoc, doc,
+  onSnapshot, query, orderBy, serverTimestamp, updateDoc
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { Task, TaskService } from './task.service';
+import { JournalService } from './journal.service';
+import { GoalsService } from './goals.service';
+import { MicrosoftCalendarService, CalendarEvent } from './microsoft-calendar.service';
+import { LinearService } from './linear.service';
+import { AdoService } from './ado.service';
+import { AiService } from './ai.service';
+import { fitLines } from './prompt-assembly';
+import { addDays, startOfDay } from './local-date';
+import { isBlocked, openBlockers } from './task-graph';
+import { formatWorkItemForPrompt, fromAdoWorkItem, fromLinearIssue, isOpenWorkItem } from './work-item.service';
+
+export type SkillOutputFormat = 'markdown' | 'bullets' | 'prose' | 'table' | 'json';
+
+export const SKILL_OUTPUT_FORMATS: Record<SkillOutputFormat, { label: string; instruction: string }> = {
+  markdown: { label: 'Markdown', instruction: 'Respond in concise markdown.' },
+  bullets: { label: 'Bullet list', instruction: 'Respond with a short bullet list only, one sentence per bullet.' },
+  prose: { label: 'Plain prose', instruction: 'Respond in plain flowing prose with no headings, bullets or markdown.' },
+  table: { label: 'Table', instruction: 'Respond with a single markdown table and nothing else.' },
+  json: { label: 'JSON', instruction: 'Respond with valid JSON only, no code fences or commentary.' }
+};
+
+/** A skill the user wrote: a prompt template run from the Ask AI widget like the built-in ones. */
+export interface CustomSkill {
+  id: string;
+  name: string;
+  /** Font Awesome classes, e.g. `fas fa-bolt`. */
+  icon: string;
+  description: string;
+  /** Prompt text; `{{tasks.overdue}}`-style placeholders are filled in when the skill runs. */
+  template: string;
+  outputFormat: SkillOutputFormat;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CustomSkillDraft = Pick<CustomSkill, 'name' | 'icon' | 'description' | 'template' | 'outputFormat'>;
+
+/** A value skills can pull into their prompt as `{{key}}`. */
+export interface SkillPlaceholder {
+  key: string;
+  description: string;
+  resolve(): Promise<string>;
+}
+
+/** Shareable file of skills; ids and dates are left out so a pack can be imported anywhere. */
+export interface SkillPack {
+  format: typeof SKILL_PACK_FORMAT;
+  version: 1;
+  exportedAt: string;
+  skills: CustomSkillDraft[];
+}
+
+const SKILL_PACK_FORMAT = 'gavel-skill-pack';
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const DEFAULT_ICON = 'fas fa-bolt';
+
+/** The first and last moment of `lengthDays` local days starting `offsetDays` from today. */
+function dayBounds(offsetDays = 0, lengthDays = 1): [Date, Date] {
+  const start = addDays(startOfDay(new Date()), offsetDays);
+  return [start, new Date(addDays(start, lengthDays).getTime() - 1)];
+}
+
+function shortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function formatTask(task: Task): string {
+  let line = `- ${task.title}`;
+  if (task.priority) line += ` [${task.priority}]`;
+  if (task.dueDate) line += ` (due ${shortDate(new Date(task.dueDate))})`;
+  return line;
+}
+
+function formatEvent(event: CalendarEvent): string {
+  const start = new Date(event.start.dateTime);
+  const end = new Date(event.end.dateTime);
+  const time = (d: Date) => d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  const when = event.isAllDay ? `${shortDate(start)} (all day)` : `${shortDate(start)} ${time(start)}–${time(end)}`;
+  return `- ${when}: ${event.subject}${event.location?.displayName ? ` @ ${event.location.displayName}` : ''}`;
+}
+
+/** Lines as a block, or a note the model can read when there is nothing to show. */
+function listOrNone(lines: string[], none: string): string {
+  return lines.length > 0 ? lines.join('\n') : none;
+}
+
+/** Validates one skill from a pack file; throws with a message naming what is wrong. */
+function readDraft(raw: any, index: number): CustomSkillDraft {
+  const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+  const template = typeof raw?.template === 'string' ? raw.template : '';
+  if (!name || !template.trim()) {
+    throw new Error(`Skill ${index + 1} needs a name and a prompt template.`);
+  }
+  return {
+    name,
+    icon: typeof raw.icon === 'string' && raw.icon.trim() ? raw.icon.trim() : DEFAULT_ICON,
+    description: typeof raw.description === 'string' ? raw.description.trim() : '',
+    template,
+    outputFormat: raw.outputFormat in SKILL_OUTPUT_FORMATS ? raw.outputFormat : 'markdown'
+  };
+}
+
+/**
+ * The user's own AI skills, stored per user, plus the placeholders their templates can use.
+ * Skills can be exported as a JSON skill pack and imported by teammates.
+ */
+@Injectable({ providedIn: 'root' })
+export class AiSkillsService {
+  private skillsSubject = new BehaviorSubject<CustomSkill[]>([]);
+  public skills$: Observable<CustomSkill[]> = this.skillsSubject.asObservable();
+
+  private placeholders = new Map<string, SkillPlaceholder>();
+  private unsubscribeSkills: (() => void) | null = null;
+  private currentUserId: string | null = null;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private taskService: TaskService,
+    private journalService: JournalService,
+    private goalsService: GoalsService,
+    private calendarService: MicrosoftCalendarService,
+    private linearService: LinearService,
+    private adoService: AdoService,
+    private aiService: AiService
+  ) {
+    this.registerBuiltInPlaceholders();
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeSkills(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+        this.skillsSubject.next([]);
+      }
+    });
+  }
+
+  private skillsCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/aiSkills`);
+  }
+
+  private subscribeSkills(uid: string): void {
+    const q = query(this.skillsCollectionRef(uid), orderBy('name'));
+    this.unsubscribeSkills = onSnapshot(q, snapshot => {
+      this.skillsSubject.next(snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          name: data['name'] ?? '',
+          icon: data['icon'] || DEFAULT_ICON,
+          description: data['description'] ?? '',
+          template: data['template'] ?? '',
+          outputFormat: data['outputFormat'] in SKILL_OUTPUT_FORMATS ? data['outputFormat'] : 'markdown',
+          createdAt: data['createdAt']?.toDate() ?? new Date(),
+          updatedAt: data['updatedAt']?.toDate() ?? new Date()
+        };
+      }));
+    }, e => console.error('Failed to listen to AI skills:', e));
+  }
+
+  private cleanup(): void {
+    if (this.unsubscribeSkills) {
+      this.unsubscribeSkills();
+      this.unsubscribeSkills = null;
+    }
+  }
+
+  getSkills(): CustomSkill[] {
+    return this.skillsSubject.value;
+  }
+
+  async addSkill(draft: CustomSkillDraft): Promise<void> {
+    if (!this.currentUserId) return;
+    await addDoc(this.skillsCollectionRef(this.currentUserId), {
+      ...readDraft(draft, 0),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async updateSkill(id: string, draft: CustomSkillDraft): Promise<void> {
+    if (!this.currentUserId) return;
+    const skillRef = doc(this.firestore, `users/${this.currentUserId}/aiSkills/${id}`);
+    await updateDoc(skillRef, { ...readDraft(draft, 0), updatedAt: serverTimestamp() });
+  }
+
+  async deleteSkill(id: string): Promise<void> {
+    if (!this.currentUserId) return;
+    const skillRef = doc(this.firestore, `users/${this.currentUserId}/aiSkills/${id}`);
+    await deleteDoc(skillRef);
+  }
+
+  // ── Skill packs ───────────────────────────────────────────────
+
+  /** JSON for the given skills (all of them by default), ready to save as a file. */
+  exportPack(ids?: string[]): string {
+    const skills = this.skillsSubject.value.filter(s => !ids || ids.includes(s.id));
+    const pack: SkillPack = {
+      format: SKILL_PACK_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      skills: skills.map(({ name, icon, description, template, outputFormat }) =>
+        ({ name, icon, description, template, outputFormat }))
+    };
+    return JSON.stringify(pack, null, 2);
+  }
+
+  /** Adds every skill in a pack; resolves to how many were added. Throws if the file isn't a pack. */
+  async importPack(json: string): Promise<number> {
+    let pack: any;
+    try {
+      pack = JSON.parse(json);
+    } catch {
+      throw new Error('That file is not valid JSON.');
+    }
+    if (pack?.format !== SKILL_PACK_FORMAT || !Array.isArray(pack.skills)) {
+      throw new Error('That file is not a skill pack.');
+    }
+    const drafts = pack.skills.map(readDraft);
+    for (const draft of drafts) {
+      await this.addSkill(draft);
+    }
+    return drafts.length;
+  }
+
+  // ── Placeholders ──────────────────────────────────────────────
+
+  /** Adds a placeholder; call the returned function to remove it again. */
+  registerPlaceholder(placeholder: SkillPlaceholder): () => void {
+    this.placeholders.set(placeholder.key, placeholder);
+    return () => {
+      if (this.placeholders.get(placeholder.key) === placeholder) this.placeholders.delete(placeholder.key);
+    };
+  }
+
+  getPlaceholders(): SkillPlaceholder[] {
+    return [...this.placeholders.values()];
+  }
+
+  /** Placeholders a template uses that nothing is registered for. */
+  unknownPlaceholders(template: string): string[] {
+    const keys = [...template.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]);
+    return [...new Set(keys)].filter(key => !this.placeholders.has(key));
+  }
+
+  /**
+   * The prompt a skill sends: its template with placeholders filled in, then the output format
+   * instruction. Unknown placeholders are left as written; one that fails to load says so.
+   * Placeholders share the Ask AI context budget evenly, so a long list is cut short rather
+   * than overflowing the model.
+   */
+  async buildPrompt(skill: Pick<CustomSkill, 'template' | 'outputFormat'>): Promise<string> {
+    const keys = [...new Set([...skill.template.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]))];
+    const values = new Map<string, string>();
+    const { model, contextTokens } = this.aiService.getPromptBudget('ask');
+    const share = Math.floor(contextTokens / Math.max(keys.length, 1));
+    await Promise.all(keys.map(async key => {
+      const placeholder = this.placeholders.get(key);
+      if (!placeholder) return;
+      try {
+        values.set(key, fitLines(await placeholder.resolve(), share, model));
+      } catch (e) {
+        console.error(`Failed to fill skill placeholder ${key}:`, e);
+        values.set(key, `(${key} is unavailable)`);
+      }
+    }));
+    const body = skill.template.replace(PLACEHOLDER_PATTERN, (whole, key: string) => values.get(key) ?? whole);
+    return `${body.trim()}\n\n${SKILL_OUTPUT_FORMATS[skill.outputFormat].instruction}`;
+  }
+
+  private registerBuiltInPlaceholders(): void {
+    // Blocked tasks are left out of the task lists and have a placeholder of their own
+    const unblocked = (tasks: Task[]) => tasks.filter(t => !isBlocked(t, this.taskService.getTasks()));
+    const pendingTasks = () => unblocked(this.taskService.getTasks().filter(t => !t.completed));
+
+    this.registerPlaceholder({
+      key: 'date.today',
+      description: 'Today\'s date',
+      resolve: async () => new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+    });
+
+    this.registerPlaceholder({
+      key: 'tasks.pending',
+      description: 'Open tasks that aren\'t waiting on other tasks',
+      resolve: async () => listOrNone(pendingTasks().map(formatTask), 'No open tasks.')
+    });
+
+    this.registerPlaceholder({
+      key: 'tasks.overdue',
+      description: 'Open tasks past their due date',
+      resolve: async () => listOrNone(unblocked(this.taskService.getOverdueTasks()).map(formatTask), 'No overdue tasks.')
+    });
+
+    this.registerPlaceholder({
+      key: 'tasks.today',
+      description: 'Open tasks due today',
+      resolve: async () => listOrNone(unblocked(this.taskService.getTasksDueToday()).map(formatTask), 'No tasks due today.')
+    });
+
+    this.registerPlaceholder({
+      key: 'tasks.blocked',
+      description: 'Open tasks waiting on other tasks, with what blocks them',
+      resolve: async () => {
+        const tasks = this.taskService.getTasks();
+        const blocked = tasks.filter(t => !t.completed && isBlocked(t, tasks));
+        return listOrNone(
+          blocked.map(t => `${formatTask(t)} — blocked by ${openBlockers(t, tasks).map(b => b.title).join(', ')}`),
+          'No blocked tasks.'
+        );
+      }
+    });
+
+    this.registerPlaceholder({
+      key: 'tasks.completed.last7days',
+      description: 'Tasks completed in the last 7 days',
+      resolve: async () => {
+        const [since] = dayBounds(-6, 7);
+        const done = this.taskService.getTasks().filter(t => t.completed && t.completedAt && new Date(t.completedAt) >= since);
+        return listOrNone(done.map(t => `- ${t.title} (done ${shortDate(new Date(t.completedAt!))})`), 'No tasks completed in the last 7 days.');
+      }
+    });
+
+    const journalSince = async (offsetDays: number, none: string) => {
+      const [since] = dayBounds(offsetDays);
+      const entries = (await firstValueFrom(this.journalService.entries$)).filter(e => e.timestamp >= since);
+      return listOrNone(entries.map(e => `- [${shortDate(e.timestamp)}] ${e.text}`), none);
+    };
+
+    this.registerPlaceholder({
+      key: 'journal.today',
+      description: 'Journal entries written today',
+      resolve: () => journalSince(0, 'No journal entries today.')
+    });
+
+    this.registerPlaceholder({
+      key: 'journal.last7days',
+      description: 'Journal entries from the last 7 days',
+      resolve: () => journalSince(-6, 'No journal entries in the last 7 days.')
+    });
+
+    this.registerPlaceholder({
+      key: 'goals.current',
+      description: 'This year\'s goals',
+      resolve: async () => {
+        const year = new Date().getFullYear();
+        const goals = (await firstValueFrom(this.goalsService.goals$)).filter(g => g.year === year);
+        return listOrNone(goals.map(g => `- ${g.title}${g.description ? ` — ${g.description}` : ''}`), `No goals set for ${year}.`);
+      }
+    });
+
+    const calendarRange = async (offsetDays: number, lengthDays: number, none: string) => {
+      if (!this.calendarService.isConfigured()) return 'Outlook calendar is not connected.';
+      const [start, end] = dayBounds(offsetDays, lengthDays);
+      const events = await firstValueFrom(this.calendarService.getEventsForRange(start, end));
+      return listOrNone(events.filter(e => e.showAs !== 'free').map(formatEvent), none);
+    };
+
+    this.registerPlaceholder({
+      key: 'calendar.today',
+      description: 'Today\'s meetings',
+      resolve: () => calendarRange(0, 1, 'No meetings today.')
+    });
+
+    this.registerPlaceholder({
+      key: 'calendar.week',
+      description: 'Meetings over the next 7 days',
+      resolve: () => calendarRange(0, 7, 'No meetings in the next 7 days.')
+    });
+
+    this.registerPlaceholder({
+      key: 'linear.cycle',
+      description: 'Active Linear cycle and your issues in it',
+      resolve: async () => {
+        if (!this.linearService.isConfigured()) return 'Linear is not connected.';
+        const cycle = await firstValueFrom(this.linearService.activeCycle$);
+        if (!cycle) return 'No active Linear cycle.';
+        const issues = (await firstValueFrom(this.linearService.issues$)).filter(i => i.cycle?.id === cycle.id);
+        const header = `${cycle.name || `Cycle ${cycle.number}`} (${cycle.team.name}, ${shortDate(new Date(cycle.startsAt))} – ` +
+          `${shortDate(new Date(cycle.endsAt))}, ${Math.round(cycle.progress * 100)}% done)`;
+        return `${header}\n${listOrNone(issues.map(i => formatWorkItemForPrompt(fromLinearIssue(i))), 'No issues assigned to you in this cycle.')}`;
+      }
+    });
+
+    this.registerPlaceholder({
+      key: 'linear.assigned',
+      description: 'Your open Linear issues',
+      resolve: async () => {
+        if (!this.linearService.isConfigured()) return 'Linear is not connected.';
+        const items = (await firstValueFrom(this.linearService.issues$)).map(i => fromLinearIssue(i)).filter(isOpenWorkItem);
+        return listOrNone(items.slice(0, 40).map(formatWorkItemForPrompt), 'No open Linear issues.');
+      }
+    });
+
+    this.registerPlaceholder({
+      key: 'ado.sprint',
+      description: 'Current Azure DevOps sprint and its work items',
+      resolve: async () => {
+        if (!this.adoService.isInitialized()) return 'Azure DevOps is not connected.';
+        const sprint = this.adoService.getCurrentSprint();
+        if (!sprint) return 'No current Azure DevOps sprint.';
+        const items = this.adoService.getWorkItems()
+          .filter(w => w.fields['System.IterationPath'] === sprint.path)
+          .map(w => fromAdoWorkItem(w, this.adoService.getOrganization(), this.adoService.getProject()));
+        const header = `${sprint.name} (${shortDate(new Date(sprint.startDate))} – ${shortDate(new Date(sprint.endDate))})`;
+        return `${header}\n${listOrNone(items.map(formatWorkItemForPrompt), 'No loaded work items in this sprint.')}`;
+      }
+    });
+  }
+}
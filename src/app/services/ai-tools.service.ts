@@ -0,0 +1,532 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, concat, defer, firstValueFrom, from } from 'rxjs';
+import { map, mergeMap, switchMap, tap } from 'rxjs/operators';
+import {
+  Firestore, collection, addDoc, onSnapshot, query, orderBy, limit, serverTimestamp, Timestamp
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { AiFeature, AiService, AiStreamEvent, ChatMessage } from './ai.service';
+import { AiToolCall, AiToolSpec, AiWireMessage } from './ai-providers';
+import { Task, TaskService } from './task.service';
+import { openBlockers } from './task-graph';
+import { JournalService } from './journal.service';
+import { GoalsService } from './goals.service';
+import { LinearService } from './linear.service';
+import { MicrosoftCalendarService } from './microsoft-calendar.service';
+import { dayKey, parseDayKey } from './local-date';
+
+/**
+ * A function the assistant can call. Reads run straight away; writes wait for the user to
+ * confirm in the chat and are recorded in the audit trail.
+ */
+export interface AiTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, unknown>;
+  writes: boolean;
+  /** One line saying what the call will do, shown when asking for confirmation. */
+  summarize(args: any): string;
+  /** Result is sent back to the model as JSON. */
+  run(args: any): Promise<unknown>;
+}
+
+/** A write the assistant wants to make, waiting for the user's decision. */
+export interface AiToolConfirmation {
+  tool: AiTool;
+  args: any;
+  summary: string;
+}
+
+export interface AiAuditEntry {
+  id: string;
+  tool: string;
+  summary: string;
+  /** Arguments as sent by the model (JSON). */
+  args: string;
+  /** `stopped`: the user pressed Stop before the call was confirmed, so it was never asked about. */
+  outcome: 'applied' | 'declined' | 'stopped' | 'failed';
+  error?: string;
+  feature: AiFeature;
+  timestamp: Date;
+}
+
+/** Model turns per request; stops a model that keeps calling tools from looping forever. */
+const MAX_TOOL_ROUNDS = 5;
+const AUDIT_LIMIT = 50;
+
+function isoDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDayKey(value) : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * A due date argument: null or "" clears the date. Throws on anything else that isn't a date,
+ * so a malformed value is reported back to the model instead of clearing the date.
+ */
+function dueDateArg(value: string | null): Date | null {
+  if (value === null || value === '') return null;
+  const date = isoDate(value);
+  if (!date) throw new Error(`"${value}" is not a date. Use YYYY-MM-DD, or an empty string to clear the due date.`);
+  return date;
+}
+
+/** `text` on one line, cut to `max` characters, for confirmation prompts and the audit trail. */
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/**
+ * Registry of the tools the assistant may call, and the loop that runs them: stream a reply,
+ * execute any tool calls (asking first for writes), send the results back, and repeat until the
+ * model answers in text.
+ */
+@Injectable({ providedIn: 'root' })
+export class AiToolsService {
+  private tools = new Map<string, AiTool>();
+
+  private auditSubject = new BehaviorSubject<AiAuditEntry[]>([]);
+  public audit$: Observable<AiAuditEntry[]> = this.auditSubject.asObservable();
+
+  private unsubscribeAudit: (() => void) | null = null;
+  private currentUserId: string | null = null;
+
+  constructor(
+    private aiService: AiService,
+    private taskService: TaskService,
+    private journalService: JournalService,
+    private goalsService: GoalsService,
+    private linearService: LinearService,
+    private calendarService: MicrosoftCalendarService,
+    private firestore: Firestore,
+    private auth: Auth
+  ) {
+    this.registerBuiltInTools();
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeAudit(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+        this.auditSubject.next([]);
+      }
+    });
+  }
+
+  private auditCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/aiAudit`);
+  }
+
+  private subscribeAudit(uid: string): void {
+    const q = query(this.auditCollectionRef(uid), orderBy('timestamp', 'desc'), limit(AUDIT_LIMIT));
+    this.unsubscribeAudit = onSnapshot(q, snapshot => {
+      this.auditSubject.next(snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          tool: data['tool'],
+          summary: data['summary'],
+          args: data['args'],
+          outcome: data['outcome'],
+          error: data['error'] ?? undefined,
+          feature: data['feature'],
+          timestamp: data['timestamp'] instanceof Timestamp ? data['timestamp'].toDate() : new Date()
+        };
+      }));
+    }, e => console.error('Failed to listen to AI audit trail:', e));
+  }
+
+  private cleanup(): void {
+    if (this.unsubscribeAudit) {
+      this.unsubscribeAudit();
+      this.unsubscribeAudit = null;
+    }
+  }
+
+  /** Adds a tool; call the returned function to remove it again. */
+  register(tool: AiTool): () => void {
+    this.tools.set(tool.name, tool);
+    return () => {
+      if (this.tools.get(tool.name) === tool) this.tools.delete(tool.name);
+    };
+  }
+
+  getTools(): AiTool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Stream an answer that may use tools, emitting text deltas. `confirm` is asked before each
+   * write and resolves true to go ahead. Unsubscribing stops after the current step, and tool
+   * calls the model asked for that haven't run yet are skipped without asking.
+   */
+  run(
+    feature: AiFeature,
+    userMessage: string,
+    conversationHistory: ChatMessage[],
+    confirm: (request: AiToolConfirmation) => Promise<boolean>
+  ): Observable<string> {
+    const messages: AiWireMessage[] = conversationHistory.map(msg => ({ role: msg.role, content: msg.content }));
+    messages.push({ role: 'user', content: userMessage });
+    return new Observable<string>(subscriber => {
+      // The tool calls run in a promise, which unsubscribing can't cancel; they check this instead
+      const stop = new AbortController();
+      const subscription = this.round(feature, messages, confirm, 1, stop.signal).subscribe(subscriber);
+      return () => {
+        stop.abort();
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  private round(
+    feature: AiFeature,
+    messages: AiWireMessage[],
+    confirm: (request: AiToolConfirmation) => Promise<boolean>,
+    turn: number,
+    signal: AbortSignal
+  ): Observable<string> {
+    const specs: AiToolSpec[] | undefined = turn < MAX_TOOL_ROUNDS
+      ? this.getTools().map(t => ({
+          type: 'function',
+          function: { name: t.name, description: t.description, parameters: t.parameters }
+        }))
+      : undefined; // last turn: make the model answer with what it has
+    let text = '';
+    let calls: AiToolCall[] = [];
+
+    return concat(
+      this.aiService.streamChat(feature, messages, specs).pipe(
+        tap((event: AiStreamEvent) => {
+          if (event.type === 'tool-calls') calls = event.calls;
+          else text += event.text;
+        }),
+        mergeMap(event => event.type === 'text' ? [event.text] : [])
+      ),
+      defer(() => {
+        if (!calls.length) return EMPTY;
+        const assistantTurn: AiWireMessage = { role: 'assistant', content: text || null, tool_calls: calls };
+        return from(this.executeCalls(feature, calls, confirm, signal)).pipe(
+          switchMap(results => this.round(feature, [...messages, assistantTurn, ...results], confirm, turn + 1, signal)),
+          // Keep the text before and after the tool calls apart
+          map((delta, i) => i === 0 && text ? `\n\n${delta}` : delta)
+        );
+      })
+    );
+  }
+
+  private async executeCalls(
+    feature: AiFeature,
+    calls: AiToolCall[],
+    confirm: (request: AiToolConfirmation) => Promise<boolean>,
+    signal: AbortSignal
+  ): Promise<AiWireMessage[]> {
+    const results: AiWireMessage[] = [];
+    // One at a time, so confirmations appear in the order the model asked
+    for (const call of calls) {
+      const result = await this.executeCall(feature, call, confirm, signal);
+      results.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+    }
+    return results;
+  }
+
+  private async executeCall(
+    feature: AiFeature,
+    call: AiToolCall,
+    confirm: (request: AiToolConfirmation) => Promise<boolean>,
+    signal: AbortSignal
+  ): Promise<unknown> {
+    const tool = this.tools.get(call.function.name);
+    if (!tool) return { error: `Unknown tool: ${call.function.name}` };
+
+    let args: any;
+    try {
+      args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      return { error: 'Arguments were not valid JSON' };
+    }
+
+    if (!tool.writes) {
+      if (signal.aborted) return { error: 'Stopped by the user' };
+      try {
+        return await tool.run(args);
+      } catch (e: any) {
+        return { error: e?.message ?? String(e) };
+      }
+    }
+
+    let summary: string;
+    try {
+      summary = tool.summarize(args);
+    } catch (e: any) {
+      return { error: e?.message ?? String(e) };
+    }
+    const approved = !signal.aborted && await confirm({ tool, args, summary });
+    // Stop also declines the card on screen; neither that call nor the ones after it were the user's choice
+    if (signal.aborted) {
+      this.recordAudit(feature, tool, call, summary, 'stopped');
+      return { error: 'Stopped by the user' };
+    }
+    if (!approved) {
+      this.recordAudit(feature, tool, call, summary, 'declined');
+      return { error: 'The user declined this action. Do not retry it unless they ask.' };
+    }
+    try {
+      const result = await tool.run(args);
+      this.recordAudit(feature, tool, call, summary, 'applied');
+      return result ?? { ok: true };
+    } catch (e: any) {
+      const message = e?.message ?? String(e);
+      this.recordAudit(feature, tool, call, summary, 'failed', message);
+      return { error: message };
+    }
+  }
+
+  private recordAudit(
+    feature: AiFeature,
+    tool: AiTool,
+    call: AiToolCall,
+    summary: string,
+    outcome: AiAuditEntry['outcome'],
+    error?: string
+  ): void {
+    if (!this.currentUserId) return;
+    addDoc(this.auditCollectionRef(this.currentUserId), {
+      tool: tool.name,
+      summary,
+      args: call.function.arguments,
+      outcome,
+      error: error ?? null,
+      feature,
+      timestamp: serverTimestamp()
+    }).catch(e => console.error('Failed to record AI audit entry:', e));
+  }
+
+  // ── Built-in tools ────────────────────────────────────────────
+
+  private registerBuiltInTools(): void {
+    const taskTitle = (id: string) => this.taskService.getTaskById(id)?.title ?? id;
+    const requireTask = (id: string): Task => {
+      const task = this.taskService.getTaskById(id);
+      if (!task) throw new Error(`No task with id ${id}`);
+      return task;
+    };
+
+    this.register({
+      name: 'list_tasks',
+      description: 'List the user\'s tasks with their ids. Call this before updating or completing a task.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['open', 'completed', 'all'], description: 'Defaults to open' }
+        }
+      },
+      writes: false,
+      summarize: () => 'List tasks',
+      run: async (args: { status?: 'open' | 'completed' | 'all' }) => {
+        const status = args.status ?? 'open';
+        const tasks = this.taskService.getTasks();
+        return tasks
+          .filter(t => status === 'all' || t.completed === (status === 'completed'))
+          .slice(0, 100)
+          .map(t => ({
+            id: t.id,
+            title: t.title,
+            completed: t.completed,
+            priority: t.priority ?? null,
+            dueDate: t.dueDate ? dayKey(t.dueDate) : null,
+            tags: t.tags ?? [],
+            parentId: t.parentId ?? null,
+            // Ids of open tasks that have to be done first; a task with any isn't ready to start
+            blockedBy: openBlockers(t, tasks).map(b => b.id)
+          }));
+      }
+    });
+
+    this.register({
+      name: 'create_task',
+      description: 'Create a task.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          dueDate: { type: 'string', description: 'YYYY-MM-DD' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          tags: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['title']
+      },
+      writes: true,
+      summarize: (args: { title: string; dueDate?: string | null }) => {
+        const due = dueDateArg(args.dueDate ?? null);
+        return `Create task "${args.title}"${due ? ` due ${dayKey(due)}` : ''}`;
+      },
+      run: async (args: { title: string; description?: string; dueDate?: string | null; priority?: Task['priority']; tags?: string[] }) => {
+        if (!args.title?.trim()) throw new Error('A title is required');
+        this.taskService.addTask({
+          title: args.title.trim(),
+          description: args.description,
+          dueDate: dueDateArg(args.dueDate ?? null) ?? undefined,
+          priority: args.priority,
+          tags: args.tags
+        });
+        return { ok: true };
+      }
+    });
+
+    this.register({
+      name: 'update_task',
+      description: 'Change a task\'s title, description, due date or priority.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          dueDate: { type: 'string', description: 'YYYY-MM-DD, or an empty string to clear the due date' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] }
+        },
+        required: ['id']
+      },
+      writes: true,
+      summarize: (args: { id: string; title?: string; description?: string; dueDate?: string | null; priority?: string }) => {
+        const due = args.dueDate !== undefined ? dueDateArg(args.dueDate) : undefined;
+        const changes = [
+          args.title && `title → "${args.title}"`,
+          args.description !== undefined &&
+            (args.description.trim() ? `description → "${truncate(args.description, 200)}"` : 'description cleared'),
+          due !== undefined && (due ? `due → ${dayKey(due)}` : 'due date cleared'),
+          args.priority && `priority → ${args.priority}`
+        ].filter(Boolean);
+        return `Update task "${taskTitle(args.id)}"${changes.length ? `: ${changes.join(', ')}` : ''}`;
+      },
+      run: async (args: { id: string; title?: string; description?: string; dueDate?: string | null; priority?: Task['priority'] }) => {
+        requireTask(args.id);
+        const updates: Partial<Task> = {};
+        if (args.title?.trim()) updates.title = args.title.trim();
+        if (args.description !== undefined) updates.description = args.description;
+        // Undefined clears the date; that's only wanted when the model asked for it
+        if (args.dueDate !== undefined) updates.dueDate = dueDateArg(args.dueDate) ?? undefined;
+        if (args.priority) updates.priority = args.priority;
+        this.taskService.updateTask(args.id, updates);
+        return { ok: true };
+      }
+    });
+
+    this.register({
+      name: 'set_task_completed',
+      description: 'Mark a task done or not done.',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          completed: { type: 'boolean' }
+        },
+        required: ['id', 'completed']
+      },
+      writes: true,
+      summarize: (args: { id: string; completed: boolean }) =>
+        `Mark "${taskTitle(args.id)}" as ${args.completed ? 'done' : 'not done'}`,
+      run: async (args: { id: string; completed: boolean }) => {
+        const task = requireTask(args.id);
+        if (task.completed !== args.completed) this.taskService.toggleTaskCompletion(args.id);
+        return { ok: true };
+      }
+    });
+
+    this.register({
+      name: 'add_journal_entry',
+      description: 'Add an entry to the user\'s work journal.',
+      parameters: {
+        type: 'object',
+        properties: { text: { type: 'string' } },
+        required: ['text']
+      },
+      writes: true,
+      summarize: (args: { text: string }) => `Add journal entry: "${args.text}"`,
+      run: async (args: { text: string }) => {
+        if (!args.text?.trim()) throw new Error('Text is required');
+        await this.journalService.addEntry(args.text);
+        return { ok: true };
+      }
+    });
+
+    this.register({
+      name: 'add_goal',
+      description: 'Add a yearly goal.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          year: { type: 'integer', description: 'Defaults to the current year' }
+        },
+        required: ['title']
+      },
+      writes: true,
+      summarize: (args: { title: string; year?: number }) =>
+        `Add ${args.year ?? new Date().getFullYear()} goal "${args.title}"`,
+      run: async (args: { title: string; description?: string; year?: number }) => {
+        if (!args.title?.trim()) throw new Error('A title is required');
+        await this.goalsService.addGoal(args.title, args.description ?? '', args.year ?? new Date().getFullYear());
+        return { ok: true };
+      }
+    });
+
+    this.register({
+      name: 'search_linear_issues',
+      description: 'Search the Linear issues assigned to the user by identifier or title.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to match; omit to list all open issues' },
+          includeCompleted: { type: 'boolean' }
+        }
+      },
+      writes: false,
+      summarize: () => 'Search Linear issues',
+      run: async (args: { query?: string; includeCompleted?: boolean }) => {
+        if (!this.linearService.isConfigured()) throw new Error('Linear is not connected');
+        const q = args.query?.trim().toLowerCase() ?? '';
+        const issues = await firstValueFrom(this.linearService.fetchAssignedIssues(!!args.includeCompleted));
+        return issues
+          .filter(i => !q || i.identifier.toLowerCase().includes(q) || i.title.toLowerCase().includes(q))
+          .slice(0, 25)
+          .map(i => ({ identifier: i.identifier, title: i.title, state: i.state.name, dueDate: i.dueDate, url: i.url }));
+      }
+    });
+
+    this.register({
+      name: 'get_calendar_events',
+      description: 'Get the user\'s Outlook calendar events between two dates.',
+      parameters: {
+        type: 'object',
+        properties: {
+          start: { type: 'string', description: 'YYYY-MM-DD, inclusive' },
+          end: { type: 'string', description: 'YYYY-MM-DD, inclusive' }
+        },
+        required: ['start', 'end']
+      },
+      writes: false,
+      summarize: () => 'Read calendar',
+      run: async (args: { start: string; end: string }) => {
+        const start = isoDate(args.start);
+        const end = isoDate(args.end);
+        if (!start || !end) throw new Error('start and end must be dates');
+        end.setHours(23, 59, 59, 999);
+        const events = await firstValueFrom(this.calendarService.getEventsForRange(start, end));
+        return events.slice(0, 100).map(e => ({
+          subject: e.subject,
+          start: e.start.dateTime,
+          end: e.end.dateTime,
+          allDay: !!e.isAllDay,
+          location: e.location?.displayName ?? null
+        }));
+      }
+    });
+  }
+}
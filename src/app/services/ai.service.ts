@@ -0,0 +1,546 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpClient, HttpDownloadProgressEvent, HttpEvent, HttpEventType, HttpHeaders, HttpResponse
+} from '@angular/common/http';
+import { Observable, BehaviorSubject, EMPTY, throwError, combineLatest, defer, of } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, finalize, map, mergeMap, switchMap, tap } from 'rxjs/operators';
+import { Firestore, doc, setDoc, onSnapshot, increment } from '@angular/fire/firestore';
+import { CredentialVaultService } from './credential-vault.service';
+import {
+  AI_PROVIDERS, AI_PROVIDER_KINDS, DEFAULT_MAX_TOKENS, AiProvider, AiProviderConfig, AiProviderKind, AiRequest, AiRequestOptions,
+  AiToolCall, AiToolSpec, AiWireMessage, ChatCompletionChunk, ChatCompletionResponse
+} from './ai-providers';
+import { PromptBudget, promptBudget } from './prompt-assembly';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: Date;
+  /** Set when the message was generated by a skill — shown instead of the raw prompt. */
+  skillLabel?: string;
+  /** Short description of the skill, shown below the label in the chat bubble. */
+  skillDescription?: string;
+  /** The full prompt sent to the API, shown in a disclosure when skillLabel is set. */
+  skillPrompt?: string;
+}
+
+export interface RateLimitInfo {
+  callsUsed: number;
+  callsRemaining: number | null;
+  callsLimit: number | null;
+  resetTime: Date | null;
+}
+
+/** Parts of the app that call the AI; each can use a different provider. */
+export type AiFeature = 'ask' | 'priority-summary' | 'issues' | 'chat';
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  'ask': 'Ask AI widget',
+  'priority-summary': 'AI priority summary',
+  'issues': 'Issues AI',
+  'chat': 'GitHub AI chat'
+};
+
+export interface AiSettings {
+  providers: Record<AiProviderKind, AiProviderConfig>;
+  features: Record<AiFeature, AiProviderKind>;
+}
+
+const SETTINGS_KEY = 'ai-settings';
+const LEGACY_MODEL_KEY = 'github-ai-model';
+
+/** Firestore call counters; GitHub Models keeps the document it has always used. */
+const COUNTER_DOCS: Record<AiProviderKind, string> = {
+  'github-models': 'api-counters/github-ai',
+  'openai-compatible': 'api-counters/openai-compatible',
+  'azure-openai': 'api-counters/azure-openai'
+};
+
+/** What a streamed completion yields: text as it arrives, then any tool calls once complete. */
+export type AiStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-calls'; calls: AiToolCall[] };
+
+/** The API conversation for a history plus a new user message. */
+function toWireMessages(userMessage: string, conversationHistory: ChatMessage[]): AiWireMessage[] {
+  const messages: AiWireMessage[] = conversationHistory.map(msg => ({
+    role: msg.role,
+    content: msg.content
+  }));
+  messages.push({ role: 'user', content: userMessage });
+  return messages;
+}
+
+/**
+ * Chunks in a run of complete server-sent-event lines from a streamed chat completion.
+ * Comments, blank lines and `[DONE]` are skipped.
+ */
+function readSseChunks(lines: string): ChatCompletionChunk[] {
+  const chunks: ChatCompletionChunk[] = [];
+  for (const line of lines.split('\n')) {
+    const data = line.trim();
+    if (!data.startsWith('data:')) continue;
+    const payload = data.slice(5).trim();
+    if (payload === '[DONE]') continue;
+    try {
+      chunks.push(JSON.parse(payload) as ChatCompletionChunk);
+    } catch {
+      console.warn('Skipping malformed stream chunk:', payload);
+    }
+  }
+  return chunks;
+}
+
+/** Reassembles tool calls whose name and arguments arrive split across stream chunks. */
+class ToolCallAccumulator {
+  private byIndex = new Map<number, AiToolCall>();
+
+  add(fragments: NonNullable<ChatCompletionChunk['choices'][number]['delta']['tool_calls']>): void {
+    for (const fragment of fragments) {
+      const call = this.byIndex.get(fragment.index)
+        ?? { id: '', type: 'function' as const, function: { name: '', arguments: '' } };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      this.byIndex.set(fragment.index, call);
+    }
+  }
+
+  calls(): AiToolCall[] {
+    return [...this.byIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({ ...call, id: call.id || `call_${index}` }));
+  }
+}
+
+const EMPTY_RATE_LIMIT: RateLimitInfo = { callsUsed: 0, callsRemaining: null, callsLimit: null, resetTime: null };
+
+/**
+ * Sends chat completions to whichever `AiProvider` the calling feature is set to use. Provider
+ * settings live in localStorage, keys in the credential vault, and call counters in Firestore,
+ * one per provider.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AiService {
+  private settingsSubject = new BehaviorSubject<AiSettings>(this.loadSettings());
+  public settings$ = this.settingsSubject.asObservable();
+
+  private apiKeysSubject = new BehaviorSubject<Record<AiProviderKind, string | null>>(
+    { 'github-models': null, 'openai-compatible': null, 'azure-openai': null }
+  );
+
+  private messagesSubject = new BehaviorSubject<ChatMessage[]>([]);
+  public messages$ = this.messagesSubject.asObservable();
+
+  private loadingSubject = new BehaviorSubject<boolean>(false);
+  public loading$ = this.loadingSubject.asObservable();
+
+  private errorSubject = new BehaviorSubject<string | null>(null);
+  public error$ = this.errorSubject.asObservable();
+
+  // Rate limit tracking, per provider
+  private rateLimitSubjects = Object.fromEntries(
+    AI_PROVIDER_KINDS.map(kind => [kind, new BehaviorSubject<RateLimitInfo>(EMPTY_RATE_LIMIT)])
+  ) as Record<AiProviderKind, BehaviorSubject<RateLimitInfo>>;
+
+  constructor(
+    private http: HttpClient,
+    private firestore: Firestore,
+    private vault: CredentialVaultService
+  ) {
+    for (const kind of AI_PROVIDER_KINDS) {
+      this.vault.secret$(AI_PROVIDERS[kind].credentialId).subscribe(key => {
+        this.apiKeysSubject.next({ ...this.apiKeysSubject.value, [kind]: key });
+      });
+      this.loadRateLimitInfo(kind);
+    }
+  }
+
+  // ── Settings ──────────────────────────────────────────────────
+
+  getSettings(): AiSettings {
+    return this.settingsSubject.value;
+  }
+
+  getProvider(kind: AiProviderKind): AiProvider {
+    return AI_PROVIDERS[kind];
+  }
+
+  providerFor(feature: AiFeature): AiProvider {
+    return AI_PROVIDERS[this.settingsSubject.value.features[feature]];
+  }
+
+  /**
+   * Save a provider's settings. `apiKey`: a string stores it in the vault, `null` removes it,
+   * undefined leaves it alone.
+   */
+  configureProvider(kind: AiProviderKind, config: Partial<AiProviderConfig>, apiKey?: string | null): void {
+    const settings = this.settingsSubject.value;
+    this.saveSettings({
+      ...settings,
+      providers: { ...settings.providers, [kind]: { ...settings.providers[kind], ...config } }
+    });
+    if (apiKey) {
+      this.vault.set(AI_PROVIDERS[kind].credentialId, apiKey)
+        .catch(e => console.error(`Failed to save ${AI_PROVIDERS[kind].label} API key:`, e));
+    } else if (apiKey === null) {
+      this.vault.remove(AI_PROVIDERS[kind].credentialId);
+    }
+  }
+
+  setFeatureProvider(feature: AiFeature, kind: AiProviderKind): void {
+    const settings = this.settingsSubject.value;
+    this.saveSettings({ ...settings, features: { ...settings.features, [feature]: kind } });
+  }
+
+  /**
+   * Initialize GitHub Models with a PAT (and optionally a model)
+   */
+  initialize(token: string, model?: string): void {
+    this.configureProvider('github-models', model ? { model } : {}, token);
+  }
+
+  /**
+   * Forget a provider's key and settings
+   */
+  clearConfiguration(kind: AiProviderKind = 'github-models'): void {
+    this.configureProvider(kind, AI_PROVIDERS[kind].defaults, null);
+    this.messagesSubject.next([]);
+  }
+
+  /**
+   * Check if the provider a feature uses is ready to call
+   */
+  isConfigured(feature: AiFeature): boolean {
+    return this.isProviderReady(this.settingsSubject.value.features[feature]);
+  }
+
+  isConfigured$(feature: AiFeature): Observable<boolean> {
+    return combineLatest([this.settingsSubject, this.apiKeysSubject]).pipe(
+      map(() => this.isConfigured(feature)),
+      distinctUntilChanged()
+    );
+  }
+
+  isProviderReady(kind: AiProviderKind): boolean {
+    const config = this.settingsSubject.value.providers[kind];
+    return AI_PROVIDERS[kind].isReady(config, this.apiKeysSubject.value[kind]);
+  }
+
+  isProviderReady$(kind: AiProviderKind): Observable<boolean> {
+    return combineLatest([this.settingsSubject, this.apiKeysSubject]).pipe(
+      map(() => this.isProviderReady(kind)),
+      distinctUntilChanged()
+    );
+  }
+
+  /**
+   * Get the model a feature's provider is set to
+   */
+  getCurrentModel(feature: AiFeature): string {
+    const kind = this.settingsSubject.value.features[feature];
+    return this.settingsSubject.value.providers[kind].model;
+  }
+
+  /**
+   * How many tokens a feature's requests may send with its current provider and model
+   */
+  getPromptBudget(feature: AiFeature): PromptBudget {
+    const kind = this.settingsSubject.value.features[feature];
+    return promptBudget(this.settingsSubject.value.providers[kind].model, kind);
+  }
+
+  /**
+   * Models to offer for a provider: the server's own list where it has one, else suggestions
+   */
+  getAvailableModels(kind: AiProviderKind = 'github-models'): Observable<string[]> {
+    const provider = AI_PROVIDERS[kind];
+    if (!provider.modelsRequest) return of(provider.suggestedModels);
+    const request = provider.modelsRequest(this.settingsSubject.value.providers[kind], this.apiKeysSubject.value[kind]);
+    return this.http.get<{ data?: Array<{ id: string }> }>(request.url, { headers: new HttpHeaders(request.headers) }).pipe(
+      map(response => (response.data ?? []).map(m => m.id).sort()),
+      catchError(() => of(provider.suggestedModels))
+    );
+  }
+
+  private loadSettings(): AiSettings {
+    const defaults: AiSettings = {
+      providers: Object.fromEntries(
+        AI_PROVIDER_KINDS.map(kind => [kind, { ...AI_PROVIDERS[kind].defaults }])
+      ) as Record<AiProviderKind, AiProviderConfig>,
+      features: { 'ask': 'github-models', 'priority-summary': 'github-models', 'issues': 'github-models', 'chat': 'github-models' }
+    };
+    try {
+      const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<AiSettings> | null;
+      if (saved) {
+        return {
+          providers: Object.fromEntries(AI_PROVIDER_KINDS.map(kind =>
+            [kind, { ...defaults.providers[kind], ...saved.providers?.[kind] }]
+          )) as Record<AiProviderKind, AiProviderConfig>,
+          features: { ...defaults.features, ...saved.features }
+        };
+      }
+    } catch (e) {
+      console.error('Failed to load AI settings:', e);
+    }
+    // Carry over the model picked before providers were configurable
+    const legacyModel = localStorage.getItem(LEGACY_MODEL_KEY);
+    if (legacyModel) defaults.providers['github-models'].model = legacyModel;
+    return defaults;
+  }
+
+  private saveSettings(settings: AiSettings): void {
+    this.settingsSubject.next(settings);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.removeItem(LEGACY_MODEL_KEY);
+  }
+
+  // ── Rate limits ───────────────────────────────────────────────
+
+  rateLimit$(kind: AiProviderKind): Observable<RateLimitInfo> {
+    return this.rateLimitSubjects[kind].asObservable();
+  }
+
+  /** Rate limit of whichever provider `feature` currently uses. */
+  rateLimitFor$(feature: AiFeature): Observable<RateLimitInfo> {
+    return this.settingsSubject.pipe(
+      map(settings => settings.features[feature]),
+      distinctUntilChanged(),
+      switchMap(kind => this.rateLimitSubjects[kind])
+    );
+  }
+
+  getRateLimitInfo(kind: AiProviderKind): RateLimitInfo {
+    return this.rateLimitSubjects[kind].value;
+  }
+
+  /**
+   * Subscribe to a provider's call counter in Firestore in real-time
+   */
+  private loadRateLimitInfo(kind: AiProviderKind): void {
+    const ref = doc(this.firestore, COUNTER_DOCS[kind]);
+    onSnapshot(ref, snapshot => {
+      const subject = this.rateLimitSubjects[kind];
+      subject.next({
+        ...subject.value,
+        callsUsed: snapshot.exists() ? (snapshot.data()['callsUsed'] ?? 0) : 0
+      });
+    }, e => console.error(`Failed to listen to ${kind} rate limit from Firestore:`, e));
+  }
+
+  /**
+   * Persist the full RateLimitInfo snapshot to Firestore
+   */
+  private saveRateLimitInfo(kind: AiProviderKind, info: RateLimitInfo): void {
+    this.rateLimitSubjects[kind].next(info);
+    const ref = doc(this.firestore, COUNTER_DOCS[kind]);
+    setDoc(ref, { callsUsed: info.callsUsed }, { merge: true })
+      .catch(e => console.error('Failed to save rate limit to Firestore:', e));
+  }
+
+  /**
+   * Update rate limit info from API response headers
+   */
+  private updateRateLimitFromHeaders(kind: AiProviderKind, headers: HttpHeaders, isSuccess: boolean = true): void {
+    const { remaining, limit, resetTime } = AI_PROVIDERS[kind].readRateLimit(headers);
+    const current = this.rateLimitSubjects[kind].value;
+    const updated: RateLimitInfo = {
+      callsUsed: current.callsUsed + 1,
+      callsRemaining: remaining ?? (isSuccess && current.callsRemaining === 0 ? null : current.callsRemaining),
+      callsLimit: limit ?? current.callsLimit,
+      resetTime: resetTime ?? current.resetTime
+    };
+
+    // Atomically increment in Firestore so concurrent tabs don't overwrite each other
+    const ref = doc(this.firestore, COUNTER_DOCS[kind]);
+    setDoc(ref, { callsUsed: increment(1) }, { merge: true })
+      .catch(e => console.error('Failed to increment call counter in Firestore:', e));
+
+    this.rateLimitSubjects[kind].next(updated);
+  }
+
+  /**
+   * Reset a provider's rate limit counters
+   */
+  resetRateLimitInfo(kind: AiProviderKind = 'github-models'): void {
+    this.saveRateLimitInfo(kind, EMPTY_RATE_LIMIT);
+  }
+
+  // ── Chat ──────────────────────────────────────────────────────
+
+  /**
+   * Send a message to the AI provider `feature` is set to use
+   */
+  sendMessage(feature: AiFeature, userMessage: string, conversationHistory: ChatMessage[] = []): Observable<string> {
+    return this.sendWith(this.settingsSubject.value.features[feature], userMessage, conversationHistory);
+  }
+
+  /**
+   * Stream a reply from the provider `feature` uses, emitting each text delta as it arrives.
+   * Unsubscribing aborts the request, which is how the chat surfaces implement Stop.
+   */
+  streamMessage(feature: AiFeature, userMessage: string, conversationHistory: ChatMessage[] = []): Observable<string> {
+    return defer(() => this.streamChat(feature, toWireMessages(userMessage, conversationHistory))).pipe(
+      mergeMap(event => event.type === 'text' ? of(event.text) : EMPTY)
+    );
+  }
+
+  /**
+   * Stream a completion for a prepared conversation. With `tools`, the model may answer with a
+   * `tool-calls` event (after any text) instead of finishing; running them is up to the caller.
+   */
+  streamChat(feature: AiFeature, messages: AiWireMessage[], tools?: AiToolSpec[]): Observable<AiStreamEvent> {
+    const kind = this.settingsSubject.value.features[feature];
+    return defer(() => {
+      const request = this.buildRequest(kind, messages, { stream: true, tools });
+      // Offset into partialText up to which complete SSE lines have been read
+      let consumed = 0;
+      const toolCalls = new ToolCallAccumulator();
+
+      const eventsFor = (chunks: ChatCompletionChunk[]): AiStreamEvent[] => {
+        const events: AiStreamEvent[] = [];
+        for (const chunk of chunks) {
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) events.push({ type: 'text', text: delta.content });
+          if (delta?.tool_calls) toolCalls.add(delta.tool_calls);
+        }
+        return events;
+      };
+
+      return this.http.post(request.url, request.body, {
+        headers: new HttpHeaders(request.headers),
+        observe: 'events',
+        reportProgress: true,
+        responseType: 'text'
+      }).pipe(
+        mergeMap((event: HttpEvent<string>) => {
+          if (event.type === HttpEventType.ResponseHeader) {
+            this.updateRateLimitFromHeaders(kind, event.headers);
+          } else if (event.type === HttpEventType.DownloadProgress) {
+            const text = (event as HttpDownloadProgressEvent).partialText ?? '';
+            const lineEnd = text.lastIndexOf('\n') + 1;
+            const chunk = text.slice(consumed, lineEnd);
+            consumed = Math.max(consumed, lineEnd);
+            return of(...eventsFor(readSseChunks(chunk)));
+          } else if (event.type === HttpEventType.Response) {
+            const rest = (event.body ?? '').slice(consumed);
+            // Some servers ignore `stream: true` and answer with a single JSON completion
+            if (consumed === 0 && rest.trimStart().startsWith('{')) {
+              const message = (JSON.parse(rest) as ChatCompletionResponse).choices?.[0]?.message;
+              const events: AiStreamEvent[] = message?.content ? [{ type: 'text', text: message.content }] : [];
+              if (message?.tool_calls?.length) events.push({ type: 'tool-calls', calls: message.tool_calls });
+              return of(...events);
+            }
+            const events = eventsFor(readSseChunks(rest + '\n'));
+            const calls = toolCalls.calls();
+            if (calls.length) events.push({ type: 'tool-calls', calls });
+            return of(...events);
+          }
+          return EMPTY;
+        }),
+        catchError(error => this.handleError(kind, error)),
+        finalize(() => this.loadingSubject.next(false))
+      );
+    });
+  }
+
+  private sendWith(kind: AiProviderKind, userMessage: string, conversationHistory: ChatMessage[]): Observable<string> {
+    return defer(() => {
+      const request = this.buildRequest(kind, toWireMessages(userMessage, conversationHistory), { stream: false });
+
+      return this.http.post<ChatCompletionResponse>(request.url, request.body, {
+        headers: new HttpHeaders(request.headers),
+        observe: 'response'
+      }).pipe(
+        tap((response: HttpResponse<ChatCompletionResponse>) => {
+          this.updateRateLimitFromHeaders(kind, response.headers);
+        }),
+        map((response: HttpResponse<ChatCompletionResponse>) => {
+          this.loadingSubject.next(false);
+
+          if (response.body && response.body.choices && response.body.choices.length > 0) {
+            return response.body.choices[0].message.content ?? '';
+          }
+
+          throw new Error('No response from AI model');
+        }),
+        catchError(error => {
+          this.loadingSubject.next(false);
+          return this.handleError(kind, error);
+        })
+      );
+    });
+  }
+
+  /**
+   * Build the provider request and mark the service busy; throws if the provider isn't set up.
+   */
+  private buildRequest(kind: AiProviderKind, messages: AiWireMessage[], options: Pick<AiRequestOptions, 'stream' | 'tools'>): AiRequest {
+    const provider = AI_PROVIDERS[kind];
+    const config = this.settingsSubject.value.providers[kind];
+    const apiKey = this.apiKeysSubject.value[kind];
+    if (!provider.isReady(config, apiKey)) {
+      throw new Error(kind === 'github-models'
+        ? 'GitHub AI service not configured. Please add your Personal Access Token.'
+        : `${provider.label} is not configured. Set it up in Connections.`);
+    }
+
+    this.loadingSubject.next(true);
+    this.errorSubject.next(null);
+
+    return provider.chatRequest(config, apiKey, messages, { temperature: 0.7, maxTokens: DEFAULT_MAX_TOKENS, ...options });
+  }
+
+  private handleError(kind: AiProviderKind, error: any): Observable<never> {
+    const provider = AI_PROVIDERS[kind];
+    let errorMessage = 'Failed to get AI response';
+    // Streaming requests read the body as text, so an error payload may still be a JSON string
+    let body = error.error;
+    if (typeof body === 'string') {
+      try { body = JSON.parse(body); } catch { body = null; }
+    }
+
+    if (error.status === 401) {
+      errorMessage = kind === 'github-models'
+        ? 'Invalid or expired GitHub Personal Access Token'
+        : `Invalid or expired API key for ${provider.label}`;
+    } else if (error.status === 403) {
+      errorMessage = 'Access denied. Check your token permissions';
+    } else if (error.status === 429) {
+      errorMessage = 'Rate limit exceeded. Please try again later';
+      // Set rate limit to 0 to indicate exceeded state
+      const current = this.rateLimitSubjects[kind].value;
+      this.saveRateLimitInfo(kind, {
+        ...current,
+        callsRemaining: 0,
+        callsLimit: current.callsLimit || 15 // Default limit if unknown
+      });
+      // Try to update rate limit info from headers if available
+      if (error.headers) {
+        this.updateRateLimitFromHeaders(kind, error.headers, false);
+      }
+    } else if (error.status === 0) {
+      const endpoint = this.settingsSubject.value.providers[kind].endpoint;
+      errorMessage = `Could not reach ${provider.label} at ${endpoint}. Is the server running and allowing this origin (CORS)?`;
+    } else if (body?.error?.message) {
+      errorMessage = body.error.message;
+    } else if (error.message) {
+      errorMessage = error.message;
+    }
+
+    this.errorSubject.next(errorMessage);
+    return throwError(() => new Error(errorMessage));
+  }
+
+  /**
+   * Test a provider's connection
+   */
+  testConnection(kind: AiProviderKind = 'github-models'): Observable<boolean> {
+    return this.sendWith(kind, 'Hello! Please respond with a simple greeting.', []).pipe(
+      map(() => true),
+      catchError(() => throwError(() => new Error('Connection test failed')))
+    );
+  }
+}
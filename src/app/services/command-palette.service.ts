@@ -0,0 +1,143 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+
+export interface PaletteCommand {
+  /** Stable id; when two sources contribute the same id, the higher-priority source wins. */
+  id: string;
+  label: string;
+  /** Section heading in the results list, e.g. "Navigation", "Tasks". */
+  group: string;
+  /** Font Awesome classes. */
+  icon: string;
+  /** Secondary text shown to the right of the label; also searched. */
+  hint?: string;
+  /** Extra terms that should match this command without being displayed. */
+  keywords?: string[];
+  /** Only listed when the query is empty; keeps the idle palette to navigation and actions. */
+  pinned?: boolean;
+  /** Runs the command and closes the palette. Ignored when `children` is set. */
+  run?: () => void;
+  /** Opens a nested list instead of running, e.g. "Start timer on…" → pick a task. */
+  children?: () => PaletteCommand[];
+}
+
+/**
+ * A set of commands contributed to the palette. `commands()` is called every time the palette
+ * filters, so sources should return whatever is current rather than caching a snapshot.
+ */
+export interface PaletteCommandSource {
+  id: string;
+  /** Higher wins on id collisions; a mounted component can override a global default. Defaults to 0. */
+  priority?: number;
+  commands(): PaletteCommand[];
+}
+
+export interface PaletteMatch {
+  command: PaletteCommand;
+  score: number;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Scores `text` against `query` as a case-insensitive subsequence match. Contiguous runs and
+ * matches at word starts score higher; a plain substring match outranks any scattered one.
+ * Returns null when not every query character can be matched in order.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  if (!t) return null;
+
+  const substringAt = t.indexOf(q);
+  if (substringAt !== -1) {
+    const atWordStart = substringAt === 0 || /[\s\-_/#:.]/.test(t[substringAt - 1]);
+    return 1000 + (atWordStart ? 200 : 0) - substringAt - (t.length - q.length) * 0.1;
+  }
+
+  let score = 0;
+  let ti = 0;
+  let prevMatch = -2;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    while (ti < t.length && t[ti] !== ch) ti++;
+    if (ti === t.length) return null;
+    if (ti === prevMatch + 1) score += 15;
+    if (ti === 0 || /[\s\-_/#:.]/.test(t[ti - 1])) score += 10;
+    score += 1;
+    prevMatch = ti;
+    ti++;
+  }
+  return score - t.length * 0.05;
+}
+
+/**
+ * Registry behind the global command palette (Ctrl/Cmd+K). The palette itself registers the
+ * navigation, search and core action sources; any component can `register` extra commands for
+ * as long as it is mounted by calling the returned function from its `ngOnDestroy`.
+ */
+@Injectable({ providedIn: 'root' })
+export class CommandPaletteService {
+  private openSubject = new BehaviorSubject<boolean>(false);
+  readonly isOpen$: Observable<boolean> = this.openSubject.asObservable();
+
+  private sources: PaletteCommandSource[] = [];
+
+  register(source: PaletteCommandSource): () => void {
+    this.sources = [...this.sources.filter(s => s.id !== source.id), source];
+    return () => {
+      this.sources = this.sources.filter(s => s !== source);
+    };
+  }
+
+  open(): void {
+    this.openSubject.next(true);
+  }
+
+  close(): void {
+    this.openSubject.next(false);
+  }
+
+  toggle(): void {
+    this.openSubject.next(!this.openSubject.value);
+  }
+
+  /** Every command currently contributed, de-duplicated by id. */
+  getCommands(): PaletteCommand[] {
+    const byId = new Map<string, { command: PaletteCommand; priority: number }>();
+    for (const source of this.sources) {
+      const priority = source.priority ?? 0;
+      for (const command of source.commands()) {
+        const existing = byId.get(command.id);
+        if (!existing || priority >= existing.priority) {
+          byId.set(command.id, { command, priority });
+        }
+      }
+    }
+    return [...byId.values()].map(e => e.command);
+  }
+
+  /**
+   * Filters `commands` (defaults to every registered command) by `query`, best match first.
+   * An empty query returns only pinned commands, in registration order.
+   */
+  search(query: string, commands: PaletteCommand[] = this.getCommands()): PaletteMatch[] {
+    if (!query.trim()) {
+      return commands.filter(c => c.pinned).map(command => ({ command, score: 0 }));
+    }
+    const matches: PaletteMatch[] = [];
+    for (const command of commands) {
+      const fields = [command.label, command.hint ?? '', ...(command.keywords ?? [])];
+      let best: number | null = null;
+      for (const field of fields) {
+        const s = fuzzyScore(query, field);
+        // Hints and keywords count, but a label match of the same quality ranks first
+        const weighted = s === null ? null : field === command.label ? s : s * 0.8;
+        if (weighted !== null && (best === null || weighted > best)) best = weighted;
+      }
+      if (best !== null) matches.push({ command, score: best });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+  }
+}
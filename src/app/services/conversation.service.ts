@@ -0,0 +1,289 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom, of } from 'rxjs';
+import { catchError, filter, map, take } from 'rxjs/operators';
+import {
+  Firestore, collection, deleteDoc, doc,
+  onSnapshot, query, orderBy, serverTimestamp, setDoc, updateDoc, Timestamp
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { AiFeature, AiService, ChatMessage } from './ai.service';
+
+/** The chat surfaces whose threads are kept; each maps onto the AI feature it uses. */
+export type ConversationSurface = Extract<AiFeature, 'ask' | 'priority-summary' | 'issues'>;
+
+export interface Conversation {
+  id: string;
+  surface: ConversationSurface;
+  title: string;
+  /** False until the title has been generated from the first exchange or set by the user. */
+  titled: boolean;
+  pinned: boolean;
+  /** System context the thread was started with; sent again when it is resumed. */
+  systemPrompt: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  /** Text around the first hit in a message, or null when only the title matched. */
+  snippet: string | null;
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+/** Fallback title: the start of the first thing the user said. */
+function draftTitle(messages: ChatMessage[]): string {
+  const first = messages.find(m => m.role === 'user');
+  const text = (first?.skillLabel ?? first?.content ?? 'New conversation').replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+}
+
+/** The first question and the reply to it, once there is one; greetings before it are skipped. */
+function firstExchange(messages: ChatMessage[]): [ChatMessage, ChatMessage] | null {
+  const questionAt = messages.findIndex(m => m.role === 'user');
+  if (questionAt === -1) return null;
+  const answer = messages.slice(questionAt + 1).find(m => m.role === 'assistant' && m.content);
+  return answer ? [messages[questionAt], answer] : null;
+}
+
+/** Firestore rejects `undefined`, so optional message fields are left out when unset. */
+function toStoredMessage(message: ChatMessage): Record<string, unknown> {
+  const stored: Record<string, unknown> = {
+    role: message.role,
+    content: message.content,
+    timestamp: Timestamp.fromDate(new Date(message.timestamp))
+  };
+  if (message.skillLabel) stored['skillLabel'] = message.skillLabel;
+  if (message.skillDescription) stored['skillDescription'] = message.skillDescription;
+  if (message.skillPrompt) stored['skillPrompt'] = message.skillPrompt;
+  return stored;
+}
+
+function fromStoredMessage(data: any): ChatMessage {
+  return {
+    role: data.role,
+    content: data.content ?? '',
+    timestamp: data.timestamp instanceof Timestamp ? data.timestamp.toDate() : new Date(data.timestamp ?? Date.now()),
+    ...(data.skillLabel ? { skillLabel: data.skillLabel } : {}),
+    ...(data.skillDescription ? { skillDescription: data.skillDescription } : {}),
+    ...(data.skillPrompt ? { skillPrompt: data.skillPrompt } : {})
+  };
+}
+
+/**
+ * Conversations matching every word of `text` in their title or messages, pinned first.
+ * Skill messages are matched on their label rather than the prompt behind them.
+ */
+export function searchConversations(conversations: Conversation[], text: string): ConversationMatch[] {
+  const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return conversations.map(conversation => ({ conversation, snippet: null }));
+  }
+
+  const matches: ConversationMatch[] = [];
+  for (const conversation of conversations) {
+    const bodies = conversation.messages.map(m => m.skillLabel ?? m.content);
+    const haystack = [conversation.title, ...bodies].join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) continue;
+
+    let snippet: string | null = null;
+    for (const body of bodies) {
+      const at = body.toLowerCase().indexOf(terms[0]);
+      if (at === -1) continue;
+      const start = Math.max(0, at - 30);
+      const end = Math.min(body.length, at + terms[0].length + 50);
+      snippet = `${start > 0 ? '…' : ''}${body.slice(start, end).replace(/\s+/g, ' ')}${end < body.length ? '…' : ''}`;
+      break;
+    }
+    matches.push({ conversation, snippet });
+  }
+  return matches;
+}
+
+/**
+ * Chat threads from the AI surfaces, stored per user so they survive reloads and can be
+ * searched, pinned, renamed and resumed.
+ */
+@Injectable({ providedIn: 'root' })
+export class ConversationService {
+  private conversationsSubject = new BehaviorSubject<Conversation[]>([]);
+  public conversations$: Observable<Conversation[]> = this.conversationsSubject.asObservable();
+
+  private unsubscribeConversations: (() => void) | null = null;
+  private currentUserId: string | null = null;
+  // Threads whose title is being generated, so a second save doesn't start another request
+  private titling = new Set<string>();
+
+  constructor(private firestore: Firestore, private auth: Auth, private aiService: AiService) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeConversations(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+        this.conversationsSubject.next([]);
+      }
+    });
+  }
+
+  private conversationsCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/conversations`);
+  }
+
+  private subscribeConversations(uid: string): void {
+    const q = query(this.conversationsCollectionRef(uid), orderBy('updatedAt', 'desc'));
+    this.unsubscribeConversations = onSnapshot(q, snapshot => {
+      const conversations: Conversation[] = snapshot.docs.map(d => {
+        const data = d.data();
+        return {
+          id: d.id,
+          surface: data['surface'],
+          title: data['title'] ?? 'New conversation',
+          titled: data['titled'] ?? false,
+          pinned: data['pinned'] ?? false,
+          systemPrompt: data['systemPrompt'] ?? '',
+          messages: (data['messages'] ?? []).map(fromStoredMessage),
+          createdAt: data['createdAt']?.toDate() ?? new Date(),
+          // Pending server timestamps read as null until the write lands
+          updatedAt: data['updatedAt']?.toDate() ?? new Date()
+        };
+      });
+      // Pinned threads stay on top; the query already orders the rest by recency
+      this.conversationsSubject.next([
+        ...conversations.filter(c => c.pinned),
+        ...conversations.filter(c => !c.pinned)
+      ]);
+    }, e => console.error('Failed to listen to AI conversations:', e));
+  }
+
+  private cleanup(): void {
+    if (this.unsubscribeConversations) {
+      this.unsubscribeConversations();
+      this.unsubscribeConversations = null;
+    }
+  }
+
+  conversationsFor$(surface: ConversationSurface): Observable<Conversation[]> {
+    return this.conversations$.pipe(map(list => list.filter(c => c.surface === surface)));
+  }
+
+  getConversation(id: string): Conversation | undefined {
+    return this.conversationsSubject.value.find(c => c.id === id);
+  }
+
+  /** Emits the thread once it has loaded, e.g. to reopen it after a reload. */
+  whenLoaded(id: string): Observable<Conversation> {
+    return this.conversations$.pipe(
+      map(list => list.find(c => c.id === id)),
+      filter((c): c is Conversation => !!c),
+      take(1)
+    );
+  }
+
+  /**
+   * Move a chat a surface used to keep in localStorage under `storageKey` into the saved
+   * threads, once signed in. Resolves to the new thread's id, or null if there was none.
+   */
+  async adoptLocalHistory(surface: ConversationSurface, storageKey: string): Promise<string | null> {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return null;
+    await firstValueFrom(user(this.auth).pipe(filter(Boolean)));
+    localStorage.removeItem(storageKey);
+    try {
+      const messages: ChatMessage[] = JSON.parse(saved);
+      // No system context was kept; the surface builds a fresh one when the thread continues
+      return this.save(surface, null, '', messages);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a thread's messages, creating it when `id` is null, and return its id (null when
+   * signed out). The id is assigned locally, so follow-up saves work before the write lands.
+   * The title is generated once the first reply is in.
+   */
+  save(
+    surface: ConversationSurface,
+    id: string | null,
+    systemPrompt: string,
+    messages: ChatMessage[]
+  ): string | null {
+    if (!this.currentUserId || messages.length === 0) return null;
+    const stored = messages.map(toStoredMessage);
+    const ref = id ? this.conversationRef(id) : doc(this.conversationsCollectionRef(this.currentUserId));
+
+    const write = id
+      ? updateDoc(ref, { messages: stored, updatedAt: serverTimestamp() })
+      : setDoc(ref, {
+          surface,
+          title: draftTitle(messages),
+          titled: false,
+          pinned: false,
+          systemPrompt,
+          messages: stored,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+
+    write
+      .then(() => {
+        const exchange = firstExchange(messages);
+        if (exchange && !this.getConversation(ref.id)?.titled) {
+          this.generateTitle(surface, ref.id, exchange);
+        }
+      })
+      .catch(e => console.error('Failed to save AI conversation:', e));
+    return ref.id;
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    if (!this.currentUserId || !title.trim()) return;
+    await updateDoc(this.conversationRef(id), { title: title.trim(), titled: true });
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    if (!this.currentUserId) return;
+    await updateDoc(this.conversationRef(id), { pinned });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    if (!this.currentUserId) return;
+    await deleteDoc(this.conversationRef(id));
+  }
+
+  private conversationRef(id: string) {
+    return doc(this.firestore, `users/${this.currentUserId}/conversations/${id}`);
+  }
+
+  /** Ask the surface's model for a short title; keeps the draft title if that fails. */
+  private async generateTitle(
+    surface: ConversationSurface,
+    id: string,
+    [question, answer]: [ChatMessage, ChatMessage]
+  ): Promise<void> {
+    if (this.titling.has(id) || !this.aiService.isConfigured(surface)) return;
+    this.titling.add(id);
+
+    const prompt = `Write a title of at most 6 words for a conversation that starts like this. Reply with the title only, no quotes or punctuation at the end.\n\n` +
+      `User: ${(question.skillLabel ?? question.content).slice(0, 500)}\n\nAssistant: ${answer.content.slice(0, 500)}`;
+
+    try {
+      const title = await firstValueFrom(this.aiService.sendMessage(surface, prompt).pipe(
+        map(reply => reply.trim().replace(/^["'#*\s]+|["'.*\s]+$/g, '').slice(0, TITLE_MAX_LENGTH)),
+        catchError(() => of(''))
+      ));
+      // The user may have renamed the thread while the title was being generated
+      if (title && !this.getConversation(id)?.titled) {
+        await updateDoc(this.conversationRef(id), { title, titled: true });
+      }
+    } catch (e) {
+      console.error('Failed to title AI conversation:', e);
+    } finally {
+      this.titling.delete(id);
+    }
+  }
+}
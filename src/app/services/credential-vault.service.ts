@@ -0,0 +1,583 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { Firestore, doc, getDoc, setDoc, deleteField } from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { OfflineCacheService } from './offline-cache.service';
+import { ToastService } from './toast.service';
+
+/**
+ * Ids of the secrets the vault holds. ADO PATs are per configured project and use
+ * `adoPatId(projectId)`; everything else is one secret per integration.
+ */
+export type CredentialId =
+  | 'github-ai' | 'github-pr' | 'slack' | 'ms-teams' | 'outlook-mail' | 'outlook-calendar' | 'linear'
+  | 'openai-compatible' | 'azure-openai'
+  | `ado-pat:${string}`;
+
+export const CREDENTIAL_LABELS: Record<string, string> = {
+  'github-ai': 'GitHub Models',
+  'github-pr': 'GitHub PRs',
+  'slack': 'Slack',
+  'ms-teams': 'Microsoft Teams',
+  'outlook-mail': 'Outlook Mail',
+  'outlook-calendar': 'Outlook Calendar',
+  'linear': 'Linear',
+  'openai-compatible': 'OpenAI-compatible AI',
+  'azure-openai': 'Azure OpenAI'
+};
+
+export function adoPatId(projectId: string): CredentialId {
+  return `ado-pat:${projectId}`;
+}
+
+export function credentialLabel(id: string): string {
+  return CREDENTIAL_LABELS[id] ?? (id.startsWith('ado-pat:') ? 'Azure DevOps PAT' : id);
+}
+
+/** `none`: no vault has been created yet; `locked`: one exists but the passphrase hasn't been entered. */
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+/** What the vault knows about a credential without decrypting it. */
+export interface CredentialMetadata {
+  id: string;
+  label: string;
+  updatedAt: Date;
+  expiresAt: Date | null;
+}
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface StoredEntry extends EncryptedValue {
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+/** The persisted vault. Only ciphertext and non-secret metadata; safe to sync. */
+interface StoredVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  /** A known plaintext encrypted with the key, so a wrong passphrase fails even when the vault is empty. */
+  check: EncryptedValue;
+  entries: Record<string, StoredEntry>;
+  updatedAt: string;
+}
+
+/** Both are suffixed with the Firebase uid, so each account on a shared browser has its own vault. */
+const STORAGE_KEY = 'credential-vault';
+const SYNC_PREF_KEY = 'credential-vault-sync';
+const REMEMBERED_KEY_CACHE = 'vault:key';
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_PLAINTEXT = 'gavel-credential-vault';
+
+/** Plain-text localStorage keys each credential lived under before the vault. */
+const LEGACY_KEYS: Partial<Record<CredentialId, string>> = {
+  'github-ai': 'github-ai-token',
+  'github-pr': 'github-pr-token',
+  'slack': 'slack-token',
+  'ms-teams': 'ms-teams-token',
+  'outlook-mail': 'outlook-mail-token',
+  'outlook-calendar': 'outlook-calendar-token',
+  'linear': 'linear-api-key'
+};
+const LEGACY_ADO_PROJECTS_KEY = 'ado-projects';
+const LEGACY_ADO_CONFIG_KEY = 'ado-config';
+/** Plain-text home, before a vault exists, for credentials that never had a legacy key. */
+const UNPROTECTED_KEY_PREFIX = 'credential:';
+/** PAT from the pre-multi-project ADO config, kept so that config can still be converted. */
+export const ADO_LEGACY_CONFIG_PAT: CredentialId = 'ado-pat:legacy-config';
+
+/**
+ * Central store for every integration token. Secrets are encrypted with AES-GCM under a key
+ * derived (PBKDF2) from a passphrase only the user knows; the ciphertext lives in localStorage
+ * and, when sync is on, on the user's Firestore document so it follows them across machines.
+ *
+ * Services read through `get`/`secret$` and write through `set`/`remove`. Until the vault is
+ * unlocked `get` returns null, except before one has ever been created, when the old plain-text
+ * keys are still served (and written) so nothing breaks. `create` migrates those keys in and
+ * deletes them. A secret set while the vault is locked is held in memory and written once it
+ * opens; the user is told it will be lost if the tab closes first.
+ */
+@Injectable({ providedIn: 'root' })
+export class CredentialVaultService {
+  private statusSubject = new BehaviorSubject<VaultStatus>('none');
+  readonly status$: Observable<VaultStatus> = this.statusSubject.asObservable();
+
+  private secretsSubject = new BehaviorSubject<Map<string, string>>(new Map());
+
+  private metadataSubject = new BehaviorSubject<CredentialMetadata[]>([]);
+  readonly metadata$: Observable<CredentialMetadata[]> = this.metadataSubject.asObservable();
+
+  private syncEnabledSubject = new BehaviorSubject<boolean>(false);
+  readonly syncEnabled$: Observable<boolean> = this.syncEnabledSubject.asObservable();
+
+  /** Emits when something needs a secret the vault can't provide yet; the unlock prompt listens. */
+  private unlockRequestedSubject = new Subject<void>();
+  readonly unlockRequested$: Observable<void> = this.unlockRequestedSubject.asObservable();
+
+  /**
+   * Resolves once the signed-in user's vault is loaded and a remembered key has been tried, so
+   * startup checks don't mistake "locked" for "disconnected".
+   */
+  readonly ready: Promise<void>;
+
+  private key: CryptoKey | null = null;
+  private stored: StoredVault | null = null;
+  /** Secrets set while locked; encrypted and persisted as soon as a key is available. */
+  private pending = new Map<string, { value: string; expiresAt: Date | null }>();
+  private currentUserId: string | null = null;
+  private loaded = false;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private offlineCache: OfflineCacheService,
+    private toast: ToastService
+  ) {
+    let resolveReady!: () => void;
+    this.ready = new Promise(resolve => (resolveReady = resolve));
+
+    user(this.auth).subscribe(async firebaseUser => {
+      const uid = firebaseUser?.uid ?? null;
+      // `user` also emits on hourly token refreshes; only a different account reloads the vault
+      if (this.loaded && uid === this.currentUserId) return;
+      this.loaded = true;
+      this.currentUserId = uid;
+      this.load(uid);
+      if (uid) {
+        await this.unlockWithRememberedKey();
+        this.pullRemote(uid);
+      }
+      resolveReady();
+    });
+  }
+
+  /** Switches to `uid`'s vault, closed; signed out, only the legacy plain-text keys are served. */
+  private load(uid: string | null): void {
+    this.key = null;
+    this.pending.clear();
+    this.stored = uid ? this.readStored(uid) : null;
+    this.syncEnabledSubject.next(!!uid && localStorage.getItem(`${SYNC_PREF_KEY}:${uid}`) === 'true');
+    if (this.stored) {
+      this.secretsSubject.next(new Map());
+      this.statusSubject.next('locked');
+    } else {
+      this.secretsSubject.next(this.collectLegacy());
+      this.statusSubject.next('none');
+    }
+    this.publishMetadata();
+  }
+
+  // ── Reading ──────────────────────────────────────────────────
+
+  get status(): VaultStatus {
+    return this.statusSubject.value;
+  }
+
+  get(id: CredentialId): string | null {
+    return this.secretsSubject.value.get(id) ?? null;
+  }
+
+  secret$(id: CredentialId): Observable<string | null> {
+    return this.secretsSubject.pipe(map(secrets => secrets.get(id) ?? null), distinctUntilChanged());
+  }
+
+  getMetadata(id: CredentialId): CredentialMetadata | null {
+    return this.metadataSubject.value.find(m => m.id === id) ?? null;
+  }
+
+  /** True when the vault has a stored (possibly still locked) secret for `id`. */
+  has(id: CredentialId): boolean {
+    return !!this.stored?.entries[id] || this.secretsSubject.value.has(id);
+  }
+
+  /** True while tokens are still only in the pre-vault plain-text keys (or in memory). */
+  get hasUnprotectedSecrets(): boolean {
+    return this.status === 'none' && this.secretsSubject.value.size > 0;
+  }
+
+  requestUnlock(): void {
+    this.unlockRequestedSubject.next();
+  }
+
+  // ── Writing ──────────────────────────────────────────────────
+
+  /** `expiresAt` defaults to the `exp` claim when the secret is a JWT (e.g. a Graph token). */
+  async set(id: CredentialId, value: string, expiresAt: Date | null = jwtExpiry(value)): Promise<void> {
+    this.updateSecrets(secrets => secrets.set(id, value));
+    if (!this.stored) {
+      // No vault yet: keep using the plain-text key, which `create` moves into the vault
+      localStorage.setItem(plainKeyFor(id), value);
+      return;
+    }
+    if (!this.key) {
+      if (!this.pending.has(id)) {
+        this.toast.show(
+          `Your ${credentialLabel(id)} credential is only kept until this tab closes. Unlock the vault to save it.`,
+          'warning', 'Credential vault is locked', 0,
+          [{ label: 'Unlock', style: 'primary', handler: toastId => { this.toast.dismiss(toastId); this.requestUnlock(); } }]
+        );
+      }
+      this.pending.set(id, { value, expiresAt });
+      this.requestUnlock();
+      return;
+    }
+    this.stored.entries[id] = await this.encryptEntry(this.key, id, value, expiresAt);
+    this.persist();
+  }
+
+  /** Removing works while locked: entries are stored per id, so no decryption is needed. */
+  remove(id: CredentialId): void {
+    this.updateSecrets(secrets => secrets.delete(id));
+    this.pending.delete(id);
+    if (this.stored?.entries[id]) {
+      delete this.stored.entries[id];
+      this.persist();
+    }
+    localStorage.removeItem(plainKeyFor(id));
+  }
+
+  // ── Lifecycle ────────────────────────────────────────────────
+
+  /** Creates the vault, moving every legacy plain-text token into it. */
+  async create(passphrase: string, options: { remember?: boolean; sync?: boolean } = {}): Promise<void> {
+    if (this.stored) throw new Error('A credential vault already exists');
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    this.stored = {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await this.encrypt(key, CHECK_PLAINTEXT, 'check'),
+      entries: {},
+      updatedAt: new Date().toISOString()
+    };
+    this.key = key;
+
+    for (const [id, value] of this.collectLegacy()) {
+      if (!this.pending.has(id)) this.pending.set(id, { value, expiresAt: null });
+    }
+    await this.flushPending();
+    this.scrubLegacy();
+
+    this.statusSubject.next('unlocked');
+    if (options.sync !== undefined) this.syncEnabledSubject.next(options.sync);
+    this.saveSyncPreference();
+    this.persist();
+    if (options.remember) await this.remember(key);
+  }
+
+  /** Returns false when the passphrase is wrong. */
+  async unlock(passphrase: string, options: { remember?: boolean } = {}): Promise<boolean> {
+    if (!this.stored) return false;
+    const key = await this.deriveKey(passphrase, fromBase64(this.stored.salt), this.stored.iterations);
+    if (!(await this.openWith(key))) return false;
+    if (options.remember) await this.remember(key);
+    return true;
+  }
+
+  /** Forgets the key (and any remembered copy); secrets stay encrypted at rest. */
+  lock(): void {
+    if (!this.stored) return;
+    this.key = null;
+    this.secretsSubject.next(new Map());
+    this.statusSubject.next('locked');
+    this.offlineCache.remove(REMEMBERED_KEY_CACHE);
+  }
+
+  async changePassphrase(passphrase: string): Promise<void> {
+    if (!this.key || !this.stored) throw new Error('Unlock the vault first');
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const entries: Record<string, StoredEntry> = {};
+    for (const [id, entry] of Object.entries(this.stored.entries)) {
+      const value = this.secretsSubject.value.get(id);
+      if (value !== undefined) {
+        entries[id] = await this.encryptEntry(key, id, value, entry.expiresAt ? new Date(entry.expiresAt) : null);
+      }
+    }
+    this.stored = {
+      ...this.stored,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await this.encrypt(key, CHECK_PLAINTEXT, 'check'),
+      entries
+    };
+    this.key = key;
+    this.persist();
+    // A remembered key would no longer open the vault
+    if (await this.offlineCache.read(REMEMBERED_KEY_CACHE)) await this.remember(key);
+  }
+
+  /** For a forgotten passphrase: deletes the vault and every secret in it, locally and in the account. */
+  reset(): void {
+    this.key = null;
+    this.stored = null;
+    this.pending.clear();
+    if (this.currentUserId) localStorage.removeItem(`${STORAGE_KEY}:${this.currentUserId}`);
+    this.offlineCache.remove(REMEMBERED_KEY_CACHE);
+    this.secretsSubject.next(new Map());
+    this.metadataSubject.next([]);
+    this.statusSubject.next('none');
+    if (this.currentUserId && this.syncEnabledSubject.value) {
+      setDoc(doc(this.firestore, 'users', this.currentUserId), { credentialVault: deleteField() }, { merge: true })
+        .catch(e => console.error('Failed to delete synced credential vault:', e));
+    }
+  }
+
+  setSyncEnabled(enabled: boolean): void {
+    this.syncEnabledSubject.next(enabled);
+    this.saveSyncPreference();
+    if (!this.currentUserId) return;
+    const ref = doc(this.firestore, 'users', this.currentUserId);
+    if (enabled && this.stored) {
+      setDoc(ref, { credentialVault: this.stored }, { merge: true })
+        .catch(e => console.error('Failed to sync credential vault:', e));
+    } else if (!enabled) {
+      setDoc(ref, { credentialVault: deleteField() }, { merge: true })
+        .catch(e => console.error('Failed to remove synced credential vault:', e));
+    }
+  }
+
+  // ── Internals ────────────────────────────────────────────────
+
+  private async openWith(key: CryptoKey): Promise<boolean> {
+    if (!this.stored) return false;
+    try {
+      await this.decrypt(key, this.stored.check, 'check');
+    } catch {
+      return false;
+    }
+    const secrets = new Map<string, string>();
+    for (const [id, entry] of Object.entries(this.stored.entries)) {
+      try {
+        secrets.set(id, await this.decrypt(key, entry, id));
+      } catch (e) {
+        console.warn(`Could not decrypt credential ${id}:`, e);
+      }
+    }
+    this.key = key;
+    this.secretsSubject.next(secrets);
+    // A vault synced in from another machine may open on a browser that still has plain-text keys
+    for (const [id, value] of this.collectLegacy()) {
+      if (!this.stored.entries[id] && !this.pending.has(id)) this.pending.set(id, { value, expiresAt: null });
+    }
+    await this.flushPending();
+    this.scrubLegacy();
+    this.statusSubject.next('unlocked');
+    return true;
+  }
+
+  private async unlockWithRememberedKey(): Promise<void> {
+    if (!this.stored) return;
+    const remembered = await this.offlineCache.read<CryptoKey>(REMEMBERED_KEY_CACHE);
+    if (remembered && !this.key) await this.openWith(remembered.data);
+  }
+
+  /**
+   * The key is non-extractable, so storing it in IndexedDB lets this browser reopen the vault
+   * without the passphrase while still never exposing the raw key bytes to script.
+   */
+  private async remember(key: CryptoKey): Promise<void> {
+    await this.offlineCache.write(REMEMBERED_KEY_CACHE, key);
+  }
+
+  private async flushPending(): Promise<void> {
+    if (!this.key || !this.stored || this.pending.size === 0) return;
+    for (const [id, { value, expiresAt }] of this.pending) {
+      this.stored.entries[id] = await this.encryptEntry(this.key, id, value, expiresAt);
+      this.updateSecrets(secrets => secrets.set(id, value));
+    }
+    this.pending.clear();
+    this.persist();
+  }
+
+  private saveSyncPreference(): void {
+    if (this.currentUserId) localStorage.setItem(`${SYNC_PREF_KEY}:${this.currentUserId}`, String(this.syncEnabledSubject.value));
+  }
+
+  private persist(): void {
+    if (!this.stored) return;
+    this.stored.updatedAt = new Date().toISOString();
+    if (this.currentUserId) localStorage.setItem(`${STORAGE_KEY}:${this.currentUserId}`, JSON.stringify(this.stored));
+    this.publishMetadata();
+    if (this.currentUserId && this.syncEnabledSubject.value) {
+      setDoc(doc(this.firestore, 'users', this.currentUserId), { credentialVault: this.stored }, { merge: true })
+        .catch(e => console.error('Failed to sync credential vault:', e));
+    }
+  }
+
+  /** Adopts the account copy when this browser has no vault or an older one. */
+  private async pullRemote(uid: string): Promise<void> {
+    try {
+      const snap = await getDoc(doc(this.firestore, 'users', uid));
+      const remote = snap.data()?.['credentialVault'] as StoredVault | undefined;
+      if (!remote?.check || !remote.salt || uid !== this.currentUserId) return;
+      if (this.stored && this.stored.updatedAt >= remote.updatedAt) return;
+
+      const previousKey = this.key;
+      this.stored = remote;
+      localStorage.setItem(`${STORAGE_KEY}:${uid}`, JSON.stringify(remote));
+      this.syncEnabledSubject.next(true);
+      this.saveSyncPreference();
+      this.publishMetadata();
+      // Keep the session open if the current key still fits (same passphrase on both machines)
+      if (!previousKey || !(await this.openWith(previousKey))) this.lock();
+    } catch (e) {
+      console.error('Failed to load synced credential vault:', e);
+    }
+  }
+
+  private readStored(uid: string): StoredVault | null {
+    try {
+      // Vaults from before per-account keys belong to whoever signs in first
+      const unscoped = localStorage.getItem(STORAGE_KEY);
+      if (unscoped && !localStorage.getItem(`${STORAGE_KEY}:${uid}`)) {
+        localStorage.setItem(`${STORAGE_KEY}:${uid}`, unscoped);
+        localStorage.setItem(`${SYNC_PREF_KEY}:${uid}`, localStorage.getItem(SYNC_PREF_KEY) ?? 'false');
+        localStorage.removeItem(STORAGE_KEY);
+        localStorage.removeItem(SYNC_PREF_KEY);
+      }
+      const raw = localStorage.getItem(`${STORAGE_KEY}:${uid}`);
+      return raw ? JSON.parse(raw) as StoredVault : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private publishMetadata(): void {
+    const entries = Object.entries(this.stored?.entries ?? {});
+    this.metadataSubject.next(entries.map(([id, e]) => ({
+      id,
+      label: credentialLabel(id),
+      updatedAt: new Date(e.updatedAt),
+      expiresAt: e.expiresAt ? new Date(e.expiresAt) : null
+    })));
+  }
+
+  private updateSecrets(mutate: (secrets: Map<string, string>) => void): void {
+    const next = new Map(this.secretsSubject.value);
+    mutate(next);
+    this.secretsSubject.next(next);
+  }
+
+  /** Every token still sitting in a pre-vault plain-text key, ADO PATs included. */
+  private collectLegacy(): Map<string, string> {
+    const found = new Map<string, string>();
+    for (const [id, storageKey] of Object.entries(LEGACY_KEYS)) {
+      const value = localStorage.getItem(storageKey!);
+      if (value) found.set(id, value);
+    }
+    for (let i = 0; i < localStorage.length; i++) {
+      const storageKey = localStorage.key(i);
+      const value = storageKey?.startsWith(UNPROTECTED_KEY_PREFIX) ? localStorage.getItem(storageKey) : null;
+      if (value) found.set(storageKey!.slice(UNPROTECTED_KEY_PREFIX.length), value);
+    }
+    try {
+      const projects = JSON.parse(localStorage.getItem(LEGACY_ADO_PROJECTS_KEY) ?? '[]');
+      for (const p of Array.isArray(projects) ? projects : []) {
+        if (p?.id && p.personalAccessToken) found.set(adoPatId(p.id), p.personalAccessToken);
+      }
+      const config = JSON.parse(localStorage.getItem(LEGACY_ADO_CONFIG_KEY) ?? 'null');
+      if (config?.pat) found.set(ADO_LEGACY_CONFIG_PAT, config.pat);
+    } catch (e) {
+      console.warn('Could not read legacy ADO credentials:', e);
+    }
+    return found;
+  }
+
+  private scrubLegacy(): void {
+    const unprotected = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => !!key?.startsWith(UNPROTECTED_KEY_PREFIX));
+    for (const storageKey of [...Object.values(LEGACY_KEYS), ...unprotected]) {
+      localStorage.removeItem(storageKey!);
+    }
+    try {
+      const projects = JSON.parse(localStorage.getItem(LEGACY_ADO_PROJECTS_KEY) ?? 'null');
+      if (Array.isArray(projects)) {
+        localStorage.setItem(LEGACY_ADO_PROJECTS_KEY,
+          JSON.stringify(projects.map(p => ({ ...p, personalAccessToken: '' }))));
+      }
+      const config = JSON.parse(localStorage.getItem(LEGACY_ADO_CONFIG_KEY) ?? 'null');
+      if (config?.pat) {
+        const { pat: _pat, ...rest } = config;
+        localStorage.setItem(LEGACY_ADO_CONFIG_KEY, JSON.stringify(rest));
+      }
+    } catch (e) {
+      console.warn('Could not scrub legacy ADO credentials:', e);
+    }
+  }
+
+  // ── WebCrypto ────────────────────────────────────────────────
+
+  private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encryptEntry(key: CryptoKey, id: string, value: string, expiresAt: Date | null): Promise<StoredEntry> {
+    return {
+      ...(await this.encrypt(key, value, id)),
+      updatedAt: new Date().toISOString(),
+      expiresAt: expiresAt?.toISOString() ?? null
+    };
+  }
+
+  /** The credential id is bound in as associated data, so ciphertexts can't be swapped between ids. */
+  private async encrypt(key: CryptoKey, plaintext: string, id: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(key: CryptoKey, value: EncryptedValue, id: string): Promise<string> {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(value.iv), additionalData: new TextEncoder().encode(id) },
+      key,
+      fromBase64(value.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+/** Where a credential is kept in plain text while there is no vault. */
+function plainKeyFor(id: CredentialId): string {
+  return LEGACY_KEYS[id] ?? `${UNPROTECTED_KEY_PREFIX}${id}`;
+}
+
+function jwtExpiry(token: string): Date | null {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof decoded.exp === 'number' ? new Date(decoded.exp * 1000) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
@@ -0,0 +1,260 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, firstValueFrom, timer } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  Firestore, collection, doc, onSnapshot, orderBy, query, runTransaction, serverTimestamp,
+  setDoc, updateDoc, Timestamp
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { AiService, ChatMessage } from './ai.service';
+import { DashboardContextService } from './dashboard-context.service';
+import { dayKey } from './local-date';
+
+/** The Ask AI widget's Daily Summary skill; the briefing stores its answer each morning. */
+export const DAILY_SUMMARY_PROMPT = `Give me a motivational daily briefing based on my dashboard data. Start with a casual, energizing greeting (use some bro-speak). Then provide:
+      1. A 1-2 sentence overview of my day
+      2. My top 3-5 priorities to focus on
+      3. A one-line callout if any of today's tasks connect to my yearly goals
+
+      When referencing work items, make them clickable markdown links. Keep it concise and actionable. Respond in plain markdown (no JSON).`;
+
+/** The Ask AI widget's Scrum Update skill. */
+export const SCRUM_UPDATE_PROMPT = `Based on my recent journal entries, write a brief scrum standup update (3-5 sentences, flowing prose, no bullet points) covering what I've been working on, any progress, and any blockers. Make it natural and ready to read aloud. Just the update text, nothing else.`;
+
+/** When the briefing is generated: local time on the chosen weekdays (0 = Sunday). */
+export interface BriefingSchedule {
+  enabled: boolean;
+  /** `HH:mm`, 24-hour. */
+  time: string;
+  days: number[];
+}
+
+export type BriefingStatus = 'generating' | 'ready' | 'failed';
+
+export interface DailyBriefing {
+  /** Local calendar day, `YYYY-MM-DD`; also the document id. */
+  date: string;
+  status: BriefingStatus;
+  summary: string;
+  scrum: string;
+  model: string;
+  generatedAt: Date | null;
+  error: string | null;
+}
+
+const DEFAULT_SCHEDULE: BriefingSchedule = { enabled: false, time: '08:30', days: [1, 2, 3, 4, 5] };
+
+/** How often an open tab checks whether today's briefing is due. */
+const CHECK_INTERVAL_MS = 60_000;
+/** Wait after sign-in before the first check, so tasks, journal and calendar have loaded. */
+const SETTLE_DELAY_MS = 20_000;
+/** A claim older than this belongs to a tab that closed mid-generation and may be taken over. */
+const STALE_CLAIM_MS = 10 * 60_000;
+
+/**
+ * Generates the Daily Summary and Scrum Update once per scheduled day and keeps them under
+ * `users/{uid}/dailyBriefings/{YYYY-MM-DD}`, so opening the dashboard reads the stored copy
+ * instead of calling the model again.
+ *
+ * There is no server, so the schedule runs in whichever tab is open at or after the set time.
+ * A tab claims the day through a transaction before calling the model, which keeps several
+ * open tabs from generating the same briefing.
+ */
+@Injectable({ providedIn: 'root' })
+export class DailyBriefingService {
+  private scheduleSubject = new BehaviorSubject<BriefingSchedule>(DEFAULT_SCHEDULE);
+  readonly schedule$: Observable<BriefingSchedule> = this.scheduleSubject.asObservable();
+
+  private briefingsSubject = new BehaviorSubject<DailyBriefing[]>([]);
+  /** Every stored briefing, newest day first. */
+  readonly briefings$: Observable<DailyBriefing[]> = this.briefingsSubject.asObservable();
+
+  private scheduleLoaded = new BehaviorSubject<boolean>(false);
+  private briefingsLoaded = new BehaviorSubject<boolean>(false);
+
+  /** Claim times by day, for telling a live claim from an abandoned one. */
+  private claimedAt = new Map<string, Date>();
+  private generating = false;
+  private unsubscribers: (() => void)[] = [];
+  private currentUserId: string | null = null;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private aiService: AiService,
+    private dashboardContext: DashboardContextService
+  ) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeSchedule(firebaseUser.uid);
+        this.subscribeBriefings(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+      }
+    });
+
+    combineLatest([timer(SETTLE_DELAY_MS, CHECK_INTERVAL_MS), this.scheduleLoaded, this.briefingsLoaded]).pipe(
+      filter(([, scheduleReady, briefingsReady]) => scheduleReady && briefingsReady)
+    ).subscribe(() => this.checkSchedule());
+  }
+
+  private briefingsCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/dailyBriefings`);
+  }
+
+  private scheduleDocRef(uid: string) {
+    return doc(this.firestore, `users/${uid}/settings/dailyBriefing`);
+  }
+
+  private subscribeSchedule(uid: string): void {
+    this.unsubscribers.push(onSnapshot(this.scheduleDocRef(uid), snap => {
+      const data = snap.data();
+      this.scheduleSubject.next({
+        enabled: data?.['enabled'] ?? DEFAULT_SCHEDULE.enabled,
+        time: data?.['time'] ?? DEFAULT_SCHEDULE.time,
+        days: data?.['days'] ?? DEFAULT_SCHEDULE.days
+      });
+      this.scheduleLoaded.next(true);
+    }, e => console.error('Failed to listen to daily briefing schedule:', e)));
+  }
+
+  private subscribeBriefings(uid: string): void {
+    const q = query(this.briefingsCollectionRef(uid), orderBy('date', 'desc'));
+    this.unsubscribers.push(onSnapshot(q, snapshot => {
+      this.claimedAt.clear();
+      this.briefingsSubject.next(snapshot.docs.map(d => {
+        const data = d.data();
+        const claimedAt = (data['claimedAt'] as Timestamp)?.toDate();
+        if (claimedAt) this.claimedAt.set(d.id, claimedAt);
+        return {
+          date: d.id,
+          status: data['status'] ?? 'ready',
+          summary: data['summary'] ?? '',
+          scrum: data['scrum'] ?? '',
+          model: data['model'] ?? '',
+          generatedAt: (data['generatedAt'] as Timestamp)?.toDate() ?? null,
+          error: data['error'] ?? null
+        };
+      }));
+      this.briefingsLoaded.next(true);
+    }, e => console.error('Failed to listen to daily briefings:', e)));
+  }
+
+  private cleanup(): void {
+    this.unsubscribers.forEach(unsub => unsub());
+    this.unsubscribers = [];
+    this.claimedAt.clear();
+    this.scheduleSubject.next(DEFAULT_SCHEDULE);
+    this.briefingsSubject.next([]);
+    this.scheduleLoaded.next(false);
+    this.briefingsLoaded.next(false);
+  }
+
+  getSchedule(): BriefingSchedule {
+    return this.scheduleSubject.value;
+  }
+
+  async saveSchedule(schedule: BriefingSchedule): Promise<void> {
+    if (!this.currentUserId) return;
+    await setDoc(this.scheduleDocRef(this.currentUserId), schedule);
+  }
+
+  /** Today's scheduled time, or null when today is not a briefing day. */
+  scheduledTimeToday(now = new Date()): Date | null {
+    const { enabled, time, days } = this.scheduleSubject.value;
+    if (!enabled || !days.includes(now.getDay())) return null;
+    const [hours, minutes] = time.split(':').map(Number);
+    const due = new Date(now);
+    due.setHours(hours || 0, minutes || 0, 0, 0);
+    return due;
+  }
+
+  /** Generate today's briefing now, replacing any stored copy. */
+  async generateNow(): Promise<void> {
+    const uid = this.currentUserId;
+    if (!uid || this.generating) return;
+    const date = dayKey(new Date());
+    if (await this.claim(uid, date, true)) await this.generate(uid, date);
+  }
+
+  private checkSchedule(): void {
+    const uid = this.currentUserId;
+    if (!uid || this.generating || !this.aiService.isConfigured('ask')) return;
+    const now = new Date();
+    const due = this.scheduledTimeToday(now);
+    if (!due || now < due) return;
+
+    const date = dayKey(now);
+    const existing = this.briefingsSubject.value.find(b => b.date === date);
+    if (existing && !this.isAbandoned(existing)) return;
+
+    this.claim(uid, date, false)
+      .then(claimed => claimed ? this.generate(uid, date) : undefined)
+      .catch(e => console.error('Failed to generate the daily briefing:', e));
+  }
+
+  private isAbandoned(briefing: DailyBriefing): boolean {
+    const claimedAt = this.claimedAt.get(briefing.date);
+    return briefing.status === 'generating' && !!claimedAt && Date.now() - claimedAt.getTime() > STALE_CLAIM_MS;
+  }
+
+  /**
+   * Mark the day as being generated by this tab. Unless `force` is set, only succeeds when
+   * nothing is stored for the day yet or another tab's claim has gone stale.
+   */
+  private async claim(uid: string, date: string, force: boolean): Promise<boolean> {
+    const ref = doc(this.briefingsCollectionRef(uid), date);
+    return runTransaction(this.firestore, async tx => {
+      const snap = await tx.get(ref);
+      if (snap.exists() && !force) {
+        const data = snap.data();
+        const claimedAt = (data['claimedAt'] as Timestamp)?.toDate();
+        const stale = data['status'] === 'generating' && !!claimedAt && Date.now() - claimedAt.getTime() > STALE_CLAIM_MS;
+        if (!stale) return false;
+      }
+      tx.set(ref, {
+        date,
+        status: 'generating',
+        summary: snap.exists() ? snap.data()['summary'] ?? '' : '',
+        scrum: snap.exists() ? snap.data()['scrum'] ?? '' : '',
+        model: '',
+        error: null,
+        claimedAt: Timestamp.now()
+      });
+      return true;
+    });
+  }
+
+  private async generate(uid: string, date: string): Promise<void> {
+    const ref = doc(this.briefingsCollectionRef(uid), date);
+    this.generating = true;
+    try {
+      await this.dashboardContext.refreshCalendar()
+        .catch(e => console.error('Failed to load calendar for the daily briefing:', e));
+      const now = new Date();
+      const context = this.dashboardContext.build([
+        `You are a helpful AI assistant integrated into a personal work dashboard, writing the user's morning briefing.`,
+        `Today is ${now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}.`,
+        `Lists below may be cut short to fit.`
+      ]);
+      const history: ChatMessage[] = [{ role: 'system', content: context.text, timestamp: now }];
+      // One after the other, to keep within per-minute rate limits
+      const summary = await firstValueFrom(this.aiService.sendMessage('ask', DAILY_SUMMARY_PROMPT, history));
+      const scrum = await firstValueFrom(this.aiService.sendMessage('ask', SCRUM_UPDATE_PROMPT, history));
+      await updateDoc(ref, {
+        status: 'ready',
+        summary,
+        scrum,
+        model: this.aiService.getCurrentModel('ask'),
+        generatedAt: serverTimestamp(),
+        error: null
+      });
+    } catch (e: any) {
+      await updateDoc(ref, { status: 'failed', error: e?.message || 'Failed to generate the briefing.' });
+    } finally {
+      this.generating = false;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { AiFeature, AiService } from './ai.service';
+import { JournalEntry, JournalService } from './journal.service';
+import { Task, TaskService } from './task.service';
+import { actionableTasks } from './task-graph';
+import { Goal, GoalsService } from './goals.service';
+import { CoworkerService } from './coworker.service';
+import { CalendarEvent, MicrosoftCalendarService } from './microsoft-calendar.service';
+import {
+  WorkItemService, WorkItemSource, WORK_ITEM_SOURCE_LABELS, formatWorkItemForPrompt, isOpenWorkItem
+} from './work-item.service';
+import { AssembledContext, ContextSection, assembleContext, digestJournal, rankByRelevance } from './prompt-assembly';
+
+/** Journal entries this recent go into the context word for word; older days are condensed. */
+const JOURNAL_VERBATIM_DAYS = 3;
+const JOURNAL_CONTEXT_DAYS = 30;
+/** Days either side of today the calendar context covers. */
+const CALENDAR_CONTEXT_DAYS = 14;
+
+/**
+ * The user's dashboard data written up as a system prompt: tasks, journal, calendar, goals,
+ * work items and team, cut to the model's context budget. Shared by the Ask AI widget and the
+ * scheduled daily briefing so both see the same picture.
+ */
+@Injectable({ providedIn: 'root' })
+export class DashboardContextService {
+  private journalEntries: JournalEntry[] = [];
+  private goals: Goal[] = [];
+  private calendarEvents: CalendarEvent[] = [];
+
+  constructor(
+    private aiService: AiService,
+    private journalService: JournalService,
+    private taskService: TaskService,
+    private goalsService: GoalsService,
+    private calendarService: MicrosoftCalendarService,
+    private workItemService: WorkItemService,
+    private coworkerService: CoworkerService
+  ) {
+    this.journalService.entries$.subscribe(entries => (this.journalEntries = entries));
+    this.goalsService.goals$.subscribe(goals => (this.goals = goals));
+    this.calendarService.weekEvents$.subscribe(events => (this.calendarEvents = events));
+  }
+
+  /** Load the calendar window the context covers; resolves once the events are in. */
+  async refreshCalendar(): Promise<void> {
+    if (!this.calendarService.isConfigured()) return;
+    const start = new Date();
+    start.setDate(start.getDate() - CALENDAR_CONTEXT_DAYS);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date();
+    end.setDate(end.getDate() + CALENDAR_CONTEXT_DAYS);
+    end.setHours(23, 59, 59, 999);
+    await firstValueFrom(this.calendarService.getEventsForRange(start, end));
+  }
+
+  /**
+   * `instructions` followed by the dashboard data, cut to `feature`'s context budget. Items that
+   * share words with `query` and recent ones are kept first; older journal entries are condensed.
+   */
+  build(instructions: string[], query = '', feature: AiFeature = 'ask'): AssembledContext {
+    const now = new Date();
+    const { model, contextTokens } = this.aiService.getPromptBudget(feature);
+    const sections: ContextSection[] = [{ id: 'instructions', label: 'Instructions', items: instructions }];
+
+    // Journal
+    const journalSince = new Date(now);
+    journalSince.setDate(journalSince.getDate() - JOURNAL_CONTEXT_DAYS);
+    const verbatimSince = new Date(now);
+    verbatimSince.setDate(verbatimSince.getDate() - JOURNAL_VERBATIM_DAYS);
+    verbatimSince.setHours(0, 0, 0, 0);
+    const journal = digestJournal(this.journalEntries.filter(e => new Date(e.timestamp) >= journalSince), verbatimSince);
+    sections.push({
+      id: 'journal',
+      label: 'Journal',
+      heading: `## Journal (last ${JOURNAL_CONTEXT_DAYS} days; older days condensed)`,
+      items: rankByRelevance(journal, line => line, query).map(line => line.text),
+      priority: 2,
+      maxShare: 0.3
+    });
+
+    // Tasks
+    const tasks = this.taskService.getTasks();
+    // Blocked tasks stay out until their blockers are done, so they aren't suggested as next steps
+    const pending = actionableTasks(tasks);
+    const blocked = tasks.filter(t => !t.completed).length - pending.length;
+    const completed = tasks.filter(t => t.completed);
+    const formatTask = (t: Task): string => {
+      let line = `- [PENDING] ${t.title}`;
+      if (t.priority) line += ` [${t.priority}]`;
+      if (t.dueDate) {
+        const due = new Date(t.dueDate);
+        line += due < now ? ` (OVERDUE: ${due.toLocaleDateString()})` : ` (due ${due.toLocaleDateString()})`;
+      }
+      return line;
+    };
+    // Dated tasks always count as current; undated ones fade with age
+    const rankedPending = rankByRelevance(pending, t => ({ text: `${t.title} ${t.description ?? ''}`, timestamp: t.dueDate ? null : t.createdAt }), query);
+    const recentlyDone = [...completed]
+      .sort((a, b) => new Date(b.completedAt ?? 0).getTime() - new Date(a.completedAt ?? 0).getTime())
+      .slice(0, 5);
+    sections.push({
+      id: 'tasks',
+      label: 'Tasks',
+      heading: `## Tasks (${pending.length} pending, ${blocked ? `${blocked} blocked and not listed, ` : ''}${completed.length} done)`,
+      items: [
+        ...rankedPending.map(formatTask),
+        ...recentlyDone.map(t => `- [DONE] ${t.title}`)
+      ],
+      priority: 1,
+      maxShare: 0.3
+    });
+
+    // Calendar events
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const formatEvent = (e: CalendarEvent): string => {
+      const start = new Date(e.start.dateTime);
+      const end   = new Date(e.end.dateTime);
+      const dateStr = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+      const timeStr = start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+                    + '–' + end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+      let line = `- ${dateStr} ${timeStr}: ${e.subject}`;
+      if (e.location?.displayName) line += ` @ ${e.location.displayName}`;
+      if (e.isOnlineMeeting) line += ' [Online]';
+      if (e.showAs === 'free') line += ' [Free]';
+      return line;
+    };
+    const upcoming = this.calendarEvents.filter(e => new Date(e.start.dateTime) >= today);
+    const past = this.calendarEvents.filter(e => new Date(e.start.dateTime) < today).reverse();
+    const rankEvents = (events: CalendarEvent[]) =>
+      rankByRelevance(events, e => ({ text: e.subject, timestamp: null }), query).map(formatEvent);
+    sections.push({
+      id: 'calendar-upcoming',
+      label: 'Upcoming meetings',
+      heading: `## Outlook Calendar: upcoming (${upcoming.length})`,
+      items: rankEvents(upcoming),
+      priority: 2,
+      maxShare: 0.15
+    }, {
+      id: 'calendar-past',
+      label: 'Past meetings',
+      heading: `## Outlook Calendar: past (${past.length})`,
+      items: rankEvents(past),
+      priority: 4,
+      maxShare: 0.1
+    });
+
+    // Yearly goals, current year first
+    const currentYear = now.getFullYear();
+    const goals = [...this.goals].sort((a, b) => (b.year === currentYear ? 1 : 0) - (a.year === currentYear ? 1 : 0) || b.year - a.year);
+    sections.push({
+      id: 'goals',
+      label: 'Goals',
+      heading: `## Yearly Goals`,
+      items: goals.map(g => `- ${g.year}${g.year === currentYear ? ' (current year)' : ''}: ${g.title}${g.description ? ` — ${g.description}` : ''}`),
+      priority: 3,
+      maxShare: 0.1
+    });
+
+    // Open work items from every connected tracker
+    const openItems = this.workItemService.getWorkItems().filter(isOpenWorkItem);
+    (Object.keys(WORK_ITEM_SOURCE_LABELS) as WorkItemSource[]).forEach(source => {
+      const items = openItems.filter(w => w.source === source);
+      sections.push({
+        id: `work-${source}`,
+        label: WORK_ITEM_SOURCE_LABELS[source],
+        heading: `## ${WORK_ITEM_SOURCE_LABELS[source]} Work Items (${items.length} open)`,
+        items: rankByRelevance(items, w => ({ text: `${w.key} ${w.title} ${w.labels.join(' ')}`, timestamp: w.updatedAt }), query)
+          .map(formatWorkItemForPrompt),
+        priority: 2,
+        maxShare: 0.2
+      });
+    });
+
+    // Coworkers
+    const coworkers = this.coworkerService.getCoworkers();
+    if (coworkers.length > 0) {
+      const inHours = coworkers.filter(c => c.timezone && this.coworkerService.isWorkingHours(c.timezone)).length;
+      sections.push({ id: 'team', label: 'Team', items: [`## Team: ${inHours}/${coworkers.length} coworkers currently in office hours`] });
+    }
+
+    return assembleContext(sections.filter(section => section.items.length > 0), contextTokens, model);
+  }
+}
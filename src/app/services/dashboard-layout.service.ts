@@ -0,0 +1,272 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, map } from 'rxjs';
+import {
+  Firestore, collection, addDoc, deleteDoc, doc, onSnapshot, query, orderBy,
+  serverTimestamp, setDoc, updateDoc, Timestamp
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+
+export type DashboardWidgetId =
+  | 'calendar' | 'ask-ai' | 'ado' | 'linear' | 'mail' | 'teams' | 'slack' | 'github-prs'
+  | 'ai-priorities' | 'journal' | 'coworker-timezones' | 'timekeeping'
+  | 'news-ticker' | 'github-ai-chat' | 'daily-briefing';
+
+/** Catalog entry: what a widget is and how big it starts out. */
+export interface DashboardWidgetDefinition {
+  id: DashboardWidgetId;
+  title: string;
+  icon: string;
+  description: string;
+  defaultCols: number;
+  minCols: number;
+}
+
+/** One widget's slot in a layout. Array order is placement order; the grid flows left to right. */
+export interface DashboardWidgetPlacement {
+  widgetId: DashboardWidgetId;
+  /** Width in grid columns, 1–GRID_COLUMNS. */
+  cols: number;
+  /** Fixed height in GRID_ROW_HEIGHT units, or null to fit the widget's content. */
+  rows: number | null;
+  collapsed: boolean;
+}
+
+export interface DashboardLayout {
+  id: string;
+  name: string;
+  widgets: DashboardWidgetPlacement[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const GRID_COLUMNS = 12;
+export const GRID_ROW_HEIGHT = 40;
+export const MIN_GRID_ROWS = 3;
+
+export const DASHBOARD_WIDGETS: DashboardWidgetDefinition[] = [
+  { id: 'calendar',           title: 'Calendar timeline',  icon: 'fas fa-calendar-alt',   description: 'Outlook meetings and sprint days on one strip',  defaultCols: 12, minCols: 6 },
+  { id: 'ask-ai',             title: 'Ask AI',             icon: 'fas fa-robot',          description: 'AI prompt box, skills and quick actions',         defaultCols: 12, minCols: 6 },
+  { id: 'ado',                title: 'Azure DevOps',       icon: 'fas fa-tasks',          description: 'Work items assigned to you across projects',      defaultCols: 6,  minCols: 4 },
+  { id: 'linear',             title: 'Linear',             icon: 'fas fa-stream',         description: 'Your Linear issues for the active cycle',         defaultCols: 6,  minCols: 4 },
+  { id: 'mail',               title: 'Outlook Mail',       icon: 'fas fa-envelope',       description: 'Recent inbox messages',                            defaultCols: 6,  minCols: 4 },
+  { id: 'slack',              title: 'Slack',              icon: 'fab fa-slack',          description: 'Unread channels and recent messages',             defaultCols: 6,  minCols: 4 },
+  { id: 'teams',              title: 'Teams chat',         icon: 'fas fa-comments',       description: 'Recent Microsoft Teams chats',                    defaultCols: 12, minCols: 4 },
+  { id: 'github-prs',         title: 'Pull requests',      icon: 'fab fa-github',         description: 'Open GitHub pull requests for a repository',      defaultCols: 6,  minCols: 4 },
+  { id: 'daily-briefing',     title: 'Daily briefing',     icon: 'fas fa-sun',            description: 'AI morning summary and standup, generated on a schedule', defaultCols: 6, minCols: 4 },
+  { id: 'ai-priorities',      title: 'AI priorities',      icon: 'fas fa-list-ol',        description: 'AI-ranked summary of what to work on next',       defaultCols: 6,  minCols: 4 },
+  { id: 'journal',            title: 'Journal',            icon: 'fas fa-book',           description: 'Latest journal entries',                           defaultCols: 6,  minCols: 3 },
+  { id: 'coworker-timezones', title: 'Coworker timezones', icon: 'fas fa-globe',          description: 'Local time for teammates around the world',       defaultCols: 6,  minCols: 3 },
+  { id: 'timekeeping',        title: 'Timekeeping',        icon: 'fas fa-clock',          description: 'Time logged against tasks this week',             defaultCols: 6,  minCols: 4 },
+  { id: 'news-ticker',        title: 'News ticker',        icon: 'fas fa-newspaper',      description: 'Scrolling headlines',                              defaultCols: 12, minCols: 6 },
+  { id: 'github-ai-chat',     title: 'GitHub AI chat',     icon: 'fas fa-comment-dots',   description: 'Free-form chat with GitHub Models',               defaultCols: 6,  minCols: 4 }
+];
+
+/**
+ * localStorage flags the dashboard used to read before layouts existed. They only seed the
+ * first layout a user gets; after that the layout in Firestore is the source of truth.
+ */
+const LEGACY_VISIBILITY_KEYS: Partial<Record<DashboardWidgetId, string>> = {
+  ado: 'ado-widget-visible',
+  linear: 'linear-widget-visible',
+  mail: 'mail-widget-visible',
+  teams: 'teams-widget-visible',
+  slack: 'slack-widget-visible'
+};
+
+const DEFAULT_WIDGETS: DashboardWidgetId[] = ['calendar', 'ask-ai', 'ado', 'linear', 'mail', 'slack', 'teams'];
+
+export function getWidgetDefinition(id: DashboardWidgetId): DashboardWidgetDefinition | undefined {
+  return DASHBOARD_WIDGETS.find(w => w.id === id);
+}
+
+export function createPlacement(id: DashboardWidgetId): DashboardWidgetPlacement {
+  return { widgetId: id, cols: getWidgetDefinition(id)?.defaultCols ?? GRID_COLUMNS, rows: null, collapsed: false };
+}
+
+/** The stock layout, minus any widget the user had switched off under the old visibility toggles. */
+export function defaultPlacements(): DashboardWidgetPlacement[] {
+  return DEFAULT_WIDGETS
+    .filter(id => {
+      const key = LEGACY_VISIBILITY_KEYS[id];
+      return !key || localStorage.getItem(key) !== 'false';
+    })
+    .map(createPlacement);
+}
+
+/**
+ * Named, per-user dashboard layouts stored under `users/{uid}/dashboardLayouts`. The id of the
+ * layout in use lives on the user document so switching layouts follows the user across machines.
+ *
+ * `activeLayout$` always emits something renderable: before sign-in or the first snapshot it is an
+ * unsaved default, and a user with no layouts gets that default written as "Default".
+ */
+@Injectable({ providedIn: 'root' })
+export class DashboardLayoutService {
+  private layoutsSubject = new BehaviorSubject<DashboardLayout[]>([]);
+  public layouts$: Observable<DashboardLayout[]> = this.layoutsSubject.asObservable();
+
+  private activeLayoutIdSubject = new BehaviorSubject<string | null>(null);
+
+  public activeLayout$: Observable<DashboardLayout> = combineLatest([
+    this.layouts$,
+    this.activeLayoutIdSubject
+  ]).pipe(map(([layouts, activeId]) => this.resolveActive(layouts, activeId)));
+
+  private unsubscribeLayouts: (() => void) | null = null;
+  private unsubscribeUserDoc: (() => void) | null = null;
+  private currentUserId: string | null = null;
+  private seeding = false;
+
+  constructor(private firestore: Firestore, private auth: Auth) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeLayouts(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+        this.layoutsSubject.next([]);
+        this.activeLayoutIdSubject.next(null);
+      }
+    });
+  }
+
+  private collectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/dashboardLayouts`);
+  }
+
+  private subscribeLayouts(uid: string): void {
+    const q = query(this.collectionRef(uid), orderBy('createdAt', 'asc'));
+    this.unsubscribeLayouts = onSnapshot(q, snapshot => {
+      const layouts: DashboardLayout[] = snapshot.docs.map(d => ({
+        id: d.id,
+        name: d.data()['name'] ?? 'Untitled',
+        widgets: this.sanitizeWidgets(d.data()['widgets']),
+        createdAt: (d.data()['createdAt'] as Timestamp)?.toDate() ?? new Date(),
+        updatedAt: (d.data()['updatedAt'] as Timestamp)?.toDate() ?? new Date()
+      }));
+      this.layoutsSubject.next(layouts);
+      // An empty answer from the local cache may just mean the server hasn't replied yet
+      if (layouts.length === 0 && !snapshot.metadata.fromCache) {
+        this.seedDefaultLayout();
+      }
+    }, e => console.error('Failed to listen to dashboard layouts:', e));
+
+    this.unsubscribeUserDoc = onSnapshot(doc(this.firestore, 'users', uid), snap => {
+      this.activeLayoutIdSubject.next(snap.data()?.['activeDashboardLayoutId'] ?? null);
+    }, e => console.error('Failed to listen to active dashboard layout:', e));
+  }
+
+  private cleanup(): void {
+    if (this.unsubscribeLayouts) {
+      this.unsubscribeLayouts();
+      this.unsubscribeLayouts = null;
+    }
+    if (this.unsubscribeUserDoc) {
+      this.unsubscribeUserDoc();
+      this.unsubscribeUserDoc = null;
+    }
+  }
+
+  private async seedDefaultLayout(): Promise<void> {
+    if (this.seeding) return;
+    this.seeding = true;
+    try {
+      await this.createLayout('Default', defaultPlacements());
+    } finally {
+      this.seeding = false;
+    }
+  }
+
+  private resolveActive(layouts: DashboardLayout[], activeId: string | null): DashboardLayout {
+    return layouts.find(l => l.id === activeId) ?? layouts[0] ?? {
+      id: '',
+      name: 'Default',
+      widgets: defaultPlacements(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  /** Drops unknown widget ids and clamps sizes, so a layout saved by a newer build still renders. */
+  private sanitizeWidgets(raw: unknown): DashboardWidgetPlacement[] {
+    if (!Array.isArray(raw)) return [];
+    const seen = new Set<DashboardWidgetId>();
+    return raw
+      .filter((w: any) => {
+        const known = !!getWidgetDefinition(w?.widgetId) && !seen.has(w.widgetId);
+        if (known) seen.add(w.widgetId);
+        return known;
+      })
+      .map((w: any) => ({
+        widgetId: w.widgetId,
+        cols: Math.min(GRID_COLUMNS, Math.max(1, Math.round(w.cols) || GRID_COLUMNS)),
+        rows: typeof w.rows === 'number' ? Math.max(MIN_GRID_ROWS, Math.round(w.rows)) : null,
+        collapsed: !!w.collapsed
+      }));
+  }
+
+  getActiveLayout(): DashboardLayout {
+    return this.resolveActive(this.layoutsSubject.value, this.activeLayoutIdSubject.value);
+  }
+
+  async setActiveLayout(id: string): Promise<void> {
+    if (!this.currentUserId) return;
+    this.activeLayoutIdSubject.next(id);
+    await setDoc(doc(this.firestore, 'users', this.currentUserId), { activeDashboardLayoutId: id }, { merge: true });
+  }
+
+  /** Creates a layout and switches to it. Returns the new layout's id. */
+  async createLayout(name: string, widgets: DashboardWidgetPlacement[]): Promise<string | null> {
+    if (!this.currentUserId || !name.trim()) return null;
+    const now = serverTimestamp();
+    const ref = await addDoc(this.collectionRef(this.currentUserId), {
+      name: name.trim(),
+      widgets,
+      createdAt: now,
+      updatedAt: now
+    });
+    await this.setActiveLayout(ref.id);
+    return ref.id;
+  }
+
+  async renameLayout(id: string, name: string): Promise<void> {
+    if (!this.currentUserId || !id || !name.trim()) return;
+    const ref = doc(this.firestore, `users/${this.currentUserId}/dashboardLayouts/${id}`);
+    await updateDoc(ref, { name: name.trim(), updatedAt: Timestamp.now() });
+  }
+
+  /** Deletes a layout; the last remaining layout cannot be deleted. */
+  async deleteLayout(id: string): Promise<void> {
+    if (!this.currentUserId || this.layoutsSubject.value.length <= 1) return;
+    const ref = doc(this.firestore, `users/${this.currentUserId}/dashboardLayouts/${id}`);
+    await deleteDoc(ref);
+    if (this.activeLayoutIdSubject.value === id) {
+      const next = this.layoutsSubject.value.find(l => l.id !== id);
+      if (next) await this.setActiveLayout(next.id);
+    }
+  }
+
+  /**
+   * Replaces the widgets of the active layout. The local copy updates immediately so drags and
+   * resizes don't wait on the round trip; the snapshot listener then confirms it.
+   */
+  async saveWidgets(widgets: DashboardWidgetPlacement[]): Promise<void> {
+    const active = this.getActiveLayout();
+    if (!this.currentUserId || !active.id) return;
+    this.layoutsSubject.next(this.layoutsSubject.value.map(l => l.id === active.id ? { ...l, widgets } : l));
+    const ref = doc(this.firestore, `users/${this.currentUserId}/dashboardLayouts/${active.id}`);
+    await updateDoc(ref, { widgets, updatedAt: Timestamp.now() });
+  }
+
+  isWidgetVisible(id: DashboardWidgetId): boolean {
+    return this.getActiveLayout().widgets.some(w => w.widgetId === id);
+  }
+
+  /** Adds the widget to the end of the active layout, or removes it. */
+  async setWidgetVisible(id: DashboardWidgetId, visible: boolean): Promise<void> {
+    const widgets = this.getActiveLayout().widgets;
+    if (visible === widgets.some(w => w.widgetId === id)) return;
+    await this.saveWidgets(visible ? [...widgets, createPlacement(id)] : widgets.filter(w => w.widgetId !== id));
+  }
+}
@@ -0,0 +1,342 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, timer } from 'rxjs';
+import { filter, take } from 'rxjs/operators';
+import { Firestore, doc, onSnapshot, setDoc } from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { FocusInterruption, FocusSession, Task, TaskService } from './task.service';
+import { ToastService } from './toast.service';
+import { MicrosoftTeamsService } from './microsoft-teams.service';
+import { SlackService } from './slack.service';
+import { addDays, dayKey } from './local-date';
+
+/** Pomodoro lengths and what else focus mode should do while a focus period runs. */
+export interface FocusSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  /** Focus periods before a long break. */
+  cyclesBeforeLongBreak: number;
+  /** Start the next focus period when a break ends instead of waiting for the user. */
+  autoStartFocus: boolean;
+  /** Show as Do not disturb in Teams while focusing. */
+  teamsPresence: boolean;
+  /** Set the Slack status to "Focusing" while focusing. */
+  slackStatus: boolean;
+}
+
+export const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+  autoStartFocus: false,
+  teamsPresence: false,
+  slackStatus: false
+};
+
+/** `ready` waits for the user to start the next focus period after a break. */
+export type FocusPhase = 'focus' | 'short-break' | 'long-break' | 'ready';
+
+export interface FocusState {
+  taskId: string;
+  taskTitle: string;
+  phase: FocusPhase;
+  /** Focus periods finished in this run. */
+  cycles: number;
+  phaseStartedAt: number;
+  /** Null while `ready`. */
+  phaseEndsAt: number | null;
+  /** Interruptions noted during the current focus period. */
+  interruptions: { at: number; note: string | null }[];
+}
+
+export interface FocusDayStats {
+  /** Local day, `YYYY-MM-DD`. */
+  date: string;
+  seconds: number;
+  sessions: number;
+  /** Sessions that ran their full length. */
+  completed: number;
+  interruptions: number;
+}
+
+/** Running state is kept here so a reload picks the session up where it was, and other tabs follow along. */
+const STORAGE_KEY = 'focus-session';
+const SLACK_STATUS_TEXT = 'Focusing';
+const SLACK_STATUS_EMOJI = ':tomato:';
+/** A phase that ended longer ago than this ended while the app was closed or asleep, with nobody there for the next one. */
+const MISSED_PHASE_END_MS = 5 * 60_000;
+
+/** Focus totals for each of the last `days` days, oldest first, from every task's session log. */
+export function focusStatsByDay(tasks: Task[], days: number, now = new Date()): FocusDayStats[] {
+  const stats: FocusDayStats[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    stats.push({ date: dayKey(addDays(now, -i)), seconds: 0, sessions: 0, completed: 0, interruptions: 0 });
+  }
+  const byDate = new Map(stats.map(s => [s.date, s]));
+  for (const session of tasks.flatMap(t => t.focusSessions ?? [])) {
+    const day = byDate.get(dayKey(session.startedAt));
+    if (!day) continue;
+    day.seconds += session.seconds;
+    day.sessions++;
+    if (session.completed) day.completed++;
+    day.interruptions += session.interruptions.length;
+  }
+  return stats;
+}
+
+/**
+ * Pomodoro focus mode on top of task time tracking: a focus period runs the task's timer,
+ * then a short break, with a long break after every few periods. Each focus period is logged
+ * on the task with its interruptions, and a toast says when to break and when to resume.
+ * Teams presence and Slack status can be set for the length of each focus period.
+ *
+ * Open tabs share the running session through localStorage; whichever tab's timer fires first
+ * moves the session on and the others adopt the new state.
+ */
+@Injectable({ providedIn: 'root' })
+export class FocusService {
+  private settingsSubject = new BehaviorSubject<FocusSettings>(DEFAULT_FOCUS_SETTINGS);
+  readonly settings$: Observable<FocusSettings> = this.settingsSubject.asObservable();
+
+  private stateSubject = new BehaviorSubject<FocusState | null>(null);
+  /** The running session, or null when focus mode is off. */
+  readonly state$: Observable<FocusState | null> = this.stateSubject.asObservable();
+
+  private phaseTimer: Subscription | null = null;
+  private unsubscribeSettings: (() => void) | null = null;
+  private currentUserId: string | null = null;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private taskService: TaskService,
+    private toastService: ToastService,
+    private teamsService: MicrosoftTeamsService,
+    private slackService: SlackService
+  ) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeSettings(firebaseUser.uid);
+        this.restore();
+      } else {
+        this.currentUserId = null;
+        if (this.stateSubject.value) this.setState(null);
+      }
+    });
+
+    window.addEventListener('storage', event => {
+      if (event.key === STORAGE_KEY) this.adopt(event.newValue);
+    });
+  }
+
+  private settingsDocRef(uid: string) {
+    return doc(this.firestore, `users/${uid}/settings/focus`);
+  }
+
+  private subscribeSettings(uid: string): void {
+    this.unsubscribeSettings = onSnapshot(this.settingsDocRef(uid), snap => {
+      this.settingsSubject.next({ ...DEFAULT_FOCUS_SETTINGS, ...(snap.data() ?? {}) });
+    }, e => console.error('Failed to listen to focus settings:', e));
+  }
+
+  private cleanup(): void {
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+    this.phaseTimer?.unsubscribe();
+    this.phaseTimer = null;
+  }
+
+  async saveSettings(settings: FocusSettings): Promise<void> {
+    if (!this.currentUserId) return;
+    await setDoc(this.settingsDocRef(this.currentUserId), settings);
+  }
+
+  getSettings(): FocusSettings {
+    return this.settingsSubject.value;
+  }
+
+  getState(): FocusState | null {
+    return this.stateSubject.value;
+  }
+
+  // ── Controls ───────────────────────────────────────────────────
+
+  /** Starts focusing on a task, ending any session on another task first. */
+  start(task: Task): void {
+    const current = this.stateSubject.value;
+    if (current?.taskId === task.id && current.phase === 'focus') return;
+    if (current && current.taskId !== task.id) this.stop();
+    const cycles = current?.taskId === task.id ? current.cycles : 0;
+    this.startFocus(task.id, task.title, cycles);
+  }
+
+  /** Starts the next focus period after a break, or cuts the break short. */
+  resume(): void {
+    const state = this.stateSubject.value;
+    if (!state || state.phase === 'focus') return;
+    this.startFocus(state.taskId, state.taskTitle, state.cycles);
+  }
+
+  /** Notes that the current focus period was interrupted. */
+  interrupt(note: string | null = null): void {
+    const state = this.stateSubject.value;
+    if (!state || state.phase !== 'focus') return;
+    this.setState({ ...state, interruptions: [...state.interruptions, { at: Date.now(), note: note?.trim() || null }] });
+  }
+
+  /** Ends focus mode; a focus period in progress is logged as stopped early. */
+  stop(): void {
+    const state = this.stateSubject.value;
+    if (!state) return;
+    if (state.phase === 'focus') this.endFocus(state, Date.now(), false);
+    this.setState(null);
+  }
+
+  // ── Phases ─────────────────────────────────────────────────────
+
+  private startFocus(taskId: string, taskTitle: string, cycles: number): void {
+    const minutes = this.settingsSubject.value.focusMinutes;
+    const now = Date.now();
+    this.taskService.startTimeTracking(taskId, 'focus');
+    this.setState({
+      taskId, taskTitle, phase: 'focus', cycles,
+      phaseStartedAt: now, phaseEndsAt: now + minutes * 60_000, interruptions: []
+    });
+    this.setAvailability(new Date(now + minutes * 60_000));
+  }
+
+  /** Starts the break after focus period number `cycles`; returns its length in minutes. */
+  private startBreak(state: FocusState, cycles: number, from: number): number {
+    const settings = this.settingsSubject.value;
+    const long = cycles % settings.cyclesBeforeLongBreak === 0;
+    const minutes = long ? settings.longBreakMinutes : settings.shortBreakMinutes;
+    this.setState({
+      ...state, phase: long ? 'long-break' : 'short-break', cycles,
+      phaseStartedAt: from, phaseEndsAt: from + minutes * 60_000, interruptions: []
+    });
+    return minutes;
+  }
+
+  private onPhaseEnd(state: FocusState): void {
+    // Another tab got here first and has already moved the session on
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored !== JSON.stringify(state)) {
+      this.adopt(stored);
+      return;
+    }
+
+    const endedAt = state.phaseEndsAt ?? Date.now();
+    if (Date.now() - endedAt > MISSED_PHASE_END_MS) {
+      this.endMissedPhase(state, endedAt);
+      return;
+    }
+    if (state.phase === 'focus') {
+      this.endFocus(state, endedAt, true);
+      const cycles = state.cycles + 1;
+      const minutes = this.startBreak(state, cycles, endedAt);
+      this.toastService.show(
+        `Take a ${minutes}-minute break. That's ${cycles} focus session${cycles === 1 ? '' : 's'} on "${state.taskTitle}".`,
+        'success', 'Focus session done', 0,
+        [{ label: 'Skip break', style: 'ghost', handler: id => { this.toastService.dismiss(id); this.resume(); } }]
+      );
+    } else if (this.settingsSubject.value.autoStartFocus) {
+      this.startFocus(state.taskId, state.taskTitle, state.cycles);
+      this.toastService.info(`Back to "${state.taskTitle}".`, 'Break over');
+    } else {
+      this.setState({ ...state, phase: 'ready', phaseStartedAt: endedAt, phaseEndsAt: null });
+      this.toastService.show(`Ready for the next focus session on "${state.taskTitle}"?`, 'info', 'Break over', 0, [
+        { label: 'Start focusing', style: 'primary', handler: id => { this.toastService.dismiss(id); this.resume(); } },
+        { label: 'Stop', style: 'ghost', handler: id => { this.toastService.dismiss(id); this.stop(); } }
+      ]);
+    }
+  }
+
+  /**
+   * Ends the session quietly when its phase ran out long ago: the focus period is logged as it was
+   * planned, but the break and any focus period after it never happened, so nothing is started.
+   */
+  private endMissedPhase(state: FocusState, endedAt: number): void {
+    if (state.phase === 'focus') this.endFocus(state, endedAt, true);
+    this.setState(null);
+    const time = new Date(endedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const logged = state.phase === 'focus' ? ' The focus session was logged.' : '';
+    this.toastService.info(`Focus mode on "${state.taskTitle}" ended at ${time} while you were away.${logged}`, 'Focus mode');
+  }
+
+  /** Logs the focus period on the task and stops its timer when the period ended, which may be before a reload. */
+  private endFocus(state: FocusState, endedAt: number, completed: boolean): void {
+    this.taskService.stopTimeTracking(state.taskId, new Date(endedAt));
+    const interruptions: FocusInterruption[] = state.interruptions.map(i => ({ at: new Date(i.at), note: i.note }));
+    const session: FocusSession = {
+      startedAt: new Date(state.phaseStartedAt),
+      endedAt: new Date(endedAt),
+      seconds: Math.max(0, Math.round((endedAt - state.phaseStartedAt) / 1000)),
+      plannedMinutes: Math.round(((state.phaseEndsAt ?? endedAt) - state.phaseStartedAt) / 60_000),
+      completed,
+      interruptions
+    };
+    if (session.seconds > 0) this.taskService.addFocusSession(state.taskId, session);
+    this.setAvailability(null);
+  }
+
+  private setState(state: FocusState | null, persist = true): void {
+    this.phaseTimer?.unsubscribe();
+    this.phaseTimer = null;
+    if (state?.phaseEndsAt) {
+      const ending = state;
+      this.phaseTimer = timer(Math.max(0, state.phaseEndsAt - Date.now())).subscribe(() => this.onPhaseEnd(ending));
+    }
+    if (persist && state) localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    else if (persist) localStorage.removeItem(STORAGE_KEY);
+    this.stateSubject.next(state);
+  }
+
+  /** Follows the session as stored by another tab. */
+  private adopt(stored: string | null): void {
+    try {
+      this.setState(stored ? JSON.parse(stored) as FocusState : null, false);
+    } catch {
+      this.setState(null, false);
+    }
+  }
+
+  /**
+   * Picks up a session left running by a reload once its task has loaded, so phases that ended
+   * meanwhile can be logged and the timer stopped. A session whose phase ended long ago is ended
+   * rather than replayed; see `endMissedPhase`.
+   */
+  private restore(): void {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored || this.stateSubject.value) return;
+    let state: FocusState;
+    try {
+      state = JSON.parse(stored);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+    this.taskService.tasks$.pipe(
+      filter(tasks => tasks.some(t => t.id === state.taskId)),
+      take(1)
+    ).subscribe(() => this.adopt(localStorage.getItem(STORAGE_KEY)));
+  }
+
+  // ── Presence ───────────────────────────────────────────────────
+
+  /** Marks the user as focusing until `until`, or back to normal with null. */
+  private setAvailability(until: Date | null): void {
+    const settings = this.settingsSubject.value;
+    const minutes = until ? (until.getTime() - Date.now()) / 60_000 : 0;
+    if (settings.teamsPresence) {
+      (until ? this.teamsService.setFocusPresence(minutes) : this.teamsService.clearFocusPresence())
+        .subscribe({ error: e => this.toastService.warning(e?.message ?? 'Could not update Teams presence.', 'Focus mode') });
+    }
+    if (settings.slackStatus) {
+      this.slackService.setStatus(until ? SLACK_STATUS_TEXT : '', SLACK_STATUS_EMOJI, until)
+        .subscribe({ error: e => this.toastService.warning(e?.message ?? 'Could not update Slack status.', 'Focus mode') });
+    }
+  }
+}
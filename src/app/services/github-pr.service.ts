@@ -2,6 +2,8 @@ import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders, HttpErrorResponse } from '@angular/common/http';
 import { BehaviorSubject, Observable, of, Subject, forkJoin } from 'rxjs';
 import { catchError, map, tap } from 'rxjs/operators';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
+import { CredentialVaultService } from './credential-vault.service';
 
 export interface GitHubUser {
   login: string;
@@ -74,10 +76,10 @@ export interface DiagnosticInfo {
   resolvedUsername: string | null;
 }
 
-const STORAGE_KEY = 'github-pr-token';
 const STORAGE_USERNAME_KEY = 'github-pr-username';
 const STORAGE_ORG_KEY = 'github-pr-org';
 const STORAGE_REPO_KEY = 'github-pr-repo';
+const CACHE_KEY = 'github:prs';
 
 @Injectable({
   providedIn: 'root'
@@ -119,8 +121,33 @@ export class GitHubPrService {
   private linkedPrStatusesSubject = new BehaviorSubject<Map<number, PrReviewState>>(new Map());
   public linkedPrStatuses$ = this.linkedPrStatusesSubject.asObservable();
 
-  constructor(private http: HttpClient) {
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  public syncState$ = this.syncStateSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private offlineCache: OfflineCacheService,
+    private vault: CredentialVaultService
+  ) {
     this.loadConfiguration();
+    this.vault.secret$('github-pr').subscribe(token => {
+      // initialize() and clearConfiguration() have already applied their own changes
+      if ((token ?? '') === this.token) return;
+      this.token = token ?? '';
+      this.connectedSubject.next(!!this.token);
+      if (this.token) {
+        this.restoreFromCache();
+        this.verifyStoredToken();
+      }
+    });
+  }
+
+  /** Shows the last good PR list until the first fetch completes. */
+  private async restoreFromCache(): Promise<void> {
+    const cached = await this.offlineCache.read<GitHubPullRequest[]>(CACHE_KEY);
+    if (!cached || this.syncStateSubject.value.lastSyncedAt) return;
+    this.prsSubject.next(cached.data);
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
   }
 
   // ── Configuration ────────────────────────────────────────────
@@ -157,12 +184,14 @@ export class GitHubPrService {
   clearConfiguration(): void {
     this.token = '';
     this.username = '';
-    localStorage.removeItem(STORAGE_KEY);
+    this.vault.remove('github-pr');
     localStorage.removeItem(STORAGE_USERNAME_KEY);
     this.connectedSubject.next(false);
     this.verifiedUsernameSubject.next(null);
     this.prsSubject.next([]);
     this.errorSubject.next(null);
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(CACHE_KEY);
   }
 
   isConfigured(): boolean {
@@ -241,42 +270,42 @@ export class GitHubPrService {
   }
 
   private saveConfiguration(): void {
-    localStorage.setItem(STORAGE_KEY, this.token);
+    this.vault.set('github-pr', this.token)
+      .catch(e => console.error('Failed to save GitHub token:', e));
     localStorage.setItem(STORAGE_USERNAME_KEY, this.username);
   }
 
   private loadConfiguration(): void {
-    this.token = localStorage.getItem(STORAGE_KEY) || '';
     this.username = localStorage.getItem(STORAGE_USERNAME_KEY) || '';
     this.org = localStorage.getItem(STORAGE_ORG_KEY) || '';
     this.repo = localStorage.getItem(STORAGE_REPO_KEY) || '';
-    this.connectedSubject.next(!!this.token);
-
-    if (this.token) {
-      // Immediately populate diagnostics with whatever is stored, then re-verify
-      this.verifiedUsernameSubject.next(this.username || null);
-      this.diagnosticSubject.next({ ...this.diagnosticSubject.value, resolvedUsername: this.username || '(verifying…)' });
-
-      // Verify actual identity from the token — corrects a wrong/missing stored username
-      this.fetchAuthenticatedUser().subscribe({
-        next: user => {
-          this.username = user.login;
-          localStorage.setItem(STORAGE_USERNAME_KEY, this.username);
-          this.verifiedUsernameSubject.next(user.login);
-          this.diagnosticSubject.next({ ...this.diagnosticSubject.value, resolvedUsername: user.login });
-        },
-        error: (err: HttpErrorResponse) => {
-          const status = err?.status ?? null;
-          const msg = err?.error?.message ?? null;
-          this.diagnosticSubject.next({
-            ...this.diagnosticSubject.value,
-            resolvedUsername: `ERROR ${status ?? '?'}${msg ? ': ' + msg : ''}`,
-            httpStatus: status,
-            httpMessage: msg
-          });
-        }
-      });
-    }
+  }
+
+  /** Runs when a saved token becomes available (at startup, or once the vault unlocks). */
+  private verifyStoredToken(): void {
+    // Immediately populate diagnostics with whatever is stored, then re-verify
+    this.verifiedUsernameSubject.next(this.username || null);
+    this.diagnosticSubject.next({ ...this.diagnosticSubject.value, resolvedUsername: this.username || '(verifying…)' });
+
+    // Verify actual identity from the token — corrects a wrong/missing stored username
+    this.fetchAuthenticatedUser().subscribe({
+      next: user => {
+        this.username = user.login;
+        localStorage.setItem(STORAGE_USERNAME_KEY, this.username);
+        this.verifiedUsernameSubject.next(user.login);
+        this.diagnosticSubject.next({ ...this.diagnosticSubject.value, resolvedUsername: user.login });
+      },
+      error: (err: HttpErrorResponse) => {
+        const status = err?.status ?? null;
+        const msg = err?.error?.message ?? null;
+        this.diagnosticSubject.next({
+          ...this.diagnosticSubject.value,
+          resolvedUsername: `ERROR ${status ?? '?'}${msg ? ': ' + msg : ''}`,
+          httpStatus: status,
+          httpMessage: msg
+        });
+      }
+    });
   }
 
   // ── HTTP helpers ─────────────────────────────────────────────
@@ -341,6 +370,8 @@ export class GitHubPrService {
         tap(prs => {
           this.prsSubject.next(prs);
           this.loadingSubject.next(false);
+          this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+          this.offlineCache.write(CACHE_KEY, prs);
         }),
         catchError(err => {
           const httpErr = err as HttpErrorResponse;
@@ -357,6 +388,26 @@ export class GitHubPrService {
       );
   }
 
+  /**
+   * Pull requests the user authored that were merged on or after `since`, newest first.
+   * Unlike fetchPullRequests this leaves the widget's list alone.
+   */
+  fetchMergedPullRequests(since: Date): Observable<GitHubPullRequest[]> {
+    if (!this.token) return of([]);
+
+    const actor = this.username || '@me';
+    const orgClause = this.org ? ` org:${this.org}` : '';
+    const query = `is:pr is:merged author:${actor}${orgClause} merged:>=${since.toISOString().split('T')[0]}`;
+    const url = `${this.apiBase}/search/issues?q=${encodeURIComponent(query)}&per_page=100&sort=updated&order=desc`;
+
+    return this.http
+      .get<GitHubSearchResult>(url, { headers: this.headers() })
+      .pipe(
+        map(result => this.normalizeSearchItems(result.items)
+          .sort((a, b) => (b.merged_at ?? '').localeCompare(a.merged_at ?? '')))
+      );
+  }
+
   /**
    * The Search API returns issues/PRs. Normalize into GitHubPullRequest shape
    * and add the repository info parsed from repository_url.
@@ -368,6 +419,8 @@ export class GitHubPrService {
         ...item,
         state: item.state as 'open' | 'closed',
         draft: item.draft ?? false,
+        // Search results carry the merge time under pull_request
+        merged_at: item.merged_at ?? item.pull_request?.merged_at ?? null,
         assignees: item.assignees ?? [],
         requested_reviewers: item.requested_reviewers ?? [],
         labels: item.labels ?? [],
@@ -401,50 +454,56 @@ export class GitHubPrService {
     const current = this.linkedPrStatusesSubject.value;
     if (current.has(prNumber)) return; // already fetched
 
-    const base = `${this.apiBase}/repos/${owner}/${repoName}`;
-    forkJoin({
+    this.fetchPullRequestStatus(`${owner}/${repoName}`, prNumber).subscribe(result => {
+      if (!result) return;
+      const updated = new Map(this.linkedPrStatusesSubject.value);
+      updated.set(prNumber, result.state);
+      this.linkedPrStatusesSubject.next(updated);
+    });
+  }
+
+  /**
+   * A PR in any repository (`owner/repo`) with its effective review state, or null when it
+   * can't be fetched. Nothing is cached.
+   */
+  fetchPullRequestStatus(repoFullName: string, prNumber: number): Observable<{ pr: GitHubPullRequest; state: PrReviewState } | null> {
+    if (!this.token) return of(null);
+    const base = `${this.apiBase}/repos/${repoFullName}`;
+    return forkJoin({
       pr: this.http.get<any>(`${base}/pulls/${prNumber}`, { headers: this.headers() }),
       reviews: this.http.get<any[]>(`${base}/pulls/${prNumber}/reviews`, { headers: this.headers() })
     }).pipe(
+      map(({ pr, reviews }) => ({
+        pr: { ...pr, repository: pr.base?.repo ?? { id: 0, name: '', full_name: repoFullName, html_url: '' } } as GitHubPullRequest,
+        state: this.reviewStateFrom(pr, reviews)
+      })),
       catchError(() => of(null))
-    ).subscribe(result => {
-      if (!result) return;
-      const { pr, reviews } = result;
-
-      let state: PrReviewState = 'unknown';
-
-      if (pr.merged_at) {
-        state = 'merged';
-      } else if (pr.state === 'closed') {
-        state = 'closed';
-      } else if (pr.draft) {
-        state = 'draft';
-      } else {
-        // Derive effective review decision from the reviews list:
-        // Take the last non-COMMENTED review per reviewer
-        const latest = new Map<string, string>();
-        for (const review of reviews) {
-          if (review.state !== 'COMMENTED') {
-            latest.set(review.user.login, review.state);
-          }
-        }
-        const states = Array.from(latest.values());
-        if (states.includes('CHANGES_REQUESTED')) {
-          state = 'changes-requested';
-        } else if ((pr.requested_reviewers?.length ?? 0) > 0) {
-          // There are still reviewers who haven't submitted a review yet
-          state = 'review-requested';
-        } else if (states.length > 0 && states.every(s => s === 'APPROVED')) {
-          // All requested reviewers have reviewed and all approved
-          state = 'approved';
-        } else {
-          state = 'open';
-        }
-      }
+    );
+  }
 
-      const updated = new Map(this.linkedPrStatusesSubject.value);
-      updated.set(prNumber, state);
-      this.linkedPrStatusesSubject.next(updated);
-    });
+  private reviewStateFrom(pr: any, reviews: any[]): PrReviewState {
+    if (pr.merged_at) return 'merged';
+    if (pr.state === 'closed') return 'closed';
+    if (pr.draft) return 'draft';
+
+    // Derive effective review decision from the reviews list:
+    // Take the last non-COMMENTED review per reviewer
+    const latest = new Map<string, string>();
+    for (const review of reviews) {
+      if (review.state !== 'COMMENTED') {
+        latest.set(review.user.login, review.state);
+      }
+    }
+    const states = Array.from(latest.values());
+    if (states.includes('CHANGES_REQUESTED')) {
+      return 'changes-requested';
+    } else if ((pr.requested_reviewers?.length ?? 0) > 0) {
+      // There are still reviewers who haven't submitted a review yet
+      return 'review-requested';
+    } else if (states.length > 0 && states.every(s => s === 'APPROVED')) {
+      // All requested reviewers have reviewed and all approved
+      return 'approved';
+    }
+    return 'open';
   }
-}
\ No newline at end of file
+}
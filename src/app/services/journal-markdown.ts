@@ -0,0 +1,94 @@
+/**
+ * Journal entries are written in Markdown: the formatting the editor toolbar applies to the
+ * selected text, and the `#hashtags` an entry is tagged with.
+ */
+
+// ── Tags ────────────────────────────────────────────────────────
+
+/**
+ * A `#tag` starting with a letter, so `#123` issue numbers aren't tags, and not inside a word,
+ * URL or HTML entity. Markdown headings have a space after the `#`, so they don't match either.
+ */
+const HASHTAG = /(^|[^\p{L}\p{N}_&#/])#(\p{L}[\p{L}\p{N}_-]*)/gu;
+const FENCED_CODE = /```[\s\S]*?(```|$)/g;
+const INLINE_CODE = /`[^`\n]*`/g;
+
+/** The entry's hashtags, lower-cased, in the order they first appear. Code is skipped. */
+export function extractTags(text: string): string[] {
+  const prose = text.replace(FENCED_CODE, ' ').replace(INLINE_CODE, ' ');
+  const tags = [...prose.matchAll(HASHTAG)].map(m => m[2].replace(/[-_]+$/, '').toLowerCase());
+  return [...new Set(tags.filter(Boolean))];
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/** How many entries use each tag, most used first. */
+export function countTags(entries: { tags: string[] }[]): TagCount[] {
+  const counts = new Map<string, number>();
+  entries.forEach(e => e.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// ── Toolbar formatting ──────────────────────────────────────────
+
+export type MarkdownFormat = 'bold' | 'italic' | 'code' | 'link' | 'heading' | 'bullet' | 'checklist' | 'quote';
+
+export interface TextEdit {
+  text: string;
+  /** The selection to restore afterwards. */
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPS: Partial<Record<MarkdownFormat, [string, string, string]>> = {
+  // [before, after, placeholder when nothing is selected]
+  bold: ['**', '**', 'bold text'],
+  italic: ['_', '_', 'italic text'],
+  code: ['`', '`', 'code'],
+  link: ['[', '](https://)', 'link text']
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, string>> = {
+  heading: '## ',
+  bullet: '- ',
+  checklist: '- [ ] ',
+  quote: '> '
+};
+
+/**
+ * Applies a toolbar button to `text` with `start`–`end` selected. Inline formats wrap the
+ * selection (or a placeholder, which is left selected to type over); line formats prefix every
+ * selected line, or take the prefix off again when all of them already have it.
+ */
+export function applyMarkdownFormat(text: string, start: number, end: number, format: MarkdownFormat): TextEdit {
+  const wrap = WRAPS[format];
+  if (wrap) {
+    const [before, after, placeholder] = wrap;
+    const selected = text.slice(start, end) || placeholder;
+    const inner = start + before.length;
+    return {
+      text: text.slice(0, start) + before + selected + after + text.slice(end),
+      selectionStart: inner,
+      selectionEnd: inner + selected.length
+    };
+  }
+
+  const prefix = LINE_PREFIXES[format]!;
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const newline = text.indexOf('\n', Math.max(end - 1, start));
+  const lineEnd = newline === -1 ? text.length : newline;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const removing = lines.every(line => line.startsWith(prefix));
+  const changed = lines.map(line => removing ? line.slice(prefix.length) : prefix + line).join('\n');
+  const shift = removing ? -prefix.length : prefix.length;
+  return {
+    text: text.slice(0, lineStart) + changed + text.slice(lineEnd),
+    selectionStart: Math.max(lineStart, start + shift),
+    selectionEnd: lineStart + changed.length - (lineEnd - end)
+  };
+}
@@ -0,0 +1,120 @@
+import { JournalEntry } from './journal.service';
+import { buildHeatmap, buildSearchIndex, entriesPerDay, highlightHtml, onThisDay, searchEntries, tokenize } from './journal-search';
+
+function entry(id: string, timestamp: Date, text = '', fields: Partial<JournalEntry> = {}): JournalEntry {
+  return { id, text, timestamp, tags: [], mood: null, energy: null, attachments: [], ...fields };
+}
+
+describe('journal search', () => {
+  describe('search', () => {
+    const entries = [
+      entry('a', new Date(2026, 2, 9), 'Deployed the **new** release', { tags: ['work'] }),
+      entry('b', new Date(2026, 2, 10), 'Café with Ana, planning the deploy'),
+      entry('c', new Date(2026, 2, 11), 'Quiet day', {
+        attachments: [{ name: 'whiteboard.png', path: 'p', url: 'u', contentType: 'image/png', size: 1 }]
+      })
+    ];
+    const index = buildSearchIndex(entries);
+    const ids = (query: string) => [...searchEntries(index, query) ?? []].sort();
+
+    it('splits text into lower-cased words without Markdown punctuation', () => {
+      expect(tokenize('**New** café, #work-log!')).toEqual(['new', 'café', 'work', 'log']);
+    });
+
+    it('matches words by prefix', () => {
+      expect(ids('deploy')).toEqual(['a', 'b']);
+      expect(ids('CAF')).toEqual(['b']);
+    });
+
+    it('needs every term to match', () => {
+      expect(ids('deploy release')).toEqual(['a']);
+      expect(ids('deploy quiet')).toEqual([]);
+    });
+
+    it('searches tags and attachment names', () => {
+      expect(ids('work')).toEqual(['a']);
+      expect(ids('whiteboard')).toEqual(['c']);
+    });
+
+    it('does not filter on an empty query', () => {
+      expect(searchEntries(index, '  ** ')).toBeNull();
+    });
+  });
+
+  describe('highlighting', () => {
+    it('marks words starting with a term', () => {
+      expect(highlightHtml('<p>Deployed and redeployed</p>', 'deploy')).toBe('<p><mark>Deployed</mark> and redeployed</p>');
+    });
+
+    it('leaves tags and entities alone', () => {
+      expect(highlightHtml('<a href="/mark">mark &amp; amp</a>', 'mark amp'))
+        .toBe('<a href="/mark"><mark>mark</mark> &amp; <mark>amp</mark></a>');
+    });
+
+    it('returns the HTML unchanged for an empty query', () => {
+      expect(highlightHtml('<p>Text</p>', '')).toBe('<p>Text</p>');
+    });
+  });
+
+  describe('heatmap', () => {
+    it('counts entries on the local day they were written', () => {
+      const counts = entriesPerDay([
+        entry('a', new Date(2026, 2, 10, 0, 5)),
+        entry('b', new Date(2026, 2, 10, 23, 55)),
+        entry('c', new Date(2026, 2, 11, 0, 5))
+      ]);
+      expect(counts.get('2026-03-10')).toBe(2);
+      expect(counts.get('2026-03-11')).toBe(1);
+    });
+
+    it('lays out whole weeks, Monday first, ending with the week of `end`', () => {
+      const weeks = buildHeatmap(new Map(), new Date(2026, 2, 11, 18), 3);
+      expect(weeks.length).toBe(3);
+      expect(weeks.every(w => w.length === 7)).toBeTrue();
+      expect(weeks[0][0].key).toBe('2026-02-23');
+      expect(weeks[2][6].key).toBe('2026-03-15');
+      expect(weeks[2].map(d => d.future)).toEqual([false, false, false, true, true, true, true]);
+    });
+
+    it('keeps days at local midnight across a DST change', () => {
+      const weeks = buildHeatmap(new Map(), new Date(2026, 10, 8), 6);
+      const days = weeks.flat();
+      expect(days.every(d => d.date.getHours() === 0)).toBeTrue();
+      expect(new Set(days.map(d => d.key)).size).toBe(42);
+      expect(days.map(d => d.date.getDay())).toEqual(weeks.flatMap(() => [1, 2, 3, 4, 5, 6, 0]));
+    });
+
+    it('shades days relative to the busiest one', () => {
+      const counts = new Map([['2026-03-09', 8], ['2026-03-10', 1], ['2026-03-11', 4], ['2026-03-12', 20]]);
+      const [week] = buildHeatmap(counts, new Date(2026, 2, 11), 1);
+      expect(week.map(d => d.level)).toEqual([4, 1, 2, 0, 0, 0, 0]);
+      expect(week[3].count).toBe(0);
+    });
+  });
+
+  describe('on this day', () => {
+    it('groups earlier entries from today\'s date, most recent first', () => {
+      const entries = [
+        entry('year', new Date(2025, 2, 10, 21)),
+        entry('month', new Date(2026, 1, 10, 8)),
+        entry('other', new Date(2026, 1, 11, 8)),
+        entry('today', new Date(2026, 2, 10, 7))
+      ];
+      const groups = onThisDay(entries, new Date(2026, 2, 10, 12));
+      expect(groups.map(g => [g.label, g.entries.map(e => e.id)])).toEqual([
+        ['1 month ago', ['month']],
+        ['1 year ago', ['year']]
+      ]);
+    });
+
+    it('skips months without today\'s date rather than moving it', () => {
+      const entries = [
+        entry('feb', new Date(2026, 1, 28)),
+        entry('dec', new Date(2025, 11, 31)),
+        entry('jan', new Date(2026, 0, 31))
+      ];
+      const groups = onThisDay(entries, new Date(2026, 2, 31));
+      expect(groups.map(g => g.label)).toEqual(['2 months ago', '3 months ago']);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { JournalEntry } from './journal.service';
+import { addDays, dayKey, startOfDay, startOfWeek } from './local-date';
+
+/**
+ * Finding things in the journal: a word index for full-text search, highlighting the matches
+ * in rendered entries, the calendar heatmap of how much was written each day, and the entries
+ * from this day in earlier months and years.
+ */
+
+// ── Search ──────────────────────────────────────────────────────
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/** Lower-cased words, without Markdown punctuation. */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+export interface SearchIndex {
+  /** Entry ids by the words they contain. */
+  words: Map<string, Set<string>>;
+  /** The indexed words, sorted, for prefix lookups. */
+  sortedWords: string[];
+}
+
+/** Indexes each entry's text, tags and attachment names. */
+export function buildSearchIndex(entries: JournalEntry[]): SearchIndex {
+  const words = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const text = [entry.text, ...entry.tags, ...entry.attachments.map(a => a.name)].join(' ');
+    for (const word of tokenize(text)) {
+      let ids = words.get(word);
+      if (!ids) words.set(word, ids = new Set());
+      ids.add(entry.id);
+    }
+  }
+  return { words, sortedWords: [...words.keys()].sort() };
+}
+
+/** First index in `sorted` that is >= `value`. */
+function lowerBound(sorted: string[], value: string): number {
+  let lo = 0, hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Ids of entries containing every term in `query`, each as the start of a word, so "deploy"
+ * finds "deployed" as you type. Null for an empty query, meaning "don't filter".
+ */
+export function searchEntries(index: SearchIndex, query: string): Set<string> | null {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) return null;
+  let result: Set<string> | null = null;
+  for (const term of terms) {
+    const matches = new Set<string>();
+    for (let i = lowerBound(index.sortedWords, term); i < index.sortedWords.length; i++) {
+      const word = index.sortedWords[i];
+      if (!word.startsWith(term)) break;
+      index.words.get(word)!.forEach(id => matches.add(id));
+    }
+    result = result ? new Set([...result].filter((id: string) => matches.has(id))) : matches;
+    if (!result.size) break;
+  }
+  return result;
+}
+
+// ── Highlighting ────────────────────────────────────────────────
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wraps the words in rendered, already-sanitized HTML that start with one of the query's terms
+ * in `<mark>`. Tags and character entities are left alone so the markup stays intact.
+ */
+export function highlightHtml(html: string, query: string): string {
+  const terms = tokenize(query).sort((a, b) => b.length - a.length);
+  if (!terms.length) return html;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  return html
+    .split(/(<[^>]*>|&[#\w]+;)/)
+    .map(part => part.startsWith('<') || /^&[#\w]+;$/.test(part) ? part : part.replace(pattern, '<mark>$&</mark>'))
+    .join('');
+}
+
+// ── Heatmap ─────────────────────────────────────────────────────
+
+export interface HeatmapDay {
+  date: Date;
+  /** `YYYY-MM-DD`. */
+  key: string;
+  count: number;
+  /** 0 for no entries, then 1–4 by how the count compares with the busiest day. */
+  level: number;
+  /** Past the end date; drawn empty to square off the last week. */
+  future: boolean;
+}
+
+/** Entries per day, keyed `YYYY-MM-DD`. */
+export function entriesPerDay(entries: JournalEntry[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  entries.forEach(e => {
+    const key = dayKey(e.timestamp);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * `weeks` columns of seven days, Monday first, ending with the week `end` falls in.
+ */
+export function buildHeatmap(counts: Map<string, number>, end: Date, weeks: number): HeatmapDay[][] {
+  const last = startOfDay(end);
+  const first = addDays(startOfWeek(last), -7 * (weeks - 1));
+  const columns: HeatmapDay[][] = [];
+  let max = 0;
+  for (let w = 0; w < weeks; w++) {
+    const column: HeatmapDay[] = [];
+    for (let d = 0; d < 7; d++) {
+      const date = addDays(first, w * 7 + d);
+      const key = dayKey(date);
+      const future = date > last;
+      const count = future ? 0 : counts.get(key) ?? 0;
+      max = Math.max(max, count);
+      column.push({ date, key, count, level: 0, future });
+    }
+    columns.push(column);
+  }
+  columns.forEach(column => column.forEach(day => {
+    day.level = day.count ? Math.max(1, Math.ceil((day.count / max) * 4)) : 0;
+  }));
+  return columns;
+}
+
+// ── On this day ─────────────────────────────────────────────────
+
+export interface OnThisDayGroup {
+  /** "1 year ago", "3 months ago". */
+  label: string;
+  date: Date;
+  entries: JournalEntry[];
+}
+
+/**
+ * Entries written on today's date in earlier months and years, most recent first. Months that
+ * don't have today's date (the 31st in a 30-day month) are skipped rather than moved.
+ */
+export function onThisDay(entries: JournalEntry[], today = new Date()): OnThisDayGroup[] {
+  const byDay = new Map<string, JournalEntry[]>();
+  entries.forEach(e => {
+    const key = dayKey(e.timestamp);
+    byDay.set(key, [...(byDay.get(key) ?? []), e]);
+  });
+  const oldest = entries.reduce((min, e) => e.timestamp < min ? e.timestamp : min, today);
+  const groups: OnThisDayGroup[] = [];
+  for (let monthsAgo = 1; ; monthsAgo++) {
+    const date = new Date(today.getFullYear(), today.getMonth() - monthsAgo, today.getDate());
+    if (date < startOfDay(oldest)) break;
+    if (date.getDate() !== today.getDate()) continue;
+    const found = byDay.get(dayKey(date));
+    if (!found) continue;
+    const years = monthsAgo / 12;
+    const label = Number.isInteger(years)
+      ? `${years} year${years === 1 ? '' : 's'} ago`
+      : `${monthsAgo} month${monthsAgo === 1 ? '' : 's'} ago`;
+    groups.push({ label, date, entries: [...found].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()) });
+  }
+  return groups;
+}
@@ -1,17 +1,47 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import {
-  Firestore, collection, addDoc, deleteDoc, doc,
-  onSnapshot, query, orderBy, serverTimestamp, updateDoc, Timestamp
+  Firestore, collection, deleteDoc, doc,
+  onSnapshot, query, orderBy, serverTimestamp, setDoc, updateDoc, Timestamp
 } from '@angular/fire/firestore';
 import { Auth, user } from '@angular/fire/auth';
+import { Storage, deleteObject, getDownloadURL, ref, uploadBytes } from '@angular/fire/storage';
+import { extractTags } from './journal-markdown';
+
+/** An image or file attached to an entry, stored in Firebase Storage under the entry. */
+export interface JournalAttachment {
+  name: string;
+  /** Storage path, for deleting it with the entry. */
+  path: string;
+  url: string;
+  contentType: string;
+  size: number;
+}
 
 export interface JournalEntry {
   id: string;
+  /** Markdown. Entries written before Markdown rendering are plain text, which reads the same. */
   text: string;
   timestamp: Date;
+  /** The `#hashtags` in the text, lower-cased. */
+  tags: string[];
+  /** How the day felt, 1 (awful) to 5 (great); null when not rated. */
+  mood: number | null;
+  /** 1 (drained) to 5 (energised); null when not rated. */
+  energy: number | null;
+  attachments: JournalAttachment[];
 }
 
+/** What can be set on an entry besides its text. */
+export interface JournalEntryDetails {
+  mood?: number | null;
+  energy?: number | null;
+  /** New files to upload. */
+  files?: File[];
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
 @Injectable({
   providedIn: 'root'
 })
@@ -22,7 +52,7 @@ export class JournalService {
   private unsubscribeEntries: (() => void) | null = null;
   private currentUserId: string | null = null;
 
-  constructor(private firestore: Firestore, private auth: Auth) {
+  constructor(private firestore: Firestore, private auth: Auth, private storage: Storage) {
     user(this.auth).subscribe(firebaseUser => {
       this.cleanup();
       if (firebaseUser) {
@@ -42,11 +72,20 @@ export class JournalService {
   private subscribeEntries(uid: string): void {
     const q = query(this.journalCollectionRef(uid), orderBy('timestamp', 'desc'));
     this.unsubscribeEntries = onSnapshot(q, snapshot => {
-      const entries: JournalEntry[] = snapshot.docs.map(d => ({
-        id: d.id,
-        text: d.data()['text'] ?? '',
-        timestamp: d.data()['timestamp']?.toDate() ?? new Date()
-      }));
+      const entries: JournalEntry[] = snapshot.docs.map(d => {
+        const data = d.data();
+        const text = data['text'] ?? '';
+        return {
+          id: d.id,
+          text,
+          timestamp: data['timestamp']?.toDate() ?? new Date(),
+          // Entries from before tagging have no `tags` field; their text may still have hashtags
+          tags: data['tags'] ?? extractTags(text),
+          mood: data['mood'] ?? null,
+          energy: data['energy'] ?? null,
+          attachments: data['attachments'] ?? []
+        };
+      });
       this.entriesSubject.next(entries);
     }, e => console.error('Failed to listen to journal entries:', e));
   }
@@ -58,26 +97,75 @@ export class JournalService {
     }
   }
 
-  async addEntry(text: string): Promise<void> {
-    if (!this.currentUserId || !text.trim()) return;
-    await addDoc(this.journalCollectionRef(this.currentUserId), {
+  async addEntry(text: string, details: JournalEntryDetails = {}): Promise<void> {
+    const files = details.files ?? [];
+    if (!this.currentUserId || (!text.trim() && !files.length)) return;
+    const entryRef = doc(this.journalCollectionRef(this.currentUserId));
+    const attachments = await this.uploadAttachments(entryRef.id, files);
+    await setDoc(entryRef, {
       text: text.trim(),
-      timestamp: serverTimestamp()
+      timestamp: serverTimestamp(),
+      tags: extractTags(text),
+      mood: details.mood ?? null,
+      energy: details.energy ?? null,
+      attachments
     });
   }
 
-  async updateEntry(id: string, text: string, timestamp: Date): Promise<void> {
-    if (!this.currentUserId || !text.trim()) return;
+  /**
+   * Saves an edited entry. `attachments` is the list to keep: any the entry had that aren't in it
+   * are deleted from Storage, and `details.files` are uploaded and added.
+   */
+  async updateEntry(
+    id: string, text: string, timestamp: Date, attachments: JournalAttachment[], details: JournalEntryDetails = {}
+  ): Promise<void> {
+    const files = details.files ?? [];
+    if (!this.currentUserId || (!text.trim() && !attachments.length && !files.length)) return;
+    const uploaded = await this.uploadAttachments(id, files);
     const entryRef = doc(this.firestore, `users/${this.currentUserId}/journal/${id}`);
     await updateDoc(entryRef, {
       text: text.trim(),
-      timestamp: Timestamp.fromDate(timestamp)
+      timestamp: Timestamp.fromDate(timestamp),
+      tags: extractTags(text),
+      mood: details.mood ?? null,
+      energy: details.energy ?? null,
+      attachments: [...attachments, ...uploaded]
     });
+    const kept = new Set(attachments.map(a => a.path));
+    const removed = this.entriesSubject.value.find(e => e.id === id)?.attachments.filter(a => !kept.has(a.path)) ?? [];
+    await this.deleteAttachments(removed);
   }
 
   async deleteEntry(id: string): Promise<void> {
     if (!this.currentUserId) return;
+    const entry = this.entriesSubject.value.find(e => e.id === id);
     const entryRef = doc(this.firestore, `users/${this.currentUserId}/journal/${id}`);
     await deleteDoc(entryRef);
+    await this.deleteAttachments(entry?.attachments ?? []);
+  }
+
+  private async uploadAttachments(entryId: string, files: File[]): Promise<JournalAttachment[]> {
+    const tooBig = files.find(f => f.size > MAX_ATTACHMENT_BYTES);
+    if (tooBig) throw new Error(`"${tooBig.name}" is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+    return Promise.all(files.map(async (file, i) => {
+      // Prefixed so two files with the same name on one entry don't overwrite each other
+      const path = `users/${this.currentUserId}/journal/${entryId}/${Date.now()}-${i}-${file.name.replace(/[\/#?]/g, '_')}`;
+      const fileRef = ref(this.storage, path);
+      await uploadBytes(fileRef, file, { contentType: file.type || 'application/octet-stream' });
+      return {
+        name: file.name,
+        path,
+        url: await getDownloadURL(fileRef),
+        contentType: file.type || 'application/octet-stream',
+        size: file.size
+      };
+    }));
+  }
+
+  /** Best effort: the entry no longer points at them, so a failure only leaves an orphaned file. */
+  private async deleteAttachments(attachments: JournalAttachment[]): Promise<void> {
+    await Promise.all(attachments.map(a =>
+      deleteObject(ref(this.storage, a.path)).catch(e => console.error(`Failed to delete attachment ${a.path}:`, e))
+    ));
   }
 }
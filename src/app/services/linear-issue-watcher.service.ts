@@ -0,0 +1,234 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, firstValueFrom } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import {
+  Firestore, collection, deleteDoc, doc, onSnapshot, runTransaction, setDoc, serverTimestamp, Timestamp
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { LinearService, LinearIssue } from './linear.service';
+import { JournalService } from './journal.service';
+
+/** Last state we observed for a Linear issue, persisted so diffs survive reloads. */
+export interface LinearIssueSnapshot {
+  issueId: string;
+  identifier: string;
+  title: string;
+  teamName: string;
+  projectName: string | null;
+  stateName: string;
+  /** Linear's state type (`started`, `completed`...); empty for snapshots stored before it was. */
+  stateType: string;
+  stateObservedAt: Date;
+  firstSeenAt: Date;
+}
+
+/** Which issues get journaled: an issue is watched if its team OR its project is opted in. */
+export interface LinearWatchSettings {
+  enabled: boolean;
+  teams: string[];
+  projects: string[];
+}
+
+const DEFAULT_SETTINGS: LinearWatchSettings = { enabled: false, teams: [], projects: [] };
+
+const CLOSED_STATE_TYPES = ['completed', 'cancelled'];
+
+/**
+ * Watches the issues emitted by `LinearService.issues$` (i.e. every `fetchMyIssues` call made
+ * by the widgets) and writes a journal entry whenever an issue appears or its state changes.
+ * Those lists leave out completed and cancelled issues, so an open issue that drops out of one
+ * is looked up by id to record the state it ended in.
+ *
+ * Snapshots are stored per user under `users/{uid}/linearIssueSnapshots/{issueId}`. Each change
+ * is committed through a transaction that only succeeds if the stored state still differs, so a
+ * transition is journaled once even when several tabs observe it at the same time.
+ */
+@Injectable({ providedIn: 'root' })
+export class LinearIssueWatcherService {
+  private settingsSubject = new BehaviorSubject<LinearWatchSettings>(DEFAULT_SETTINGS);
+  readonly settings$: Observable<LinearWatchSettings> = this.settingsSubject.asObservable();
+
+  private snapshotsSubject = new BehaviorSubject<LinearIssueSnapshot[]>([]);
+  readonly snapshots$: Observable<LinearIssueSnapshot[]> = this.snapshotsSubject.asObservable();
+
+  private snapshotsLoaded = new BehaviorSubject<boolean>(false);
+  private settingsLoaded = new BehaviorSubject<boolean>(false);
+
+  private snapshots = new Map<string, LinearIssueSnapshot>();
+  private inFlight = new Set<string>();
+  /** The response whose missing issues were last looked up, so each response is only checked once. */
+  private checkedResponse: LinearIssue[] | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private currentUserId: string | null = null;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private linearService: LinearService,
+    private journalService: JournalService
+  ) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeSnapshots(firebaseUser.uid);
+        this.subscribeSettings(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+      }
+    });
+
+    // Cached issues replayed at startup may be older than the stored snapshots; only diff fresh responses
+    // An empty fresh response still counts: the last open issue may just have been closed
+    combineLatest([this.linearService.issues$, this.linearService.syncState$, this.snapshotsLoaded, this.settingsLoaded]).pipe(
+      filter(([, sync, snapsReady, settingsReady]) =>
+        !sync.fromCache && !!sync.lastSyncedAt && snapsReady && settingsReady)
+    ).subscribe(([issues]) => this.diff(issues));
+  }
+
+  private snapshotsCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/linearIssueSnapshots`);
+  }
+
+  private settingsDocRef(uid: string) {
+    return doc(this.firestore, `users/${uid}/settings/linearWatch`);
+  }
+
+  private subscribeSnapshots(uid: string): void {
+    this.unsubscribers.push(onSnapshot(this.snapshotsCollectionRef(uid), snapshot => {
+      this.snapshots = new Map(snapshot.docs.map(d => {
+        const data = d.data();
+        return [d.id, {
+          issueId: d.id,
+          identifier: data['identifier'] ?? '',
+          title: data['title'] ?? '',
+          teamName: data['teamName'] ?? '',
+          projectName: data['projectName'] ?? null,
+          stateName: data['stateName'] ?? '',
+          stateType: data['stateType'] ?? '',
+          stateObservedAt: (data['stateObservedAt'] as Timestamp)?.toDate() ?? new Date(),
+          firstSeenAt: (data['firstSeenAt'] as Timestamp)?.toDate() ?? new Date()
+        }];
+      }));
+      this.snapshotsSubject.next([...this.snapshots.values()]);
+      this.snapshotsLoaded.next(true);
+    }, e => console.error('Failed to listen to Linear issue snapshots:', e)));
+  }
+
+  private subscribeSettings(uid: string): void {
+    this.unsubscribers.push(onSnapshot(this.settingsDocRef(uid), snap => {
+      const data = snap.data();
+      this.settingsSubject.next({
+        enabled: data?.['enabled'] ?? false,
+        teams: data?.['teams'] ?? [],
+        projects: data?.['projects'] ?? []
+      });
+      this.settingsLoaded.next(true);
+    }, e => console.error('Failed to listen to Linear watch settings:', e)));
+  }
+
+  private cleanup(): void {
+    this.unsubscribers.forEach(unsub => unsub());
+    this.unsubscribers = [];
+    this.snapshots.clear();
+    this.inFlight.clear();
+    this.checkedResponse = null;
+    this.snapshotsSubject.next([]);
+    this.settingsSubject.next(DEFAULT_SETTINGS);
+    this.snapshotsLoaded.next(false);
+    this.settingsLoaded.next(false);
+  }
+
+  async saveSettings(settings: LinearWatchSettings): Promise<void> {
+    if (!this.currentUserId) return;
+    await setDoc(this.settingsDocRef(this.currentUserId), settings);
+  }
+
+  isWatched(issue: Pick<LinearIssue, 'team' | 'project'>): boolean {
+    const { enabled, teams, projects } = this.settingsSubject.value;
+    if (!enabled) return false;
+    return teams.includes(issue.team.name) || (!!issue.project && projects.includes(issue.project.name));
+  }
+
+  private diff(issues: LinearIssue[]): void {
+    const uid = this.currentUserId;
+    if (!uid) return;
+    // The very first run only records a baseline; otherwise every assigned issue would be journaled as "new".
+    const isBaseline = this.snapshots.size === 0;
+    for (const issue of issues) {
+      const prev = this.snapshots.get(issue.id);
+      if (prev?.stateName === issue.state.name || this.inFlight.has(issue.id)) continue;
+      this.inFlight.add(issue.id);
+      this.recordObservation(uid, issue, isBaseline)
+        .catch(e => console.error(`Failed to record Linear change for ${issue.identifier}:`, e))
+        .finally(() => this.inFlight.delete(issue.id));
+    }
+    if (!isBaseline && issues !== this.checkedResponse) {
+      this.checkedResponse = issues;
+      this.lookUpMissing(uid, issues);
+    }
+  }
+
+  /**
+   * Open issues we have snapshots of that aren't in `issues`: usually closed since, sometimes
+   * reassigned or deleted. Ones still assigned to the user are recorded like any other change;
+   * snapshots of the rest are dropped, so they count as newly assigned if they come back.
+   */
+  private lookUpMissing(uid: string, issues: LinearIssue[]): void {
+    const present = new Set(issues.map(i => i.id));
+    const missing = [...this.snapshots.values()]
+      .filter(s => !present.has(s.issueId) && !CLOSED_STATE_TYPES.includes(s.stateType) && !this.inFlight.has(s.issueId))
+      .map(s => s.issueId);
+    if (!missing.length) return;
+    missing.forEach(id => this.inFlight.add(id));
+    firstValueFrom(this.linearService.fetchIssuesById(missing))
+      .then(found => Promise.all(missing.map(id => {
+        const issue = found.find(i => i.id === id);
+        return (issue?.assignee?.isMe
+          ? this.recordObservation(uid, issue, false)
+          : deleteDoc(doc(this.snapshotsCollectionRef(uid), id))
+        ).catch(e => console.error(`Failed to record Linear change for ${issue?.identifier ?? id}:`, e));
+      })))
+      .catch(e => console.error('Failed to look up Linear issues that left the assigned list:', e))
+      .finally(() => missing.forEach(id => this.inFlight.delete(id)));
+  }
+
+  private async recordObservation(uid: string, issue: LinearIssue, isBaseline: boolean): Promise<void> {
+    const observedAt = new Date();
+    const ref = doc(this.snapshotsCollectionRef(uid), issue.id);
+
+    // Returns the previous state name ('' for a new issue), or null if another tab already recorded this state.
+    const previousState = await runTransaction(this.firestore, async tx => {
+      const snap = await tx.get(ref);
+      const stored = snap.exists() ? snap.data()['stateName'] as string : null;
+      const storedType = snap.exists() ? snap.data()['stateType'] as string | undefined : undefined;
+      if (stored === issue.state.name && storedType === issue.state.type) return null;
+      tx.set(ref, {
+        identifier: issue.identifier,
+        title: issue.title,
+        teamName: issue.team.name,
+        projectName: issue.project?.name ?? null,
+        stateName: issue.state.name,
+        stateType: issue.state.type,
+        stateObservedAt: stored === issue.state.name ? snap.data()!['stateObservedAt'] : Timestamp.fromDate(observedAt),
+        firstSeenAt: snap.exists() ? snap.data()['firstSeenAt'] : Timestamp.fromDate(observedAt),
+        updatedAt: serverTimestamp()
+      });
+      // Older snapshots only gain the state type; the state itself hasn't changed
+      return stored === issue.state.name ? null : stored ?? '';
+    });
+
+    if (previousState === null || isBaseline || !this.isWatched(issue)) return;
+    await this.journalService.addEntry(this.describe(issue, previousState, observedAt));
+  }
+
+  private describe(issue: LinearIssue, previousState: string, observedAt: Date): string {
+    const when = observedAt.toLocaleString('en-US', {
+      month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit'
+    });
+    const change = previousState
+      ? `${previousState} → ${issue.state.name}`
+      : `newly assigned (${issue.state.name})`;
+    return `[Linear] ${issue.identifier} "${issue.title}": ${change}. First observed ${when}.`;
+  }
+}
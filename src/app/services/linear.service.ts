@@ -3,6 +3,8 @@ import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { BehaviorSubject, Observable, of } from 'rxjs';
 import { map, catchError, tap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
+import { CredentialVaultService } from './credential-vault.service';
 
 export interface LinearIssue {
   id: string;
@@ -33,6 +35,16 @@ export interface LinearIssue {
   } | null;
 }
 
+/** An assigned issue that reached a completed state, with when it got there. */
+export interface LinearCompletedIssue extends LinearIssue {
+  completedAt: string;
+}
+
+/** An issue looked up by id, with whether it is assigned to the viewer. */
+export interface LinearAssignedIssue extends LinearIssue {
+  assignee: { isMe: boolean } | null;
+}
+
 export interface LinearViewer {
   id: string;
   name: string;
@@ -55,7 +67,7 @@ export interface LinearCycle {
   progress: number; // 0–1
 }
 
-const STORAGE_KEY = 'linear-api-key';
+const CACHE_KEY = 'linear:issues';
 
 @Injectable({ providedIn: 'root' })
 export class LinearService {
@@ -79,12 +91,28 @@ export class LinearService {
   private activeCycleSubject = new BehaviorSubject<LinearCycle | null>(null);
   readonly activeCycle$ = this.activeCycleSubject.asObservable();
 
-  constructor(private http: HttpClient) {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      this.apiKey = saved;
-      this.configuredSubject.next(true);
-    }
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  readonly syncState$ = this.syncStateSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private offlineCache: OfflineCacheService,
+    private vault: CredentialVaultService
+  ) {
+    this.vault.secret$('linear').subscribe(apiKey => {
+      this.apiKey = apiKey ?? '';
+      this.configuredSubject.next(!!apiKey);
+      if (apiKey) this.restoreFromCache();
+    });
+  }
+
+  /** Shows the last good issue list until the first fetch completes. */
+  private async restoreFromCache(): Promise<void> {
+    const cached = await this.offlineCache.read<LinearIssue[]>(CACHE_KEY);
+    if (!cached || this.syncStateSubject.value.lastSyncedAt) return;
+    this.issuesSubject.next(cached.data);
+    this.activeCycleSubject.next(this.deriveActiveCycle(cached.data));
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
   }
 
   isConfigured(): boolean {
@@ -92,19 +120,18 @@ export class LinearService {
   }
 
   initialize(apiKey: string): void {
-    this.apiKey = apiKey.trim();
-    localStorage.setItem(STORAGE_KEY, this.apiKey);
-    this.configuredSubject.next(true);
+    this.vault.set('linear', apiKey.trim())
+      .catch(e => console.error('Failed to save Linear API key:', e));
   }
 
   clearConfiguration(): void {
-    this.apiKey = '';
-    localStorage.removeItem(STORAGE_KEY);
-    this.configuredSubject.next(false);
+    this.vault.remove('linear');
     this.issuesSubject.next([]);
     this.viewerSubject.next(null);
     this.activeCycleSubject.next(null);
     this.errorSubject.next(null);
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(CACHE_KEY);
   }
 
   private get headers(): HttpHeaders {
@@ -142,6 +169,34 @@ export class LinearService {
   fetchMyIssues(includeCompleted = false): Observable<LinearIssue[]> {
     if (!this.apiKey) return of([]);
 
+    this.loadingSubject.next(true);
+    this.errorSubject.next(null);
+
+    return this.fetchAssignedIssues(includeCompleted).pipe(
+      tap(issues => {
+        this.issuesSubject.next(issues);
+        this.loadingSubject.next(false);
+        this.activeCycleSubject.next(this.deriveActiveCycle(issues));
+        this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+        this.offlineCache.write(CACHE_KEY, issues);
+      }),
+      catchError(err => {
+        // Any cached issues stay on screen; the sync badge tells the user how old they are
+        const msg = err.message ?? 'Failed to load Linear issues';
+        this.errorSubject.next(msg);
+        this.loadingSubject.next(false);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Issues assigned to the viewer, like `fetchMyIssues`, but leaves `issues$`, the loading and
+   * error state and the sync badge alone, for lookups that shouldn't change what widgets show.
+   */
+  fetchAssignedIssues(includeCompleted = false): Observable<LinearIssue[]> {
+    if (!this.apiKey) return of([]);
+
     const excludedStates = includeCompleted ? '["cancelled"]' : '["completed", "cancelled"]';
 
     const query = `
@@ -172,45 +227,147 @@ export class LinearService {
       }
     `;
 
-    this.loadingSubject.next(true);
-    this.errorSubject.next(null);
-
     return this.gql<{ viewer: { assignedIssues: { nodes: LinearIssue[] } } }>(query).pipe(
-      map(d => d.viewer.assignedIssues.nodes),
-      tap(issues => {
-        this.issuesSubject.next(issues);
-        this.loadingSubject.next(false);
-        // Derive the active cycle from cycle fields on assigned issues.
-        // Multiple issues may reference different cycles (different teams,
-        // overlapping cadences). We collect all cycles whose date window
-        // contains today, deduplicate by id, then pick the one with the
-        // earliest startsAt so we always get the broadest/primary sprint
-        // rather than whichever cycle happened to be on the most-recently-
-        // updated issue (which caused the intermittent Apr 27 vs Apr 22 bug).
-        const today = new Date();
-        const seen = new Map<string, NonNullable<LinearIssue['cycle']>>();
-        for (const issue of issues) {
-          const c = issue.cycle;
-          if (c && !seen.has(c.id) && new Date(c.startsAt) <= today && new Date(c.endsAt) >= today) {
-            seen.set(c.id, c);
+      map(d => d.viewer.assignedIssues.nodes)
+    );
+  }
+
+  /**
+   * Issues assigned to the viewer that were completed on or after `since`, newest first.
+   * Leaves `issues$` alone, so widgets keep showing open work only.
+   */
+  fetchCompletedIssues(since: Date): Observable<LinearCompletedIssue[]> {
+    if (!this.apiKey) return of([]);
+
+    const query = `
+      query CompletedIssues($since: DateTimeOrDuration!) {
+        viewer {
+          assignedIssues(
+            first: 100
+            filter: { state: { type: { eq: "completed" } }, completedAt: { gte: $since } }
+            orderBy: updatedAt
+          ) {
+            nodes {
+              id
+              identifier
+              title
+              description
+              priority
+              url
+              updatedAt
+              completedAt
+              dueDate
+              estimate
+              state { name color type }
+              team { name }
+              labels { nodes { name color } }
+              project { name }
+              cycle { id name number startsAt endsAt progress team { name } }
+            }
           }
         }
-        const activeCycles = [...seen.values()];
-        const activeCycle = activeCycles.length === 0 ? null
-          : activeCycles.reduce((best, c) =>
-              new Date(c.startsAt) < new Date(best.startsAt) ? c : best
-            );
-        this.activeCycleSubject.next(activeCycle);
-      }),
-      catchError(err => {
-        const msg = err.message ?? 'Failed to load Linear issues';
-        this.errorSubject.next(msg);
-        this.loadingSubject.next(false);
-        return of([]);
-      })
+      }
+    `;
+
+    return this.gql<{ viewer: { assignedIssues: { nodes: LinearCompletedIssue[] } } }>(query, { since: since.toISOString() }).pipe(
+      map(d => [...d.viewer.assignedIssues.nodes].sort((a, b) => b.completedAt.localeCompare(a.completedAt)))
+    );
+  }
+
+  /**
+   * A single issue by id or identifier (e.g. "ENG-123"), whoever it's assigned to; null when
+   * it can't be found. Leaves `issues$` alone.
+   */
+  fetchIssue(id: string): Observable<LinearIssue | null> {
+    if (!this.apiKey) return of(null);
+
+    const query = `
+      query Issue($id: String!) {
+        issue(id: $id) {
+          id
+          identifier
+          title
+          description
+          priority
+          url
+          updatedAt
+          dueDate
+          estimate
+          state { name color type }
+          team { name }
+          labels { nodes { name color } }
+          project { name }
+          cycle { id name number startsAt endsAt progress team { name } }
+        }
+      }
+    `;
+
+    return this.gql<{ issue: LinearIssue | null }>(query, { id }).pipe(
+      map(d => d.issue),
+      catchError(() => of(null))
+    );
+  }
+
+  /**
+   * Issues by id in any state, with whether they are still assigned to the viewer. Issues that
+   * no longer exist are left out. Leaves `issues$` alone.
+   */
+  fetchIssuesById(ids: string[]): Observable<LinearAssignedIssue[]> {
+    if (!this.apiKey || !ids.length) return of([]);
+
+    const query = `
+      query IssuesById($ids: [ID!]) {
+        issues(first: 100, filter: { id: { in: $ids } }) {
+          nodes {
+            id
+            identifier
+            title
+            description
+            priority
+            url
+            updatedAt
+            dueDate
+            estimate
+            state { name color type }
+            team { name }
+            labels { nodes { name color } }
+            project { name }
+            cycle { id name number startsAt endsAt progress team { name } }
+            assignee { isMe }
+          }
+        }
+      }
+    `;
+
+    return this.gql<{ issues: { nodes: LinearAssignedIssue[] } }>(query, { ids }).pipe(
+      map(d => d.issues.nodes)
     );
   }
 
+  private deriveActiveCycle(issues: LinearIssue[]): LinearCycle | null {
+    // Derive the active cycle from cycle fields on assigned issues.
+    // Multiple issues may reference different cycles (different teams,
+    // overlapping cadences). We collect all cycles whose date window
+    // contains today, deduplicate by id, then pick the one with the
+    // earliest startsAt so we always get the broadest/primary sprint
+    // rather than whichever cycle happened to be on the most-recently-
+    // updated issue (which caused the intermittent Apr 27 vs Apr 22 bug).
+    const today = new Date();
+    const seen = new Map<string, NonNullable<LinearIssue['cycle']>>();
+    for (const issue of issues) {
+      const c = issue.cycle;
+      if (c && !seen.has(c.id) && new Date(c.startsAt) <= today && new Date(c.endsAt) >= today) {
+        seen.set(c.id, c);
+      }
+    }
+    const activeCycles = [...seen.values()];
+    const activeCycle: LinearCycle | null = activeCycles.length === 0 ? null
+      : activeCycles.reduce((best, c) =>
+          new Date(c.startsAt) < new Date(best.startsAt) ? c : best
+        );
+    return activeCycle;
+  }
+
   /**
    * Fetch the active cycle (cycle whose date window contains today) across all
    * teams the viewer belongs to.  Picks the first active cycle found.
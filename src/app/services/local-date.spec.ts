@@ -0,0 +1,54 @@
+import { addDays, dayKey, parseDayKey, startOfDay, startOfWeek } from './local-date';
+
+describe('local dates', () => {
+  it('parses a day key as local midnight on that day', () => {
+    const date = parseDayKey('2026-03-10');
+    expect(date.getFullYear()).toBe(2026);
+    expect(date.getMonth()).toBe(2);
+    expect(date.getDate()).toBe(10);
+    expect(date.getHours()).toBe(0);
+  });
+
+  it('round-trips every day of the year, including DST changes', () => {
+    for (let day = new Date(2026, 0, 1); day.getFullYear() === 2026; day = addDays(day, 1)) {
+      const key = dayKey(day);
+      expect(dayKey(parseDayKey(key))).toBe(key);
+    }
+  });
+
+  it('keys a date by its local day, not its UTC one', () => {
+    expect(dayKey(new Date(2026, 2, 10, 0, 0))).toBe('2026-03-10');
+    expect(dayKey(new Date(2026, 2, 10, 23, 59))).toBe('2026-03-10');
+  });
+
+  it('keeps the time of day when adding days', () => {
+    const late = new Date(2026, 0, 31, 23, 30);
+    const next = addDays(late, 1);
+    expect(dayKey(next)).toBe('2026-02-01');
+    expect(next.getHours()).toBe(23);
+    expect(next.getMinutes()).toBe(30);
+  });
+
+  it('keeps the wall-clock time across DST changes', () => {
+    for (const date of [new Date(2026, 2, 7, 9), new Date(2026, 2, 28, 9), new Date(2026, 9, 24, 9), new Date(2026, 9, 31, 9)]) {
+      const week = addDays(date, 7);
+      expect(week.getHours()).toBe(9);
+      expect(week.getDate()).toBe(addDays(startOfDay(date), 7).getDate());
+    }
+  });
+
+  it('starts weeks at midnight on Monday', () => {
+    expect(dayKey(startOfWeek(new Date(2026, 2, 11, 15)))).toBe('2026-03-09');
+    expect(dayKey(startOfWeek(new Date(2026, 2, 9)))).toBe('2026-03-09');
+    expect(startOfWeek(new Date(2026, 2, 9, 12)).getHours()).toBe(0);
+  });
+
+  it('puts Sunday in the week that started the Monday before', () => {
+    expect(dayKey(startOfWeek(new Date(2026, 2, 15, 23, 59)))).toBe('2026-03-09');
+  });
+
+  it('starts weeks across a month or year boundary', () => {
+    expect(dayKey(startOfWeek(new Date(2026, 0, 1)))).toBe('2025-12-29');
+    expect(dayKey(startOfWeek(new Date(2026, 2, 1)))).toBe('2026-02-23');
+  });
+});
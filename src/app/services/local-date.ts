@@ -0,0 +1,36 @@
+/**
+ * Calendar days in the browser's timezone. Due dates, occurrences, timesheet days and journal
+ * days are all local days: a `YYYY-MM-DD` from a date input means midnight here, not in UTC,
+ * and two times are on the same day when their local dates match.
+ */
+
+/** Local `YYYY-MM-DD`, as date inputs take it. */
+export function dayKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+/** Local midnight on a `YYYY-MM-DD` day. `new Date(key)` would be UTC midnight instead. */
+export function parseDayKey(key: string): Date {
+  return new Date(`${key}T00:00`);
+}
+
+export function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+/** The same wall-clock time `days` later, across DST changes. */
+export function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+/** Midnight on the Monday of the week `date` falls in. */
+export function startOfWeek(date: Date): Date {
+  const start = startOfDay(date);
+  return addDays(start, -((start.getDay() + 6) % 7));
+}
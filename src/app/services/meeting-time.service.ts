@@ -0,0 +1,216 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, firstValueFrom, timer } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { Firestore, doc, onSnapshot, setDoc } from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { CalendarEvent, MicrosoftCalendarService, parseEventDateTime } from './microsoft-calendar.service';
+import { TaskLink, TaskService } from './task.service';
+import { TimeEntryService } from './time-entry.service';
+
+/**
+ * Sends meetings whose subject contains `keyword`, or whose organizer's name or address does,
+ * to a task or to a Linear / ADO item. The first matching rule wins.
+ */
+export interface MeetingRule {
+  id: string;
+  field: 'subject' | 'organizer';
+  keyword: string;
+  taskId: string | null;
+  link: TaskLink | null;
+}
+
+export interface MeetingTimeSettings {
+  /** Log finished meetings from the calendar as time entries. */
+  enabled: boolean;
+  /** Log meetings no rule matches too, under "Meetings". */
+  logUnmatched: boolean;
+  rules: MeetingRule[];
+  /** Working hours, `HH:mm`, for the unaccounted-time view. */
+  workdayStart: string;
+  workdayEnd: string;
+  /** Working days, 0 = Sunday. */
+  workdays: number[];
+}
+
+export const DEFAULT_MEETING_TIME_SETTINGS: MeetingTimeSettings = {
+  enabled: false,
+  logUnmatched: true,
+  rules: [],
+  workdayStart: '09:00',
+  workdayEnd: '17:00',
+  workdays: [1, 2, 3, 4, 5]
+};
+
+/** A calendar event that takes up time: not all-day and not shown as free. */
+export interface Meeting {
+  eventId: string;
+  subject: string;
+  organizer: string;
+  start: Date;
+  end: Date;
+}
+
+/** How far back each sync looks for meetings that haven't been logged yet. */
+const SYNC_DAYS = 7;
+const SYNC_INTERVAL_MS = 15 * 60_000;
+/** Wait after sign-in before the first sync, so the ledger and calendar token have loaded. */
+const SETTLE_DELAY_MS = 30_000;
+/** Deleted meeting entries remembered so they aren't logged again; older ones have aged out of the sync window. */
+const MAX_IGNORED_EVENTS = 500;
+
+export function meetingsFromEvents(events: CalendarEvent[]): Meeting[] {
+  return events
+    .filter(e => !e.isAllDay && e.showAs !== 'free')
+    .map(e => ({
+      eventId: e.id,
+      subject: e.subject || '(No subject)',
+      organizer: [e.organizer?.emailAddress.name, e.organizer?.emailAddress.address].filter(Boolean).join(' '),
+      start: parseEventDateTime(e.start.dateTime),
+      end: parseEventDateTime(e.end.dateTime)
+    }))
+    .filter(m => m.end > m.start);
+}
+
+export function matchMeetingRule(meeting: Meeting, rules: MeetingRule[]): MeetingRule | null {
+  return rules.find(rule => {
+    const keyword = rule.keyword.trim().toLowerCase();
+    const text = rule.field === 'subject' ? meeting.subject : meeting.organizer;
+    return !!keyword && text.toLowerCase().includes(keyword);
+  }) ?? null;
+}
+
+/** Firestore ids can't contain slashes, which Graph event ids sometimes do. */
+function entryIdFor(eventId: string): string {
+  return `calendar-${eventId.replace(/\//g, '_')}`;
+}
+
+/**
+ * Turns finished calendar meetings into time entries, booked by the user's rules, and keeps
+ * the working hours the unaccounted-time view measures against. Settings live at
+ * `users/{uid}/settings/meetingTime`.
+ *
+ * Entries get an id derived from the event, so two open tabs syncing at once write the same
+ * entry rather than two. A meeting entry the user deletes is remembered and not logged again.
+ */
+@Injectable({ providedIn: 'root' })
+export class MeetingTimeService {
+  private settingsSubject = new BehaviorSubject<MeetingTimeSettings>(DEFAULT_MEETING_TIME_SETTINGS);
+  readonly settings$: Observable<MeetingTimeSettings> = this.settingsSubject.asObservable();
+
+  private settingsLoaded = new BehaviorSubject<boolean>(false);
+  private ignoredEventIds: string[] = [];
+  private syncing = false;
+  private unsubscribeSettings: (() => void) | null = null;
+  private currentUserId: string | null = null;
+
+  constructor(
+    private firestore: Firestore,
+    private auth: Auth,
+    private calendarService: MicrosoftCalendarService,
+    private taskService: TaskService,
+    private timeEntryService: TimeEntryService
+  ) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeSettings(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+      }
+    });
+
+    combineLatest([timer(SETTLE_DELAY_MS, SYNC_INTERVAL_MS), this.settingsLoaded, this.timeEntryService.loaded$]).pipe(
+      filter(([, settingsReady, entriesReady]) => settingsReady && entriesReady)
+    ).subscribe(() => {
+      if (this.settingsSubject.value.enabled) {
+        this.syncNow().catch(e => console.error('Failed to log meetings:', e));
+      }
+    });
+  }
+
+  private settingsDocRef(uid: string) {
+    return doc(this.firestore, `users/${uid}/settings/meetingTime`);
+  }
+
+  private subscribeSettings(uid: string): void {
+    this.unsubscribeSettings = onSnapshot(this.settingsDocRef(uid), snap => {
+      const data = snap.data() ?? {};
+      this.ignoredEventIds = data['ignoredEventIds'] ?? [];
+      this.settingsSubject.next({
+        enabled: data['enabled'] ?? DEFAULT_MEETING_TIME_SETTINGS.enabled,
+        logUnmatched: data['logUnmatched'] ?? DEFAULT_MEETING_TIME_SETTINGS.logUnmatched,
+        rules: data['rules'] ?? DEFAULT_MEETING_TIME_SETTINGS.rules,
+        workdayStart: data['workdayStart'] ?? DEFAULT_MEETING_TIME_SETTINGS.workdayStart,
+        workdayEnd: data['workdayEnd'] ?? DEFAULT_MEETING_TIME_SETTINGS.workdayEnd,
+        workdays: data['workdays'] ?? DEFAULT_MEETING_TIME_SETTINGS.workdays
+      });
+      this.settingsLoaded.next(true);
+    }, e => console.error('Failed to listen to meeting time settings:', e));
+  }
+
+  private cleanup(): void {
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+    this.ignoredEventIds = [];
+    this.settingsSubject.next(DEFAULT_MEETING_TIME_SETTINGS);
+    this.settingsLoaded.next(false);
+  }
+
+  getSettings(): MeetingTimeSettings {
+    return this.settingsSubject.value;
+  }
+
+  async saveSettings(settings: MeetingTimeSettings): Promise<void> {
+    if (!this.currentUserId) return;
+    await setDoc(this.settingsDocRef(this.currentUserId), settings, { merge: true });
+  }
+
+  /** Keeps a deleted meeting entry from being logged again on the next sync. */
+  async ignoreEvent(eventId: string): Promise<void> {
+    if (!this.currentUserId) return;
+    const ignored = [...this.ignoredEventIds.filter(id => id !== eventId), eventId].slice(-MAX_IGNORED_EVENTS);
+    this.ignoredEventIds = ignored;
+    await setDoc(this.settingsDocRef(this.currentUserId), { ignoredEventIds: ignored }, { merge: true });
+  }
+
+  /** Meetings between two times, from the calendar. Empty when the calendar isn't connected. */
+  meetingsBetween(start: Date, end: Date): Observable<Meeting[]> {
+    return this.calendarService.fetchEventsForRange(start, end).pipe(map(meetingsFromEvents));
+  }
+
+  /** Logs every meeting from the last week that has ended and isn't logged yet. Returns how many were added. */
+  async syncNow(): Promise<number> {
+    if (this.syncing || !this.currentUserId || !this.calendarService.isConfigured()) return 0;
+    this.syncing = true;
+    try {
+      const now = new Date();
+      const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - SYNC_DAYS);
+      const meetings = await firstValueFrom(this.meetingsBetween(from, now));
+      const logged = new Set(this.timeEntryService.getEntries().map(e => e.eventId).filter(Boolean));
+      const settings = this.settingsSubject.value;
+      let added = 0;
+      for (const meeting of meetings) {
+        if (meeting.end > now || logged.has(meeting.eventId) || this.ignoredEventIds.includes(meeting.eventId)) continue;
+        const rule = matchMeetingRule(meeting, settings.rules);
+        const task = rule?.taskId ? this.taskService.getTaskById(rule.taskId) : undefined;
+        const link = task ? null : rule?.link ?? null;
+        if (!task && !link && !settings.logUnmatched) continue;
+        await this.timeEntryService.addEntry({
+          taskId: task?.id ?? '',
+          taskTitle: task?.title ?? link?.title ?? '',
+          start: meeting.start,
+          end: meeting.end,
+          note: meeting.subject,
+          source: 'calendar',
+          link,
+          eventId: meeting.eventId
+        }, entryIdFor(meeting.eventId));
+        added++;
+      }
+      return added;
+    } finally {
+      this.syncing = false;
+    }
+  }
+}
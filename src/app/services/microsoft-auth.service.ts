@@ -1,8 +1,11 @@
 import { Injectable } from '@angular/core';
-import { PublicClientApplication, AccountInfo, Configuration } from '@azure/msal-browser';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import {
+  PublicClientApplication, AccountInfo, AuthenticationResult, Configuration, InteractionRequiredAuthError
+} from '@azure/msal-browser';
+import { BehaviorSubject, EMPTY, Observable, Subject, combineLatest, defer, of, timer } from 'rxjs';
+import { distinctUntilChanged, expand, map, retry, startWith, switchMap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { CredentialId, CredentialVaultService } from './credential-vault.service';
 
 const MSAL_CONFIG: Configuration = {
   auth: {
@@ -15,86 +18,191 @@ const MSAL_CONFIG: Configuration = {
   },
 };
 
+// Sign-in only asks for the basic profile; each integration asks for its own scopes when it is
+// first connected (incremental consent), so declining one doesn't block the others.
+const LOGIN_SCOPES = ['User.Read'];
+
 // Only scopes that are user-consentable (no admin approval required).
-// Presence.Read.All and User.ReadBasic.All require admin consent and are excluded.
-const LOGIN_SCOPES = [
-  'User.Read',
-  'Calendars.Read',
-  'MailboxSettings.Read',
-];
+// Presence.Read.All, User.ReadBasic.All and ChannelMessage.Read.All require admin consent and are excluded.
+export const GRAPH_SCOPES = {
+  calendar: ['Calendars.Read'],
+  mail: ['Mail.ReadWrite'],
+  teams: ['Chat.Read', 'Presence.Read', 'Team.ReadBasic.All', 'Channel.ReadBasic.All', 'MailboxSettings.Read'],
+  // Only asked for when focus mode is set to update Teams presence
+  presence: ['Presence.ReadWrite'],
+} satisfies Record<string, string[]>;
+
+export type GraphIntegration = keyof typeof GRAPH_SCOPES;
+
+/** MSAL renews a cached token once it is within five minutes of expiry; ask again just inside that window. */
+const REFRESH_BEFORE_EXPIRY_MS = 4 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+/** Backoff for renewals that failed on the network or a throttled token endpoint: 5s, 10s, 20s... up to 5 minutes. */
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** A Graph access token and where it came from. */
+export interface GraphToken {
+  token: string;
+  expiresAt: Date | null;
+  /** `msal`: acquired and renewed silently; `pasted`: a Graph Explorer token from the credential vault. */
+  source: 'msal' | 'pasted';
+}
 
 @Injectable({ providedIn: 'root' })
 export class MicrosoftAuthService {
   private msalInstance = new PublicClientApplication(MSAL_CONFIG);
-  private initPromise: Promise<void>;
+
+  /** Resolves once MSAL has initialised (or failed to), and any redirect response has been handled. */
+  readonly ready: Promise<void>;
 
   private accountSubject = new BehaviorSubject<AccountInfo | null>(null);
   account$: Observable<AccountInfo | null> = this.accountSubject.asObservable();
   isAuthenticated$: Observable<boolean> = this.account$.pipe(map(a => !!a));
 
-  constructor() {
-    this.initPromise = this.initialize();
+  /** False when MSAL can't run here (e.g. no WebCrypto, storage blocked); callers fall back to pasted tokens. */
+  private availableSubject = new BehaviorSubject<boolean>(true);
+  available$: Observable<boolean> = this.availableSubject.asObservable();
+
+  /** Re-acquires every Graph token; `true` bypasses MSAL's cache (used after a 401). */
+  private refreshSubject = new Subject<boolean>();
+
+  constructor(private vault: CredentialVaultService) {
+    this.ready = this.initialize();
   }
 
   private async initialize(): Promise<void> {
-    await this.msalInstance.initialize();
-    // Handle redirect response in case the app was loaded as a redirect target
-    await this.msalInstance.handleRedirectPromise().catch(() => {});
-    // Restore previously authenticated account from MSAL cache
-    const accounts = this.msalInstance.getAllAccounts();
-    if (accounts.length > 0) {
-      this.msalInstance.setActiveAccount(accounts[0]);
-      this.accountSubject.next(accounts[0]);
+    try {
+      await this.msalInstance.initialize();
+      // Handle redirect response in case the app was loaded as a redirect target
+      await this.msalInstance.handleRedirectPromise().catch(() => {});
+      // Restore previously authenticated account from MSAL cache
+      const accounts = this.msalInstance.getAllAccounts();
+      if (accounts.length > 0) {
+        this.msalInstance.setActiveAccount(accounts[0]);
+        this.accountSubject.next(accounts[0]);
+      }
+    } catch (e) {
+      console.warn('MSAL unavailable, Microsoft integrations will use pasted tokens:', e);
+      this.availableSubject.next(false);
     }
   }
 
-  private async ensureInitialized(): Promise<void> {
-    await this.initPromise;
+  isAvailable(): boolean {
+    return this.availableSubject.value;
   }
 
   async signIn(): Promise<void> {
-    await this.ensureInitialized();
+    await this.ready;
     const result = await this.msalInstance.loginPopup({ scopes: LOGIN_SCOPES });
     this.msalInstance.setActiveAccount(result.account);
     this.accountSubject.next(result.account);
   }
 
   async signOut(): Promise<void> {
-    await this.ensureInitialized();
+    await this.ready;
     const account = this.accountSubject.value ?? undefined;
     await this.msalInstance.logoutPopup({ account });
     this.accountSubject.next(null);
   }
 
-  async getToken(scopes: string[]): Promise<string | null> {
-    await this.ensureInitialized();
-    const account = this.accountSubject.value ?? this.msalInstance.getActiveAccount();
-    if (!account) return null;
+  /**
+   * Interactive consent for `scopes`, signing in first if needed. Call from a click handler so the
+   * popup isn't blocked. Returns false if the user closed the popup or consent was refused.
+   */
+  async connect(scopes: string[]): Promise<boolean> {
+    await this.ready;
+    if (!this.isAvailable()) return false;
     try {
-      const result = await this.msalInstance.acquireTokenSilent({ scopes, account });
-      return result.accessToken;
-    } catch (silentError: any) {
-      // If the error is a consent/interaction-required error for a scope that wasn't
-      // consented at login, don't show a popup — just return null so callers can
-      // fail gracefully. Only fall back to popup for actual token-expiry errors.
-      const interactionCodes = ['interaction_required', 'consent_required', 'login_required'];
-      const code: string = silentError?.errorCode ?? '';
-      if (interactionCodes.some(c => code.includes(c))) {
-        // Try a popup only for session/token expiry, not for missing consent
-        const isConsentError = code.includes('consent_required');
-        if (isConsentError) return null;
-        try {
-          const result = await this.msalInstance.acquireTokenPopup({ scopes, account });
-          return result.accessToken;
-        } catch {
-          return null;
-        }
-      }
-      return null;
+      const account = this.accountSubject.value;
+      const result = account
+        ? await this.msalInstance.acquireTokenPopup({ scopes, account })
+        : await this.msalInstance.loginPopup({ scopes: [...LOGIN_SCOPES, ...scopes] });
+      this.msalInstance.setActiveAccount(result.account);
+      this.accountSubject.next(result.account);
+      localStorage.setItem('ms-graph-ever-connected', 'true');
+      this.refreshSubject.next(false);
+      return true;
+    } catch (e) {
+      console.warn('Microsoft consent was not completed:', e);
+      return false;
     }
   }
 
+  /**
+   * Silent token for `scopes`, or null when there is no account or the scopes haven't been
+   * consented to yet. With `interactive`, a consent/sign-in popup is shown instead of returning null.
+   */
+  async getToken(scopes: string[], options: { interactive?: boolean } = {}): Promise<string | null> {
+    const result = await this.acquire(scopes, false, options.interactive);
+    return result?.accessToken ?? null;
+  }
+
   getAccount(): AccountInfo | null {
     return this.accountSubject.value;
   }
+
+  /** Forces fresh tokens for every integration, e.g. after Graph rejected a cached one. */
+  refresh(): void {
+    this.refreshSubject.next(true);
+  }
+
+  /**
+   * The token an integration should send: MSAL's while the account has consented to `scopes`,
+   * re-acquired silently shortly before each expiry; otherwise the pasted token kept in the
+   * credential vault under `credential`. Emits null when neither is available.
+   */
+  graphToken$(credential: CredentialId, scopes: string[]): Observable<GraphToken | null> {
+    return combineLatest([this.account$, this.refreshSubject.pipe(startWith(false))]).pipe(
+      switchMap(([account, force]) => account ? this.renewingToken$(scopes, force) : of(null)),
+      switchMap(msal => msal ? of(msal) : this.vault.secret$(credential).pipe(
+        map((token): GraphToken | null => token ? { token, expiresAt: null, source: 'pasted' } : null)
+      )),
+      distinctUntilChanged((a, b) => a?.token === b?.token)
+    );
+  }
+
+  private renewingToken$(scopes: string[], force: boolean): Observable<GraphToken | null> {
+    const acquire = (forceRefresh: boolean) => defer(() => this.acquireSilent(scopes, forceRefresh)).pipe(
+      // Only a need for sign-in or consent ends renewal; anything else is retried until it works
+      retry({ delay: (_error, attempt) => timer(Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))) }),
+      map((r): GraphToken | null => r ? { token: r.accessToken, expiresAt: r.expiresOn, source: 'msal' } : null)
+    );
+    return acquire(force).pipe(
+      expand(current => current?.expiresAt
+        ? timer(Math.max(MIN_REFRESH_DELAY_MS, current.expiresAt.getTime() - Date.now() - REFRESH_BEFORE_EXPIRY_MS))
+            .pipe(switchMap(() => acquire(false)))
+        : EMPTY)
+    );
+  }
+
+  private async acquire(scopes: string[], forceRefresh: boolean, interactive = false): Promise<AuthenticationResult | null> {
+    try {
+      const result = await this.acquireSilent(scopes, forceRefresh);
+      if (result || !interactive || !this.isAvailable()) return result;
+      // Missing consent or an expired session needs a popup, which is only allowed from a user
+      // gesture; background callers get null and fall back to any pasted token.
+      const account = this.accountSubject.value ?? this.msalInstance.getActiveAccount();
+      return account ? await this.msalInstance.acquireTokenPopup({ scopes, account }) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Null when there is no account or MSAL needs the user (sign-in or consent); other failures,
+   * such as a dropped connection, are thrown so the caller can try again.
+   */
+  private async acquireSilent(scopes: string[], forceRefresh: boolean): Promise<AuthenticationResult | null> {
+    await this.ready;
+    if (!this.isAvailable()) return null;
+    const account = this.accountSubject.value ?? this.msalInstance.getActiveAccount();
+    if (!account) return null;
+    try {
+      return await this.msalInstance.acquireTokenSilent({ scopes, account, forceRefresh });
+    } catch (e) {
+      if (e instanceof InteractionRequiredAuthError) return null;
+      throw e;
+    }
+  }
 }
@@ -1,7 +1,11 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, BehaviorSubject, of } from 'rxjs';
+import { Observable, BehaviorSubject, of, from } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
+import { CredentialVaultService } from './credential-vault.service';
+import { MicrosoftAuthService, GRAPH_SCOPES, GraphToken } from './microsoft-auth.service';
+import { dayKey } from './local-date';
 
 export interface CalendarEvent {
   id: string;
@@ -44,11 +48,41 @@ export interface CalendarEvent {
   showAs?: string; // busy, free, tentative, etc.
 }
 
+/** Last fetched day view; only replayed for the same calendar day. */
+interface CachedDay {
+  date: string;
+  events: CalendarEvent[];
+}
+
+/** Recently fetched ranges, keyed by `${start}/${end}`; only replayed for an identical range. */
+interface CachedRange {
+  range: string;
+  events: CalendarEvent[];
+}
+
+const DAY_CACHE_KEY = 'calendar:day';
+const RANGE_CACHE_KEY = 'calendar:ranges';
+const MAX_CACHED_RANGES = 4;
+
+/**
+ * An event's start or end as a Date. Graph sends local wall-clock times (we ask for the
+ * user's time zone) with seven fractional digits and no offset.
+ */
+export function parseEventDateTime(dateTime: string): Date {
+  const s = dateTime.replace(/(\.(\d{3}))\d+/, '$1');
+  if (/Z$|[+-]\d{2}:\d{2}$/.test(s)) return new Date(s);
+  const [datePart, timePart = '00:00'] = s.split('T');
+  const [y, m, d] = datePart.split('-').map(Number);
+  const [hh, mm, ss = '0'] = timePart.split(':');
+  return new Date(y, m - 1, d, Number(hh), Number(mm), Number(ss));
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class MicrosoftCalendarService {
   private accessToken = '';
+  private tokenSource: GraphToken['source'] | null = null;
   private eventsSubject = new BehaviorSubject<CalendarEvent[]>([]);
   public events$ = this.eventsSubject.asObservable();
 
@@ -68,8 +102,51 @@ export class MicrosoftCalendarService {
   private tokenExpirySubject = new BehaviorSubject<Date | null>(null);
   public tokenExpiry$ = this.tokenExpirySubject.asObservable();
 
-  constructor(private http: HttpClient) {
-    this.loadConfiguration();
+  /** Sync state of the day view (`events$`). */
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  public syncState$ = this.syncStateSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private offlineCache: OfflineCacheService,
+    private vault: CredentialVaultService,
+    private msAuth: MicrosoftAuthService
+  ) {
+    // MSAL token when signed in to Microsoft, else a pasted one; renewed silently before it expires
+    this.msAuth.graphToken$('outlook-calendar', GRAPH_SCOPES.calendar).subscribe(graphToken => {
+      const token = graphToken?.token ?? '';
+      this.accessToken = token;
+      this.tokenSource = graphToken?.source ?? null;
+      // Only emit on a real change, so a renewed token doesn't make widgets reload
+      if (this.configuredSubject.value !== !!token) this.configuredSubject.next(!!token);
+      this.tokenExpirySubject.next(graphToken ? graphToken.expiresAt ?? this.parseExpiry(token) : null);
+      if (token) {
+        // Show today's cached agenda until the first fetch completes
+        this.restoreDay(dayKey(new Date()), () => !this.syncStateSubject.value.lastSyncedAt);
+      }
+    });
+  }
+
+  /** Replays the cached day view if it is for `date`; `shouldApply` is re-checked once the read resolves. */
+  private async restoreDay(date: string, shouldApply: () => boolean = () => true): Promise<CalendarEvent[]> {
+    const cached = await this.offlineCache.read<CachedDay>(DAY_CACHE_KEY);
+    if (!cached || cached.data.date !== date || !shouldApply()) return [];
+    this.eventsSubject.next(cached.data.events);
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
+    return cached.data.events;
+  }
+
+  private async restoreRange(range: string, publish = true): Promise<CalendarEvent[]> {
+    const cached = await this.offlineCache.read<CachedRange[]>(RANGE_CACHE_KEY);
+    const hit = cached?.data.find(r => r.range === range);
+    if (hit && publish) this.weekEventsSubject.next(hit.events);
+    return hit?.events ?? [];
+  }
+
+  private async cacheRange(range: string, events: CalendarEvent[]): Promise<void> {
+    const cached = await this.offlineCache.read<CachedRange[]>(RANGE_CACHE_KEY);
+    const others = (cached?.data ?? []).filter(r => r.range !== range);
+    await this.offlineCache.write(RANGE_CACHE_KEY, [{ range, events }, ...others].slice(0, MAX_CACHED_RANGES));
   }
 
   /** Extract the exp claim from a JWT without verifying the signature. */
@@ -84,10 +161,8 @@ export class MicrosoftCalendarService {
   }
 
   initialize(accessToken: string) {
-    this.accessToken = accessToken;
-    this.configuredSubject.next(true);
-    this.tokenExpirySubject.next(this.parseExpiry(accessToken));
-    this.saveConfiguration();
+    this.vault.set('outlook-calendar', accessToken, this.parseExpiry(accessToken))
+      .catch(e => console.error('Failed to save Outlook Calendar token:', e));
     localStorage.setItem('ms-graph-ever-connected', 'true');
   }
 
@@ -95,6 +170,15 @@ export class MicrosoftCalendarService {
    * Get calendar events for a date range (does not affect the day-view events$ subject)
    */
   getEventsForRange(start: Date, end: Date): Observable<CalendarEvent[]> {
+    return this.fetchRange(start, end, true);
+  }
+
+  /** Events for a range without replacing `weekEvents$`, for background work the widgets don't show. */
+  fetchEventsForRange(start: Date, end: Date): Observable<CalendarEvent[]> {
+    return this.fetchRange(start, end, false);
+  }
+
+  private fetchRange(start: Date, end: Date, publish: boolean): Observable<CalendarEvent[]> {
     if (!this.accessToken) return of([]);
 
     const userTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -111,14 +195,16 @@ export class MicrosoftCalendarService {
     return this.http.get<any>(url, { headers }).pipe(
       map(response => {
         const events = response.value as CalendarEvent[];
-        this.weekEventsSubject.next(events);
+        if (publish) this.weekEventsSubject.next(events);
+        this.cacheRange(`${startStr}/${endStr}`, events);
         return events;
       }),
       catchError(error => {
         if (error.status === 401) {
-          this.clearConfiguration();
+          this.handleUnauthorized();
+          return of([]);
         }
-        return of([]);
+        return from(this.restoreRange(`${startStr}/${endStr}`, publish));
       })
     );
   }
@@ -157,6 +243,7 @@ export class MicrosoftCalendarService {
       'Prefer': `outlook.timezone="${userTimeZone}"`
     });
 
+    const requestedYmd = dayKey(date);
     const url = `https://graph.microsoft.com/v1.0/me/calendarview?startDateTime=${startDateTime}&endDateTime=${endDateTime}&$orderby=start/dateTime&$select=id,subject,start,end,location,organizer,attendees,isOnlineMeeting,onlineMeeting,showAs,isAllDay`;
 
     return this.http.get<any>(url, { headers }).pipe(
@@ -165,9 +252,6 @@ export class MicrosoftCalendarService {
         // Filter out all-day events whose start date doesn't match the requested date.
         // Graph returns all-day events spanning into the next day (end = next midnight)
         // which would otherwise bleed into the following day's query.
-        const ymd = (d: Date) =>
-          `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-        const requestedYmd = ymd(date);
         const events = allEvents.filter(e => {
           if (!e.isAllDay) return true;
           // All-day event datetimes use date strings like "2026-04-21T00:00:00.0000000".
@@ -179,22 +263,29 @@ export class MicrosoftCalendarService {
         });
         this.eventsSubject.next(events);
         this.loadingSubject.next(false);
+        this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+        this.offlineCache.write<CachedDay>(DAY_CACHE_KEY, { date: requestedYmd, events });
         return events;
       }),
       catchError(error => {
         console.error('Failed to fetch calendar events:', error);
         if (error.status === 401) {
-          this.clearConfiguration();
-          this.errorSubject.next('Token expired. Please paste a new token in Connections → Outlook Calendar.');
+          this.handleUnauthorized();
+          this.errorSubject.next(this.tokenSource === 'msal'
+            ? 'Microsoft session expired. Refreshing…'
+            : 'Token expired. Please paste a new token in Connections → Outlook Calendar.');
         } else if (error.status === 403) {
-          this.errorSubject.next('403: Token is missing the Calendars.Read permission. In Graph Explorer, go to Modify Permissions, consent to Calendars.Read, then copy a fresh token.');
+          this.errorSubject.next(this.tokenSource === 'msal'
+            ? '403: Calendars.Read has not been granted. Reconnect Outlook Calendar in Connections.'
+            : '403: Token is missing the Calendars.Read permission. In Graph Explorer, go to Modify Permissions, consent to Calendars.Read, then copy a fresh token.');
         } else {
           const status = error.status ? `HTTP ${error.status}` : 'Network error';
           const detail = error.error?.message || error.error?.error?.message || error.message || 'Unknown error';
           this.errorSubject.next(`${status}: ${detail}`);
         }
         this.loadingSubject.next(false);
-        return of([]);
+        // Fall back to the cached day so the agenda stays readable offline; the error still shows
+        return error.status === 401 ? of([]) : from(this.restoreDay(requestedYmd));
       })
     );
   }
@@ -206,26 +297,20 @@ export class MicrosoftCalendarService {
     return this.configuredSubject.value;
   }
 
-  private saveConfiguration() {
-    if (this.accessToken) {
-      localStorage.setItem('outlook-calendar-token', this.accessToken);
-    }
-  }
-
-  private loadConfiguration() {
-    const token = localStorage.getItem('outlook-calendar-token');
-    if (token) {
-      this.accessToken = token;
-      this.configuredSubject.next(true);
-      this.tokenExpirySubject.next(this.parseExpiry(token));
+  /** MSAL tokens are renewed; a rejected pasted token is dropped so the reconnect prompt appears. */
+  private handleUnauthorized(): void {
+    if (this.tokenSource === 'msal') {
+      this.msAuth.refresh();
+    } else {
+      this.clearConfiguration();
     }
   }
 
   clearConfiguration() {
-    this.accessToken = '';
-    this.configuredSubject.next(false);
-    this.tokenExpirySubject.next(null);
-    localStorage.removeItem('outlook-calendar-token');
+    this.vault.remove('outlook-calendar');
     this.eventsSubject.next([]);
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(DAY_CACHE_KEY);
+    this.offlineCache.remove(RANGE_CACHE_KEY);
   }
 }
@@ -2,6 +2,9 @@ import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { Observable, BehaviorSubject, of } from 'rxjs';
 import { map, catchError, tap } from 'rxjs/operators';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
+import { CredentialVaultService } from './credential-vault.service';
+import { MicrosoftAuthService, GRAPH_SCOPES, GraphToken } from './microsoft-auth.service';
 
 export interface MailMessage {
   id: string;
@@ -28,8 +31,9 @@ export interface MailMessage {
   providedIn: 'root'
 })
 export class MicrosoftMailService {
-  private readonly STORAGE_KEY = 'outlook-mail-token';
+  private readonly CACHE_KEY = 'mail:inbox';
   private accessToken = '';
+  private tokenSource: GraphToken['source'] | null = null;
 
   private messagesSubject = new BehaviorSubject<MailMessage[]>([]);
   public messages$ = this.messagesSubject.asObservable();
@@ -46,8 +50,32 @@ export class MicrosoftMailService {
   private tokenExpirySubject = new BehaviorSubject<Date | null>(null);
   public tokenExpiry$ = this.tokenExpirySubject.asObservable();
 
-  constructor(private http: HttpClient) {
-    this.loadConfiguration();
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  public syncState$ = this.syncStateSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private offlineCache: OfflineCacheService,
+    private vault: CredentialVaultService,
+    private msAuth: MicrosoftAuthService
+  ) {
+    // MSAL token when signed in to Microsoft, else a pasted one; renewed silently before it expires
+    this.msAuth.graphToken$('outlook-mail', GRAPH_SCOPES.mail).subscribe(graphToken => {
+      const token = graphToken?.token ?? '';
+      this.accessToken = token;
+      this.tokenSource = graphToken?.source ?? null;
+      if (this.configuredSubject.value !== !!token) this.configuredSubject.next(!!token);
+      this.tokenExpirySubject.next(graphToken ? graphToken.expiresAt ?? this.parseExpiry(token) : null);
+      if (token) this.restoreFromCache();
+    });
+  }
+
+  /** Shows the last good inbox until the first fetch completes. */
+  private async restoreFromCache(): Promise<void> {
+    const cached = await this.offlineCache.read<MailMessage[]>(this.CACHE_KEY);
+    if (!cached || this.syncStateSubject.value.lastSyncedAt) return;
+    this.messagesSubject.next(cached.data);
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
   }
 
   private parseExpiry(token: string): Date | null {
@@ -62,29 +90,17 @@ export class MicrosoftMailService {
     }
   }
 
-  private loadConfiguration(): void {
-    const token = localStorage.getItem(this.STORAGE_KEY);
-    if (token) {
-      this.accessToken = token;
-      this.configuredSubject.next(true);
-      this.tokenExpirySubject.next(this.parseExpiry(token));
-    }
-  }
-
   initialize(accessToken: string): void {
-    this.accessToken = accessToken;
-    this.configuredSubject.next(true);
-    this.tokenExpirySubject.next(this.parseExpiry(accessToken));
-    localStorage.setItem(this.STORAGE_KEY, accessToken);
+    this.vault.set('outlook-mail', accessToken, this.parseExpiry(accessToken))
+      .catch(e => console.error('Failed to save Outlook Mail token:', e));
     localStorage.setItem('ms-graph-ever-connected', 'true');
   }
 
   clearConfiguration(): void {
-    this.accessToken = '';
-    this.configuredSubject.next(false);
-    this.tokenExpirySubject.next(null);
+    this.vault.remove('outlook-mail');
     this.messagesSubject.next([]);
-    localStorage.removeItem(this.STORAGE_KEY);
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(this.CACHE_KEY);
   }
 
   fetchInbox(top = 20, unreadOnly = false): Observable<MailMessage[]> {
@@ -116,11 +132,16 @@ export class MicrosoftMailService {
           : response.value;
         this.messagesSubject.next(messages);
         this.loadingSubject.next(false);
+        this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+        this.offlineCache.write(this.CACHE_KEY, messages);
         return messages;
       }),
       catchError(error => {
         this.loadingSubject.next(false);
-        if (error.status === 401) {
+        if (error.status === 401 && this.tokenSource === 'msal') {
+          this.msAuth.refresh();
+          this.errorSubject.next('Microsoft session expired. Refreshing…');
+        } else if (error.status === 401) {
           this.clearConfiguration();
           this.errorSubject.next('Token expired — reconnect in Connections');
         } else {
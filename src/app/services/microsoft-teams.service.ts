@@ -1,7 +1,9 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { BehaviorSubject, Observable, forkJoin, of, throwError } from 'rxjs';
+import { BehaviorSubject, Observable, forkJoin, from, of, throwError } from 'rxjs';
 import { catchError, map, switchMap } from 'rxjs/operators';
+import { CredentialVaultService } from './credential-vault.service';
+import { MicrosoftAuthService, GRAPH_SCOPES, GraphToken } from './microsoft-auth.service';
 
 export interface TeamsPresence {
   availability: 'Available' | 'AvailableIdle' | 'Away' | 'BeRightBack' | 'Busy' | 'BusyIdle' | 'DoNotDisturb' | 'Offline' | 'PresenceUnknown';
@@ -74,7 +76,6 @@ export interface TeamsUser {
 })
 export class MicrosoftTeamsService {
   private readonly GRAPH_API_URL = 'https://graph.microsoft.com/v1.0';
-  private readonly TOKEN_STORAGE_KEY = 'ms-teams-token';
 
   private accessTokenSubject = new BehaviorSubject<string | null>(null);
   accessToken$ = this.accessTokenSubject.asObservable();
@@ -85,32 +86,44 @@ export class MicrosoftTeamsService {
   private currentUserIdSubject = new BehaviorSubject<string | null>(null);
   currentUserId$ = this.currentUserIdSubject.asObservable();
 
-  constructor(private http: HttpClient) {
-    this.loadToken();
-  }
-
-  private loadToken(): void {
-    const token = localStorage.getItem(this.TOKEN_STORAGE_KEY);
-    if (token) {
+  private tokenSource: GraphToken['source'] | null = null;
+
+  constructor(
+    private http: HttpClient,
+    private vault: CredentialVaultService,
+    private msAuth: MicrosoftAuthService
+  ) {
+    // MSAL token when signed in to Microsoft, else a pasted one; renewed silently before it expires
+    this.msAuth.graphToken$('ms-teams', GRAPH_SCOPES.teams).subscribe(graphToken => {
+      const token = graphToken?.token ?? null;
+      this.tokenSource = graphToken?.source ?? null;
       this.accessTokenSubject.next(token);
-      this.isAuthenticatedSubject.next(true);
-      this.fetchCurrentUserId();
-    }
+      if (this.isAuthenticatedSubject.value !== !!token) this.isAuthenticatedSubject.next(!!token);
+      if (!token) {
+        this.currentUserIdSubject.next(null);
+      } else if (!this.currentUserIdSubject.value) {
+        this.fetchCurrentUserId();
+      }
+    });
   }
 
   setAccessToken(token: string): void {
-    localStorage.setItem(this.TOKEN_STORAGE_KEY, token);
+    this.vault.set('ms-teams', token)
+      .catch(e => console.error('Failed to save Teams token:', e));
     localStorage.setItem('ms-graph-ever-connected', 'true');
-    this.accessTokenSubject.next(token);
-    this.isAuthenticatedSubject.next(true);
-    this.fetchCurrentUserId();
   }
 
   clearAccessToken(): void {
-    localStorage.removeItem(this.TOKEN_STORAGE_KEY);
-    this.accessTokenSubject.next(null);
-    this.isAuthenticatedSubject.next(false);
-    this.currentUserIdSubject.next(null);
+    this.vault.remove('ms-teams');
+  }
+
+  /** MSAL tokens are renewed; a rejected pasted token is dropped so the reconnect prompt appears. */
+  private handleUnauthorized(): void {
+    if (this.tokenSource === 'msal') {
+      this.msAuth.refresh();
+    } else {
+      this.clearAccessToken();
+    }
   }
 
   private fetchCurrentUserId(): void {
@@ -303,7 +316,7 @@ export class MicrosoftTeamsService {
       catchError(error => {
         this.chatsLoadingSubject.next(false);
         if (error.status === 401) {
-          this.clearAccessToken();
+          this.handleUnauthorized();
           this.chatsErrorSubject.next('Token expired — reconnect in Connections');
         } else {
           this.chatsErrorSubject.next(error.message || 'Failed to load chats');
@@ -384,7 +397,7 @@ export class MicrosoftTeamsService {
       catchError(error => {
         this.channelsLoadingSubject.next(false);
         if (error.status === 401) {
-          this.clearAccessToken();
+          this.handleUnauthorized();
           this.channelsErrorSubject.next('Token expired — reconnect in Connections');
         } else {
           this.channelsErrorSubject.next(error.message || 'Failed to load channels');
@@ -428,6 +441,34 @@ export class MicrosoftTeamsService {
     );
   }
 
+  // ─── Preferred presence ─────────────────────────────────────────────────────
+
+  /**
+   * Shows the user as Do not disturb for `minutes`, after which Teams goes back to their
+   * usual presence. Needs Microsoft sign-in with Presence.ReadWrite consent.
+   */
+  setFocusPresence(minutes: number): Observable<void> {
+    return this.withPresenceToken(headers => this.http.post<void>(`${this.GRAPH_API_URL}/me/presence/setUserPreferredPresence`, {
+      availability: 'DoNotDisturb',
+      activity: 'DoNotDisturb',
+      expirationDuration: `PT${Math.max(1, Math.round(minutes))}M`
+    }, { headers }));
+  }
+
+  clearFocusPresence(): Observable<void> {
+    return this.withPresenceToken(headers =>
+      this.http.post<void>(`${this.GRAPH_API_URL}/me/presence/clearUserPreferredPresence`, {}, { headers }));
+  }
+
+  private withPresenceToken(request: (headers: HttpHeaders) => Observable<void>): Observable<void> {
+    return from(this.msAuth.getToken(GRAPH_SCOPES.presence)).pipe(
+      switchMap(token => {
+        if (!token) return throwError(() => new Error('Sign in to Microsoft and allow presence updates to set your Teams status.'));
+        return request(new HttpHeaders().set('Authorization', `Bearer ${token}`));
+      })
+    );
+  }
+
   // ─── Presence icon ────────────────────────────────────────────────────────
   getPresenceIcon(availability: string): string {
     switch (availability) {
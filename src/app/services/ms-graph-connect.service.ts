@@ -4,6 +4,8 @@ import { pairwise, filter, debounceTime } from 'rxjs/operators';
 import { MicrosoftCalendarService } from './microsoft-calendar.service';
 import { MicrosoftMailService } from './microsoft-mail.service';
 import { MicrosoftTeamsService } from './microsoft-teams.service';
+import { CredentialVaultService } from './credential-vault.service';
+import { MicrosoftAuthService, GRAPH_SCOPES } from './microsoft-auth.service';
 
 /**
  * Set the first time any MS Graph token is saved. Never cleared — even on
@@ -11,6 +13,7 @@ import { MicrosoftTeamsService } from './microsoft-teams.service';
  * connected before but is now disconnected" across any number of reloads.
  */
 const EVER_CONNECTED_KEY = 'ms-graph-ever-connected';
+const SIGN_OUT_GRACE_MS = 2000;
 
 @Injectable({ providedIn: 'root' })
 export class MsGraphConnectService {
@@ -24,10 +27,14 @@ export class MsGraphConnectService {
    */
   readonly tokenExpired$: Observable<unknown>;
 
+  private signedOutAt = 0;
+
   constructor(
     private calendarService: MicrosoftCalendarService,
     private mailService: MicrosoftMailService,
-    private teamsService: MicrosoftTeamsService
+    private teamsService: MicrosoftTeamsService,
+    private vault: CredentialVaultService,
+    private msAuth: MicrosoftAuthService
   ) {
     // Fired when a live transition occurs (token expires during the session)
     const liveExpiry$ = merge(
@@ -40,22 +47,47 @@ export class MsGraphConnectService {
       teamsService.isAuthenticated$.pipe(
         pairwise(), filter(([prev, curr]) => prev && !curr)
       )
-    ).pipe(debounceTime(100));
+    ).pipe(
+      debounceTime(100),
+      // Locking the vault or signing out of Microsoft drops tokens on purpose; that isn't an expiry
+      filter(() => this.vault.status !== 'locked' && Date.now() - this.signedOutAt > SIGN_OUT_GRACE_MS)
+    );
+
+    this.msAuth.account$.pipe(pairwise(), filter(([prev, curr]) => !!prev && !curr))
+      .subscribe(() => (this.signedOutAt = Date.now()));
 
     // Fired once on startup when the user has connected before but all tokens are now gone
     const startupExpiry$ = new Subject<void>();
     this.tokenExpired$ = merge(liveExpiry$, startupExpiry$);
 
-    const everConnected = localStorage.getItem(EVER_CONNECTED_KEY) === 'true';
-    const anyConnectedNow =
-      calendarService.isConfigured() ||
-      mailService.isConfigured() ||
-      !!localStorage.getItem('ms-teams-token');
+    // Wait for a remembered vault key to be tried and for MSAL to restore its account; say nothing
+    // while the vault is still locked or a Microsoft session can still be renewed silently
+    Promise.all([this.vault.ready, this.msAuth.ready]).then(async () => {
+      const everConnected = localStorage.getItem(EVER_CONNECTED_KEY) === 'true';
+      const anyConnectedNow =
+        calendarService.isConfigured() ||
+        mailService.isConfigured() ||
+        !!this.vault.get('ms-teams') ||
+        !!(await this.msAuth.getToken(['User.Read']));
+
+      if (everConnected && !anyConnectedNow && this.vault.status !== 'locked') {
+        startupExpiry$.next();
+      }
+    });
+  }
 
-    if (everConnected && !anyConnectedNow) {
-      // Defer so subscribers in app.component.ts have time to subscribe first
-      Promise.resolve().then(() => startupExpiry$.next());
+  /**
+   * Signs back in to Microsoft (one popup, consenting to every Graph integration) when MSAL is
+   * available; otherwise opens Graph Explorer and the paste-token modal. Call from a click handler.
+   */
+  async reconnect(): Promise<void> {
+    const scopes = [...GRAPH_SCOPES.calendar, ...GRAPH_SCOPES.mail, ...GRAPH_SCOPES.teams];
+    if (this.msAuth.isAvailable()) {
+      await this.msAuth.connect(scopes);
+      return;
     }
+    window.open('https://developer.microsoft.com/en-us/graph/graph-explorer', '_blank', 'noopener,noreferrer');
+    this.openModal();
   }
 
   openModal(): void {
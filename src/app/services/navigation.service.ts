@@ -1,23 +1,84 @@
 import { Injectable } from '@angular/core';
-import { Subject } from 'rxjs';
+import { NavigationEnd, Router } from '@angular/router';
+import { Observable } from 'rxjs';
+import { filter, map, startWith, distinctUntilChanged, shareReplay } from 'rxjs/operators';
 
-export type AppView = 'dashboard' | 'connections' | 'journal' | 'goals' | 'tasks' | 'open-arena-chat' | 'issues' | 'settings';
+export type AppView = 'dashboard' | 'connections' | 'journal' | 'goals' | 'tasks' | 'open-arena-chat' | 'issues' | 'reports' | 'settings';
+
+/** URL path for each view; the dashboard lives at the root. */
+const VIEW_PATHS: Record<AppView, string> = {
+  'dashboard': '/',
+  'connections': '/connections',
+  'journal': '/journal',
+  'goals': '/goals',
+  'tasks': '/tasks',
+  'open-arena-chat': '/open-arena-chat',
+  'issues': '/issues',
+  'reports': '/reports',
+  'settings': '/settings'
+};
 
 @Injectable({ providedIn: 'root' })
 export class NavigationService {
-  private _navigate$ = new Subject<AppView>();
-  readonly navigate$ = this._navigate$.asObservable();
+  /** The view matching the current URL, derived from router events. */
+  readonly currentView$: Observable<AppView>;
 
   /** Set to true when navigating to the journal with intent to focus the new-entry field.
    *  JournalComponent reads and clears this on ngOnInit. */
   pendingFocusJournalEntry = false;
 
+  /** Set to true when navigating to the tasks page with intent to open the new-task form.
+   *  TaskTrackerComponent reads and clears this on ngOnInit. */
+  pendingNewTask = false;
+
+  /** AI skill to run once the dashboard's AiAskWidgetComponent mounts; it reads and clears this on ngOnInit. */
+  pendingSkillId: string | null = null;
+
+  constructor(private router: Router) {
+    this.currentView$ = this.router.events.pipe(
+      filter((e): e is NavigationEnd => e instanceof NavigationEnd),
+      map(e => e.urlAfterRedirects),
+      startWith(this.router.url),
+      map(url => this.viewForUrl(url)),
+      distinctUntilChanged(),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+  }
+
   navigateTo(view: AppView): void {
-    this._navigate$.next(view);
+    this.router.navigateByUrl(VIEW_PATHS[view]);
   }
 
   navigateToNewJournalEntry(): void {
     this.pendingFocusJournalEntry = true;
-    this._navigate$.next('journal');
+    this.navigateTo('journal');
+  }
+
+  navigateToNewTask(): void {
+    this.pendingNewTask = true;
+    this.navigateTo('tasks');
+  }
+
+  navigateToSkill(skillId: string): void {
+    this.pendingSkillId = skillId;
+    this.navigateTo('dashboard');
+  }
+
+  navigateToJournalEntry(entryId: string): void {
+    this.router.navigate(['/journal', entryId]);
+  }
+
+  navigateToTask(taskId: string): void {
+    this.router.navigate(['/tasks', taskId]);
+  }
+
+  navigateToIssue(identifier: string): void {
+    this.router.navigate(['/issues', identifier]);
+  }
+
+  private viewForUrl(url: string): AppView {
+    const segment = this.router.parseUrl(url).root.children['primary']?.segments[0]?.path ?? '';
+    const match = (Object.keys(VIEW_PATHS) as AppView[]).find(v => VIEW_PATHS[v] === `/${segment}`);
+    return match ?? 'dashboard';
   }
 }
@@ -0,0 +1,113 @@
+import { Injectable } from '@angular/core';
+import { Auth, user } from '@angular/fire/auth';
+import { firstValueFrom } from 'rxjs';
+
+export interface CachedResponse<T> {
+  data: T;
+  savedAt: Date;
+}
+
+/** Where the data a service is currently emitting came from. */
+export interface SyncState {
+  /** When the data was last fetched successfully, or null if it never has been. */
+  lastSyncedAt: Date | null;
+  /** True while the service is showing a cached copy rather than a fresh response. */
+  fromCache: boolean;
+}
+
+export const NOT_SYNCED: SyncState = { lastSyncedAt: null, fromCache: false };
+
+const DB_NAME = 'gavel-offline';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+/**
+ * Keeps the last good response of each integration service in IndexedDB so widgets can render
+ * immediately on load, and keep rendering when the network or a token is down.
+ *
+ * Entries are scoped to the signed-in Firebase user and wiped on sign-out, so a shared browser
+ * never shows one user's inbox or work items to the next. Every method resolves quietly when
+ * IndexedDB is unavailable (e.g. private browsing); the cache is an optimisation, not a store.
+ */
+@Injectable({ providedIn: 'root' })
+export class OfflineCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private currentUserId: string | null = null;
+
+  /** Resolves once Firebase has reported the initial auth state, so reads made at startup are scoped. */
+  private authReady: Promise<unknown>;
+
+  constructor(private auth: Auth) {
+    this.authReady = firstValueFrom(user(this.auth));
+    user(this.auth).subscribe(firebaseUser => {
+      const signedOut = !firebaseUser && this.currentUserId !== null;
+      this.currentUserId = firebaseUser?.uid ?? null;
+      if (signedOut) this.clear();
+    });
+  }
+
+  async read<T>(key: string): Promise<CachedResponse<T> | null> {
+    await this.authReady;
+    const db = await this.open();
+    if (!db || !this.currentUserId) return null;
+    const record = await this.request<{ data: T; savedAt: Date } | undefined>(
+      db.transaction(STORE, 'readonly').objectStore(STORE).get(this.scopedKey(key))
+    ).catch(e => {
+      console.warn(`Failed to read cached ${key}:`, e);
+      return undefined;
+    });
+    return record ? { data: record.data, savedAt: record.savedAt } : null;
+  }
+
+  async write<T>(key: string, data: T): Promise<void> {
+    const db = await this.open();
+    if (!db || !this.currentUserId) return;
+    await this.request(
+      db.transaction(STORE, 'readwrite').objectStore(STORE).put({ data, savedAt: new Date() }, this.scopedKey(key))
+    ).catch(e => console.warn(`Failed to cache ${key}:`, e));
+  }
+
+  async remove(key: string): Promise<void> {
+    const db = await this.open();
+    if (!db || !this.currentUserId) return;
+    await this.request(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(this.scopedKey(key)))
+      .catch(e => console.warn(`Failed to remove cached ${key}:`, e));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    await this.request(db.transaction(STORE, 'readwrite').objectStore(STORE).clear())
+      .catch(e => console.warn('Failed to clear offline cache:', e));
+  }
+
+  private scopedKey(key: string): string {
+    return `${this.currentUserId}:${key}`;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          console.warn('Offline cache unavailable:', req.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
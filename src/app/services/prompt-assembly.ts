@@ -0,0 +1,285 @@
+import { AiProviderKind, DEFAULT_MAX_TOKENS } from './ai-providers';
+import { ChatMessage } from './ai.service';
+
+/**
+ * Sizing prompts to the model: rough token counts, a budget per request, and assembly of
+ * context sections that keeps the most relevant items and drops the rest.
+ */
+
+interface ModelProfile {
+  /** Matched against the start of the model or deployment name, lowercased. */
+  prefix: string;
+  contextWindow: number;
+  /** Average characters per token for the model's tokenizer on English text. */
+  charsPerToken: number;
+}
+
+// Longest prefixes first so e.g. gpt-4o wins over gpt-4
+const MODEL_PROFILES: ModelProfile[] = [
+  { prefix: 'gpt-4o', contextWindow: 128_000, charsPerToken: 4.2 },
+  { prefix: 'gpt-4.1', contextWindow: 1_000_000, charsPerToken: 4.2 },
+  { prefix: 'gpt-4-turbo', contextWindow: 128_000, charsPerToken: 4 },
+  { prefix: 'gpt-4', contextWindow: 8_192, charsPerToken: 4 },
+  { prefix: 'gpt-3.5-turbo', contextWindow: 16_385, charsPerToken: 4 },
+  { prefix: 'o1', contextWindow: 128_000, charsPerToken: 4.2 },
+  { prefix: 'o3', contextWindow: 200_000, charsPerToken: 4.2 },
+  { prefix: 'llama3.', contextWindow: 128_000, charsPerToken: 3.8 },
+  { prefix: 'llama', contextWindow: 8_192, charsPerToken: 3.8 },
+  { prefix: 'mistral', contextWindow: 32_768, charsPerToken: 3.5 },
+  { prefix: 'qwen', contextWindow: 32_768, charsPerToken: 3.5 },
+  { prefix: 'gemma', contextWindow: 8_192, charsPerToken: 3.8 },
+  { prefix: 'phi', contextWindow: 128_000, charsPerToken: 3.5 }
+];
+
+/** Unknown models (including Azure deployment names) are treated as small to stay safe. */
+const FALLBACK_PROFILE: ModelProfile = { prefix: '', contextWindow: 8_192, charsPerToken: 3.5 };
+
+/** GitHub Models caps each request's input regardless of the model's own window. */
+const GITHUB_MODELS_INPUT_LIMIT = 8_000;
+
+/** Ceiling on dashboard context per request, so big windows don't mean big bills. */
+const MAX_CONTEXT_TOKENS = 6_000;
+/** Share of the input limit the system context may take; the rest is for the conversation. */
+const CONTEXT_SHARE = 0.6;
+
+/** What the "…and N more not shown" line of a trimmed section costs, rounded up. */
+const TRIMMED_NOTE_TOKENS = 10;
+
+/** Tokens each chat message costs on top of its text (role and separators). */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+function profileFor(model: string): ModelProfile {
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  return MODEL_PROFILES.find(p => name.startsWith(p.prefix)) ?? FALLBACK_PROFILE;
+}
+
+/** Rough token count for `text` as `model` would see it; errs slightly high. */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / profileFor(model).charsPerToken);
+}
+
+export interface PromptBudget {
+  model: string;
+  /** Most tokens one request may send, leaving room for the reply. */
+  inputTokens: number;
+  /** Share of `inputTokens` for the system context; the conversation gets the rest. */
+  contextTokens: number;
+}
+
+export function promptBudget(model: string, provider: AiProviderKind): PromptBudget {
+  const windowInput = profileFor(model).contextWindow - DEFAULT_MAX_TOKENS;
+  const inputTokens = provider === 'github-models' ? Math.min(GITHUB_MODELS_INPUT_LIMIT, windowInput) : windowInput;
+  return {
+    model,
+    inputTokens,
+    contextTokens: Math.min(MAX_CONTEXT_TOKENS, Math.floor(inputTokens * CONTEXT_SHARE))
+  };
+}
+
+// ── Ranking ─────────────────────────────────────────────────────
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'for', 'to', 'of', 'in', 'on', 'at', 'with', 'by', 'from', 'is', 'are',
+  'was', 'be', 'it', 'this', 'that', 'my', 'me', 'i', 'you', 'what', 'which', 'how', 'do', 'did', 'can'
+]);
+
+function keywords(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+}
+
+/**
+ * Items ordered keep-first: those sharing words with `query` lead, then newer before older.
+ * Recency halves an item's weight every `halfLifeDays`.
+ */
+export function rankByRelevance<T>(
+  items: T[],
+  read: (item: T) => { text: string; timestamp?: Date | null },
+  query = '',
+  halfLifeDays = 7
+): T[] {
+  const wanted = keywords(query);
+  const now = Date.now();
+  const scored = items.map((item, index) => {
+    const { text, timestamp } = read(item);
+    let overlap = 0;
+    if (wanted.size > 0) {
+      for (const word of keywords(text)) if (wanted.has(word)) overlap++;
+    }
+    const ageDays = timestamp ? Math.max(0, (now - timestamp.getTime()) / 86_400_000) : 0;
+    const recency = Math.pow(0.5, ageDays / halfLifeDays);
+    return { item, index, score: overlap * 2 + recency };
+  });
+  return scored.sort((a, b) => b.score - a.score || a.index - b.index).map(s => s.item);
+}
+
+// ── Journal digest ──────────────────────────────────────────────
+
+export interface DigestLine {
+  text: string;
+  /** The newest entry the line covers, for ranking. */
+  timestamp: Date;
+}
+
+/**
+ * Journal lines for a prompt: entries since `verbatimSince` word for word, older ones folded
+ * into one clipped line per day so a busy month still fits. Newest first.
+ */
+export function digestJournal(
+  entries: { text: string; timestamp: Date }[],
+  verbatimSince: Date,
+  clipChars = 80
+): DigestLine[] {
+  const recent: DigestLine[] = [];
+  const older = new Map<string, DigestLine & { texts: string[] }>();
+  const day = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const clip = (text: string) => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > clipChars ? `${flat.slice(0, clipChars - 1)}…` : flat;
+  };
+
+  const newestFirst = [...entries].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  for (const entry of newestFirst) {
+    const when = new Date(entry.timestamp);
+    if (when >= verbatimSince) {
+      const time = when.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+      recent.push({ text: `- [${day(when)} ${time}] ${entry.text}`, timestamp: when });
+    } else {
+      const key = day(when);
+      const group = older.get(key) ?? { text: '', timestamp: when, texts: [] };
+      group.texts.push(clip(entry.text));
+      older.set(key, group);
+    }
+  }
+  const digests = [...older].map(([key, { timestamp, texts }]) => ({
+    text: `- [${key}, ${texts.length} entr${texts.length === 1 ? 'y' : 'ies'}] ${texts.join('; ')}`,
+    timestamp
+  }));
+  return [...recent, ...digests];
+}
+
+// ── Assembly ────────────────────────────────────────────────────
+
+export interface ContextSection {
+  id: string;
+  /** Shown in the "context used" breakdown. */
+  label: string;
+  /** Heading line written above the items; omitted when no item fits. */
+  heading?: string;
+  /** Lines in keep-first order; the tail is dropped when the budget runs out. */
+  items: string[];
+  /** Lower is more important. Sections without one are always kept in full. */
+  priority?: number;
+  /** Most of the budget this section may take before others have had their share (0–1). */
+  maxShare?: number;
+}
+
+export interface SectionUsage {
+  id: string;
+  label: string;
+  tokens: number;
+  included: number;
+  total: number;
+}
+
+export interface AssembledContext {
+  text: string;
+  tokens: number;
+  budget: number;
+  sections: SectionUsage[];
+}
+
+/**
+ * Join sections into one prompt within `budget` tokens. Sections without a priority are kept
+ * whole. The rest first get up to their `maxShare`, most important first; any budget left is
+ * then handed out in the same order. Trimmed sections end with a line saying how many items
+ * were left out. Sections keep their given order in the output.
+ */
+export function assembleContext(sections: ContextSection[], budget: number, model: string): AssembledContext {
+  const cost = (line: string) => estimateTokens(line + '\n', model);
+  const kept = sections.map(() => 0);
+  const spent = sections.map(s => (s.heading ? cost(s.heading) : 0));
+  let remaining = budget;
+
+  sections.forEach((section, i) => {
+    if (section.priority !== undefined) return;
+    kept[i] = section.items.length;
+    spent[i] += section.items.reduce((sum, line) => sum + cost(line), 0);
+    remaining -= spent[i];
+  });
+
+  const ranked = sections
+    .map((section, i) => ({ section, i }))
+    .filter(({ section }) => section.priority !== undefined)
+    .sort((a, b) => a.section.priority! - b.section.priority!);
+  // Room for the "…and N more" line of every section that might get trimmed
+  remaining -= ranked.length * TRIMMED_NOTE_TOKENS;
+
+  const fill = (i: number, limit: number) => {
+    const section = sections[i];
+    // The heading is only paid for once the first item goes in
+    let headingDue = kept[i] === 0 && section.heading ? cost(section.heading) : 0;
+    let used = kept[i] === 0 ? 0 : spent[i];
+    while (kept[i] < section.items.length) {
+      const next = cost(section.items[kept[i]]) + headingDue;
+      if (next > remaining || used + next > limit) break;
+      remaining -= next;
+      used += next;
+      kept[i]++;
+      headingDue = 0;
+    }
+    spent[i] = kept[i] > 0 ? used : 0;
+  };
+
+  for (const { section, i } of ranked) fill(i, Math.floor(budget * (section.maxShare ?? 1)));
+  for (const { i } of ranked) fill(i, budget);
+
+  const blocks: string[] = [];
+  const usage: SectionUsage[] = sections.map((section, i) => {
+    const lines = section.items.slice(0, kept[i]);
+    const dropped = section.items.length - kept[i];
+    if (lines.length > 0) {
+      if (dropped > 0) lines.push(`- …and ${dropped} more not shown`);
+      blocks.push([...(section.heading ? [section.heading] : []), ...lines].join('\n'));
+    }
+    return {
+      id: section.id,
+      label: section.label,
+      tokens: lines.length > 0 ? estimateTokens(blocks[blocks.length - 1], model) : 0,
+      included: kept[i],
+      total: section.items.length
+    };
+  });
+
+  const text = blocks.join('\n\n');
+  return { text, tokens: estimateTokens(text, model), budget, sections: usage };
+}
+
+/**
+ * A block of text cut down to `budget` tokens on line boundaries, noting how many lines were
+ * left out. A first line too long to fit on its own is clipped instead.
+ */
+export function fitLines(text: string, budget: number, model: string): string {
+  if (estimateTokens(text, model) <= budget) return text;
+  const lines = text.split('\n');
+  const fitted = assembleContext([{ id: 'text', label: 'Text', items: lines, priority: 0 }], budget, model);
+  if (fitted.sections[0].included > 0) return fitted.text;
+  const chars = Math.max(0, Math.floor(budget * profileFor(model).charsPerToken) - 1);
+  return `${text.slice(0, chars)}…`;
+}
+
+/**
+ * The most recent messages that fit in `budget` tokens, oldest first, and how many older
+ * ones were left out.
+ */
+export function fitHistory(messages: ChatMessage[], budget: number, model: string): { messages: ChatMessage[]; dropped: number; tokens: number } {
+  let tokens = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const next = estimateTokens(messages[start - 1].content, model) + MESSAGE_OVERHEAD_TOKENS;
+    if (tokens + next > budget) break;
+    tokens += next;
+    start--;
+  }
+  return { messages: messages.slice(start), dropped: start, tokens };
+}
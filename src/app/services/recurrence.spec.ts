@@ -0,0 +1,177 @@
+import { parseDayKey } from './local-date';
+import {
+  describeRule, firstOccurrence, formatRRule, legacyRRule, nextOccurrence, occurrenceKey, occurrences, parseRRule,
+  recurrenceStats, upcomingOccurrences
+} from './recurrence';
+
+function keys(dates: Date[]): string[] {
+  return dates.map(occurrenceKey);
+}
+
+function expand(rrule: string, start: string, limit: number): Date[] {
+  return upcomingOccurrences(parseRRule(rrule), parseDayKey(start), parseDayKey(start), limit);
+}
+
+describe('recurrence', () => {
+  describe('parsing', () => {
+    it('reads and writes a rule', () => {
+      const text = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6';
+      expect(formatRRule(parseRRule(`RRULE:${text}`))).toBe(text);
+    });
+
+    it('reads UNTIL as a local day', () => {
+      expect(occurrenceKey(parseRRule('FREQ=DAILY;UNTIL=20260310').until!)).toBe('2026-03-10');
+      expect(occurrenceKey(parseRRule('FREQ=DAILY;UNTIL=20260310T235959Z').until!)).toBe('2026-03-10');
+    });
+
+    it('rejects rules tasks cannot follow', () => {
+      expect(() => parseRRule('')).toThrowError(/empty/);
+      expect(() => parseRRule('FREQ=HOURLY')).toThrowError(/daily, weekly, monthly or yearly/);
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrowError(/Numbered weekdays/);
+      expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=32')).toThrowError(/BYMONTHDAY/);
+      expect(() => parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20260310')).toThrowError(/COUNT or UNTIL/);
+      expect(() => parseRRule('FREQ=DAILY;BYHOUR=9')).toThrowError(/not supported/);
+    });
+
+    it('converts the older recurrence settings', () => {
+      expect(legacyRRule('weekday', 2)).toBe('FREQ=WEEKLY;BYDAY=TU');
+      expect(legacyRRule('monthday', 40)).toBe('FREQ=MONTHLY;BYMONTHDAY=31');
+      expect(legacyRRule('interval', 3)).toBe('FREQ=DAILY;INTERVAL=3');
+    });
+
+    it('describes a rule in words', () => {
+      expect(describeRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'))).toBe('Every weekday');
+      expect(describeRule(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'))).toBe('Monthly on the last weekday');
+      expect(describeRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'))).toBe('Every 2 weeks on Tuesday');
+    });
+  });
+
+  describe('month ends', () => {
+    it('skips months without the 31st', () => {
+      expect(keys(expand('FREQ=MONTHLY;BYMONTHDAY=31', '2026-01-31', 4)))
+        .toEqual(['2026-01-31', '2026-03-31', '2026-05-31', '2026-07-31']);
+    });
+
+    it('repeats on the start date\'s day of the month without moving it', () => {
+      expect(keys(expand('FREQ=MONTHLY', '2026-01-31', 3))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+      expect(keys(expand('FREQ=MONTHLY', '2026-01-30', 3))).toEqual(['2026-01-30', '2026-03-30', '2026-04-30']);
+    });
+
+    it('counts negative month days from the end of each month', () => {
+      expect(keys(expand('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-01', 4)))
+        .toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+      expect(keys(expand('FREQ=MONTHLY;BYMONTHDAY=-1', '2028-02-01', 1))).toEqual(['2028-02-29']);
+    });
+
+    it('picks the last weekday of the month with BYSETPOS', () => {
+      expect(keys(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-01-01', 3)))
+        .toEqual(['2026-01-30', '2026-02-27', '2026-03-31']);
+    });
+
+    it('only repeats February 29th in leap years', () => {
+      expect(keys(expand('FREQ=YEARLY', '2024-02-29', 2))).toEqual(['2024-02-29', '2028-02-29']);
+    });
+
+    it('runs daily over the end of a month and year', () => {
+      expect(keys(expand('FREQ=DAILY', '2026-12-30', 4))).toEqual(['2026-12-30', '2026-12-31', '2027-01-01', '2027-01-02']);
+    });
+  });
+
+  describe('DST changes', () => {
+    // The spring and autumn changes in North America (March 8, November 1 2026),
+    // Europe (March 29, October 25) and the southern hemisphere (April 5, October 4)
+    const changes = ['2026-03-08', '2026-03-29', '2026-04-05', '2026-10-04', '2026-10-25', '2026-11-01'];
+
+    it('lands daily occurrences on consecutive local midnights', () => {
+      for (const change of changes) {
+        const start = parseDayKey(change);
+        start.setDate(start.getDate() - 2);
+        const dates = upcomingOccurrences(parseRRule('FREQ=DAILY'), start, start, 5);
+        dates.forEach((date, i) => {
+          expect(date.getHours()).withContext(occurrenceKey(date)).toBe(0);
+          expect(date.getDate()).toBe(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i).getDate());
+        });
+      }
+    });
+
+    it('keeps weekly occurrences on the same weekday', () => {
+      expect(keys(expand('FREQ=WEEKLY;BYDAY=SU', '2026-03-01', 6)))
+        .toEqual(['2026-03-01', '2026-03-08', '2026-03-15', '2026-03-22', '2026-03-29', '2026-04-05']);
+      expect(keys(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', '2026-10-19', 3)))
+        .toEqual(['2026-10-19', '2026-11-02', '2026-11-16']);
+    });
+
+    it('steps over a DST change with an interval', () => {
+      expect(keys(expand('FREQ=DAILY;INTERVAL=3', '2026-10-23', 4)))
+        .toEqual(['2026-10-23', '2026-10-26', '2026-10-29', '2026-11-01']);
+    });
+  });
+
+  describe('next occurrence', () => {
+    const weekly = parseRRule('FREQ=WEEKLY;BYDAY=MO,TH');
+    const start = parseDayKey('2026-03-02');
+
+    it('comes after the day of `after`, whatever its time of day', () => {
+      expect(occurrenceKey(nextOccurrence(weekly, start, new Date(2026, 2, 2, 0, 1))!)).toBe('2026-03-05');
+      expect(occurrenceKey(nextOccurrence(weekly, start, new Date(2026, 2, 4, 23, 59))!)).toBe('2026-03-05');
+    });
+
+    it('passes over skipped occurrences', () => {
+      expect(occurrenceKey(nextOccurrence(weekly, start, start, ['2026-03-05', '2026-03-09'])!)).toBe('2026-03-12');
+    });
+
+    it('is null once COUNT or UNTIL runs out', () => {
+      expect(nextOccurrence(parseRRule('FREQ=DAILY;COUNT=3'), start, parseDayKey('2026-03-04'))).toBeNull();
+      expect(nextOccurrence(parseRRule('FREQ=DAILY;UNTIL=20260304'), start, parseDayKey('2026-03-04'))).toBeNull();
+    });
+
+    it('starts a series on its first matching day', () => {
+      expect(occurrenceKey(firstOccurrence(weekly, parseDayKey('2026-03-03'))!)).toBe('2026-03-05');
+    });
+
+    it('ignores the time of day on the start date', () => {
+      const dates = [...occurrences(parseRRule('FREQ=DAILY;COUNT=2'), new Date(2026, 2, 2, 18, 45))];
+      expect(keys(dates)).toEqual(['2026-03-02', '2026-03-03']);
+      expect(dates.every(d => d.getHours() === 0)).toBeTrue();
+    });
+  });
+
+  describe('local due dates', () => {
+    it('keeps a due date picked in a date input on that day', () => {
+      const due = parseDayKey('2026-03-10');
+      expect(occurrenceKey(due)).toBe('2026-03-10');
+      expect(occurrenceKey(firstOccurrence(parseRRule('FREQ=DAILY'), due)!)).toBe('2026-03-10');
+    });
+
+    it('keys an occurrence by its local day at any time of day', () => {
+      expect(occurrenceKey(new Date(2026, 2, 10, 0, 0))).toBe('2026-03-10');
+      expect(occurrenceKey(new Date(2026, 2, 10, 23, 59))).toBe('2026-03-10');
+    });
+  });
+
+  describe('streaks', () => {
+    const daily = parseRRule('FREQ=DAILY');
+    const start = parseDayKey('2026-03-01');
+    const now = new Date(2026, 2, 6, 12);
+
+    it('counts completions, misses and skips up to today', () => {
+      const stats = recurrenceStats(daily, start, [
+        { completedAt: new Date(2026, 2, 1, 9), occurrence: '2026-03-01' },
+        { completedAt: new Date(2026, 2, 2, 23, 30) },
+        { completedAt: new Date(2026, 2, 5, 8), occurrence: '2026-03-05' }
+      ], ['2026-03-04'], now);
+      expect(stats.completed).toBe(3);
+      expect(stats.missed).toBe(1);
+      expect(stats.skipped).toBe(1);
+      expect(stats.currentStreak).toBe(1);
+      expect(stats.longestStreak).toBe(2);
+      expect(stats.completionRate).toBe(0.75);
+    });
+
+    it('does not count today as missed until it is over', () => {
+      const stats = recurrenceStats(daily, parseDayKey('2026-03-06'), [], [], now);
+      expect(stats.missed).toBe(0);
+      expect(stats.completionRate).toBeNull();
+    });
+  });
+});
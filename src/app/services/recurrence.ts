@@ -0,0 +1,404 @@
+import { addDays, dayKey, startOfDay } from './local-date';
+
+/**
+ * Recurrence rules for tasks in the RFC 5545 RRULE format: parsing and writing rules, expanding
+ * them into due dates, describing them in words, and streaks from a task's completion history.
+ *
+ * Tasks are due on days, so rules repeat daily at the finest. Supported parts are FREQ
+ * (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with ordinals such as 2TU or -1FR),
+ * BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL and WKST.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdaySpec {
+  /** 0 = Sunday, as in Date.getDay(). */
+  day: number;
+  /** 2 for "the second", -1 for "the last"; omitted for every such weekday. */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: WeekdaySpec[];
+  /** Days of the month; negative counts from the end (-1 is the last day). */
+  byMonthDay: number[];
+  /** 1 = January. */
+  byMonth: number[];
+  /** Picks from each period's dates in order; -1 is the last. */
+  bySetPos: number[];
+  count?: number;
+  /** Last day an occurrence may fall on, inclusive. */
+  until?: Date;
+  weekStart: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const BUSINESS_DAYS = [1, 2, 3, 4, 5];
+
+/** Periods looked through before giving up on a rule that yields no more dates, e.g. February 30th. */
+const MAX_PERIODS = 10_000;
+
+/** Ready-made rules offered in the task form. */
+export const RECURRENCE_PRESETS: { label: string; rrule: string }[] = [
+  { label: 'Every weekday', rrule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Every other Tuesday', rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU' },
+  { label: '2nd Tuesday of the month', rrule: 'FREQ=MONTHLY;BYDAY=2TU' },
+  { label: 'Last business day of the month', rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' },
+  { label: 'First Monday of each quarter', rrule: 'FREQ=MONTHLY;INTERVAL=3;BYDAY=1MO' },
+  { label: 'Weekly, 10 times', rrule: 'FREQ=WEEKLY;COUNT=10' }
+];
+
+// ── Dates ───────────────────────────────────────────────────────
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/** Local `YYYY-MM-DD`; identifies an occurrence in skip lists and completions. */
+export const occurrenceKey = dayKey;
+
+// ── Parsing and writing ─────────────────────────────────────────
+
+function parseInts(value: string, part: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(raw => {
+    const n = Number(raw);
+    const magnitude = Math.abs(n);
+    if (!Number.isInteger(n) || magnitude < min || magnitude > max || (n < 0 && !allowNegative)) {
+      throw new Error(`Invalid ${part} value "${raw}".`);
+    }
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}".`);
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/** Parse an RRULE, with or without the `RRULE:` prefix. Throws on anything tasks can't follow. */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('The rule is empty.');
+
+  const rule: Partial<RecurrenceRule> = { interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], weekStart: 1 };
+  for (const part of body.split(';').filter(Boolean)) {
+    const [rawKey, value = ''] = part.split('=');
+    const key = rawKey.trim().toUpperCase();
+    const upper = value.trim().toUpperCase();
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(upper as RecurrenceFrequency)) {
+          throw new Error(`Tasks can repeat daily, weekly, monthly or yearly, not "${value}".`);
+        }
+        rule.freq = upper as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInts(upper, 'INTERVAL', 1, 1000)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseInts(upper, 'COUNT', 1, 10_000)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(upper);
+        break;
+      case 'BYDAY':
+        rule.byDay = upper.split(',').map(raw => {
+          const match = raw.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          const nth = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || nth === 0 || (nth !== undefined && Math.abs(nth) > 53)) throw new Error(`Invalid BYDAY value "${raw}".`);
+          return nth === undefined ? { day: WEEKDAY_CODES.indexOf(match[2]) } : { day: WEEKDAY_CODES.indexOf(match[2]), nth };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseInts(upper, 'BYMONTHDAY', 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseInts(upper, 'BYMONTH', 1, 12);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseInts(upper, 'BYSETPOS', 1, 366, true);
+        break;
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(upper)) throw new Error(`Invalid WKST value "${value}".`);
+        rule.weekStart = WEEKDAY_CODES.indexOf(upper);
+        break;
+      default:
+        throw new Error(`${key} is not supported for tasks.`);
+    }
+  }
+
+  if (!rule.freq) throw new Error('The rule needs a FREQ, e.g. FREQ=WEEKLY.');
+  if (rule.count !== undefined && rule.until) throw new Error('Use COUNT or UNTIL, not both.');
+  if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY' && rule.byDay!.some(d => d.nth !== undefined)) {
+    throw new Error('Numbered weekdays such as 2TU need FREQ=MONTHLY or FREQ=YEARLY.');
+  }
+  if (rule.freq === 'WEEKLY' && rule.byMonthDay!.length) throw new Error('BYMONTHDAY cannot be used with FREQ=WEEKLY.');
+  return rule as RecurrenceRule;
+}
+
+/** The rule as an RRULE value, without the `RRULE:` prefix. */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.nth ?? ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${occurrenceKey(rule.until).replace(/-/g, '')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+/** The RRULE for the older weekday / day-of-month / every-N-days settings. */
+export function legacyRRule(type: 'weekday' | 'monthday' | 'interval', value = 1): string {
+  switch (type) {
+    case 'weekday': return `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[value] ?? 'MO'}`;
+    case 'monthday': return `FREQ=MONTHLY;BYMONTHDAY=${Math.min(31, Math.max(1, value))}`;
+    case 'interval': return value > 1 ? `FREQ=DAILY;INTERVAL=${value}` : 'FREQ=DAILY';
+  }
+}
+
+// ── Expansion ───────────────────────────────────────────────────
+
+function pickNth<T>(items: T[], nth: number): T[] {
+  const item = nth > 0 ? items[nth - 1] : items[items.length + nth];
+  return item === undefined ? [] : [item];
+}
+
+function weekdaysIn(days: Date[], spec: WeekdaySpec): Date[] {
+  const matching = days.filter(d => d.getDay() === spec.day);
+  return spec.nth === undefined ? matching : pickNth(matching, spec.nth);
+}
+
+function daysOfMonth(year: number, month: number): Date[] {
+  return Array.from({ length: daysInMonth(year, month) }, (_, i) => new Date(year, month, i + 1));
+}
+
+function matchesMonthDay(date: Date, monthDays: number[]): boolean {
+  const length = daysInMonth(date.getFullYear(), date.getMonth());
+  return monthDays.some(n => (n > 0 ? n : length + 1 + n) === date.getDate());
+}
+
+function expandMonth(rule: RecurrenceRule, year: number, month: number, start: Date): Date[] {
+  const days = daysOfMonth(year, month);
+  let result: Date[];
+  if (rule.byDay.length) {
+    result = rule.byDay.flatMap(spec => weekdaysIn(days, spec));
+    if (rule.byMonthDay.length) result = result.filter(d => matchesMonthDay(d, rule.byMonthDay));
+  } else if (rule.byMonthDay.length) {
+    result = days.filter(d => matchesMonthDay(d, rule.byMonthDay));
+  } else {
+    result = days.filter(d => d.getDate() === start.getDate());
+  }
+  return result;
+}
+
+/** Every date the rule allows in the period starting at `periodStart`, before BYSETPOS. */
+function expandPeriod(rule: RecurrenceRule, periodStart: Date, start: Date): Date[] {
+  const inMonths = (d: Date) => !rule.byMonth.length || rule.byMonth.includes(d.getMonth() + 1);
+  switch (rule.freq) {
+    case 'DAILY': {
+      const ok = inMonths(periodStart)
+        && (!rule.byMonthDay.length || matchesMonthDay(periodStart, rule.byMonthDay))
+        && (!rule.byDay.length || rule.byDay.some(s => s.day === periodStart.getDay()));
+      return ok ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const week = Array.from({ length: 7 }, (_, i) => addDays(periodStart, i));
+      const days = rule.byDay.length ? rule.byDay.map(s => s.day) : [start.getDay()];
+      return week.filter(d => days.includes(d.getDay()) && inMonths(d));
+    }
+    case 'MONTHLY':
+      return inMonths(periodStart) ? expandMonth(rule, periodStart.getFullYear(), periodStart.getMonth(), start) : [];
+    case 'YEARLY': {
+      const year = periodStart.getFullYear();
+      // A numbered weekday without BYMONTH counts through the whole year, e.g. the 20th Monday
+      if (!rule.byMonth.length && rule.byDay.length && !rule.byMonthDay.length) {
+        const days = Array.from({ length: 12 }, (_, m) => daysOfMonth(year, m)).flat();
+        return rule.byDay.flatMap(spec => weekdaysIn(days, spec));
+      }
+      const months = rule.byMonth.length ? rule.byMonth.map(m => m - 1) : [start.getMonth()];
+      return months.flatMap(m => expandMonth(rule, year, m, start));
+    }
+  }
+}
+
+function periodStartFor(rule: RecurrenceRule, start: Date, index: number): Date {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(start, index * rule.interval);
+    case 'WEEKLY': {
+      const weekStart = addDays(start, -((start.getDay() - rule.weekStart + 7) % 7));
+      return addDays(weekStart, index * 7 * rule.interval);
+    }
+    case 'MONTHLY':
+      return new Date(start.getFullYear(), start.getMonth() + index * rule.interval, 1);
+    case 'YEARLY':
+      return new Date(start.getFullYear() + index * rule.interval, 0, 1);
+  }
+}
+
+/**
+ * The rule's dates in order, starting on or after `start`, until COUNT or UNTIL runs out.
+ * `start` plays the part of DTSTART and is only a date: times are ignored.
+ */
+export function* occurrences(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const first = startOfDay(start);
+  const until = rule.until ? startOfDay(rule.until) : null;
+  let emitted = 0;
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    let dates = expandPeriod(rule, periodStartFor(rule, first, i), first);
+    dates = [...new Map(dates.map(d => [d.getTime(), d])).values()].sort((a, b) => a.getTime() - b.getTime());
+    if (rule.bySetPos.length) {
+      const picked = rule.bySetPos.flatMap(pos => pickNth(dates, pos));
+      dates = [...new Set(picked)].sort((a, b) => a.getTime() - b.getTime());
+    }
+    for (const date of dates) {
+      if (date < first) continue;
+      if (until && date > until) return;
+      yield date;
+      if (rule.count !== undefined && ++emitted >= rule.count) return;
+    }
+  }
+}
+
+/** The first date after `after` (by day) that isn't in `skipped`, or null when the series has ended. */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date, skipped: Iterable<string> = []): Date | null {
+  const afterDay = startOfDay(after);
+  const skip = new Set(skipped);
+  for (const date of occurrences(rule, start)) {
+    if (date > afterDay && !skip.has(occurrenceKey(date))) return date;
+  }
+  return null;
+}
+
+/** The first date on or after `from`, e.g. the first due date of a new series. */
+export function firstOccurrence(rule: RecurrenceRule, start: Date, from: Date = start): Date | null {
+  return nextOccurrence(rule, start, addDays(startOfDay(from), -1));
+}
+
+/** Up to `limit` upcoming dates from `from`, for previews. */
+export function upcomingOccurrences(rule: RecurrenceRule, start: Date, from: Date, limit: number): Date[] {
+  const fromDay = startOfDay(from);
+  const dates: Date[] = [];
+  for (const date of occurrences(rule, start)) {
+    if (date < fromDay) continue;
+    dates.push(date);
+    if (dates.length >= limit) break;
+  }
+  return dates;
+}
+
+// ── Describing ──────────────────────────────────────────────────
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const s = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return `${n}${s[(v - 20) % 10] || s[v] || s[0]}`;
+}
+
+function listWords(words: string[]): string {
+  return words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function isBusinessDays(specs: WeekdaySpec[]): boolean {
+  return specs.length === 5 && specs.every(s => s.nth === undefined) && BUSINESS_DAYS.every(d => specs.some(s => s.day === d));
+}
+
+/** The rule in words, e.g. "Every 2 weeks on Tuesday" or "Monthly on the last weekday". */
+export function describeRule(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  const simple: Record<RecurrenceFrequency, string> = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' };
+  let text = rule.interval === 1 ? simple[rule.freq] : `Every ${rule.interval} ${units[rule.freq]}s`;
+
+  const weekdays = isBusinessDays(rule.byDay);
+  if (weekdays && rule.interval === 1 && !rule.bySetPos.length && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    text = 'Every weekday';
+  } else if (rule.bySetPos.length && rule.byDay.length) {
+    const dayWords = weekdays ? 'weekday' : listWords(rule.byDay.map(s => WEEKDAY_NAMES[s.day]));
+    text += ` on the ${listWords(rule.bySetPos.map(ordinal))} ${dayWords}`;
+  } else if (rule.byDay.length) {
+    const days = rule.byDay.map(s => (s.nth === undefined ? WEEKDAY_NAMES[s.day] : `the ${ordinal(s.nth)} ${WEEKDAY_NAMES[s.day]}`));
+    text += ` on ${weekdays ? 'weekdays' : listWords(days)}`;
+  }
+  if (rule.byMonthDay.length) {
+    const days = rule.byMonthDay.map(n => (n === -1 ? 'last day' : ordinal(n)));
+    text += `${rule.byDay.length ? ',' : ''} on the ${listWords(days)}`;
+  }
+  if (rule.byMonth.length) text += ` in ${listWords(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  return text;
+}
+
+// ── Streaks ─────────────────────────────────────────────────────
+
+export interface RecurrenceStats {
+  /** Occurrences done in a row up to today; skipped ones neither count nor break it. */
+  currentStreak: number;
+  longestStreak: number;
+  completed: number;
+  missed: number;
+  skipped: number;
+  /** Share of due occurrences that were done, 0–1; null before the first one was due. */
+  completionRate: number | null;
+}
+
+/**
+ * Streaks over the occurrences due so far. Each completion counts for the occurrence it was
+ * recorded against, or for older records the latest occurrence on or before the day it was done.
+ * Today's occurrence only counts once it is done.
+ */
+export function recurrenceStats(
+  rule: RecurrenceRule,
+  start: Date,
+  completions: { completedAt: Date; occurrence?: string }[],
+  skipped: string[],
+  now = new Date()
+): RecurrenceStats {
+  const today = startOfDay(now);
+  const due: Date[] = [];
+  for (const date of occurrences(rule, start)) {
+    if (date > today) break;
+    due.push(date);
+  }
+
+  const done = new Set<string>();
+  for (const completion of completions) {
+    if (completion.occurrence) {
+      done.add(completion.occurrence);
+      continue;
+    }
+    const day = startOfDay(new Date(completion.completedAt));
+    const latest = [...due].reverse().find(d => d <= day);
+    if (latest) done.add(occurrenceKey(latest));
+  }
+  const skip = new Set(skipped);
+
+  const stats: RecurrenceStats = { currentStreak: 0, longestStreak: 0, completed: 0, missed: 0, skipped: 0, completionRate: null };
+  for (const date of due) {
+    const key = occurrenceKey(date);
+    if (skip.has(key)) {
+      stats.skipped++;
+    } else if (done.has(key)) {
+      stats.completed++;
+      stats.currentStreak++;
+      stats.longestStreak = Math.max(stats.longestStreak, stats.currentStreak);
+    } else if (date < today) {
+      stats.missed++;
+      stats.currentStreak = 0;
+    }
+  }
+  const counted = stats.completed + stats.missed;
+  stats.completionRate = counted ? stats.completed / counted : null;
+  return stats;
+}
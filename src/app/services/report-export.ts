@@ -0,0 +1,158 @@
+/**
+ * Turning a Markdown status report into the formats it is shared in: an HTML fragment for the
+ * preview, a standalone HTML file, and an `.eml` draft that mail clients open ready to send.
+ * Only the Markdown the report itself writes is understood: headings, lists, paragraphs,
+ * links, bold, italics and inline code.
+ */
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function inlineMarkdown(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>');
+}
+
+/** HTML for the subset of Markdown a report uses; everything else is escaped as text. */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let list: 'ul' | 'ol' | null = null;
+  let paragraph: string[] = [];
+
+  const closeParagraph = () => {
+    if (paragraph.length) html.push(`<p>${paragraph.map(inlineMarkdown).join('<br>')}</p>`);
+    paragraph = [];
+  };
+  const closeList = () => {
+    if (list) html.push(`</${list}>`);
+    list = null;
+  };
+  const openList = (kind: 'ul' | 'ol') => {
+    closeParagraph();
+    if (list !== kind) {
+      closeList();
+      html.push(`<${kind}>`);
+      list = kind;
+    }
+  };
+
+  for (const raw of markdown.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (heading) {
+      closeParagraph();
+      closeList();
+      const level = heading[1].length;
+      html.push(`<h${level}>${inlineMarkdown(heading[2])}</h${level}>`);
+    } else if (bullet) {
+      openList('ul');
+      html.push(`<li>${inlineMarkdown(bullet[1])}</li>`);
+    } else if (numbered) {
+      openList('ol');
+      html.push(`<li>${inlineMarkdown(numbered[1])}</li>`);
+    } else if (!line.trim()) {
+      closeParagraph();
+      closeList();
+    } else {
+      closeList();
+      paragraph.push(line.trim());
+    }
+  }
+  closeParagraph();
+  closeList();
+  return html.join('\n');
+}
+
+const DOCUMENT_STYLE = [
+  'body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #1f2d26; line-height: 1.5; max-width: 760px; margin: 24px auto; padding: 0 16px; }',
+  'h1 { color: #314b3e; font-size: 24px; }',
+  'h2 { color: #314b3e; font-size: 18px; border-bottom: 1px solid #dfe6e2; padding-bottom: 4px; margin-top: 24px; }',
+  'h3 { font-size: 15px; }',
+  'a { color: #2f6f4f; }',
+  'code { background: #f1f4f2; padding: 1px 4px; border-radius: 3px; }',
+  'li { margin: 2px 0; }'
+].join('\n');
+
+/** A standalone HTML file for the report, styled inline so it survives being mailed or opened offline. */
+export function toHtmlDocument(title: string, markdown: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${DOCUMENT_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    markdownToHtml(markdown),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+function base64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+/** RFC 2045 caps encoded lines at 76 characters. */
+function wrapBase64(encoded: string): string {
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value)}?=`;
+}
+
+export interface EmailDraft {
+  subject: string;
+  /** Plain-text body; the Markdown source reads fine as-is. */
+  text: string;
+  /** Full HTML document for clients that show rich mail. */
+  html: string;
+  to?: string;
+}
+
+/**
+ * An unsent message in `.eml` format with plain-text and HTML parts. `X-Unsent` makes Outlook
+ * and Apple Mail open it as a draft to edit and send rather than as a received message.
+ */
+export function toEml(draft: EmailDraft, date = new Date()): string {
+  const boundary = `gavel-report-${date.getTime().toString(36)}`;
+  return [
+    `To: ${draft.to ?? ''}`,
+    `Subject: ${encodeHeader(draft.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(base64Utf8(draft.text)),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(base64Utf8(draft.html)),
+    '',
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -2,6 +2,8 @@ import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { BehaviorSubject, Observable, forkJoin, of } from 'rxjs';
 import { catchError, map, switchMap } from 'rxjs/operators';
+import { OfflineCacheService, SyncState, NOT_SYNCED } from './offline-cache.service';
+import { CredentialVaultService } from './credential-vault.service';
 
 // ─── Interfaces ────────────────────────────────────────────────────────────────
 
@@ -36,11 +38,11 @@ export interface SlackMessage {
 @Injectable({ providedIn: 'root' })
 export class SlackService {
   private readonly BASE_URL = '/slack-api';
-  private readonly STORAGE_KEY = 'slack-token';
+  private readonly CACHE_KEY = 'slack:channels';
 
-  private tokenSubject = new BehaviorSubject<string | null>(localStorage.getItem(this.STORAGE_KEY));
+  private tokenSubject = new BehaviorSubject<string | null>(null);
 
-  private isConfiguredSubject = new BehaviorSubject<boolean>(!!localStorage.getItem(this.STORAGE_KEY));
+  private isConfiguredSubject = new BehaviorSubject<boolean>(false);
   readonly isConfigured$ = this.isConfiguredSubject.asObservable();
 
   private channelsSubject = new BehaviorSubject<SlackChannel[]>([]);
@@ -52,23 +54,52 @@ export class SlackService {
   private errorSubject = new BehaviorSubject<string | null>(null);
   readonly error$ = this.errorSubject.asObservable();
 
+  private syncStateSubject = new BehaviorSubject<SyncState>(NOT_SYNCED);
+  readonly syncState$ = this.syncStateSubject.asObservable();
+
   /** Cache of userId → display name */
   private userCache = new Map<string, string>();
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private offlineCache: OfflineCacheService,
+    private vault: CredentialVaultService
+  ) {
+    // Emits synchronously with whatever is available now, then again when the vault unlocks
+    this.vault.secret$('slack').subscribe(token => {
+      this.tokenSubject.next(token);
+      this.isConfiguredSubject.next(!!token);
+      if (token) this.restoreFromCache();
+    });
+  }
+
+  /** Shows the last good channel list (with any loaded messages) until the first fetch completes. */
+  private async restoreFromCache(): Promise<void> {
+    const cached = await this.offlineCache.read<SlackChannel[]>(this.CACHE_KEY);
+    if (!cached || this.syncStateSubject.value.lastSyncedAt) return;
+    this.channelsSubject.next(cached.data);
+    this.syncStateSubject.next({ lastSyncedAt: cached.savedAt, fromCache: true });
+  }
+
+  private cacheChannels(channels: SlackChannel[]): void {
+    this.channelsSubject.next(channels);
+    this.syncStateSubject.next({ lastSyncedAt: new Date(), fromCache: false });
+    this.offlineCache.write(this.CACHE_KEY, channels);
+  }
 
   setToken(token: string): void {
-    localStorage.setItem(this.STORAGE_KEY, token);
-    this.tokenSubject.next(token);
-    this.isConfiguredSubject.next(true);
+    this.vault.set('slack', token)
+      .catch(e => console.error('Failed to save Slack token:', e));
   }
 
   clearToken(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
+    this.vault.remove('slack');
     this.tokenSubject.next(null);
     this.isConfiguredSubject.next(false);
     this.channelsSubject.next([]);
     this.userCache.clear();
+    this.syncStateSubject.next(NOT_SYNCED);
+    this.offlineCache.remove(this.CACHE_KEY);
   }
 
   private get token(): string | null {
@@ -160,7 +191,7 @@ export class SlackService {
           .map(c => c.dmUserName!);
 
         if (!dmUserIds.length) {
-          this.channelsSubject.next(all);
+          this.cacheChannels(all);
           this.loadingSubject.next(false);
           return of(all);
         }
@@ -180,7 +211,7 @@ export class SlackService {
                 ? { ...ch, dmUserName: this.userCache.get(ch.dmUserName) ?? ch.dmUserName }
                 : ch
             );
-            this.channelsSubject.next(withNames);
+            this.cacheChannels(withNames);
             this.loadingSubject.next(false);
             return withNames;
           })
@@ -254,16 +285,40 @@ export class SlackService {
     );
   }
 
+  // ─── Status ─────────────────────────────────────────────────────────────────
+
+  /** Sets the user's status, cleared by Slack at `expiresAt`; an empty text clears it. Needs `users.profile:write`. */
+  setStatus(text: string, emoji: string, expiresAt: Date | null): Observable<void> {
+    if (!this.token) return of(undefined);
+    const profile = {
+      status_text: text,
+      status_emoji: text ? emoji : '',
+      status_expiration: expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0
+    };
+    return this.http.post<any>(`${this.BASE_URL}/users.profile.set`, { profile }, {
+      headers: this.headers().set('Content-Type', 'application/json; charset=utf-8')
+    }).pipe(
+      map(resp => {
+        if (resp.ok) return;
+        throw new Error(resp.error === 'missing_scope'
+          ? 'Missing Slack scope: users.profile:write. Add it to your Slack app to update your status.'
+          : `Slack status update failed: ${resp.error}`);
+      })
+    );
+  }
+
   private patchChannelMessages(channelId: string, messages: SlackMessage[]): void {
     const updated = this.channelsSubject.getValue().map(ch =>
       ch.id === channelId ? { ...ch, messages, latestMessage: messages[0], loadError: undefined } : ch
     );
-    this.channelsSubject.next(updated);
+    this.cacheChannels(updated);
   }
 
   private patchChannelError(channelId: string, error: string): void {
+    // Keep cached messages visible when offline rather than blanking the channel
+    const keepMessages = this.syncStateSubject.value.fromCache;
     const updated = this.channelsSubject.getValue().map(ch =>
-      ch.id === channelId ? { ...ch, messages: [], loadError: error } : ch
+      ch.id === channelId ? { ...ch, messages: keepMessages ? ch.messages ?? [] : [], loadError: error } : ch
     );
     this.channelsSubject.next(updated);
   }
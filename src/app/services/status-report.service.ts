@@ -0,0 +1,333 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { AiService, ChatMessage } from './ai.service';
+import { TaskService } from './task.service';
+import { TimeEntryService, entrySeconds, entryTargetKey } from './time-entry.service';
+import { entryTargetTitle } from './timesheet';
+import { JournalEntry, JournalService } from './journal.service';
+import { LinearService } from './linear.service';
+import { GitHubPrService } from './github-pr.service';
+import { AdoService } from './ado.service';
+import { fromAdoWorkItem } from './work-item.service';
+import { fitLines } from './prompt-assembly';
+
+export type ReportPeriod = 'this-week' | 'last-week' | 'sprint';
+
+export type ReportSectionId = 'tasks' | 'time' | 'linear' | 'prs' | 'ado' | 'journal';
+
+export const REPORT_SECTIONS: { id: ReportSectionId; label: string }[] = [
+  { id: 'tasks', label: 'Completed tasks' },
+  { id: 'time', label: 'Time tracked' },
+  { id: 'linear', label: 'Linear issues' },
+  { id: 'prs', label: 'Merged pull requests' },
+  { id: 'ado', label: 'Azure DevOps items' },
+  { id: 'journal', label: 'Journal highlights' }
+];
+
+export interface ReportRange {
+  start: Date;
+  end: Date;
+  /** e.g. "Week of Oct 13" or "Sprint 24". */
+  label: string;
+}
+
+export interface ReportItem {
+  text: string;
+  url?: string;
+  /** Trailing detail such as the repository or the day it was done. */
+  detail?: string;
+}
+
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  items: ReportItem[];
+  /** Said in place of, or under, the items: not connected, nothing this period, caveats. */
+  note?: string;
+}
+
+export interface StatusReport {
+  title: string;
+  range: ReportRange;
+  sections: ReportSection[];
+  generatedAt: Date;
+}
+
+/** Journal entries quoted in a report; the rest are left out. */
+const MAX_JOURNAL_HIGHLIGHTS = 10;
+const JOURNAL_CLIP_CHARS = 160;
+
+/** Share of the input budget the draft may take when asking the model to polish it. */
+const POLISH_DRAFT_SHARE = 0.7;
+
+const POLISH_PROMPT = `Rewrite this status report so it reads well for my manager and team. Start with a 2-3 sentence summary of the period under a "## Summary" heading, then keep the remaining sections in the same order. Keep every item, link, number and date exactly as given; group or reword items but do not invent work, outcomes or figures. Respond with the report only, in plain markdown (no JSON).`;
+
+function shortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function inRange(value: Date | string | null | undefined, range: ReportRange): boolean {
+  if (!value) return false;
+  const when = new Date(value);
+  return when >= range.start && when <= range.end;
+}
+
+/** Monday-to-Sunday week containing `date`, offset by `weeks`. */
+function weekRange(date: Date, weeks: number): ReportRange {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7) + weeks * 7);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 6);
+  end.setHours(23, 59, 59, 999);
+  return { start, end, label: `Week of ${shortDate(start)}` };
+}
+
+/**
+ * Weekly and sprint status reports: what got done across tasks, trackers, pull requests and the
+ * journal in a period, as Markdown ready to preview, polish with AI or export.
+ */
+@Injectable({ providedIn: 'root' })
+export class StatusReportService {
+  private journalEntries: JournalEntry[] = [];
+
+  constructor(
+    private aiService: AiService,
+    private taskService: TaskService,
+    private timeEntryService: TimeEntryService,
+    private journalService: JournalService,
+    private linearService: LinearService,
+    private githubPrService: GitHubPrService,
+    private adoService: AdoService
+  ) {
+    this.journalService.entries$.subscribe(entries => (this.journalEntries = entries));
+  }
+
+  /**
+   * The dates a period covers. A sprint is the current Azure DevOps sprint, else the active
+   * Linear cycle; throws when neither is available.
+   */
+  async rangeFor(period: ReportPeriod, now = new Date()): Promise<ReportRange> {
+    if (period === 'this-week') return weekRange(now, 0);
+    if (period === 'last-week') return weekRange(now, -1);
+
+    const sprint = this.adoService.isInitialized() ? this.adoService.getCurrentSprint() : null;
+    if (sprint) {
+      const start = new Date(sprint.startDate);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(sprint.endDate);
+      end.setHours(23, 59, 59, 999);
+      return { start, end, label: sprint.name };
+    }
+    const cycle = this.linearService.isConfigured() ? await firstValueFrom(this.linearService.activeCycle$) : null;
+    if (cycle) {
+      return {
+        start: new Date(cycle.startsAt),
+        end: new Date(cycle.endsAt),
+        label: cycle.name || `Cycle ${cycle.number}`
+      };
+    }
+    throw new Error('No current sprint found. Connect Azure DevOps with sprints set up, or Linear with an active cycle.');
+  }
+
+  /** Gather the chosen sections for a period. Sections whose source fails say so instead of failing the report. */
+  async compile(period: ReportPeriod, sectionIds: ReportSectionId[]): Promise<StatusReport> {
+    const range = await this.rangeFor(period);
+    const builders: Record<ReportSectionId, (range: ReportRange) => Promise<ReportSection> | ReportSection> = {
+      tasks: r => this.tasksSection(r),
+      time: r => this.timeSection(r),
+      linear: r => this.linearSection(r),
+      prs: r => this.pullRequestsSection(r),
+      ado: r => this.adoSection(r),
+      journal: r => this.journalSection(r)
+    };
+
+    const sections: ReportSection[] = [];
+    for (const { id, label } of REPORT_SECTIONS.filter(s => sectionIds.includes(s.id))) {
+      try {
+        sections.push(await builders[id](range));
+      } catch (e: any) {
+        console.error(`Failed to build the ${id} report section:`, e);
+        sections.push({ id, title: label, items: [], note: `Could not load: ${e?.message || 'unknown error'}.` });
+      }
+    }
+
+    const kind = period === 'sprint' ? 'Sprint report' : 'Weekly report';
+    return {
+      title: `${kind}: ${range.label} (${shortDate(range.start)} – ${shortDate(range.end)})`,
+      range,
+      sections,
+      generatedAt: new Date()
+    };
+  }
+
+  toMarkdown(report: StatusReport): string {
+    const blocks = [`# ${report.title}`];
+    for (const section of report.sections) {
+      const lines = [`## ${section.title}`];
+      lines.push(...section.items.map(item => {
+        const text = item.url ? `[${item.text}](${item.url})` : item.text;
+        return `- ${text}${item.detail ? ` (${item.detail})` : ''}`;
+      }));
+      if (section.note) lines.push(section.items.length ? `\n*${section.note}*` : section.note);
+      blocks.push(lines.join('\n'));
+    }
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /** The report reworded by the model, with a summary on top; facts and links are kept. */
+  async polish(markdown: string): Promise<string> {
+    const { model, inputTokens } = this.aiService.getPromptBudget('ask');
+    const draft = fitLines(markdown, Math.floor(inputTokens * POLISH_DRAFT_SHARE), model);
+    const history: ChatMessage[] = [{
+      role: 'system',
+      content: 'You edit status reports. You never add facts that are not in the draft.',
+      timestamp: new Date()
+    }];
+    return firstValueFrom(this.aiService.sendMessage('ask', `${POLISH_PROMPT}\n\n${draft}`, history));
+  }
+
+  private tasksSection(range: ReportRange): ReportSection {
+    const items: (ReportItem & { at: Date })[] = [];
+    for (const task of this.taskService.getTasks()) {
+      // Recurring tasks keep every completion; one-off tasks only the last
+      const times = task.completions?.length
+        ? task.completions.map(c => c.completedAt)
+        : task.completed && task.completedAt ? [task.completedAt] : [];
+      for (const at of times.filter(t => inRange(t, range))) {
+        items.push({ text: task.title, detail: shortDate(new Date(at)), at: new Date(at) });
+      }
+    }
+    items.sort((a, b) => a.at.getTime() - b.at.getTime());
+    return {
+      id: 'tasks',
+      title: 'Completed tasks',
+      items: items.map(({ at, ...item }) => item),
+      note: items.length ? undefined : 'No tasks completed in this period.'
+    };
+  }
+
+  private timeSection(range: ReportRange): ReportSection {
+    // Entries count towards the period they started in, like on the timesheet; so does a running timer
+    const tasks = this.taskService.getTasks();
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const rows = new Map<string, { text: string; seconds: number }>();
+    for (const entry of this.timeEntryService.getEntries().filter(e => inRange(e.start, range))) {
+      const key = entryTargetKey(entry);
+      const row = rows.get(key) ?? { text: entryTargetTitle(entry, byId), seconds: 0 };
+      row.seconds += entrySeconds(entry);
+      rows.set(key, row);
+    }
+    for (const task of tasks.filter(t => t.isTimeRunning && t.timeStartedAt && inRange(new Date(t.timeStartedAt), range))) {
+      const key = entryTargetKey({ taskId: task.id });
+      const row = rows.get(key) ?? { text: task.title, seconds: 0 };
+      row.seconds += this.taskService.getCurrentSessionTime(task.id);
+      rows.set(key, row);
+    }
+    const tracked = [...rows.values()].filter(r => r.seconds > 0).sort((a, b) => b.seconds - a.seconds);
+    const total = tracked.reduce((sum, r) => sum + r.seconds, 0);
+
+    // Time tracked before the ledger has no dates; list it for tasks worked on in the period
+    const undated = tasks
+      .filter(t => (t.timeTracked ?? 0) > 0 && (!t.completed || inRange(t.completedAt, range)))
+      .sort((a, b) => b.timeTracked! - a.timeTracked!);
+    return {
+      id: 'time',
+      title: `Time tracked${tracked.length ? ` (${formatDuration(total)})` : ''}`,
+      items: [
+        ...tracked.map(r => ({ text: r.text, detail: formatDuration(r.seconds) })),
+        ...undated.map(t => ({ text: t.title, detail: `${formatDuration(t.timeTracked!)}, undated` }))
+      ],
+      note: undated.length
+        ? 'Undated time was tracked before time was logged by day, so it may include work outside this period.'
+        : tracked.length ? undefined : 'No time tracked in this period.'
+    };
+  }
+
+  private async linearSection(range: ReportRange): Promise<ReportSection> {
+    const title = 'Linear issues completed';
+    if (!this.linearService.isConfigured()) return { id: 'linear', title, items: [], note: 'Linear is not connected.' };
+    const issues = (await firstValueFrom(this.linearService.fetchCompletedIssues(range.start)))
+      .filter(issue => inRange(issue.completedAt, range))
+      .reverse();
+    return {
+      id: 'linear',
+      title,
+      items: issues.map(issue => ({
+        text: `${issue.identifier}: ${issue.title}`,
+        url: issue.url,
+        detail: [issue.project?.name, shortDate(new Date(issue.completedAt))].filter(Boolean).join(', ')
+      })),
+      note: issues.length ? undefined : 'No Linear issues completed in this period.'
+    };
+  }
+
+  private async pullRequestsSection(range: ReportRange): Promise<ReportSection> {
+    const title = 'Merged pull requests';
+    if (!this.githubPrService.isConfigured()) return { id: 'prs', title, items: [], note: 'GitHub is not connected.' };
+    const prs = (await firstValueFrom(this.githubPrService.fetchMergedPullRequests(range.start)))
+      .filter(pr => inRange(pr.merged_at, range))
+      .reverse();
+    return {
+      id: 'prs',
+      title,
+      items: prs.map(pr => ({
+        text: `${pr.repository.full_name}#${pr.number}: ${pr.title}`,
+        url: pr.html_url,
+        detail: pr.merged_at ? shortDate(new Date(pr.merged_at)) : undefined
+      })),
+      note: prs.length ? undefined : 'No pull requests merged in this period.'
+    };
+  }
+
+  private adoSection(range: ReportRange): ReportSection {
+    const title = 'Azure DevOps items closed';
+    if (!this.adoService.isInitialized()) return { id: 'ado', title, items: [], note: 'Azure DevOps is not connected.' };
+    // Items in the sprint covering the period count even when their last change came later
+    const sprint = this.adoService.getCurrentSprint();
+    const sprintPath = sprint && inRange(sprint.startDate, range) ? sprint.path : null;
+    const items = this.adoService.getWorkItems()
+      .filter(w => (sprintPath && w.fields['System.IterationPath'] === sprintPath) || inRange(w.fields['System.ChangedDate'], range))
+      .map(w => fromAdoWorkItem(w, this.adoService.getOrganization(), this.adoService.getProject()))
+      .filter(w => w.stateCategory === 'done');
+    return {
+      id: 'ado',
+      title,
+      items: items.map(w => ({ text: `${w.key}: ${w.title}`, url: w.url ?? undefined, detail: w.state })),
+      note: items.length
+        ? 'From the work items loaded in the dashboard.'
+        : 'No closed items among the work items loaded in the dashboard.'
+    };
+  }
+
+  private journalSection(range: ReportRange): ReportSection {
+    const entries = this.journalEntries
+      .filter(e => inRange(e.timestamp, range))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    // Longer entries tend to be the substantial ones; keep those, in date order
+    const highlights = [...entries]
+      .sort((a, b) => b.text.length - a.text.length)
+      .slice(0, MAX_JOURNAL_HIGHLIGHTS);
+    const items = entries.filter(e => highlights.includes(e)).map(e => {
+      const flat = e.text.replace(/\s+/g, ' ').trim();
+      return {
+        text: flat.length > JOURNAL_CLIP_CHARS ? `${flat.slice(0, JOURNAL_CLIP_CHARS - 1)}…` : flat,
+        detail: shortDate(new Date(e.timestamp))
+      };
+    });
+    return {
+      id: 'journal',
+      title: 'Journal highlights',
+      items,
+      note: entries.length > items.length
+        ? `${entries.length - items.length} shorter entries left out.`
+        : items.length ? undefined : 'No journal entries in this period.'
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Task } from './task.service';
+import {
+  actionableTasks, openBlockers, parseChecklist, stripChecklist, taskProgress, toggleChecklistItem,
+  wouldCreateDependencyCycle, wouldCreateParentCycle
+} from './task-graph';
+
+function task(id: string, fields: Partial<Task> = {}): Task {
+  return { id, title: id, completed: false, createdAt: new Date(2026, 0, 1), ...fields };
+}
+
+describe('task graph', () => {
+  describe('checklists', () => {
+    const description = 'Release notes\n- [ ] Draft\n- [x] Review\n  * [X] Publish\n- not an item';
+
+    it('reads the checklist lines of a description', () => {
+      expect(parseChecklist(description)).toEqual([
+        { line: 1, text: 'Draft', done: false },
+        { line: 2, text: 'Review', done: true },
+        { line: 3, text: 'Publish', done: true }
+      ]);
+      expect(parseChecklist(undefined)).toEqual([]);
+    });
+
+    it('leaves the prose without the checklist', () => {
+      expect(stripChecklist(description)).toBe('Release notes\n- not an item');
+    });
+
+    it('ticks and unticks an item', () => {
+      const ticked = toggleChecklistItem(description, 1);
+      expect(ticked.split('\n')[1]).toBe('- [x] Draft');
+      expect(toggleChecklistItem(ticked, 1)).toBe(description);
+      expect(toggleChecklistItem(description, 0)).toBe(description);
+    });
+  });
+
+  describe('progress', () => {
+    it('rolls up subtasks, each weighted by its own checklist', () => {
+      const parent = task('parent');
+      const tasks = [
+        parent,
+        task('a', { parentId: 'parent', completed: true }),
+        task('b', { parentId: 'parent', description: '- [x] one\n- [ ] two' })
+      ];
+      expect(taskProgress(parent, tasks)).toEqual({ done: 1, total: 2, ratio: 0.75 });
+    });
+
+    it('is null for a task with no subtasks or checklist', () => {
+      expect(taskProgress(task('a', { description: 'Just text' }), [])).toBeNull();
+    });
+  });
+
+  describe('parent cycles', () => {
+    const tasks = [task('a'), task('b', { parentId: 'a' }), task('c', { parentId: 'b' }), task('d')];
+
+    it('rejects a task as its own parent', () => {
+      expect(wouldCreateParentCycle(tasks, 'a', 'a')).toBeTrue();
+    });
+
+    it('rejects moving a task under its own subtask', () => {
+      expect(wouldCreateParentCycle(tasks, 'a', 'b')).toBeTrue();
+      expect(wouldCreateParentCycle(tasks, 'a', 'c')).toBeTrue();
+    });
+
+    it('allows moving a task anywhere else', () => {
+      expect(wouldCreateParentCycle(tasks, 'c', 'd')).toBeFalse();
+      expect(wouldCreateParentCycle(tasks, 'd', 'c')).toBeFalse();
+    });
+
+    it('stops on a loop that is already in the data', () => {
+      const looped = [task('x', { parentId: 'y' }), task('y', { parentId: 'x' }), task('z')];
+      expect(wouldCreateParentCycle(looped, 'z', 'x')).toBeTrue();
+    });
+  });
+
+  describe('dependency cycles', () => {
+    // c is blocked by b, which is blocked by a
+    const tasks = [task('a'), task('b', { blockedBy: ['a'] }), task('c', { blockedBy: ['b'] }), task('d')];
+
+    it('rejects a task blocking itself', () => {
+      expect(wouldCreateDependencyCycle(tasks, 'a', 'a')).toBeTrue();
+    });
+
+    it('rejects a direct loop', () => {
+      expect(wouldCreateDependencyCycle(tasks, 'a', 'b')).toBeTrue();
+    });
+
+    it('rejects a loop through other tasks', () => {
+      expect(wouldCreateDependencyCycle(tasks, 'a', 'c')).toBeTrue();
+    });
+
+    it('allows blockers that do not wait on the task', () => {
+      expect(wouldCreateDependencyCycle(tasks, 'c', 'a')).toBeFalse();
+      expect(wouldCreateDependencyCycle(tasks, 'd', 'c')).toBeFalse();
+      expect(wouldCreateDependencyCycle(tasks, 'a', 'd')).toBeFalse();
+    });
+
+    it('ignores links to deleted tasks', () => {
+      expect(wouldCreateDependencyCycle([task('a'), task('b', { blockedBy: ['gone'] })], 'a', 'b')).toBeFalse();
+    });
+
+    it('stops on a loop that is already in the data', () => {
+      const looped = [task('x', { blockedBy: ['y'] }), task('y', { blockedBy: ['x'] }), task('z')];
+      expect(wouldCreateDependencyCycle(looped, 'z', 'x')).toBeFalse();
+    });
+  });
+
+  describe('blockers', () => {
+    it('only counts open blockers', () => {
+      const tasks = [
+        task('a', { completed: true }),
+        task('b'),
+        task('c', { blockedBy: ['a', 'b', 'gone'] }),
+        task('d', { blockedBy: ['a'] })
+      ];
+      expect(openBlockers(tasks[2], tasks).map(t => t.id)).toEqual(['b']);
+      expect(actionableTasks(tasks).map(t => t.id)).toEqual(['b', 'd']);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Task } from './task.service';
+
+/**
+ * How tasks relate: subtasks under a parent, checklists written into a description as
+ * `- [ ]` lines, and "blocked by" links between tasks.
+ */
+
+// ── Checklists ──────────────────────────────────────────────────
+
+export interface ChecklistItem {
+  /** Line number in the description, for toggling. */
+  line: number;
+  text: string;
+  done: boolean;
+}
+
+const CHECKLIST_LINE = /^(\s*[-*]\s+\[)([ xX])(\]\s+)(.*)$/;
+
+/** The `- [ ] item` / `- [x] item` lines of a description. */
+export function parseChecklist(description: string | undefined): ChecklistItem[] {
+  if (!description) return [];
+  return description.split('\n').flatMap((text, line) => {
+    const match = text.match(CHECKLIST_LINE);
+    return match ? [{ line, text: match[4].trim(), done: match[2] !== ' ' }] : [];
+  });
+}
+
+/** The description without its checklist lines, for showing the prose on its own. */
+export function stripChecklist(description: string | undefined): string {
+  if (!description) return '';
+  return description.split('\n').filter(line => !CHECKLIST_LINE.test(line)).join('\n').trim();
+}
+
+/** The description with the checklist item on `line` ticked or unticked. */
+export function toggleChecklistItem(description: string, line: number): string {
+  const lines = description.split('\n');
+  const match = lines[line]?.match(CHECKLIST_LINE);
+  if (!match) return description;
+  lines[line] = `${match[1]}${match[2] === ' ' ? 'x' : ' '}${match[3]}${match[4]}`;
+  return lines.join('\n');
+}
+
+// ── Subtasks ────────────────────────────────────────────────────
+
+export function subtasksOf(tasks: Task[], parentId: string): Task[] {
+  return tasks.filter(t => t.parentId === parentId);
+}
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+  /** 0–1, rolled up from subtasks (each weighted by its own progress) or else the checklist. */
+  ratio: number;
+}
+
+function progressRatio(task: Task, tasks: Task[], seen: Set<string>): number {
+  if (task.completed) return 1;
+  if (seen.has(task.id)) return 0;
+  seen.add(task.id);
+  const children = subtasksOf(tasks, task.id);
+  if (children.length) return children.reduce((sum, c) => sum + progressRatio(c, tasks, seen), 0) / children.length;
+  const checklist = parseChecklist(task.description);
+  return checklist.length ? checklist.filter(i => i.done).length / checklist.length : 0;
+}
+
+/** Progress of a task with subtasks or a checklist; null for a task with neither. */
+export function taskProgress(task: Task, tasks: Task[]): TaskProgress | null {
+  const children = subtasksOf(tasks, task.id);
+  const checklist = parseChecklist(task.description);
+  if (!children.length && !checklist.length) return null;
+  const ratio = progressRatio({ ...task, completed: false }, tasks, new Set());
+  return children.length
+    ? { done: children.filter(c => c.completed).length, total: children.length, ratio }
+    : { done: checklist.filter(i => i.done).length, total: checklist.length, ratio };
+}
+
+/** Would making `parentId` the parent of `taskId` put the task under itself? */
+export function wouldCreateParentCycle(tasks: Task[], taskId: string, parentId: string): boolean {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const seen = new Set<string>();
+  for (let id: string | undefined = parentId; id; id = byId.get(id)?.parentId) {
+    if (id === taskId || seen.has(id)) return true;
+    seen.add(id);
+  }
+  return false;
+}
+
+// ── Dependencies ────────────────────────────────────────────────
+
+/** Blockers of `task` that are still open. Links to deleted tasks are ignored. */
+export function openBlockers(task: Task, tasks: Task[]): Task[] {
+  if (!task.blockedBy?.length) return [];
+  return tasks.filter(t => task.blockedBy!.includes(t.id) && !t.completed);
+}
+
+export function isBlocked(task: Task, tasks: Task[]): boolean {
+  return openBlockers(task, tasks).length > 0;
+}
+
+/** Open tasks with nothing blocking them: what can be worked on now. */
+export function actionableTasks(tasks: Task[]): Task[] {
+  return tasks.filter(t => !t.completed && !isBlocked(t, tasks));
+}
+
+/**
+ * Would "`taskId` is blocked by `blockerId`" close a loop? True when the blocker already
+ * waits on the task, directly or through other tasks, or is the task itself.
+ */
+export function wouldCreateDependencyCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const stack = [blockerId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
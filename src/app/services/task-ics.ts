@@ -0,0 +1,165 @@
+import { Task } from './task.service';
+import { occurrenceKey, parseRRule, formatRRule } from './recurrence';
+
+/**
+ * iCalendar (RFC 5545) files for recurring tasks: each task is written as a VTODO with its
+ * RRULE, and VTODO or VEVENT components that carry an RRULE can be read back in as tasks.
+ */
+
+export interface IcsRecurringItem {
+  uid: string | null;
+  title: string;
+  description: string | null;
+  /** DTSTART, or DUE when the component has no start. */
+  start: Date;
+  rrule: string;
+  /** EXDATE days, `YYYY-MM-DD`. */
+  exdates: string[];
+  categories: string[];
+  importance: NonNullable<Task['importance']>;
+}
+
+export interface IcsParseResult {
+  items: IcsRecurringItem[];
+  /** Components left out: not recurring, or with a rule tasks can't follow. */
+  skipped: number;
+}
+
+const IMPORTANCE_PRIORITY: Record<NonNullable<Task['importance']>, number> = { high: 1, medium: 5, low: 9 };
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/** Lines longer than 75 characters continue on the next line after a space. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join('\r\n');
+}
+
+function icsDate(date: Date): string {
+  return occurrenceKey(date).replace(/-/g, '');
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** A DATE or DATE-TIME value as a local day; times and zones are dropped since tasks are due on days. */
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (utc) {
+    const instant = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+    return new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+  }
+  return new Date(+y, +m - 1, +d);
+}
+
+/** Recurring tasks as an iCalendar file. Tasks without a rule are left out. */
+export function toIcsCalendar(tasks: Task[], rruleFor: (task: Task) => string | null, now = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Gavel//Tasks//EN', 'CALSCALE:GREGORIAN'];
+  for (const task of tasks) {
+    const rrule = rruleFor(task);
+    if (!rrule) continue;
+    const start = task.recurrenceStart ?? task.dueDate ?? task.createdAt;
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${task.id}@gavel`,
+      `DTSTAMP:${icsTimestamp(now)}`,
+      `SUMMARY:${escapeText(task.title)}`
+    );
+    if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+    lines.push(`DTSTART;VALUE=DATE:${icsDate(new Date(start))}`);
+    if (task.dueDate) lines.push(`DUE;VALUE=DATE:${icsDate(new Date(task.dueDate))}`);
+    lines.push(`RRULE:${rrule}`);
+    if (task.skippedOccurrences?.length) {
+      lines.push(`EXDATE;VALUE=DATE:${task.skippedOccurrences.map(k => k.replace(/-/g, '')).join(',')}`);
+    }
+    if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+    lines.push(`PRIORITY:${IMPORTANCE_PRIORITY[task.importance ?? 'medium']}`);
+    lines.push(`STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`, 'END:VTODO');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+/** Recurring VTODO and VEVENT components of an iCalendar file. Throws when it isn't one. */
+export function parseIcsRecurring(text: string): IcsParseResult {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file.');
+  }
+
+  const result: IcsParseResult = { items: [], skipped: 0 };
+  let props: { name: string; params: string; value: string }[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const key = name.toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (key === 'BEGIN' && /^(VTODO|VEVENT)$/i.test(value.trim()) && !props) {
+      props = [];
+      depth = 0;
+    } else if (props && key === 'BEGIN') {
+      depth++; // Nested VALARM and the like
+    } else if (props && key === 'END' && depth > 0) {
+      depth--;
+    } else if (props && key === 'END') {
+      const item = toItem(props);
+      if (item) result.items.push(item);
+      else result.skipped++;
+      props = null;
+    } else if (props && depth === 0) {
+      props.push({ name: key, params: params.join(';').toUpperCase(), value });
+    }
+  }
+  return result;
+}
+
+function toItem(props: { name: string; params: string; value: string }[]): IcsRecurringItem | null {
+  const get = (name: string) => props.find(p => p.name === name)?.value.trim() ?? null;
+  const rawRule = get('RRULE');
+  const start = parseIcsDate(get('DTSTART') ?? get('DUE') ?? '');
+  if (!rawRule || !start) return null;
+
+  let rrule: string;
+  try {
+    rrule = formatRRule(parseRRule(rawRule));
+  } catch {
+    return null;
+  }
+
+  const priority = Number(get('PRIORITY') ?? 0);
+  return {
+    uid: get('UID'),
+    title: unescapeText(get('SUMMARY') ?? '').trim() || 'Untitled',
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!) : null,
+    start,
+    rrule,
+    exdates: props
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(','))
+      .map(v => parseIcsDate(v.trim()))
+      .filter((d): d is Date => d !== null)
+      .map(occurrenceKey),
+    categories: props
+      .filter(p => p.name === 'CATEGORIES')
+      .flatMap(p => p.value.split(/(?<!\\),/))
+      .map(c => unescapeText(c).trim())
+      .filter(Boolean),
+    importance: priority >= 1 && priority <= 4 ? 'high' : priority >= 6 ? 'low' : 'medium'
+  };
+}
@@ -0,0 +1,169 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { Task, TaskLink, TaskService } from './task.service';
+import { AdoService } from './ado.service';
+import { LinearService } from './linear.service';
+import { GitHubPrService, PrReviewState } from './github-pr.service';
+import {
+  WorkItem, WorkItemService, WorkItemSource, WorkItemStateCategory, fromAdoWorkItem, fromLinearIssue
+} from './work-item.service';
+
+/** Live state of a linked item, as its tracker reports it. */
+export interface TaskLinkStatus {
+  state: string;
+  stateCategory: WorkItemStateCategory;
+  title: string;
+  url: string | null;
+}
+
+export const TASK_LINK_SOURCES: { id: WorkItemSource; label: string; icon: string }[] = [
+  { id: 'linear', label: 'Linear', icon: 'fas fa-circle-nodes' },
+  { id: 'ado', label: 'Azure DevOps', icon: 'fab fa-microsoft' },
+  { id: 'github', label: 'Pull request', icon: 'fab fa-github' }
+];
+
+const PR_STATES: Record<PrReviewState, { label: string; category: WorkItemStateCategory }> = {
+  open: { label: 'Open', category: 'in-review' },
+  draft: { label: 'Draft', category: 'in-progress' },
+  approved: { label: 'Approved', category: 'in-review' },
+  'changes-requested': { label: 'Changes requested', category: 'in-review' },
+  'review-requested': { label: 'Review requested', category: 'in-review' },
+  merged: { label: 'Merged', category: 'done' },
+  closed: { label: 'Closed', category: 'cancelled' },
+  unknown: { label: 'Unknown', category: 'backlog' }
+};
+
+export function taskLinkKey(link: Pick<TaskLink, 'source' | 'ref'>): string {
+  return `${link.source}:${link.ref}`;
+}
+
+/** A link for an item the dashboard has loaded. */
+export function taskLinkFromWorkItem(item: WorkItem): TaskLink {
+  const ref = item.source === 'ado' ? item.sourceId : item.key;
+  return { source: item.source, ref, key: item.key, title: item.title, url: item.url };
+}
+
+/**
+ * A link from a pasted URL: a Linear issue (`linear.app/…/issue/ENG-123/…`), an ADO work item
+ * (`…/_workitems/edit/123`) or a GitHub pull request (`github.com/owner/repo/pull/42`).
+ */
+export function taskLinkFromUrl(url: string): TaskLink | null {
+  const text = url.trim();
+  const linear = text.match(/linear\.app\/[^/]+\/issue\/([A-Za-z0-9]+-\d+)/);
+  if (linear) {
+    const key = linear[1].toUpperCase();
+    return { source: 'linear', ref: key, key, title: key, url: text };
+  }
+  const ado = text.match(/_workitems\/edit\/(\d+)/);
+  if (ado) return { source: 'ado', ref: ado[1], key: `Work item ${ado[1]}`, title: `Work item ${ado[1]}`, url: text };
+  const pr = text.match(/github\.com\/([^/\s]+\/[^/\s]+)\/pull\/(\d+)/);
+  if (pr) {
+    const key = `${pr[1]}#${pr[2]}`;
+    return { source: 'github', ref: key, key, title: key, url: text };
+  }
+  return null;
+}
+
+function statusFromWorkItem(item: WorkItem): TaskLinkStatus {
+  return { state: item.state, stateCategory: item.stateCategory, title: item.title, url: item.url };
+}
+
+/**
+ * Keeps the state of every item linked from a task: items the widgets have already loaded are
+ * read from `WorkItemService`, anything else is fetched once from its tracker. Tasks set to
+ * complete with their links are completed once every linked item is done.
+ */
+@Injectable({ providedIn: 'root' })
+export class TaskLinkService {
+  private statusesSubject = new BehaviorSubject<Map<string, TaskLinkStatus>>(new Map());
+  readonly statuses$: Observable<Map<string, TaskLinkStatus>> = this.statusesSubject.asObservable();
+
+  /** Links fetched (or being fetched) on their own, so each is asked for once until `refresh()`. */
+  private fetched = new Set<string>();
+  private fetchedStatuses = new Map<string, TaskLinkStatus>();
+
+  constructor(
+    private taskService: TaskService,
+    private workItemService: WorkItemService,
+    private adoService: AdoService,
+    private linearService: LinearService,
+    private gitHubPrService: GitHubPrService
+  ) {
+    combineLatest([this.taskService.tasks$, this.workItemService.workItems$])
+      .subscribe(([tasks, items]) => this.resolve(tasks, items));
+  }
+
+  getStatus(link: TaskLink): TaskLinkStatus | null {
+    return this.statusesSubject.value.get(taskLinkKey(link)) ?? null;
+  }
+
+  /** Looks every linked item up again. */
+  refresh(): void {
+    this.fetched.clear();
+    this.fetchedStatuses.clear();
+    this.resolve(this.taskService.getTasks(), this.workItemService.getWorkItems());
+  }
+
+  private resolve(tasks: Task[], items: WorkItem[]): void {
+    const statuses = new Map<string, TaskLinkStatus>();
+    for (const link of tasks.flatMap(t => t.links ?? [])) {
+      const key = taskLinkKey(link);
+      if (statuses.has(key)) continue;
+      const item = items.find(i => i.source === link.source && (i.sourceId === link.ref || i.key === link.ref));
+      if (item) {
+        statuses.set(key, statusFromWorkItem(item));
+      } else if (this.fetchedStatuses.has(key)) {
+        statuses.set(key, this.fetchedStatuses.get(key)!);
+      } else if (!this.fetched.has(key)) {
+        this.fetched.add(key);
+        this.fetchStatus(link).subscribe(status => {
+          if (!status) return;
+          this.fetchedStatuses.set(key, status);
+          this.resolve(this.taskService.getTasks(), this.workItemService.getWorkItems());
+        });
+      }
+    }
+    this.statusesSubject.next(statuses);
+    this.completeFinishedTasks(tasks, statuses);
+  }
+
+  private fetchStatus(link: TaskLink): Observable<TaskLinkStatus | null> {
+    switch (link.source) {
+      case 'linear':
+        if (!this.linearService.isConfigured()) return of(null);
+        return this.linearService.fetchIssue(link.ref).pipe(
+          map(issue => (issue ? statusFromWorkItem(fromLinearIssue(issue)) : null))
+        );
+      case 'ado': {
+        const id = Number(link.ref);
+        if (!this.adoService.isInitialized() || !Number.isInteger(id)) return of(null);
+        return this.adoService.getWorkItem(id).pipe(
+          map(item => statusFromWorkItem(fromAdoWorkItem(item, this.adoService.getOrganization(), this.adoService.getProject()))),
+          catchError(() => of(null))
+        );
+      }
+      case 'github': {
+        const match = link.ref.match(/^(.+)#(\d+)$/);
+        if (!match || !this.gitHubPrService.isConfigured()) return of(null);
+        return this.gitHubPrService.fetchPullRequestStatus(match[1], Number(match[2])).pipe(
+          map(result => result && {
+            state: PR_STATES[result.state].label,
+            stateCategory: PR_STATES[result.state].category,
+            title: result.pr.title,
+            url: result.pr.html_url
+          })
+        );
+      }
+    }
+  }
+
+  private completeFinishedTasks(tasks: Task[], statuses: Map<string, TaskLinkStatus>): void {
+    for (const task of tasks) {
+      if (task.completed || task.recurring || !task.completeWithLinks || !task.links?.length) continue;
+      if (task.links.every(l => statuses.get(taskLinkKey(l))?.stateCategory === 'done')) {
+        this.taskService.completeFromLinks(task.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { Task } from './task.service';
+import { startOfDay } from './local-date';
+
+/**
+ * The Eisenhower matrix over a task's urgency and importance, with deadlines taken into account:
+ * overdue and due-today tasks count as time-sensitive whatever urgency was set on them.
+ */
+
+export type TaskUrgency = NonNullable<Task['urgency']>;
+export type TaskImportance = NonNullable<Task['importance']>;
+
+export type MatrixQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+export interface QuadrantDefinition {
+  id: MatrixQuadrant;
+  title: string;
+  hint: string;
+  urgent: boolean;
+  important: boolean;
+}
+
+/** In reading order: top row urgent, left column important. */
+export const MATRIX_QUADRANTS: QuadrantDefinition[] = [
+  { id: 'do', title: 'Do first', hint: 'Urgent and important', urgent: true, important: true },
+  { id: 'delegate', title: 'Delegate', hint: 'Urgent, less important', urgent: true, important: false },
+  { id: 'schedule', title: 'Schedule', hint: 'Important, not urgent', urgent: false, important: true },
+  { id: 'eliminate', title: 'Drop', hint: 'Neither urgent nor important', urgent: false, important: false }
+];
+
+const URGENCY_POINTS: Record<TaskUrgency, number> = { 'time-sensitive': 3, 'medium': 2, 'low': 1 };
+const IMPORTANCE_POINTS: Record<TaskImportance, number> = { 'high': 3, 'medium': 2, 'low': 1 };
+
+/** Whole days from today until the task is due; negative when overdue, null without a due date. */
+export function daysUntilDue(task: Task, now = new Date()): number | null {
+  if (!task.dueDate) return null;
+  return Math.round((startOfDay(new Date(task.dueDate)).getTime() - startOfDay(now).getTime()) / 86_400_000);
+}
+
+/** True when an open task is overdue or due today, which makes it urgent regardless of its setting. */
+export function isEscalated(task: Task, now = new Date()): boolean {
+  const days = daysUntilDue(task, now);
+  return !task.completed && days !== null && days <= 0;
+}
+
+export function effectiveUrgency(task: Task, now = new Date()): TaskUrgency {
+  return isEscalated(task, now) ? 'time-sensitive' : task.urgency ?? 'medium';
+}
+
+/** Only time-sensitive work is urgent; anything but low importance is important. */
+export function quadrantFor(task: Task, now = new Date()): MatrixQuadrant {
+  const urgent = effectiveUrgency(task, now) === 'time-sensitive';
+  const important = (task.importance ?? 'medium') !== 'low';
+  return MATRIX_QUADRANTS.find(q => q.urgent === urgent && q.important === important)!.id;
+}
+
+/**
+ * Whether rewriting its fields can place `task` in `quadrant`. Overdue and due-today tasks stay
+ * urgent whatever their urgency says, so only a new due date takes them out of the urgent row.
+ */
+export function canMoveToQuadrant(task: Task, quadrant: MatrixQuadrant, now = new Date()): boolean {
+  return MATRIX_QUADRANTS.find(q => q.id === quadrant)!.urgent || !isEscalated(task, now);
+}
+
+/**
+ * The urgency and importance that place `task` in `quadrant`, changing as little as possible:
+ * a medium-importance task dropped on an important quadrant keeps its medium.
+ */
+export function fieldsForQuadrant(task: Task, quadrant: MatrixQuadrant): { urgency: TaskUrgency; importance: TaskImportance } {
+  const { urgent, important } = MATRIX_QUADRANTS.find(q => q.id === quadrant)!;
+  const urgency = task.urgency ?? 'medium';
+  const importance = task.importance ?? 'medium';
+  return {
+    urgency: urgent ? 'time-sensitive' : urgency === 'time-sensitive' ? 'medium' : urgency,
+    importance: important ? (importance === 'low' ? 'high' : importance) : 'low'
+  };
+}
+
+/**
+ * Higher is more pressing. Importance weighs double urgency, and a nearing deadline adds up to
+ * three points: overdue 3, due today 2, within three days 1.
+ */
+export function taskScore(task: Task, now = new Date()): number {
+  const days = daysUntilDue(task, now);
+  const deadline = days === null ? 0 : days < 0 ? 3 : days === 0 ? 2 : days <= 3 ? 1 : 0;
+  return IMPORTANCE_POINTS[task.importance ?? 'medium'] * 2 + URGENCY_POINTS[effectiveUrgency(task, now)] + deadline;
+}
@@ -1,15 +1,55 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import {
-  Firestore, collection, doc, addDoc, updateDoc, deleteDoc,
-  onSnapshot, query, orderBy, writeBatch, arrayUnion
+  Firestore, collection, doc, addDoc, updateDoc,
+  onSnapshot, query, orderBy, writeBatch, arrayUnion, arrayRemove
 } from '@angular/fire/firestore';
 import { Auth, user } from '@angular/fire/auth';
+import {
+  RecurrenceRule, RecurrenceStats, describeRule, firstOccurrence, legacyRRule, nextOccurrence,
+  occurrenceKey, parseRRule, recurrenceStats
+} from './recurrence';
+import { parseIcsRecurring, toIcsCalendar } from './task-ics';
+import { dayKey } from './local-date';
+import { wouldCreateDependencyCycle, wouldCreateParentCycle } from './task-graph';
+import { WorkItemSource } from './work-item.service';
+import { TimeEntryService, TimeEntrySource } from './time-entry.service';
 
 export interface TaskCompletion {
   completedAt: Date;
   completedByUid: string;
   completedByEmail?: string;
+  /** The occurrence this completion was for, `YYYY-MM-DD`; missing on older records. */
+  occurrence?: string;
+}
+
+export interface FocusInterruption {
+  at: Date;
+  note: string | null;
+}
+
+/** One focus period of a Pomodoro run on the task. */
+export interface FocusSession {
+  startedAt: Date;
+  endedAt: Date;
+  /** Seconds of focus; less than planned when the session was stopped early. */
+  seconds: number;
+  plannedMinutes: number;
+  /** Ran to the end of its focus period rather than being stopped. */
+  completed: boolean;
+  interruptions: FocusInterruption[];
+}
+
+/** An issue, work item or pull request in another tracker that a task is about. */
+export interface TaskLink {
+  source: WorkItemSource;
+  /** Linear issue id or identifier, ADO work item id, or `owner/repo#number` for a pull request. */
+  ref: string;
+  /** Human-facing identifier, e.g. "ENG-123", "Bug 4567" or "owner/repo#42". */
+  key: string;
+  /** Title when linked; the live one is shown once the item has been looked up. */
+  title: string;
+  url: string | null;
 }
 
 export interface Task {
@@ -24,13 +64,37 @@ export interface Task {
   urgency?: 'time-sensitive' | 'medium' | 'low';
   importance?: 'low' | 'medium' | 'high';
   recurring?: boolean;
-  recurringType?: 'weekday' | 'monthday' | 'interval';
+  recurringType?: 'weekday' | 'monthday' | 'interval' | 'rrule';
   recurringValue?: number;
+  /** RFC 5545 RRULE value. Older tasks only have recurringType and recurringValue. */
+  rrule?: string;
+  /** First day of the series, the rule's DTSTART. */
+  recurrenceStart?: Date;
+  /** Scheduled day of the open occurrence; dueDate moves off it while the occurrence is snoozed. */
+  occurrenceDate?: Date;
+  /** Occurrences skipped rather than done, `YYYY-MM-DD`. */
+  skippedOccurrences?: string[];
   completions?: TaskCompletion[];
+  /** Set on subtasks. */
+  parentId?: string;
+  /** Tasks that have to be done before this one can start. */
+  blockedBy?: string[];
+  links?: TaskLink[];
+  /** Complete the task once every linked item is done. Switches itself off when it fires. */
+  completeWithLinks?: boolean;
+  focusSessions?: FocusSession[];
   tags?: string[];
-  timeTracked?: number; // Total seconds tracked
+  /** Seconds tracked before the time-entry ledger; finished sessions are now `TimeEntry` records. */
+  timeTracked?: number;
   isTimeRunning?: boolean;
   timeStartedAt?: number; // Timestamp when current session started
+  /** What started the running timer, recorded on the entry when it stops. */
+  timeSource?: TimeEntrySource;
+}
+
+/** A stored date: an ISO string (array entries) or a Firestore timestamp. */
+function toDate(value: any): Date {
+  return typeof value === 'string' ? new Date(value) : (value?.toDate?.() ?? new Date());
 }
 
 @Injectable({
@@ -44,7 +108,7 @@ export class TaskService {
   private currentUserId: string | null = null;
   private currentUserEmail: string | undefined = undefined;
 
-  constructor(private firestore: Firestore, private auth: Auth) {
+  constructor(private firestore: Firestore, private auth: Auth, private timeEntries: TimeEntryService) {
     user(this.auth).subscribe(firebaseUser => {
       this.cleanup();
       if (firebaseUser) {
@@ -93,15 +157,33 @@ export class TaskService {
       recurring: data['recurring'] ?? false,
       recurringType: data['recurringType'] ?? undefined,
       recurringValue: data['recurringValue'] ?? undefined,
+      rrule: data['rrule'] ?? undefined,
+      recurrenceStart: data['recurrenceStart']?.toDate?.() ?? undefined,
+      occurrenceDate: data['occurrenceDate']?.toDate?.() ?? undefined,
+      skippedOccurrences: data['skippedOccurrences'] ?? [],
       completions: (data['completions'] ?? []).map((c: any) => ({
         completedAt: typeof c.completedAt === 'string' ? new Date(c.completedAt) : (c.completedAt?.toDate?.() ?? new Date()),
         completedByUid: c.completedByUid ?? '',
-        completedByEmail: c.completedByEmail ?? undefined
+        completedByEmail: c.completedByEmail ?? undefined,
+        occurrence: c.occurrence ?? undefined
+      })),
+      parentId: data['parentId'] ?? undefined,
+      blockedBy: data['blockedBy'] ?? [],
+      links: data['links'] ?? [],
+      completeWithLinks: data['completeWithLinks'] ?? false,
+      focusSessions: (data['focusSessions'] ?? []).map((f: any) => ({
+        startedAt: toDate(f.startedAt),
+        endedAt: toDate(f.endedAt),
+        seconds: f.seconds ?? 0,
+        plannedMinutes: f.plannedMinutes ?? 0,
+        completed: f.completed ?? false,
+        interruptions: (f.interruptions ?? []).map((i: any) => ({ at: toDate(i.at), note: i.note ?? null }))
       })),
       tags: data['tags'] ?? [],
       timeTracked: data['timeTracked'] ?? 0,
       isTimeRunning: data['isTimeRunning'] ?? false,
-      timeStartedAt: data['timeStartedAt'] ?? undefined
+      timeStartedAt: data['timeStartedAt'] ?? undefined,
+      timeSource: data['timeSource'] ?? undefined
     };
   }
 
@@ -127,6 +209,7 @@ export class TaskService {
 
   addTask(taskData: Omit<Task, 'id' | 'createdAt' | 'completed'>): void {
     if (!this.currentUserId) return;
+    const schedule = taskData.recurring ? this.scheduleFrom(taskData, taskData.dueDate ?? new Date()) : {};
     const newTask = {
       title: taskData.title,
       description: taskData.description ?? null,
@@ -140,24 +223,187 @@ export class TaskService {
       recurring: taskData.recurring ?? false,
       recurringType: taskData.recurringType ?? null,
       recurringValue: taskData.recurringValue ?? null,
+      rrule: null,
+      recurrenceStart: null,
+      occurrenceDate: null,
+      skippedOccurrences: [],
       completions: [],
+      parentId: taskData.parentId ?? null,
+      blockedBy: taskData.blockedBy ?? [],
+      links: taskData.links ?? [],
+      completeWithLinks: taskData.completeWithLinks ?? false,
       tags: taskData.tags ?? [],
       timeTracked: 0,
       isTimeRunning: false,
-      timeStartedAt: null
+      timeStartedAt: null,
+      ...schedule
     };
     addDoc(this.tasksCollectionRef(this.currentUserId), newTask)
       .catch(e => console.error('Failed to add task:', e));
   }
 
+  /**
+   * Changing a recurring task's rule or due date starts its series again from the due date,
+   * or today without one. Turning recurrence off drops the schedule.
+   */
   updateTask(id: string, updates: Partial<Task>): void {
-    updateDoc(this.taskDocRef(id), this.toFirestoreData(updates))
+    const task = this.getTaskById(id);
+    let data: Partial<Task> = updates;
+    if (task) {
+      const merged = { ...task, ...updates };
+      // Due dates are days: compare them as local days, so a time-of-day difference isn't a move
+      const dueDay = (date?: Date) => date ? dayKey(new Date(date)) : null;
+      const dueChanged = 'dueDate' in updates && dueDay(updates.dueDate) !== dueDay(task.dueDate);
+      if (merged.recurring && (!task.recurring || dueChanged || this.rruleFor(merged) !== this.rruleFor(task))) {
+        data = { ...updates, ...this.scheduleFrom(merged, merged.dueDate ?? new Date()) };
+      } else if (task.recurring && !merged.recurring) {
+        data = { ...updates, rrule: undefined, recurrenceStart: undefined, occurrenceDate: undefined, skippedOccurrences: [] };
+      }
+    }
+    updateDoc(this.taskDocRef(id), this.toFirestoreData(data))
       .catch(e => console.error('Failed to update task:', e));
   }
 
+  // ── Recurrence ─────────────────────────────────────────────────
+
+  /** The task's RRULE, from `rrule` or the older recurrence settings; null for one-off tasks. */
+  rruleFor(task: Partial<Task>): string | null {
+    if (!task.recurring) return null;
+    if (task.rrule) return task.rrule;
+    if (task.recurringType && task.recurringType !== 'rrule') return legacyRRule(task.recurringType, task.recurringValue);
+    return null;
+  }
+
+  private ruleFor(task: Partial<Task>): RecurrenceRule | null {
+    const rrule = this.rruleFor(task);
+    if (!rrule) return null;
+    try {
+      return parseRRule(rrule);
+    } catch (e) {
+      console.error(`Invalid recurrence rule "${rrule}":`, e);
+      return null;
+    }
+  }
+
+  /** A fresh series starting on `from`: the first occurrence becomes the due date. */
+  private scheduleFrom(task: Partial<Task>, from: Date): Partial<Task> {
+    const rrule = this.rruleFor(task);
+    const rule = this.ruleFor(task);
+    if (!rrule || !rule) return {};
+    const start = new Date(from);
+    start.setHours(0, 0, 0, 0);
+    const first = firstOccurrence(rule, start) ?? start;
+    return { rrule, recurrenceStart: start, occurrenceDate: first, dueDate: first, skippedOccurrences: [] };
+  }
+
+  /** The open occurrence's scheduled day, for older tasks the due date or today. */
+  private currentOccurrence(task: Task): Date {
+    const current = new Date(task.occurrenceDate ?? task.dueDate ?? new Date());
+    current.setHours(0, 0, 0, 0);
+    return current;
+  }
+
+  /** The occurrence after the current one, no earlier than today; null when the series is over. */
+  private followingOccurrence(task: Task, rule: RecurrenceRule, skipped: string[]): Date | null {
+    const yesterday = new Date();
+    yesterday.setHours(0, 0, 0, 0);
+    yesterday.setDate(yesterday.getDate() - 1);
+    const current = this.currentOccurrence(task);
+    return nextOccurrence(rule, task.recurrenceStart ?? task.createdAt, current > yesterday ? current : yesterday, skipped);
+  }
+
+  /** Move past the open occurrence without doing it. Skips don't break the streak. */
+  skipOccurrence(id: string): void {
+    const task = this.getTaskById(id);
+    const rule = task && this.ruleFor(task);
+    if (!task || !rule || task.completed) return;
+    const skipped = [...(task.skippedOccurrences ?? []), occurrenceKey(this.currentOccurrence(task))];
+    const next = this.followingOccurrence(task, rule, skipped);
+    const updates: Record<string, any> = next
+      ? { skippedOccurrences: skipped, occurrenceDate: next, dueDate: next }
+      : { skippedOccurrences: skipped, completed: true, completedAt: new Date() };
+    updateDoc(this.taskDocRef(id), updates)
+      .catch(e => console.error('Failed to skip occurrence:', e));
+  }
+
+  /** Push the open occurrence's due date back without moving the rest of the series. */
+  snoozeOccurrence(id: string, until: Date): void {
+    const task = this.getTaskById(id);
+    if (!task || !task.recurring) return;
+    updateDoc(this.taskDocRef(id), { dueDate: until, occurrenceDate: this.currentOccurrence(task) })
+      .catch(e => console.error('Failed to snooze occurrence:', e));
+  }
+
+  describeRecurrence(task: Task): string {
+    const rule = this.ruleFor(task);
+    return rule ? describeRule(rule) : '';
+  }
+
+  getRecurrenceStats(task: Task): RecurrenceStats | null {
+    const rule = this.ruleFor(task);
+    if (!rule) return null;
+    return recurrenceStats(rule, task.recurrenceStart ?? task.createdAt, task.completions ?? [], task.skippedOccurrences ?? []);
+  }
+
+  /** Recurring tasks as an iCalendar file of VTODOs. */
+  exportRecurringToIcs(): string {
+    return toIcsCalendar(this.tasksSubject.value, task => this.rruleFor(task));
+  }
+
+  /**
+   * Add a task for each recurring to-do or event in an iCalendar file, due on its next
+   * occurrence from today. Series that have already ended are counted as skipped.
+   */
+  async importFromIcs(text: string): Promise<{ imported: number; skipped: number }> {
+    if (!this.currentUserId) throw new Error('User not authenticated');
+    const { items, skipped } = parseIcsRecurring(text);
+    const batch = writeBatch(this.firestore);
+    let imported = 0;
+    let ended = 0;
+    for (const item of items) {
+      const rule = parseRRule(item.rrule);
+      const next = nextOccurrence(rule, item.start, new Date(Date.now() - 86_400_000), item.exdates);
+      if (!next) {
+        ended++;
+        continue;
+      }
+      batch.set(doc(this.tasksCollectionRef(this.currentUserId)), this.toFirestoreData({
+        title: item.title,
+        description: item.description ?? undefined,
+        completed: false,
+        dueDate: next,
+        createdAt: new Date(),
+        completedAt: undefined,
+        priority: 'medium',
+        urgency: 'medium',
+        importance: item.importance,
+        recurring: true,
+        recurringType: 'rrule',
+        recurringValue: undefined,
+        rrule: item.rrule,
+        recurrenceStart: item.start,
+        occurrenceDate: next,
+        skippedOccurrences: item.exdates,
+        completions: [],
+        tags: item.categories,
+        timeTracked: 0,
+        isTimeRunning: false,
+        timeStartedAt: undefined
+      }));
+      imported++;
+    }
+    if (imported > 0) await batch.commit();
+    return { imported, skipped: skipped + ended };
+  }
+
   toggleTaskCompletion(id: string): void {
     const task = this.getTaskById(id);
     if (!task) return;
+    const rule = task.completed ? null : this.ruleFor(task);
+    if (rule && this.currentUserId) {
+      this.completeOccurrence(task, rule);
+      return;
+    }
     const completed = !task.completed;
     const updates: Record<string, any> = {
       completed,
@@ -174,9 +420,95 @@ export class TaskService {
       .catch(e => console.error('Failed to toggle task:', e));
   }
 
+  /** Record the open occurrence as done and move on to the next one, or finish the series. */
+  private completeOccurrence(task: Task, rule: RecurrenceRule): void {
+    const completion = {
+      completedAt: new Date().toISOString(),
+      completedByUid: this.currentUserId,
+      completedByEmail: this.currentUserEmail ?? null,
+      occurrence: occurrenceKey(this.currentOccurrence(task))
+    };
+    const next = this.followingOccurrence(task, rule, task.skippedOccurrences ?? []);
+    const updates: Record<string, any> = next
+      ? { occurrenceDate: next, dueDate: next, completions: arrayUnion(completion) }
+      : { completed: true, completedAt: new Date(), completions: arrayUnion(completion) };
+    updateDoc(this.taskDocRef(task.id), updates)
+      .catch(e => console.error('Failed to complete occurrence:', e));
+  }
+
+  // ── Subtasks and dependencies ──────────────────────────────────
+
+  addSubtask(parentId: string, title: string): void {
+    const parent = this.getTaskById(parentId);
+    if (!parent) return;
+    this.addTask({ title, parentId, importance: parent.importance, urgency: parent.urgency, tags: parent.tags });
+  }
+
+  /** Moves a task under another one, or back to the top level with null. Throws on a cycle. */
+  setParent(id: string, parentId: string | null): void {
+    if (parentId && wouldCreateParentCycle(this.tasksSubject.value, id, parentId)) {
+      throw new Error('A task can\'t be moved under one of its own subtasks.');
+    }
+    updateDoc(this.taskDocRef(id), { parentId })
+      .catch(e => console.error('Failed to move task:', e));
+  }
+
+  /** Marks `id` as blocked by `blockerId`. Throws when the link would make tasks wait on each other. */
+  addBlocker(id: string, blockerId: string): void {
+    if (wouldCreateDependencyCycle(this.tasksSubject.value, id, blockerId)) {
+      const blocker = this.getTaskById(blockerId);
+      throw new Error(blockerId === id
+        ? 'A task can\'t block itself.'
+        : `"${blocker?.title ?? 'That task'}" already waits on this task, directly or through others.`);
+    }
+    updateDoc(this.taskDocRef(id), { blockedBy: arrayUnion(blockerId) })
+      .catch(e => console.error('Failed to add blocker:', e));
+  }
+
+  removeBlocker(id: string, blockerId: string): void {
+    updateDoc(this.taskDocRef(id), { blockedBy: arrayRemove(blockerId) })
+      .catch(e => console.error('Failed to remove blocker:', e));
+  }
+
+  // ── Links to other trackers ───────────────────────────────────
+
+  /** Links an item to the task; an item that is already linked is left as it is. */
+  addLink(id: string, link: TaskLink): void {
+    const task = this.getTaskById(id);
+    if (!task || task.links?.some(l => l.source === link.source && l.ref === link.ref)) return;
+    updateDoc(this.taskDocRef(id), { links: [...(task.links ?? []), link] })
+      .catch(e => console.error('Failed to link item:', e));
+  }
+
+  removeLink(id: string, link: TaskLink): void {
+    const task = this.getTaskById(id);
+    if (!task) return;
+    const links = (task.links ?? []).filter(l => !(l.source === link.source && l.ref === link.ref));
+    updateDoc(this.taskDocRef(id), { links, ...(links.length ? {} : { completeWithLinks: false }) })
+      .catch(e => console.error('Failed to unlink item:', e));
+  }
+
+  /**
+   * Completes a task whose linked items are all done and turns the option off, so reopening
+   * the task by hand keeps it open.
+   */
+  completeFromLinks(id: string): void {
+    const task = this.getTaskById(id);
+    if (!task || task.completed) return;
+    updateDoc(this.taskDocRef(id), { completed: true, completedAt: new Date(), completeWithLinks: false })
+      .catch(e => console.error('Failed to complete task from its links:', e));
+  }
+
+  /** Deleting a task moves its subtasks to the top level and drops it from other tasks' blockers. */
   deleteTask(id: string): void {
-    deleteDoc(this.taskDocRef(id))
-      .catch(e => console.error('Failed to delete task:', e));
+    if (!this.currentUserId) return;
+    const batch = writeBatch(this.firestore);
+    batch.delete(this.taskDocRef(id));
+    this.tasksSubject.value.forEach(t => {
+      if (t.parentId === id) batch.update(this.taskDocRef(t.id), { parentId: null });
+      if (t.blockedBy?.includes(id)) batch.update(this.taskDocRef(t.id), { blockedBy: arrayRemove(id) });
+    });
+    batch.commit().catch(e => console.error('Failed to delete task:', e));
   }
 
   deleteCompletedTasks(): void {
@@ -222,10 +554,14 @@ export class TaskService {
     try {
       const tasks: Task[] = JSON.parse(jsonString);
       const batch = writeBatch(this.firestore);
-      tasks.forEach(task => {
-        const ref = doc(this.tasksCollectionRef(this.currentUserId!));
+      // Imported tasks get new ids, so subtask and blocker links are pointed at those
+      const refs = tasks.map(() => doc(this.tasksCollectionRef(this.currentUserId!)));
+      const newIds = new Map(tasks.map((task, i) => [task.id, refs[i].id]));
+      tasks.forEach((task, i) => {
         const { id, ...data } = task;
-        batch.set(ref, this.toFirestoreData(data));
+        data.parentId = data.parentId ? newIds.get(data.parentId) : undefined;
+        data.blockedBy = (data.blockedBy ?? []).map(b => newIds.get(b)).filter((b): b is string => !!b);
+        batch.set(refs[i], this.toFirestoreData(data));
       });
       batch.commit().catch(e => console.error('Failed to import tasks:', e));
     } catch {
@@ -253,24 +589,52 @@ export class TaskService {
     };
   }
 
-  startTimeTracking(id: string): void {
+  /** Appends a finished focus period to the task's session log. */
+  addFocusSession(id: string, session: FocusSession): void {
+    updateDoc(this.taskDocRef(id), {
+      focusSessions: arrayUnion({
+        startedAt: session.startedAt.toISOString(),
+        endedAt: session.endedAt.toISOString(),
+        seconds: session.seconds,
+        plannedMinutes: session.plannedMinutes,
+        completed: session.completed,
+        interruptions: session.interruptions.map(i => ({ at: i.at.toISOString(), note: i.note }))
+      })
+    }).catch(e => console.error('Failed to log focus session:', e));
+  }
+
+  /** Starts the task's timer; any running timer, this one included, is stopped and logged first. */
+  startTimeTracking(id: string, source: TimeEntrySource = 'timer'): void {
     const runningTasks = this.tasksSubject.value.filter(t => t.isTimeRunning);
     runningTasks.forEach(task => this.stopTimeTracking(task.id));
     updateDoc(this.taskDocRef(id), {
       isTimeRunning: true,
-      timeStartedAt: Date.now()
+      timeStartedAt: Date.now(),
+      timeSource: source
     }).catch(e => console.error('Failed to start time tracking:', e));
   }
 
-  stopTimeTracking(id: string): void {
+  /**
+   * Stops the task's timer and logs the session as a time entry. `end` backdates the stop for a
+   * timer that was left running.
+   */
+  stopTimeTracking(id: string, end = new Date()): void {
     const task = this.getTaskById(id);
     if (!task || !task.isTimeRunning || !task.timeStartedAt) return;
-    const sessionTime = Math.floor((Date.now() - task.timeStartedAt) / 1000);
-    const totalTime = (task.timeTracked || 0) + sessionTime;
+    if (end.getTime() - task.timeStartedAt >= 1000) {
+      this.timeEntries.addEntry({
+        taskId: id,
+        taskTitle: task.title,
+        start: new Date(task.timeStartedAt),
+        end,
+        note: null,
+        source: task.timeSource ?? 'timer'
+      }).catch(e => console.error('Failed to log time entry:', e));
+    }
     updateDoc(this.taskDocRef(id), {
       isTimeRunning: false,
       timeStartedAt: null,
-      timeTracked: totalTime
+      timeSource: null
     }).catch(e => console.error('Failed to stop time tracking:', e));
   }
 
@@ -290,27 +654,25 @@ export class TaskService {
     return Math.floor((Date.now() - task.timeStartedAt) / 1000);
   }
 
+  /** Time before the ledger, plus every logged entry, plus the running session. */
   getTotalTrackedTime(id: string): number {
     const task = this.getTaskById(id);
     if (!task) return 0;
-    let totalTime = task.timeTracked || 0;
-    if (task.isTimeRunning && task.timeStartedAt) {
-      totalTime += Math.floor((Date.now() - task.timeStartedAt) / 1000);
-    }
-    return totalTime;
+    return (task.timeTracked || 0) + this.timeEntries.trackedSeconds(id) + this.getCurrentSessionTime(id);
   }
 
+  /** Drops the task's tracked time, its logged entries included, without logging a running session. */
   resetTimeTracking(id: string): void {
     const task = this.getTaskById(id);
     if (!task) return;
-    if (task.isTimeRunning) {
-      this.stopTimeTracking(id);
-    }
     updateDoc(this.taskDocRef(id), {
       timeTracked: 0,
       isTimeRunning: false,
-      timeStartedAt: null
+      timeStartedAt: null,
+      timeSource: null
     }).catch(e => console.error('Failed to reset time tracking:', e));
+    this.timeEntries.deleteEntriesForTask(id)
+      .catch(e => console.error('Failed to delete time entries:', e));
   }
 
   formatTime(seconds: number): string {
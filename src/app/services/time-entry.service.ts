@@ -0,0 +1,204 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  Firestore, collection, doc, addDoc, setDoc, updateDoc, deleteDoc,
+  onSnapshot, query, orderBy, writeBatch
+} from '@angular/fire/firestore';
+import { Auth, user } from '@angular/fire/auth';
+import { TaskLink } from './task.service';
+
+/** Where a session came from: a task timer, a focus session, typed in by hand, or a calendar meeting. */
+export type TimeEntrySource = 'timer' | 'focus' | 'manual' | 'calendar';
+
+export const TIME_ENTRY_SOURCES: Record<TimeEntrySource, { label: string; icon: string }> = {
+  timer: { label: 'Timer', icon: 'fa-solid fa-stopwatch' },
+  focus: { label: 'Focus session', icon: 'fa-solid fa-bullseye' },
+  manual: { label: 'Added by hand', icon: 'fa-solid fa-keyboard' },
+  calendar: { label: 'Meeting', icon: 'fa-regular fa-calendar' }
+};
+
+/** One stretch of time spent on a task, or on a work item with no task of its own. */
+export interface TimeEntry {
+  id: string;
+  /** Empty for meetings logged against a work item, or against nothing in particular. */
+  taskId: string;
+  /** The task's title when the entry was made, so the entry still reads sensibly if the task is deleted. */
+  taskTitle: string;
+  start: Date;
+  end: Date;
+  note: string | null;
+  source: TimeEntrySource;
+  /** The Linear issue or ADO work item the time is for, when it isn't on a task. */
+  link?: TaskLink | null;
+  /** Calendar event a meeting entry was made from. */
+  eventId?: string | null;
+}
+
+export type TimeEntryDraft = Omit<TimeEntry, 'id'>;
+
+export function entrySeconds(entry: Pick<TimeEntry, 'start' | 'end'>): number {
+  return Math.max(0, Math.round((entry.end.getTime() - entry.start.getTime()) / 1000));
+}
+
+/** What an entry is booked against: its task, else its work item, else the shared "meetings" bucket. */
+export function entryTargetKey(entry: Pick<TimeEntry, 'taskId' | 'link'>): string {
+  if (entry.taskId) return `task:${entry.taskId}`;
+  return entry.link ? `link:${entry.link.source}:${entry.link.ref}` : 'meetings';
+}
+
+/**
+ * The time-entry ledger: every finished session on a task, and meetings logged from the
+ * calendar, stored under `users/{uid}/timeEntries`. Running timers stay on the task until
+ * they are stopped.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TimeEntryService {
+  private entriesSubject = new BehaviorSubject<TimeEntry[]>([]);
+  /** Newest first. */
+  public entries$: Observable<TimeEntry[]> = this.entriesSubject.asObservable();
+
+  private loadedSubject = new BehaviorSubject<boolean>(false);
+  /** True once the first snapshot has arrived, so "is this already logged?" can be answered. */
+  public loaded$: Observable<boolean> = this.loadedSubject.asObservable();
+
+  private unsubscribeEntries: (() => void) | null = null;
+  private currentUserId: string | null = null;
+
+  constructor(private firestore: Firestore, private auth: Auth) {
+    user(this.auth).subscribe(firebaseUser => {
+      this.cleanup();
+      if (firebaseUser) {
+        this.currentUserId = firebaseUser.uid;
+        this.subscribeEntries(firebaseUser.uid);
+      } else {
+        this.currentUserId = null;
+        this.entriesSubject.next([]);
+      }
+    });
+  }
+
+  private entriesCollectionRef(uid: string) {
+    return collection(this.firestore, `users/${uid}/timeEntries`);
+  }
+
+  private entryDocRef(id: string) {
+    if (!this.currentUserId) throw new Error('User not authenticated');
+    return doc(this.firestore, `users/${this.currentUserId}/timeEntries/${id}`);
+  }
+
+  private subscribeEntries(uid: string): void {
+    const q = query(this.entriesCollectionRef(uid), orderBy('start', 'desc'));
+    this.unsubscribeEntries = onSnapshot(q, snapshot => {
+      this.entriesSubject.next(snapshot.docs.map(d => this.fromFirestore(d.id, d.data())));
+      this.loadedSubject.next(true);
+    }, e => console.error('Failed to listen to time entries:', e));
+  }
+
+  private cleanup(): void {
+    if (this.unsubscribeEntries) {
+      this.unsubscribeEntries();
+      this.unsubscribeEntries = null;
+    }
+    this.loadedSubject.next(false);
+  }
+
+  private fromFirestore(id: string, data: any): TimeEntry {
+    return {
+      id,
+      taskId: data['taskId'] ?? '',
+      taskTitle: data['taskTitle'] ?? '',
+      start: data['start']?.toDate?.() ?? new Date(data['start']),
+      end: data['end']?.toDate?.() ?? new Date(data['end']),
+      note: data['note'] ?? null,
+      source: data['source'] ?? 'manual',
+      link: data['link'] ?? null,
+      eventId: data['eventId'] ?? null
+    };
+  }
+
+  getEntries(): TimeEntry[] {
+    return this.entriesSubject.value;
+  }
+
+  entriesForTask(taskId: string): TimeEntry[] {
+    return this.entriesSubject.value.filter(e => e.taskId === taskId);
+  }
+
+  /** Seconds logged on a task across all its entries. */
+  trackedSeconds(taskId: string): number {
+    return this.entriesForTask(taskId).reduce((sum, e) => sum + entrySeconds(e), 0);
+  }
+
+  private validate(entry: Pick<TimeEntry, 'start' | 'end'>): void {
+    if (isNaN(entry.start.getTime()) || isNaN(entry.end.getTime())) throw new Error('Enter a start and an end time.');
+    if (entry.end <= entry.start) throw new Error('The end time has to be after the start time.');
+  }
+
+  /** Adds an entry; with an `id`, writing it again replaces it rather than adding a second copy. */
+  async addEntry(draft: TimeEntryDraft, id?: string): Promise<void> {
+    if (!this.currentUserId) return;
+    this.validate(draft);
+    const data = { ...draft, note: draft.note?.trim() || null, link: draft.link ?? null, eventId: draft.eventId ?? null };
+    if (id) await setDoc(this.entryDocRef(id), data);
+    else await addDoc(this.entriesCollectionRef(this.currentUserId), data);
+  }
+
+  async updateEntry(id: string, updates: Partial<TimeEntryDraft>): Promise<void> {
+    const entry = this.entriesSubject.value.find(e => e.id === id);
+    if (!entry) return;
+    this.validate({ ...entry, ...updates });
+    const data: Record<string, any> = { ...updates };
+    if ('note' in updates) data['note'] = updates.note?.trim() || null;
+    await updateDoc(this.entryDocRef(id), data);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    if (!this.currentUserId) return;
+    await deleteDoc(this.entryDocRef(id));
+  }
+
+  /** Cuts an entry in two at `at`; both halves keep the task, note and source. */
+  async splitEntry(id: string, at: Date): Promise<void> {
+    const entry = this.entriesSubject.value.find(e => e.id === id);
+    if (!entry || !this.currentUserId) return;
+    if (!(at > entry.start && at < entry.end)) throw new Error('Split at a time between the entry\'s start and end.');
+    const batch = writeBatch(this.firestore);
+    batch.update(this.entryDocRef(id), { end: at });
+    const { id: _, ...rest } = entry;
+    batch.set(doc(this.entriesCollectionRef(this.currentUserId)), { ...rest, start: at });
+    await batch.commit();
+  }
+
+  /**
+   * Joins entries booked against the same task or work item into one running from the earliest
+   * start to the latest end, with their notes combined. Any gap between them is counted.
+   */
+  async mergeEntries(ids: string[]): Promise<void> {
+    const entries = this.entriesSubject.value
+      .filter(e => ids.includes(e.id))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+    if (entries.length < 2 || !this.currentUserId) return;
+    if (new Set(entries.map(entryTargetKey)).size > 1) throw new Error('Only entries on the same task can be merged.');
+    const [first, ...others] = entries;
+    const notes = [...new Set(entries.map(e => e.note).filter((n): n is string => !!n))];
+    const batch = writeBatch(this.firestore);
+    batch.update(this.entryDocRef(first.id), {
+      end: new Date(Math.max(...entries.map(e => e.end.getTime()))),
+      note: notes.length ? notes.join('; ') : null,
+      source: entries.every(e => e.source === first.source) ? first.source : 'manual'
+    });
+    others.forEach(e => batch.delete(this.entryDocRef(e.id)));
+    await batch.commit();
+  }
+
+  /** Removes every entry on a task, for resetting its tracked time. */
+  async deleteEntriesForTask(taskId: string): Promise<void> {
+    const entries = this.entriesForTask(taskId);
+    if (!entries.length || !this.currentUserId) return;
+    const batch = writeBatch(this.firestore);
+    entries.forEach(e => batch.delete(this.entryDocRef(e.id)));
+    await batch.commit();
+  }
+}
@@ -0,0 +1,151 @@
+import { Task, TaskLink } from './task.service';
+import { TimeEntry } from './time-entry.service';
+import { dayKey, parseDayKey } from './local-date';
+import { adoCompletedWorkCsv, buildTimesheet, dayAccounting, entriesInWeek, timesheetCsv, toHours } from './timesheet';
+
+function task(id: string, fields: Partial<Task> = {}): Task {
+  return { id, title: id, completed: false, createdAt: new Date(2026, 0, 1), ...fields };
+}
+
+function entry(taskId: string, start: Date, end: Date, fields: Partial<TimeEntry> = {}): TimeEntry {
+  return { id: `${taskId}-${start.getTime()}`, taskId, taskTitle: taskId, start, end, note: null, source: 'timer', ...fields };
+}
+
+function link(ref: string, key: string, title: string): TaskLink {
+  return { source: 'ado', ref, key, title, url: null };
+}
+
+const at = (day: string, hours: number, minutes = 0) => new Date(`${day}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`);
+
+describe('timesheet', () => {
+  const weekStart = parseDayKey('2026-03-09');
+
+  describe('week boundaries', () => {
+    it('takes entries that started in the week, oldest first', () => {
+      const entries = [
+        entry('a', at('2026-03-11', 9), at('2026-03-11', 10)),
+        entry('b', at('2026-03-09', 0), at('2026-03-09', 1)),
+        entry('c', at('2026-03-16', 0), at('2026-03-16', 1))
+      ];
+      expect(entriesInWeek(entries, weekStart).map(e => e.taskId)).toEqual(['b', 'a']);
+    });
+
+    it('leaves an entry that ran into the week in the week it started', () => {
+      const late = entry('a', at('2026-03-08', 23, 30), at('2026-03-09', 0, 30));
+      expect(entriesInWeek([late], weekStart)).toEqual([]);
+      expect(entriesInWeek([late], parseDayKey('2026-03-02'))).toEqual([late]);
+    });
+
+    it('lays out the days Monday first at local midnight, across a DST change', () => {
+      for (const start of ['2026-03-02', '2026-03-23', '2026-10-26']) {
+        const sheet = buildTimesheet([], [], parseDayKey(start));
+        expect(sheet.dates.length).toBe(7);
+        expect(sheet.dates.every(d => d.getHours() === 0)).toBeTrue();
+        expect(sheet.dates.map(d => d.getDay())).toEqual([1, 2, 3, 4, 5, 6, 0]);
+      }
+      expect(buildTimesheet([], [], parseDayKey('2026-03-23')).dates.map(dayKey)).toEqual([
+        '2026-03-23', '2026-03-24', '2026-03-25', '2026-03-26', '2026-03-27', '2026-03-28', '2026-03-29'
+      ]);
+    });
+  });
+
+  describe('spanning midnight', () => {
+    it('counts the whole entry on the day it started', () => {
+      const sheet = buildTimesheet([entry('a', at('2026-03-10', 22), at('2026-03-11', 2))], [task('a')], weekStart);
+      expect(sheet.rows[0].days).toEqual([0, 4 * 3600, 0, 0, 0, 0, 0]);
+      expect(sheet.dayTotals[2]).toBe(0);
+      expect(sheet.total).toBe(4 * 3600);
+    });
+
+    it('counts an entry from late on Sunday in its own week', () => {
+      const sheet = buildTimesheet([entry('a', at('2026-03-15', 23), at('2026-03-16', 1))], [task('a')], weekStart);
+      expect(sheet.rows[0].days[6]).toBe(2 * 3600);
+    });
+
+    it('writes the entry\'s start day in the CSV', () => {
+      const csv = timesheetCsv([entry('a', at('2026-03-10', 23), at('2026-03-11', 0, 30))], [task('a')], weekStart);
+      expect(csv.split('\r\n')[1]).toBe('2026-03-10,,,a,1.5,');
+    });
+  });
+
+  describe('rows', () => {
+    it('groups by task, busiest first, under the task\'s current title', () => {
+      const tasks = [task('a', { title: 'Renamed' }), task('b')];
+      const sheet = buildTimesheet([
+        entry('a', at('2026-03-09', 9), at('2026-03-09', 10)),
+        entry('b', at('2026-03-09', 10), at('2026-03-09', 13)),
+        entry('a', at('2026-03-10', 9), at('2026-03-10', 10)),
+        entry('gone', at('2026-03-10', 9), at('2026-03-10', 9, 30), { taskTitle: 'Old task' })
+      ], tasks, weekStart);
+      expect(sheet.rows.map(r => [r.title, r.total])).toEqual([['b', 10800], ['Renamed', 7200], ['Old task', 1800]]);
+    });
+  });
+
+  describe('CSV', () => {
+    it('rounds hours to two places', () => {
+      expect(toHours(3600)).toBe(1);
+      expect(toHours(1000)).toBe(0.28);
+    });
+
+    it('combines a day\'s notes and quotes cells that need it', () => {
+      const tasks = [task('a', { title: 'Fix "login", again', links: [link('4567', 'Bug 4567', 'Login fails')] })];
+      const csv = timesheetCsv([
+        entry('a', at('2026-03-09', 9), at('2026-03-09', 10), { note: 'repro' }),
+        entry('a', at('2026-03-09', 11), at('2026-03-09', 11, 30), { note: 'fix' })
+      ], tasks, weekStart);
+      expect(csv).toBe(
+        'Date,Work item,Work item title,Task,Hours,Notes\r\n'
+        + '2026-03-09,Bug 4567,Login fails,"Fix ""login"", again",1.5,repro; fix\r\n'
+      );
+    });
+
+    it('adds up the week\'s hours on each ADO work item', () => {
+      const bug = link('4567', 'Bug 4567', 'Login fails');
+      const pasted = link('89', 'Work item 89', 'Pasted');
+      const csv = adoCompletedWorkCsv([
+        entry('a', at('2026-03-09', 9), at('2026-03-09', 10)),
+        entry('a', at('2026-03-12', 9), at('2026-03-12', 9, 30)),
+        entry('', at('2026-03-12', 14), at('2026-03-12', 15), { link: pasted }),
+        entry('b', at('2026-03-12', 9), at('2026-03-12', 10))
+      ], [task('a', { links: [bug] }), task('b')], weekStart);
+      expect(csv).toBe(
+        'ID,Work Item Type,Title,Completed Work\r\n'
+        + '4567,Bug,Login fails,1.5\r\n'
+        + '89,,Pasted,1\r\n'
+      );
+    });
+  });
+
+  describe('unaccounted time', () => {
+    const hours = { workdayStart: '09:00', workdayEnd: '17:00', workdays: [1, 2, 3, 4, 5] };
+    const day = parseDayKey('2026-03-10');
+
+    it('finds the gaps between tracked time and meetings', () => {
+      const result = dayAccounting(day, hours,
+        [{ start: at('2026-03-10', 8), end: at('2026-03-10', 10) }, { start: at('2026-03-10', 13), end: at('2026-03-10', 14) }],
+        [{ start: at('2026-03-10', 9, 30), end: at('2026-03-10', 11) }],
+        at('2026-03-11', 9));
+      expect(result.working).toBe(8 * 3600);
+      expect(result.tracked).toBe(2 * 3600);
+      expect(result.meetings).toBe(3600);
+      expect(result.unaccounted).toBe(5 * 3600);
+      expect(result.gaps.map(g => [g.start.getHours(), g.end.getHours()])).toEqual([[11, 13], [14, 17]]);
+    });
+
+    it('stops today\'s working day at now', () => {
+      const result = dayAccounting(day, hours, [], [], at('2026-03-10', 12));
+      expect(result.working).toBe(3 * 3600);
+      expect(result.unaccounted).toBe(3 * 3600);
+    });
+
+    it('counts tracked time that ran past midnight into the next day', () => {
+      const result = dayAccounting(parseDayKey('2026-03-11'), hours,
+        [{ start: at('2026-03-10', 22), end: at('2026-03-11', 10) }], [], at('2026-03-12', 9));
+      expect(result.tracked).toBe(3600);
+    });
+
+    it('is empty on a day off', () => {
+      expect(dayAccounting(parseDayKey('2026-03-14'), hours, [], [], at('2026-03-15', 9)).window).toBeNull();
+    });
+  });
+});
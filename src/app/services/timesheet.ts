@@ -0,0 +1,237 @@
+import { Task, TaskLink } from './task.service';
+import { TimeEntry, entrySeconds, entryTargetKey } from './time-entry.service';
+import { addDays, dayKey } from './local-date';
+
+/**
+ * Weekly timesheets from the time-entry ledger: hours per task per day, the CSV files they
+ * are exported as, and how much of a working day went untracked. An entry counts towards the
+ * day it started on, even if it runs past midnight.
+ */
+
+export interface TimesheetRow {
+  /** See `entryTargetKey`. */
+  key: string;
+  title: string;
+  /** Seconds on each day of the week, Monday first. */
+  days: number[];
+  total: number;
+}
+
+export interface Timesheet {
+  /** Midnight on the Monday the week starts. */
+  weekStart: Date;
+  /** Each day of the week, Monday first. */
+  dates: Date[];
+  rows: TimesheetRow[];
+  dayTotals: number[];
+  total: number;
+}
+
+/** Entries that started in the week beginning `weekStart`, oldest first. */
+export function entriesInWeek(entries: TimeEntry[], weekStart: Date): TimeEntry[] {
+  const end = addDays(weekStart, 7);
+  return entries
+    .filter(e => e.start >= weekStart && e.start < end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * What an entry is booked against, for display: the task's current title (or the one saved on
+ * the entry once the task is gone), the work item, or "Meetings" for meetings no rule matched.
+ */
+export function entryTargetTitle(entry: TimeEntry, tasks: Map<string, Task>): string {
+  if (entry.taskId) return tasks.get(entry.taskId)?.title ?? (entry.taskTitle || 'Deleted task');
+  return entry.link ? `${entry.link.key}: ${entry.link.title}` : 'Meetings';
+}
+
+export function buildTimesheet(entries: TimeEntry[], tasks: Task[], weekStart: Date): Timesheet {
+  const dates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const keys = dates.map(dayKey);
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const rows = new Map<string, TimesheetRow>();
+  for (const entry of entriesInWeek(entries, weekStart)) {
+    const day = keys.indexOf(dayKey(entry.start));
+    if (day < 0) continue;
+    const key = entryTargetKey(entry);
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, title: entryTargetTitle(entry, byId), days: Array(7).fill(0), total: 0 };
+      rows.set(key, row);
+    }
+    const seconds = entrySeconds(entry);
+    row.days[day] += seconds;
+    row.total += seconds;
+  }
+  const sorted = [...rows.values()].sort((a, b) => b.total - a.total);
+  const dayTotals = dates.map((_, i) => sorted.reduce((sum, r) => sum + r.days[i], 0));
+  return { weekStart, dates, rows: sorted, dayTotals, total: dayTotals.reduce((a, b) => a + b, 0) };
+}
+
+/** Decimal hours to two places, as timesheets and ADO's Completed Work take them. */
+export function toHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * The work item an entry is tracked against: its own, or its task's first linked ADO item,
+ * else the task's first link of any kind.
+ */
+function workItemFor(entry: TimeEntry, task: Task | undefined): TaskLink | null {
+  if (entry.link) return entry.link;
+  const links = task?.links ?? [];
+  return links.find(l => l.source === 'ado') ?? links[0] ?? null;
+}
+
+/**
+ * Hours per work item per day: one row for each task and day with time logged, keyed by the
+ * task's linked work item where it has one. Notes from that day's entries are combined.
+ */
+export function timesheetCsv(entries: TimeEntry[], tasks: Task[], weekStart: Date): string {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const rows = new Map<string, { date: string; task: string; item: TaskLink | null; seconds: number; notes: string[] }>();
+  for (const entry of entriesInWeek(entries, weekStart)) {
+    const date = dayKey(entry.start);
+    const key = `${date}|${entryTargetKey(entry)}`;
+    let row = rows.get(key);
+    if (!row) {
+      const task = byId.get(entry.taskId);
+      row = { date, task: task?.title ?? entry.taskTitle, item: workItemFor(entry, task), seconds: 0, notes: [] };
+      rows.set(key, row);
+    }
+    row.seconds += entrySeconds(entry);
+    if (entry.note && !row.notes.includes(entry.note)) row.notes.push(entry.note);
+  }
+  return toCsv([
+    ['Date', 'Work item', 'Work item title', 'Task', 'Hours', 'Notes'],
+    ...[...rows.values()].map(r => [
+      r.date, r.item?.key ?? '', r.item?.title ?? '', r.task, toHours(r.seconds), r.notes.join('; ')
+    ])
+  ]);
+}
+
+/**
+ * The week's hours on each linked ADO work item, laid out for Azure DevOps' CSV import
+ * (ID, Work Item Type, Title, Completed Work). Completed Work here is only this week's hours,
+ * so add it to the item's existing value before importing. Tasks without an ADO link are left out.
+ */
+export function adoCompletedWorkCsv(entries: TimeEntry[], tasks: Task[], weekStart: Date): string {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const items = new Map<string, { link: TaskLink; seconds: number }>();
+  for (const entry of entriesInWeek(entries, weekStart)) {
+    const link = entry.link?.source === 'ado' ? entry.link : byId.get(entry.taskId)?.links?.find(l => l.source === 'ado');
+    if (!link) continue;
+    const item = items.get(link.ref) ?? { link, seconds: 0 };
+    item.seconds += entrySeconds(entry);
+    items.set(link.ref, item);
+  }
+  return toCsv([
+    ['ID', 'Work Item Type', 'Title', 'Completed Work'],
+    ...[...items.values()].map(({ link, seconds }) => {
+      // Keys read "Bug 4567"; pasted links only know the id
+      const type = link.key.endsWith(` ${link.ref}`) && !link.key.startsWith('Work item') ? link.key.slice(0, -link.ref.length - 1) : '';
+      return [link.ref, type, link.title, toHours(seconds)];
+    })
+  ]);
+}
+
+// ── Unaccounted time ────────────────────────────────────────────
+
+export interface TimeSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface WorkingHours {
+  /** `HH:mm`. */
+  workdayStart: string;
+  workdayEnd: string;
+  /** 0 = Sunday. */
+  workdays: number[];
+}
+
+export interface DayAccounting {
+  /** The working hours for the day, cut off at now for today; null on a day off. */
+  window: TimeSpan | null;
+  working: number;
+  /** Seconds covered by time entries and the running timer. */
+  tracked: number;
+  /** Seconds in meetings that aren't already covered by an entry. */
+  meetings: number;
+  unaccounted: number;
+  /** The untracked stretches of the working day, oldest first. */
+  gaps: TimeSpan[];
+}
+
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours || 0, minutes || 0);
+}
+
+/** Spans cut to `window`, overlaps joined, oldest first. */
+function unionWithin(spans: TimeSpan[], window: TimeSpan): TimeSpan[] {
+  const clipped = spans
+    .map(s => ({ start: s.start > window.start ? s.start : window.start, end: s.end < window.end ? s.end : window.end }))
+    .filter(s => s.end > s.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeSpan[] = [];
+  for (const span of clipped) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      if (span.end > last.end) last.end = span.end;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+function spanSeconds(spans: TimeSpan[]): number {
+  return spans.reduce((sum, s) => sum + entrySeconds(s), 0);
+}
+
+/**
+ * How a working day was spent: tracked time (entries and the running timer), meetings on top
+ * of that, and the rest. Meetings already logged as entries, or that overlap tracked time,
+ * only count once.
+ */
+export function dayAccounting(
+  day: Date, hours: WorkingHours, tracked: TimeSpan[], meetings: TimeSpan[], now = new Date()
+): DayAccounting {
+  const empty: DayAccounting = { window: null, working: 0, tracked: 0, meetings: 0, unaccounted: 0, gaps: [] };
+  if (!hours.workdays.includes(day.getDay())) return empty;
+  const start = atTime(day, hours.workdayStart);
+  const workdayEnd = atTime(day, hours.workdayEnd);
+  const end = workdayEnd < now ? workdayEnd : now;
+  if (end <= start) return empty;
+
+  const window = { start, end };
+  const trackedSpans = unionWithin(tracked, window);
+  const covered = unionWithin([...trackedSpans, ...meetings], window);
+  const gaps: TimeSpan[] = [];
+  let cursor = start;
+  for (const span of covered) {
+    if (span.start > cursor) gaps.push({ start: cursor, end: span.start });
+    cursor = span.end;
+  }
+  if (cursor < end) gaps.push({ start: cursor, end });
+
+  const trackedSeconds = spanSeconds(trackedSpans);
+  const coveredSeconds = spanSeconds(covered);
+  return {
+    window,
+    working: entrySeconds(window),
+    tracked: trackedSeconds,
+    meetings: coveredSeconds - trackedSeconds,
+    unaccounted: spanSeconds(gaps),
+    gaps
+  };
+}
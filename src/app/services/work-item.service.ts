@@ -0,0 +1,237 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest } from 'rxjs';
+import { AdoService, AdoWorkItem } from './ado.service';
+import { LinearService, LinearIssue } from './linear.service';
+import { GitHubPrService, GitHubPullRequest } from './github-pr.service';
+import { parseDayKey } from './local-date';
+
+export type WorkItemSource = 'ado' | 'linear' | 'github';
+
+/** Tracker-agnostic lifecycle bucket each source's state is folded into. */
+export type WorkItemStateCategory = 'backlog' | 'todo' | 'in-progress' | 'in-review' | 'done' | 'cancelled';
+
+export type WorkItemPriority = 'urgent' | 'high' | 'medium' | 'low' | 'none';
+
+export interface WorkItemLink {
+  rel: 'parent' | 'child' | 'related' | 'pull-request' | 'other';
+  url: string;
+  label?: string;
+}
+
+export interface WorkItem {
+  /** Globally unique: `${source}:${sourceId}`. */
+  id: string;
+  source: WorkItemSource;
+  sourceId: string;
+  /** Human-facing identifier, e.g. "ENG-123", "Bug 4567" or "owner/repo#42". */
+  key: string;
+  title: string;
+  /** The tracker's own state name (e.g. "In Review", "Active"). */
+  state: string;
+  stateCategory: WorkItemStateCategory;
+  priority: WorkItemPriority;
+  dueDate: Date | null;
+  assignee: string | null;
+  url: string | null;
+  updatedAt: Date | null;
+  /** Project, area or repository the item belongs to. */
+  container: string | null;
+  labels: string[];
+  estimate: number | null;
+  links: WorkItemLink[];
+}
+
+export const WORK_ITEM_SOURCE_LABELS: Record<WorkItemSource, string> = {
+  ado: 'Azure DevOps',
+  linear: 'Linear',
+  github: 'GitHub PRs'
+};
+
+const PRIORITY_LABELS: Record<WorkItemPriority, string> = {
+  urgent: 'Urgent', high: 'High', medium: 'Medium', low: 'Low', none: ''
+};
+
+export function isOpenWorkItem(item: WorkItem): boolean {
+  return item.stateCategory !== 'done' && item.stateCategory !== 'cancelled';
+}
+
+/**
+ * One markdown bullet per item for AI prompts:
+ * `- [ENG-123](url): Title [Project, label] (High | 3pt | In Progress | due Oct 20)`
+ */
+export function formatWorkItemForPrompt(item: WorkItem): string {
+  const ref = item.url ? `[${item.key}](${item.url})` : item.key;
+  const tags = [item.container, ...item.labels].filter(Boolean).join(', ');
+  const due = item.dueDate
+    ? `due ${item.dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    : '';
+  const est = item.estimate != null ? `${item.estimate}pt` : '';
+  const meta = [PRIORITY_LABELS[item.priority], est, item.state, due].filter(Boolean).join(' | ');
+  return `- ${ref}: ${item.title}${tags ? ` [${tags}]` : ''}${meta ? ` (${meta})` : ''}`;
+}
+
+// ── Adapters ─────────────────────────────────────────────────────
+
+export function fromLinearIssue(issue: LinearIssue, assignee: string | null = null): WorkItem {
+  const priorities: WorkItemPriority[] = ['none', 'urgent', 'high', 'medium', 'low'];
+  return {
+    id: `linear:${issue.id}`,
+    source: 'linear',
+    sourceId: issue.id,
+    key: issue.identifier,
+    title: issue.title,
+    state: issue.state.name,
+    stateCategory: linearStateCategory(issue.state.type, issue.state.name),
+    priority: priorities[issue.priority] ?? 'none',
+    dueDate: issue.dueDate ? parseDayKey(issue.dueDate) : null,
+    assignee,
+    url: issue.url,
+    updatedAt: new Date(issue.updatedAt),
+    container: issue.project?.name ?? null,
+    labels: issue.labels.nodes.map(l => l.name),
+    estimate: issue.estimate,
+    links: []
+  };
+}
+
+function linearStateCategory(type: string, name: string): WorkItemStateCategory {
+  switch (type) {
+    case 'backlog':
+    case 'triage':    return 'backlog';
+    case 'unstarted': return 'todo';
+    case 'started':   return name.toLowerCase().includes('review') ? 'in-review' : 'in-progress';
+    case 'completed': return 'done';
+    case 'canceled':
+    case 'cancelled': return 'cancelled';
+    default:          return 'backlog';
+  }
+}
+
+export function fromAdoWorkItem(item: AdoWorkItem, fallbackOrg = '', fallbackProject = ''): WorkItem {
+  const f = item.fields;
+  const id = f['System.Id'] || item.id;
+  const org = item.projectInfo?.organization ?? fallbackOrg;
+  const project = item.projectInfo?.project ?? fallbackProject;
+  const priorities: Record<number, WorkItemPriority> = { 1: 'urgent', 2: 'high', 3: 'medium', 4: 'low' };
+  return {
+    id: `ado:${id}`,
+    source: 'ado',
+    sourceId: String(id),
+    key: `${f['System.WorkItemType']} ${id}`,
+    title: f['System.Title'],
+    state: f['System.State'],
+    stateCategory: adoStateCategory(f['System.State']),
+    priority: priorities[f['Microsoft.VSTS.Common.Priority'] ?? 0] ?? 'none',
+    dueDate: f['Microsoft.VSTS.Scheduling.FinishDate'] ? new Date(f['Microsoft.VSTS.Scheduling.FinishDate']) : null,
+    assignee: f['System.AssignedTo']?.displayName ?? null,
+    url: org && project ? `https://dev.azure.com/${org}/${encodeURIComponent(project)}/_workitems/edit/${id}` : null,
+    updatedAt: f['System.ChangedDate'] ? new Date(f['System.ChangedDate']) : null,
+    container: project || f['System.AreaPath'] || null,
+    labels: [],
+    estimate: f['Microsoft.VSTS.Scheduling.StoryPoints'] ?? null,
+    links: (item.relations ?? [])
+      .map(r => adoRelationToLink(r))
+      .filter((l): l is WorkItemLink => l !== null)
+  };
+}
+
+function adoStateCategory(state: string): WorkItemStateCategory {
+  switch ((state ?? '').toLowerCase()) {
+    case 'new':
+    case 'to do':
+    case 'proposed':    return 'todo';
+    case 'active':
+    case 'in progress':
+    case 'committed':
+    case 'doing':       return 'in-progress';
+    case 'resolved':
+    case 'in review':   return 'in-review';
+    case 'closed':
+    case 'done':
+    case 'completed':   return 'done';
+    case 'removed':     return 'cancelled';
+    default:            return 'backlog';
+  }
+}
+
+function adoRelationToLink(relation: NonNullable<AdoWorkItem['relations']>[number]): WorkItemLink | null {
+  const label = relation.attributes?.name;
+  switch (relation.rel) {
+    case 'System.LinkTypes.Hierarchy-Reverse': return { rel: 'parent', url: relation.url, label };
+    case 'System.LinkTypes.Hierarchy-Forward': return { rel: 'child', url: relation.url, label };
+    case 'System.LinkTypes.Related':           return { rel: 'related', url: relation.url, label };
+    case 'Hyperlink':                          return { rel: 'other', url: relation.url, label };
+    case 'ArtifactLink':
+      return label === 'GitHub Pull Request' || label === 'Pull Request'
+        ? { rel: 'pull-request', url: relation.url, label }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function fromGitHubPullRequest(pr: GitHubPullRequest): WorkItem {
+  const state = pr.merged_at ? 'Merged' : pr.state === 'closed' ? 'Closed' : pr.draft ? 'Draft' : 'Open';
+  const category: WorkItemStateCategory = pr.merged_at ? 'done'
+    : pr.state === 'closed' ? 'cancelled'
+    : pr.draft ? 'in-progress'
+    : 'in-review';
+  return {
+    id: `github:${pr.id}`,
+    source: 'github',
+    sourceId: String(pr.id),
+    key: `${pr.repository.full_name}#${pr.number}`,
+    title: pr.title,
+    state,
+    stateCategory: category,
+    priority: 'none',
+    dueDate: null,
+    assignee: pr.assignees[0]?.login ?? pr.user?.login ?? null,
+    url: pr.html_url,
+    updatedAt: new Date(pr.updated_at),
+    container: pr.repository.full_name || null,
+    labels: pr.labels.map(l => l.name),
+    estimate: null,
+    links: []
+  };
+}
+
+/**
+ * Aggregates the work each tracker service has loaded into a single `WorkItem` stream,
+ * so widgets, AI prompts and search can treat ADO, Linear and GitHub uniformly.
+ * Fetching stays with the source services; this only re-shapes what they emit.
+ */
+@Injectable({ providedIn: 'root' })
+export class WorkItemService {
+  private workItemsSubject = new BehaviorSubject<WorkItem[]>([]);
+  readonly workItems$: Observable<WorkItem[]> = this.workItemsSubject.asObservable();
+
+  constructor(
+    private adoService: AdoService,
+    private linearService: LinearService,
+    private gitHubPrService: GitHubPrService
+  ) {
+    combineLatest([
+      this.adoService.workItems$,
+      this.linearService.issues$,
+      this.linearService.viewer$,
+      this.gitHubPrService.prs$
+    ]).subscribe(([adoItems, issues, viewer, prs]) => {
+      const org = this.adoService.getOrganization();
+      const project = this.adoService.getProject();
+      this.workItemsSubject.next([
+        ...adoItems.map(i => fromAdoWorkItem(i, org, project)),
+        ...issues.map(i => fromLinearIssue(i, viewer?.name ?? null)),
+        ...prs.map(pr => fromGitHubPullRequest(pr))
+      ]);
+    });
+  }
+
+  getWorkItems(): WorkItem[] {
+    return this.workItemsSubject.value;
+  }
+
+  getBySource(source: WorkItemSource): WorkItem[] {
+    return this.workItemsSubject.value.filter(w => w.source === source);
+  }
+}